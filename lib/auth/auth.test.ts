@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { guardRequest, quotaGuardResult } from "./guard";
+import { toQuotaResult } from "./quota";
+import type { AuthUser } from "./types";
+
+const user: AuthUser = {
+  id: "7d0c1f4e-2b8a-4c55-9e1d-3f6a8b2c9d10",
+  email: null,
+  role: "student",
+  plan: "free",
+  isStub: false,
+};
+const limits = { requestsPerMinute: 5, requestsPerDay: 30 };
+
+// 23:59:30 em Lisboa (UTC+1 no verão)
+const NOW = new Date("2026-10-19T22:59:30Z");
+
+describe("toQuotaResult", () => {
+  it("does not ask an allowed request to wait", () => {
+    const quota = toQuotaResult(limits, { allowed: true, minuteCount: 5, dayCount: 12 }, NOW);
+    assert.equal(quota.allowed, true);
+    assert.equal(quota.retryAfterSeconds, null);
+  });
+
+  it("waits for the next minute when only the minute is exhausted", () => {
+    const quota = toQuotaResult(limits, { allowed: false, minuteCount: 5, dayCount: 12 }, NOW);
+    assert.equal(quota.retryAfterSeconds, 30);
+  });
+
+  it("waits for midnight in Lisbon when the day is exhausted", () => {
+    const early = new Date("2026-10-19T09:00:00Z"); // 10:00 em Lisboa
+    const quota = toQuotaResult(limits, { allowed: false, minuteCount: 1, dayCount: 30 }, early);
+    assert.equal(quota.retryAfterSeconds, 14 * 3600);
+  });
+
+  it("ignores the day when there is no daily limit", () => {
+    const perMinute = { requestsPerMinute: 5, requestsPerDay: null };
+    const quota = toQuotaResult(perMinute, { allowed: false, minuteCount: 5, dayCount: 900 }, NOW);
+    assert.equal(quota.retryAfterSeconds, 30);
+  });
+});
+
+describe("quotaGuardResult", () => {
+  it("passes with the remaining requests in the headers", () => {
+    const result = quotaGuardResult(
+      user,
+      toQuotaResult(limits, { allowed: true, minuteCount: 2, dayCount: 10 }),
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(result.headers, {
+      "X-RateLimit-Limit": "5",
+      "X-RateLimit-Remaining": "3",
+      "X-Quota-Daily-Limit": "30",
+      "X-Quota-Daily-Remaining": "20",
+    });
+  });
+
+  it("answers 429 with Retry-After when the quota is exhausted", () => {
+    const result = quotaGuardResult(
+      user,
+      toQuotaResult(limits, { allowed: false, minuteCount: 5, dayCount: 30 }, NOW),
+    );
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.status, 429);
+    assert.equal(result.headers["Retry-After"], "30");
+    assert.equal(result.headers["X-Quota-Daily-Remaining"], "0");
+  });
+
+  it("sends no rate headers without limits", () => {
+    const unlimited = { requestsPerMinute: null, requestsPerDay: null };
+    const result = quotaGuardResult(
+      user,
+      toQuotaResult(unlimited, { allowed: true, minuteCount: 0, dayCount: 0 }),
+    );
+    assert.deepEqual(result.headers, {});
+  });
+});
+
+describe("guardRequest roles", () => {
+  const saved = { authMode: process.env.AUTH_MODE };
+
+  beforeEach(() => {
+    process.env.AUTH_MODE = "stub"; // sem BD: o modo stub não conta pedidos
+  });
+
+  afterEach(() => {
+    if (saved.authMode === undefined) delete process.env.AUTH_MODE;
+    else process.env.AUTH_MODE = saved.authMode;
+  });
+
+  it("lets the listed roles through", async () => {
+    const result = await guardRequest(
+      { "x-stub-user-role": "teacher" },
+      { quota: "read", roles: ["teacher", "admin"] },
+    );
+    assert.ok(result.ok);
+    assert.equal(result.user.role, "teacher");
+  });
+
+  it("answers 403 to the other roles", async () => {
+    const result = await guardRequest(
+      { "x-stub-user-role": "student" },
+      { quota: "read", roles: ["teacher", "admin"] },
+    );
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.status, 403);
+  });
+
+  it("treats an unknown role as a student", async () => {
+    const result = await guardRequest(
+      { "x-stub-user-role": "root" },
+      { quota: "read", roles: ["admin"] },
+    );
+    assert.equal(!result.ok && result.status, 403);
+  });
+
+  it("lets every role through when the route lists none", async () => {
+    const result = await guardRequest({ "x-stub-user-role": "student" }, { quota: "read" });
+    assert.ok(result.ok);
+  });
+});
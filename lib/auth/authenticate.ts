@@ -0,0 +1,80 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { AuthUser, UserRole } from "./types";
+
+const USER_ROLES: UserRole[] = ["student", "teacher", "admin"];
+const DEFAULT_STUB_USER_ID = "00000000-0000-0000-0000-000000000001";
+
+type ProfileRow = {
+  role: UserRole;
+  plan: string;
+};
+
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+function header(headers: RequestHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Modo de autenticação de teste: AUTH_MODE=stub, nunca em produção.
+ * O utilizador vem de x-stub-user-id / x-stub-user-role ou de STUB_USER_ID.
+ */
+export function isStubAuthEnabled(): boolean {
+  return process.env.AUTH_MODE === "stub" && process.env.NODE_ENV !== "production";
+}
+
+function stubUser(headers: RequestHeaders): AuthUser {
+  const role = header(headers, "x-stub-user-role") as UserRole | undefined;
+
+  return {
+    id: header(headers, "x-stub-user-id") || process.env.STUB_USER_ID || DEFAULT_STUB_USER_ID,
+    email: null,
+    role: role && USER_ROLES.includes(role) ? role : "student",
+    plan: "free",
+    isStub: true,
+  };
+}
+
+async function loadProfile(userId: string): Promise<ProfileRow> {
+  const { data, error } = await supabaseAdmin
+    .from("profiles")
+    .select("role, plan")
+    .eq("id", userId)
+    .maybeSingle<ProfileRow>();
+
+  if (error) {
+    console.error("authenticate: failed to load profile", error);
+  }
+  // sem perfil = aluno no plano gratuito
+  return data || { role: "student", plan: "free" };
+}
+
+/**
+ * Valida o JWT do Supabase (Authorization: Bearer ...) e devolve o
+ * utilizador com o papel e o plano. Devolve null se não for válido.
+ */
+export async function authenticateRequest(
+  headers: RequestHeaders,
+): Promise<AuthUser | null> {
+  if (isStubAuthEnabled()) {
+    return stubUser(headers);
+  }
+
+  const authorization = header(headers, "authorization") || "";
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(match[1]);
+  if (error || !data.user) return null;
+
+  const profile = await loadProfile(data.user.id);
+
+  return {
+    id: data.user.id,
+    email: data.user.email ?? null,
+    role: profile.role,
+    plan: profile.plan,
+    isStub: false,
+  };
+}
@@ -0,0 +1,114 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { authenticateRequest, type RequestHeaders } from "./authenticate";
+import { consumeQuota, type QuotaResult } from "./quota";
+import type { AuthUser, QuotaGroup, UserRole } from "./types";
+
+export type GuardOptions = {
+  quota: QuotaGroup;
+  roles?: UserRole[]; // se vier, só estes papéis passam (403 para os outros)
+};
+
+export type GuardResult =
+  | { ok: true; user: AuthUser; headers: Record<string, string> }
+  | { ok: false; status: number; error: string; headers: Record<string, string> };
+
+/** Cabeçalhos X-RateLimit-* / X-Quota-* e 429 quando a quota se esgotou. */
+export function quotaGuardResult(user: AuthUser, quota: QuotaResult): GuardResult {
+  const limit = quota.limits.requestsPerMinute;
+  const rateHeaders: Record<string, string> = {};
+  if (limit !== null) {
+    rateHeaders["X-RateLimit-Limit"] = String(limit);
+    rateHeaders["X-RateLimit-Remaining"] = String(Math.max(0, limit - quota.minuteCount));
+  }
+  if (quota.limits.requestsPerDay !== null) {
+    rateHeaders["X-Quota-Daily-Limit"] = String(quota.limits.requestsPerDay);
+    rateHeaders["X-Quota-Daily-Remaining"] = String(
+      Math.max(0, quota.limits.requestsPerDay - quota.dayCount),
+    );
+  }
+
+  if (!quota.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Too many requests: quota exceeded",
+      headers: { ...rateHeaders, "Retry-After": String(quota.retryAfterSeconds ?? 60) },
+    };
+  }
+  return { ok: true, user, headers: rateHeaders };
+}
+
+/**
+ * Autentica o pedido e desconta-o na quota do utilizador.
+ * Partilhado pelas rotas do Pages Router (withAuth) e do App Router.
+ */
+export async function guardRequest(
+  headers: RequestHeaders,
+  options: GuardOptions,
+): Promise<GuardResult> {
+  let user: AuthUser | null;
+  try {
+    user = await authenticateRequest(headers);
+  } catch (err) {
+    console.error("auth: failed to authenticate request", err);
+    return { ok: false, status: 500, error: "Internal Server Error", headers: {} };
+  }
+
+  if (!user) {
+    return {
+      ok: false,
+      status: 401,
+      error: "Authentication required",
+      headers: { "WWW-Authenticate": 'Bearer realm="api"' },
+    };
+  }
+
+  if (options.roles && !options.roles.includes(user.role)) {
+    return { ok: false, status: 403, error: "Forbidden", headers: {} };
+  }
+
+  // o modo stub não conta pedidos (não há BD de quotas em local)
+  if (user.isStub) {
+    return { ok: true, user, headers: {} };
+  }
+
+  try {
+    return quotaGuardResult(user, await consumeQuota(user, options.quota));
+  } catch (err) {
+    // falha da contagem não deve bloquear quem está autenticado
+    console.error("auth: failed to consume quota", err);
+    return { ok: true, user, headers: {} };
+  }
+}
+
+export type AuthenticatedHandler<T = unknown> = (
+  req: NextApiRequest,
+  res: NextApiResponse<T>,
+  user: AuthUser,
+) => unknown | Promise<unknown>;
+
+/**
+ * Envolve um handler do Pages Router: responde 401/403/429 e,
+ * se o pedido passar, chama o handler com o utilizador autenticado.
+ */
+export function withAuth<T = unknown>(
+  handler: AuthenticatedHandler<T>,
+  options: GuardOptions,
+) {
+  return async (req: NextApiRequest, res: NextApiResponse<T | { error: string }>) => {
+    const result = await guardRequest(req.headers, options);
+    for (const [name, value] of Object.entries(result.headers)) {
+      res.setHeader(name, value);
+    }
+
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    return handler(req, res as NextApiResponse<T>, result.user);
+  };
+}
+
+/** Só o próprio aluno (ou um admin) pode ler os dados de um aluno. */
+export function canAccessStudent(user: AuthUser, studentId: string): boolean {
+  return user.id === studentId || user.role === "admin";
+}
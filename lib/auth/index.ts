@@ -0,0 +1,11 @@
+export * from "./types";
+export { authenticateRequest, isStubAuthEnabled } from "./authenticate";
+export { consumeQuota, type QuotaResult } from "./quota";
+export {
+  canAccessStudent,
+  guardRequest,
+  withAuth,
+  type AuthenticatedHandler,
+  type GuardOptions,
+  type GuardResult,
+} from "./guard";
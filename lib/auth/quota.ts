@@ -0,0 +1,119 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { AuthUser, QuotaGroup } from "./types";
+
+type Limits = {
+  requestsPerMinute: number | null;
+  requestsPerDay: number | null;
+};
+
+type LimitRow = {
+  requests_per_minute: number | null;
+  requests_per_day: number | null;
+};
+
+export type QuotaResult = {
+  allowed: boolean;
+  limits: Limits;
+  minuteCount: number;
+  dayCount: number;
+  retryAfterSeconds: number | null; // só quando allowed = false
+};
+
+// os limites mudam raramente: cache curta em memória
+const LIMITS_TTL_MS = 60_000;
+const limitsCache = new Map<string, { limits: Limits; expiresAt: number }>();
+
+async function loadLimits(user: AuthUser, group: QuotaGroup): Promise<Limits> {
+  const cacheKey = `${user.id}:${user.plan}:${group}`;
+  const cached = limitsCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.limits;
+
+  const [override, plan] = await Promise.all([
+    supabaseAdmin
+      .from("user_quota_overrides")
+      .select("requests_per_minute, requests_per_day")
+      .eq("user_id", user.id)
+      .eq("quota_group", group)
+      .maybeSingle<LimitRow>(),
+    supabaseAdmin
+      .from("plan_limits")
+      .select("requests_per_minute, requests_per_day")
+      .eq("plan", user.plan)
+      .eq("quota_group", group)
+      .maybeSingle<LimitRow>(),
+  ]);
+
+  if (override.error) throw override.error;
+  if (plan.error) throw plan.error;
+
+  const row = override.data || plan.data;
+  const limits: Limits = {
+    requestsPerMinute: row?.requests_per_minute ?? null,
+    requestsPerDay: row?.requests_per_day ?? null,
+  };
+
+  limitsCache.set(cacheKey, { limits, expiresAt: Date.now() + LIMITS_TTL_MS });
+  return limits;
+}
+
+function secondsUntilNextMinute(now: Date): number {
+  return 60 - now.getSeconds();
+}
+
+function secondsUntilLisbonMidnight(now: Date): number {
+  const lisbon = new Date(now.toLocaleString("en-US", { timeZone: "Europe/Lisbon" }));
+  const midnight = new Date(lisbon);
+  midnight.setHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - lisbon.getTime()) / 1000);
+}
+
+/**
+ * Junta os limites à contagem feita na BD. Um pedido bloqueado espera até à
+ * meia-noite de Lisboa se esgotou o dia, senão até ao minuto seguinte.
+ */
+export function toQuotaResult(
+  limits: Limits,
+  counts: { allowed: boolean; minuteCount: number; dayCount: number },
+  now = new Date(),
+): QuotaResult {
+  let retryAfterSeconds: number | null = null;
+  if (!counts.allowed) {
+    const dayExhausted = limits.requestsPerDay !== null && counts.dayCount >= limits.requestsPerDay;
+    retryAfterSeconds = dayExhausted
+      ? secondsUntilLisbonMidnight(now)
+      : secondsUntilNextMinute(now);
+  }
+
+  return { ...counts, limits, retryAfterSeconds };
+}
+
+/**
+ * Conta um pedido do utilizador no grupo de rotas e diz se está dentro
+ * dos limites do plano (ou da exceção definida para o utilizador).
+ */
+export async function consumeQuota(
+  user: AuthUser,
+  group: QuotaGroup,
+): Promise<QuotaResult> {
+  const limits = await loadLimits(user, group);
+
+  if (limits.requestsPerMinute === null && limits.requestsPerDay === null) {
+    return { allowed: true, limits, minuteCount: 0, dayCount: 0, retryAfterSeconds: null };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .rpc("consume_quota", {
+      p_user_id: user.id,
+      p_group: group,
+      p_per_minute: limits.requestsPerMinute,
+      p_per_day: limits.requestsPerDay,
+    })
+    .single<{ allowed: boolean; minute_count: number; day_count: number }>();
+
+  if (error) throw error;
+  return toQuotaResult(limits, {
+    allowed: data.allowed,
+    minuteCount: data.minute_count,
+    dayCount: data.day_count,
+  });
+}
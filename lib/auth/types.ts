@@ -0,0 +1,12 @@
+export type UserRole = "student" | "teacher" | "admin";
+
+export type AuthUser = {
+  id: string;
+  email: string | null;
+  role: UserRole;
+  plan: string;
+  isStub: boolean; // utilizador do modo AUTH_MODE=stub (só em desenvolvimento)
+};
+
+// Grupos de rotas com limites próprios (ver tabela plan_limits)
+export type QuotaGroup = "generate" | "evaluate" | "read";
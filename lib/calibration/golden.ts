@@ -0,0 +1,161 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { difficulty, exerciseIndex, exerciseType, locale } from "@/lib/contracts/common";
+import { practiceResult } from "@/lib/contracts/evaluations";
+import { answerKey } from "@/lib/contracts/exercises";
+import { MAX_HINTS } from "@/lib/evaluation/hintPenalty";
+import { DEFAULT_LOCALE } from "@/lib/locale/types";
+import { s, type Schema, type SchemaIssue } from "@/lib/schema";
+// config e não o barrel: o barrel traz o supabaseAdmin
+import { MAX_PAGES, MAX_PAGE_BYTES, sniffMimeType } from "@/lib/submissions/config";
+import type {
+  CalibrationBaseline,
+  GoldenCase,
+  GoldenSet,
+  LoadedCase,
+  Recording,
+} from "./types";
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalibrationError";
+  }
+}
+
+export const CASES_FILE = "cases.json";
+export const RECORDINGS_DIR = "recordings";
+
+// ---------- Esquemas dos ficheiros ----------
+
+const score = s.integer({ min: 0, max: 100 });
+
+const teacherGrade = s
+  .object({ minScore: score, maxScore: score, result: practiceResult })
+  .refine((grade) => grade.minScore <= grade.maxScore, "must not be above maxScore", "minScore");
+
+const goldenCase = s.object({
+  id: s.string({ min: 1, pattern: /^[a-z0-9][a-z0-9-]*$/, patternMessage: "must be kebab-case" }),
+  description: s.string().default(""),
+  statement: s.string({ min: 1 }),
+  userAnswer: s.string({ trim: false }).default(""),
+  subtopicName: s.string({ min: 1 }),
+  difficulty,
+  exerciseIndex,
+  exerciseType: exerciseType.nullable().default(null),
+  answerKey: answerKey.nullable().default(null),
+  hintsUsed: s.integer({ min: 0, max: MAX_HINTS }).default(0),
+  locale: locale.default(DEFAULT_LOCALE),
+  pages: s.array(s.string({ min: 1 }), { min: 1, max: MAX_PAGES }),
+  teacher: teacherGrade,
+}) satisfies Schema<GoldenCase>;
+
+const ratio = s.number({ min: 0, max: 1 });
+
+const goldenSetFile = s.object({
+  thresholds: s.object({
+    minAgreement: ratio,
+    maxMeanAbsoluteError: s.number({ min: 0, max: 100 }),
+    minLabelAccuracy: ratio,
+  }),
+  cases: s
+    .array(goldenCase, { min: 1 })
+    .refine(
+      (cases) => new Set(cases.map((c) => c.id)).size === cases.length,
+      "must have unique ids",
+    ),
+});
+
+const recording = s.object({
+  caseId: s.string({ min: 1 }),
+  fingerprint: s.string({ min: 1 }),
+  promptVersion: s.string({ min: 1 }),
+  provider: s.string({ min: 1 }),
+  model: s.string({ min: 1 }),
+  recordedAt: s.string({ min: 1 }),
+  text: s.string({ min: 1, trim: false }),
+}) satisfies Schema<Recording>;
+
+const baseline = s.object({
+  cases: s.integer({ min: 0 }),
+  agreement: ratio,
+  meanAbsoluteError: s.number({ min: 0 }),
+  labelAccuracy: ratio,
+  unavailable: s.integer({ min: 0 }),
+  updatedAt: s.string(),
+}) satisfies Schema<CalibrationBaseline>;
+
+function describeIssues(file: string, issues: SchemaIssue[]): string {
+  const list = issues.map((issue) => `${issue.path || "(root)"} ${issue.message}`);
+  return `${file}: ${list.join("; ")}`;
+}
+
+// optional: um ficheiro que não existe devolve null em vez de falhar
+async function readJson<T>(file: string, schema: Schema<T>, optional: true): Promise<T | null>;
+async function readJson<T>(file: string, schema: Schema<T>): Promise<T>;
+async function readJson<T>(file: string, schema: Schema<T>, optional = false): Promise<T | null> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    if (optional && (err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new CalibrationError(`${file}: ${message}`);
+  }
+
+  const parsed = schema.parse(raw);
+  if (!parsed.ok) throw new CalibrationError(describeIssues(file, parsed.issues));
+  return parsed.value;
+}
+
+// ---------- Conjunto de referência ----------
+
+export async function loadGoldenSet(dir: string): Promise<GoldenSet> {
+  const file = await readJson(path.join(dir, CASES_FILE), goldenSetFile);
+  return { dir, thresholds: file.thresholds, cases: file.cases };
+}
+
+/** Lê as páginas de um caso com as mesmas regras de tipo e tamanho das submissões. */
+export async function loadCaseImages(set: GoldenSet, goldenCase: GoldenCase): Promise<LoadedCase> {
+  const images = await Promise.all(
+    goldenCase.pages.map(async (page) => {
+      const file = path.join(set.dir, page);
+      const data = await readFile(file).catch(() => {
+        throw new CalibrationError(`${goldenCase.id}: page ${page} not found`);
+      });
+      const mimeType = sniffMimeType(data);
+      if (!mimeType) {
+        throw new CalibrationError(`${goldenCase.id}: ${page} is not a JPEG, PNG, WebP or PDF`);
+      }
+      if (data.length > MAX_PAGE_BYTES) {
+        throw new CalibrationError(`${goldenCase.id}: ${page} is larger than a submission page`);
+      }
+      return { mimeType, data: data.toString("base64") };
+    }),
+  );
+  return { ...goldenCase, images };
+}
+
+// ---------- Gravações ----------
+
+function recordingFile(set: GoldenSet, caseId: string): string {
+  return path.join(set.dir, RECORDINGS_DIR, `${caseId}.json`);
+}
+
+export function loadRecording(set: GoldenSet, caseId: string): Promise<Recording | null> {
+  return readJson(recordingFile(set, caseId), recording, true);
+}
+
+export async function saveRecording(set: GoldenSet, value: Recording): Promise<void> {
+  await writeFile(recordingFile(set, value.caseId), JSON.stringify(value, null, 2) + "\n");
+}
+
+// ---------- Baseline ----------
+
+export function loadBaseline(file: string): Promise<CalibrationBaseline | null> {
+  return readJson(file, baseline, true);
+}
+
+export async function saveBaseline(file: string, value: CalibrationBaseline): Promise<void> {
+  await writeFile(file, JSON.stringify(value, null, 2) + "\n");
+}
@@ -0,0 +1,18 @@
+export * from "./types";
+export {
+  CASES_FILE,
+  CalibrationError,
+  RECORDINGS_DIR,
+  loadBaseline,
+  loadGoldenSet,
+  saveBaseline,
+  saveRecording,
+} from "./golden";
+export {
+  BASELINE_TOLERANCE,
+  OUTCOME_LABELS,
+  computeMetrics,
+  confusionMatrix,
+  findRegressions,
+} from "./metrics";
+export { evaluationFingerprint, runCalibration } from "./runner";
@@ -0,0 +1,111 @@
+import { PRACTICE_RESULTS } from "@/lib/evaluation/types";
+import type {
+  CalibrationBaseline,
+  CalibrationMetrics,
+  CalibrationThresholds,
+  CaseOutcomeLabel,
+  CaseResult,
+  ConfusionMatrix,
+  TeacherGrade,
+} from "./types";
+
+export const OUTCOME_LABELS: CaseOutcomeLabel[] = [...PRACTICE_RESULTS, "unavailable"];
+
+// Quanto as métricas podem piorar face à baseline sem contar como regressão
+// (uma gravação nova muda sempre um ou outro caso)
+export const BASELINE_TOLERANCE = {
+  agreement: 0.05,
+  meanAbsoluteError: 2,
+  labelAccuracy: 0.05,
+};
+
+/** Distância da nota ao intervalo do professor; sem nota conta como o pior caso. */
+export function scoreError(score: number | null, grade: TeacherGrade): number {
+  if (score === null) return Math.max(grade.minScore, 100 - grade.maxScore);
+  if (score < grade.minScore) return grade.minScore - score;
+  if (score > grade.maxScore) return score - grade.maxScore;
+  return 0;
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function computeMetrics(results: CaseResult[]): CalibrationMetrics {
+  const total = results.length;
+  const share = (count: number) => (total > 0 ? round(count / total) : 0);
+
+  return {
+    cases: total,
+    agreement: share(results.filter((r) => r.agrees).length),
+    meanAbsoluteError: total
+      ? round(results.reduce((sum, r) => sum + r.absoluteError, 0) / total, 2)
+      : 0,
+    labelAccuracy: share(results.filter((r) => r.result === r.expected.result).length),
+    unavailable: results.filter((r) => r.result === "unavailable").length,
+  };
+}
+
+export function confusionMatrix(results: CaseResult[]): ConfusionMatrix {
+  const row = () =>
+    Object.fromEntries(OUTCOME_LABELS.map((label) => [label, 0])) as Record<
+      CaseOutcomeLabel,
+      number
+    >;
+  const matrix = Object.fromEntries(
+    PRACTICE_RESULTS.map((label) => [label, row()]),
+  ) as ConfusionMatrix;
+
+  for (const result of results) {
+    matrix[result.expected.result][result.result]++;
+  }
+  return matrix;
+}
+
+/**
+ * Motivos para a calibração falhar: limites absolutos do conjunto e, se houver
+ * baseline com o mesmo número de casos, pioria além da tolerância.
+ */
+export function findRegressions(
+  metrics: CalibrationMetrics,
+  thresholds: CalibrationThresholds,
+  baseline: CalibrationBaseline | null,
+): string[] {
+  const failures: string[] = [];
+
+  if (metrics.agreement < thresholds.minAgreement) {
+    failures.push(`agreement ${metrics.agreement} is below ${thresholds.minAgreement}`);
+  }
+  if (metrics.meanAbsoluteError > thresholds.maxMeanAbsoluteError) {
+    failures.push(
+      `mean absolute error ${metrics.meanAbsoluteError} is above ${thresholds.maxMeanAbsoluteError}`,
+    );
+  }
+  if (metrics.labelAccuracy < thresholds.minLabelAccuracy) {
+    failures.push(
+      `label accuracy ${metrics.labelAccuracy} is below ${thresholds.minLabelAccuracy}`,
+    );
+  }
+
+  // com casos novos ou removidos a comparação não diz nada: atualiza-se a baseline
+  if (!baseline || baseline.cases !== metrics.cases) return failures;
+
+  if (metrics.agreement < baseline.agreement - BASELINE_TOLERANCE.agreement) {
+    failures.push(`agreement dropped from ${baseline.agreement} to ${metrics.agreement}`);
+  }
+  if (
+    metrics.meanAbsoluteError >
+    baseline.meanAbsoluteError + BASELINE_TOLERANCE.meanAbsoluteError
+  ) {
+    failures.push(
+      `mean absolute error rose from ${baseline.meanAbsoluteError} to ${metrics.meanAbsoluteError}`,
+    );
+  }
+  if (metrics.labelAccuracy < baseline.labelAccuracy - BASELINE_TOLERANCE.labelAccuracy) {
+    failures.push(
+      `label accuracy dropped from ${baseline.labelAccuracy} to ${metrics.labelAccuracy}`,
+    );
+  }
+  return failures;
+}
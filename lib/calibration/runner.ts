@@ -0,0 +1,210 @@
+import { createHash } from "node:crypto";
+import {
+  EVALUATION_TEMPERATURE,
+  interpretEvaluation,
+  prepareEvaluation,
+  type EvaluateAnswerInput,
+  type PreparedEvaluation,
+} from "@/lib/evaluation";
+import { getLLMClient, parseJsonResponse, reportInvalidOutput } from "@/lib/llm";
+import { loadCaseImages, loadRecording } from "./golden";
+import { computeMetrics, confusionMatrix, findRegressions, scoreError } from "./metrics";
+import type {
+  CalibrationBaseline,
+  CalibrationMode,
+  CalibrationReport,
+  CaseResult,
+  GoldenSet,
+  LoadedCase,
+  Recording,
+} from "./types";
+
+// Resposta do modelo a um caso, gravada ou obtida agora
+type ModelAnswer =
+  | { ok: true; text: string; provider: string; model: string; callId?: string }
+  | { ok: false; errorCode: NonNullable<CaseResult["errorCode"]> };
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** Identifica o pedido ao modelo: muda com o prompt (versão ou texto) e com as páginas. */
+export function evaluationFingerprint(prepared: PreparedEvaluation, goldenCase: LoadedCase) {
+  return sha256(
+    JSON.stringify({
+      messages: prepared.prompt.messages,
+      pages: goldenCase.images.map((image) => sha256(image.data)),
+    }),
+  );
+}
+
+function toInput(goldenCase: LoadedCase): EvaluateAnswerInput {
+  return {
+    statement: goldenCase.statement,
+    statementFromClient: false,
+    userAnswer: goldenCase.userAnswer,
+    pages: goldenCase.images,
+    subtopicName: goldenCase.subtopicName,
+    difficulty: goldenCase.difficulty,
+    exerciseIndex: goldenCase.exerciseIndex,
+    exerciseType: goldenCase.exerciseType,
+    answerKey: goldenCase.answerKey,
+    hintsUsed: goldenCase.hintsUsed,
+    locale: goldenCase.locale,
+    // unidade fixa: com uma experiência ativa, cada caso cai sempre na mesma variante
+    studentId: `calibration:${goldenCase.id}`,
+  };
+}
+
+async function replayAnswer(
+  set: GoldenSet,
+  goldenCase: LoadedCase,
+  fingerprint: string,
+): Promise<ModelAnswer> {
+  const recording = await loadRecording(set, goldenCase.id);
+  if (!recording) return { ok: false, errorCode: "missing_recording" };
+  if (recording.fingerprint !== fingerprint) return { ok: false, errorCode: "stale_recording" };
+  return { ok: true, text: recording.text, provider: recording.provider, model: recording.model };
+}
+
+async function liveAnswer(
+  goldenCase: LoadedCase,
+  prepared: PreparedEvaluation,
+): Promise<ModelAnswer> {
+  try {
+    const completion = await getLLMClient("evaluateAnswer").evaluateVision<unknown>({
+      temperature: EVALUATION_TEMPERATURE,
+      messages: prepared.prompt.messages,
+      images: goldenCase.images,
+    });
+    return {
+      ok: true,
+      text: completion.text,
+      provider: completion.provider,
+      model: completion.model,
+      callId: completion.callId,
+    };
+  } catch (err) {
+    console.error(`calibration: ${goldenCase.id} failed on every provider`, err);
+    return { ok: false, errorCode: "provider_unavailable" };
+  }
+}
+
+async function runCase(
+  set: GoldenSet,
+  goldenCase: LoadedCase,
+  mode: CalibrationMode,
+): Promise<CaseResult> {
+  const input = toInput(goldenCase);
+  // o replay usa a versão builtin do prompt: corre offline, sem ler o registo
+  const prepared = await prepareEvaluation(input, { builtinPrompt: mode === "replay" });
+  const fingerprint = evaluationFingerprint(prepared, goldenCase);
+
+  const answer =
+    mode === "replay"
+      ? await replayAnswer(set, goldenCase, fingerprint)
+      : await liveAnswer(goldenCase, prepared);
+
+  const base = {
+    caseId: goldenCase.id,
+    expected: goldenCase.teacher,
+    prompt: prepared.prompt.ref,
+    provider: answer.ok ? answer.provider : null,
+    model: answer.ok ? answer.model : null,
+  };
+  const unavailable = (errorCode: NonNullable<CaseResult["errorCode"]>): CaseResult => ({
+    ...base,
+    result: "unavailable",
+    score: null,
+    agrees: false,
+    absoluteError: scoreError(null, goldenCase.teacher),
+    errorCode,
+    flags: [],
+    recording: null,
+  });
+
+  if (!answer.ok) return unavailable(answer.errorCode);
+
+  // em modo live a resposta fica disponível para gravar, mesmo que não sirva
+  const recording: Recording | null =
+    mode === "live"
+      ? {
+          caseId: goldenCase.id,
+          fingerprint,
+          promptVersion: prepared.prompt.ref.version,
+          provider: answer.provider,
+          model: answer.model,
+          recordedAt: new Date().toISOString(),
+          text: answer.text,
+        }
+      : null;
+
+  let data: unknown;
+  try {
+    data = parseJsonResponse<unknown>(answer.text);
+  } catch {
+    return { ...unavailable("invalid_model_output"), recording };
+  }
+
+  const interpreted = interpretEvaluation(data, input, prepared);
+  if (interpreted.status === "invalid") {
+    console.warn(`calibration: invalid fields for ${goldenCase.id}`, interpreted.issues);
+    await reportInvalidOutput({ callId: answer.callId });
+    return { ...unavailable("invalid_model_output"), recording };
+  }
+  if (interpreted.status === "rejected") {
+    return { ...unavailable(interpreted.errorCode), recording };
+  }
+
+  const { result, score, flags } = interpreted.evaluation;
+  const absoluteError = scoreError(score, goldenCase.teacher);
+  return {
+    ...base,
+    result,
+    score,
+    agrees: absoluteError === 0,
+    absoluteError,
+    errorCode: null,
+    flags,
+    recording,
+  };
+}
+
+/**
+ * Passa o conjunto de referência pelo avaliador e compara com as notas dos
+ * professores. Em "replay" usa as respostas gravadas (sem chamadas a modelos);
+ * em "live" chama os providers configurados para a rota evaluateAnswer.
+ */
+export async function runCalibration(
+  set: GoldenSet,
+  options: { mode: CalibrationMode; baseline: CalibrationBaseline | null },
+): Promise<CalibrationReport> {
+  const results: CaseResult[] = [];
+  // um caso de cada vez: em modo live não se rebentam as quotas dos providers
+  for (const goldenCase of set.cases) {
+    results.push(await runCase(set, await loadCaseImages(set, goldenCase), options.mode));
+  }
+
+  const metrics = computeMetrics(results);
+  const failures = findRegressions(metrics, set.thresholds, options.baseline);
+
+  // gravações em falta ou desatualizadas também falham: o replay já não mede o prompt atual
+  const outdated = results.filter(
+    (r) => r.errorCode === "missing_recording" || r.errorCode === "stale_recording",
+  );
+  if (outdated.length > 0) {
+    failures.unshift(
+      `${outdated.length} recording(s) missing or stale (${outdated
+        .map((r) => r.caseId)
+        .join(", ")}): re-record with --live --record`,
+    );
+  }
+
+  return {
+    mode: options.mode,
+    metrics,
+    confusion: confusionMatrix(results),
+    results,
+    failures,
+  };
+}
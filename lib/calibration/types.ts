@@ -0,0 +1,109 @@
+import type {
+  EvaluationErrorCode,
+  EvaluationFlag,
+  PracticeResult,
+} from "@/lib/evaluation/types";
+import type { ExerciseAnswerKey, ExerciseType } from "@/lib/exercises/types";
+import type { LLMImage } from "@/lib/llm";
+import type { Locale } from "@/lib/locale";
+import type { PromptRef } from "@/lib/prompts";
+
+// ---------- Conjunto de referência ----------
+
+// O que um professor deu à resolução: um intervalo, porque dois professores
+// raramente dão exatamente a mesma nota
+export type TeacherGrade = {
+  minScore: number;
+  maxScore: number;
+  result: PracticeResult;
+};
+
+export type GoldenCase = {
+  id: string; // também é o nome da gravação em recordings/<id>.json
+  description: string;
+  statement: string;
+  userAnswer: string;
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  exerciseType: ExerciseType | null;
+  answerKey: ExerciseAnswerKey | null;
+  hintsUsed: number;
+  locale: Locale; // língua do feedback (pt-PT quando o caso não diz)
+  pages: string[]; // caminhos das páginas, relativos à pasta do conjunto
+  teacher: TeacherGrade;
+};
+
+// Limites absolutos: abaixo deles a calibração falha, haja ou não baseline
+export type CalibrationThresholds = {
+  minAgreement: number; // fração de casos com a nota dentro do intervalo
+  maxMeanAbsoluteError: number; // pontos (0–100) fora do intervalo, em média
+  minLabelAccuracy: number; // fração de casos com o resultado do professor
+};
+
+export type GoldenSet = {
+  dir: string;
+  thresholds: CalibrationThresholds;
+  cases: GoldenCase[];
+};
+
+// Caso pronto a avaliar: páginas já lidas e validadas
+export type LoadedCase = GoldenCase & { images: LLMImage[] };
+
+// ---------- Gravações ----------
+
+// Resposta do modelo a um caso, para repetir a avaliação sem chamadas
+export type Recording = {
+  caseId: string;
+  // hash do prompt e das páginas: se mudarem, a gravação deixa de servir
+  fingerprint: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  text: string; // texto cru devolvido pelo modelo
+};
+
+export type CalibrationMode = "replay" | "live";
+
+// ---------- Relatório ----------
+
+export type CaseOutcomeLabel = PracticeResult | "unavailable";
+
+export type CaseResult = {
+  caseId: string;
+  expected: TeacherGrade;
+  result: CaseOutcomeLabel;
+  score: number | null; // null quando não houve avaliação
+  agrees: boolean; // nota dentro do intervalo do professor
+  absoluteError: number; // distância ao intervalo (0 dentro dele)
+  prompt: PromptRef | null;
+  provider: string | null;
+  model: string | null;
+  // porque é que o caso ficou sem avaliação
+  errorCode: EvaluationErrorCode | "missing_recording" | "stale_recording" | null;
+  flags: EvaluationFlag[]; // sinais de integridade da avaliação
+  recording: Recording | null; // a resposta obtida em modo live, para gravar
+};
+
+// linhas: resultado do professor; colunas: resultado obtido
+export type ConfusionMatrix = Record<PracticeResult, Record<CaseOutcomeLabel, number>>;
+
+export type CalibrationMetrics = {
+  cases: number;
+  agreement: number;
+  meanAbsoluteError: number;
+  labelAccuracy: number;
+  unavailable: number;
+};
+
+// métricas aceites da última vez, guardadas em calibration/baseline.json
+export type CalibrationBaseline = CalibrationMetrics & { updatedAt: string };
+
+export type CalibrationReport = {
+  mode: CalibrationMode;
+  metrics: CalibrationMetrics;
+  confusion: ConfusionMatrix;
+  results: CaseResult[];
+  failures: string[]; // vazio = calibração aceite
+};
@@ -0,0 +1,109 @@
+import type { AuthUser } from "@/lib/auth";
+import {
+  getAssignment,
+  insertAssignment,
+  listClassAssignments,
+  type Assignment,
+} from "@/lib/db/assignments";
+import { listExercisesByIds } from "@/lib/db/exercises";
+import { fetchSubtopicContext, toExerciseDefinition } from "@/lib/exercises";
+import { ClassError, loadMemberClass, loadTeacherClass } from "./classes";
+import type { AssignmentView, CreateAssignmentInput } from "./types";
+
+async function toAssignmentViews(assignments: Assignment[]): Promise<AssignmentView[]> {
+  const exercises = await listExercisesByIds([
+    ...new Set(assignments.flatMap((a) => a.exerciseIds)),
+  ]);
+  const byId = new Map(exercises.map((exercise) => [exercise.id, exercise]));
+
+  return assignments.map((assignment) => ({
+    assignmentId: assignment.id,
+    classId: assignment.classId,
+    title: assignment.title,
+    kind: assignment.kind,
+    dueAt: assignment.dueAt,
+    // pela ordem escolhida pelo professor
+    exercises: assignment.exerciseIds
+      .map((id) => byId.get(id))
+      .filter((exercise) => exercise !== undefined)
+      .map(toExerciseDefinition),
+    subtopicId: assignment.subtopicId,
+    subtopicName: assignment.subtopicName,
+    difficulty: assignment.difficulty,
+  }));
+}
+
+/**
+ * Cria um trabalho na turma. Os exercícios têm de ter sido gerados pelo
+ * próprio professor (POST /api/v1/exercises), para ninguém atribuir os de outros.
+ */
+export async function createAssignment(
+  classId: string,
+  input: CreateAssignmentInput,
+  user: AuthUser,
+): Promise<AssignmentView> {
+  const schoolClass = await loadTeacherClass(classId, user);
+
+  if (input.kind === "exercises") {
+    const exerciseIds = [...new Set(input.exerciseIds)];
+    const exercises = await listExercisesByIds(exerciseIds);
+    const usable = exercises.filter(
+      (exercise) => exercise.studentId === user.id || user.role === "admin",
+    );
+    if (usable.length !== exerciseIds.length) {
+      throw new ClassError("Exercise not found", 404);
+    }
+
+    const assignment = await insertAssignment({
+      classId: schoolClass.id,
+      title: input.title,
+      kind: "exercises",
+      exerciseIds,
+      subtopicId: null,
+      subtopicName: null,
+      difficulty: null,
+      dueAt: input.dueAt,
+    });
+    return (await toAssignmentViews([assignment]))[0];
+  }
+
+  const ctx = await fetchSubtopicContext(input);
+  if (!ctx) {
+    throw new ClassError("Subtopic not found", 404);
+  }
+
+  const assignment = await insertAssignment({
+    classId: schoolClass.id,
+    title: input.title,
+    kind: "practice_session",
+    exerciseIds: [],
+    subtopicId: ctx.subtopicId,
+    subtopicName: ctx.subtopicName,
+    difficulty: input.difficulty,
+    dueAt: input.dueAt,
+  });
+  return (await toAssignmentViews([assignment]))[0];
+}
+
+/** Trabalhos da turma, por prazo; para o professor e para os alunos inscritos. */
+export async function listAssignments(
+  classId: string,
+  user: AuthUser,
+): Promise<AssignmentView[]> {
+  const { schoolClass } = await loadMemberClass(classId, user);
+  return toAssignmentViews(await listClassAssignments(schoolClass.id));
+}
+
+/** Um trabalho da turma (o professor só vê os das suas turmas). */
+export async function loadTeacherAssignment(
+  classId: string,
+  assignmentId: string,
+  user: AuthUser,
+): Promise<Assignment> {
+  const schoolClass = await loadTeacherClass(classId, user);
+  const assignment = await getAssignment(assignmentId);
+  if (!assignment || assignment.classId !== schoolClass.id) {
+    throw new ClassError("Assignment not found", 404);
+  }
+  return assignment;
+}
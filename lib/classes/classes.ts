@@ -0,0 +1,145 @@
+import { randomInt } from "node:crypto";
+import type { AuthUser } from "@/lib/auth";
+import {
+  deleteClassStudent,
+  getClass,
+  getClassByJoinCode,
+  insertClass,
+  insertClassStudent,
+  isClassStudent,
+  listClassStudents,
+  listStudentClasses,
+  listTeacherClasses,
+  type SchoolClass,
+} from "@/lib/db/classes";
+import type { ClassDetail, ClassView, CreateClassInput } from "./types";
+
+// sem 0/O, 1/I/L: o código é ditado na aula
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 8;
+const MAX_JOIN_CODE_TRIES = 5;
+
+export class ClassError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "ClassError";
+  }
+}
+
+function generateJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeJoinCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function isClassTeacher(schoolClass: SchoolClass, user: AuthUser): boolean {
+  return schoolClass.teacherId === user.id || user.role === "admin";
+}
+
+export function toClassView(schoolClass: SchoolClass, user: AuthUser): ClassView {
+  return {
+    classId: schoolClass.id,
+    name: schoolClass.name,
+    year: schoolClass.year,
+    teacherId: schoolClass.teacherId,
+    joinCode: isClassTeacher(schoolClass, user) ? schoolClass.joinCode : null,
+    createdAt: schoolClass.createdAt,
+  };
+}
+
+// ---------- Acesso ----------
+
+/** A turma, se o utilizador for o professor dela (ou admin); 404 caso contrário. */
+export async function loadTeacherClass(classId: string, user: AuthUser): Promise<SchoolClass> {
+  const schoolClass = await getClass(classId);
+  // a turma de outro professor responde como inexistente
+  if (!schoolClass || !isClassTeacher(schoolClass, user)) {
+    throw new ClassError("Class not found", 404);
+  }
+  return schoolClass;
+}
+
+/** A turma, se o utilizador for o professor ou um aluno inscrito; 404 caso contrário. */
+export async function loadMemberClass(
+  classId: string,
+  user: AuthUser,
+): Promise<{ schoolClass: SchoolClass; isTeacher: boolean }> {
+  const schoolClass = await getClass(classId);
+  if (schoolClass && isClassTeacher(schoolClass, user)) {
+    return { schoolClass, isTeacher: true };
+  }
+  if (!schoolClass || !(await isClassStudent(schoolClass.id, user.id))) {
+    throw new ClassError("Class not found", 404);
+  }
+  return { schoolClass, isTeacher: false };
+}
+
+// ---------- Serviço ----------
+
+export async function createClass(input: CreateClassInput, user: AuthUser): Promise<ClassView> {
+  for (let i = 0; i < MAX_JOIN_CODE_TRIES; i++) {
+    const schoolClass = await insertClass({
+      teacherId: user.id,
+      name: input.name,
+      year: input.year,
+      joinCode: generateJoinCode(),
+    });
+    if (schoolClass) return toClassView(schoolClass, user);
+  }
+  throw new ClassError("Could not generate a join code, please try again", 503);
+}
+
+/** Turmas do professor e turmas onde o utilizador está inscrito. */
+export async function listClassesFor(user: AuthUser): Promise<ClassView[]> {
+  const [teaching, enrolled] = await Promise.all([
+    user.role === "student" ? Promise.resolve([]) : listTeacherClasses(user.id),
+    listStudentClasses(user.id),
+  ]);
+  return [...teaching, ...enrolled].map((schoolClass) => toClassView(schoolClass, user));
+}
+
+export async function getClassDetail(classId: string, user: AuthUser): Promise<ClassDetail> {
+  const { schoolClass, isTeacher } = await loadMemberClass(classId, user);
+  const students = isTeacher ? await listClassStudents(schoolClass.id) : null;
+
+  return {
+    ...toClassView(schoolClass, user),
+    students: students?.map((s) => ({ studentId: s.studentId, joinedAt: s.joinedAt })) ?? null,
+  };
+}
+
+export async function joinClass(joinCode: string, user: AuthUser): Promise<ClassView> {
+  const schoolClass = await getClassByJoinCode(normalizeJoinCode(joinCode));
+  if (!schoolClass) {
+    throw new ClassError("Class not found", 404);
+  }
+  if (schoolClass.teacherId === user.id) {
+    throw new ClassError("Teachers cannot join their own class", 409);
+  }
+
+  await insertClassStudent(schoolClass.id, user.id);
+  return toClassView(schoolClass, user);
+}
+
+/** O professor tira um aluno da turma; o próprio aluno também pode sair. */
+export async function removeClassStudent(
+  classId: string,
+  studentId: string,
+  user: AuthUser,
+): Promise<void> {
+  if (studentId === user.id) {
+    await loadMemberClass(classId, user);
+  } else {
+    await loadTeacherClass(classId, user);
+  }
+  await deleteClassStudent(classId, studentId);
+}
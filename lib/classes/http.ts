@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { ClassError } from "./classes";
+
+// Converte erros do serviço de turmas em respostas HTTP
+export function sendClassError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof ClassError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
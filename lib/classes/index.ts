@@ -0,0 +1,13 @@
+export * from "./types";
+export {
+  ClassError,
+  createClass,
+  getClassDetail,
+  joinClass,
+  listClassesFor,
+  normalizeJoinCode,
+  removeClassStudent,
+} from "./classes";
+export { createAssignment, listAssignments } from "./assignments";
+export { getClassResults } from "./results";
+export { sendClassError } from "./http";
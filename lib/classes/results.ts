@@ -0,0 +1,73 @@
+import type { AuthUser } from "@/lib/auth";
+import {
+  listClassErrorStats,
+  listClassStudentStats,
+  listClassSubtopicStats,
+  type ClassResultsScope,
+} from "@/lib/db/classes";
+import { loadTeacherAssignment } from "./assignments";
+import { loadTeacherClass } from "./classes";
+import type { ClassResults, SubtopicResults } from "./types";
+
+function average(scoreSum: number, attempts: number): number | null {
+  if (attempts === 0) return null;
+  return Math.round(scoreSum / attempts);
+}
+
+/**
+ * Resultados agregados da turma (por aluno, subtema e tipo de erro), a partir
+ * das tentativas avaliadas nos trabalhos da turma, feitas depois de o aluno
+ * entrar. Com assignmentId, só contam as desse trabalho.
+ */
+export async function getClassResults(
+  classId: string,
+  user: AuthUser,
+  options: { assignmentId?: string; since?: string } = {},
+): Promise<ClassResults> {
+  const schoolClass = await loadTeacherClass(classId, user);
+  const assignment = options.assignmentId
+    ? await loadTeacherAssignment(classId, options.assignmentId, user)
+    : null;
+
+  // agregado na BD: nada fica de fora numa turma grande
+  const scope: ClassResultsScope = {
+    classId: schoolClass.id,
+    assignmentId: assignment?.id ?? null,
+    since: options.since ?? null,
+  };
+  const [students, subtopics, errors] = await Promise.all([
+    listClassStudentStats(scope),
+    listClassSubtopicStats(scope),
+    listClassErrorStats(scope),
+  ]);
+
+  const attempts = students.reduce((sum, s) => sum + s.attempts, 0);
+  const scoreSum = students.reduce((sum, s) => sum + s.scoreSum, 0);
+
+  return {
+    classId: schoolClass.id,
+    assignmentId: scope.assignmentId,
+    since: scope.since,
+    attempts,
+    averageScore: average(scoreSum, attempts),
+    students: students.map((s) => ({
+      studentId: s.studentId,
+      attempts: s.attempts,
+      averageScore: average(s.scoreSum, s.attempts),
+      lastAttemptAt: s.lastAttemptAt,
+      completed: s.completed,
+    })),
+    subtopics: subtopics
+      .map(
+        (s): SubtopicResults => ({
+          subtopicId: s.subtopicId,
+          subtopicName: s.subtopicName,
+          attempts: s.attempts,
+          students: s.students,
+          averageScore: average(s.scoreSum, s.attempts) ?? 0,
+        }),
+      )
+      .sort((a, b) => a.averageScore - b.averageScore), // os mais fracos primeiro
+    errors,
+  };
+}
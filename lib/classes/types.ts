@@ -0,0 +1,91 @@
+import type { AssignmentKind } from "@/lib/db/assignments";
+import type { ErrorCategory } from "@/lib/evaluation/types";
+import type { Difficulty, ExerciseDefinition } from "@/lib/exercises/types";
+
+export type { AssignmentKind };
+
+export const MAX_ASSIGNMENT_EXERCISES = 20;
+
+export type ClassView = {
+  classId: string;
+  name: string;
+  year: number | null;
+  teacherId: string;
+  joinCode: string | null; // só para o professor da turma
+  createdAt: string;
+};
+
+export type ClassDetail = ClassView & {
+  // só para o professor da turma (os alunos não veem os colegas)
+  students: { studentId: string; joinedAt: string }[] | null;
+};
+
+export type CreateClassInput = {
+  name: string;
+  year: number | null;
+};
+
+export type CreateAssignmentInput =
+  | {
+      kind: "exercises";
+      title: string;
+      dueAt: string;
+      exerciseIds: string[];
+    }
+  | {
+      kind: "practice_session";
+      title: string;
+      dueAt: string;
+      subtopicId?: string;
+      subtopicName?: string;
+      difficulty: Difficulty;
+    };
+
+export type AssignmentView = {
+  assignmentId: string;
+  classId: string;
+  title: string;
+  kind: AssignmentKind;
+  dueAt: string;
+  exercises: ExerciseDefinition[]; // em "exercises", sem as chaves de correção
+  subtopicId: string | null;
+  subtopicName: string | null;
+  difficulty: Difficulty | null;
+};
+
+// ---------- Resultados ----------
+
+export type StudentResults = {
+  studentId: string;
+  attempts: number;
+  averageScore: number | null;
+  lastAttemptAt: string | null;
+  // só com assignmentId: respondeu a todos os exercícios / terminou a sessão
+  completed: boolean | null;
+};
+
+export type SubtopicResults = {
+  subtopicId: string | null;
+  subtopicName: string;
+  attempts: number;
+  students: number; // alunos diferentes com tentativas
+  averageScore: number;
+};
+
+export type ErrorCategoryResults = {
+  category: ErrorCategory;
+  occurrences: number;
+  attemptsAffected: number;
+  students: number;
+};
+
+export type ClassResults = {
+  classId: string;
+  assignmentId: string | null;
+  since: string | null;
+  attempts: number;
+  averageScore: number | null;
+  students: StudentResults[];
+  subtopics: SubtopicResults[];
+  errors: ErrorCategoryResults[];
+};
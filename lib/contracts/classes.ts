@@ -0,0 +1,150 @@
+import {
+  MAX_ASSIGNMENT_EXERCISES,
+  type AssignmentKind,
+  type AssignmentView,
+  type ClassDetail,
+  type ClassResults,
+  type ClassView,
+  type CreateAssignmentInput,
+  type CreateClassInput,
+} from "@/lib/classes/types";
+import { s, type Schema } from "@/lib/schema";
+import { difficulty, id, schoolYear, timestamp } from "./common";
+import { errorCategory } from "./evaluations";
+import { exerciseDefinition } from "./exercises";
+
+const ASSIGNMENT_KINDS: AssignmentKind[] = ["exercises", "practice_session"];
+
+// data ISO qualquer, normalizada para UTC
+const isoTimestamp = s
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "must be an ISO date")
+  .transform((value) => new Date(value).toISOString());
+
+// ---------- Pedidos ----------
+
+// /api/v1/classes/:classId/...
+export const classParams = s.object({ classId: id });
+
+// DELETE /api/v1/classes/:classId/students/:studentId
+export const classStudentParams = classParams.extend({ studentId: id });
+
+// POST /api/v1/classes
+export const createClassRequest = s.object({
+  name: s.string({ min: 1, max: 100 }),
+  year: schoolYear.nullable().default(null),
+}) satisfies Schema<CreateClassInput>;
+
+// POST /api/v1/classes/join
+export const joinClassRequest = s.object({
+  joinCode: s.string({ min: 1 }).describe("Code the teacher shares with the class"),
+});
+
+const assignmentFields = {
+  title: s.string({ min: 1, max: 200 }),
+  dueAt: isoTimestamp.refine((value) => Date.parse(value) > Date.now(), "must be in the future"),
+};
+
+// POST /api/v1/classes/:classId/assignments
+export const createAssignmentRequest = s.discriminated("kind", {
+  exercises: s.object({
+    ...assignmentFields,
+    kind: s.literal("exercises"),
+    exerciseIds: s.array(id, { min: 1, max: MAX_ASSIGNMENT_EXERCISES }),
+  }),
+  practice_session: s
+    .object({
+      ...assignmentFields,
+      kind: s.literal("practice_session"),
+      subtopicId: id.optional(),
+      subtopicName: s.string({ min: 1, max: 200 }).optional(),
+      difficulty: difficulty.default("medium"),
+    })
+    .refine(
+      (body) => body.subtopicId !== undefined || body.subtopicName !== undefined,
+      "is required when subtopicName is missing",
+      "subtopicId",
+    ),
+}) satisfies Schema<CreateAssignmentInput>;
+
+// GET /api/v1/classes/:classId/results
+export const classResultsQuery = s.object({
+  assignmentId: id.optional(),
+  since: isoTimestamp.optional(),
+});
+
+// ---------- Respostas ----------
+
+export const classView = s
+  .object({
+    classId: id,
+    name: s.string(),
+    year: s.integer().nullable(),
+    teacherId: id,
+    joinCode: s.string().nullable().describe("Only for the class teacher"),
+    createdAt: timestamp,
+  })
+  .named("Class") satisfies Schema<ClassView>;
+
+export const classDetail = classView
+  .extend({
+    students: s
+      .array(s.object({ studentId: id, joinedAt: timestamp }))
+      .nullable()
+      .describe("Only for the class teacher"),
+  })
+  .named("ClassDetail") satisfies Schema<ClassDetail>;
+
+export const classList = s.object({ classes: s.array(classView) });
+
+export const assignmentView = s
+  .object({
+    assignmentId: id,
+    classId: id,
+    title: s.string(),
+    kind: s.enum(ASSIGNMENT_KINDS),
+    dueAt: timestamp,
+    exercises: s.array(exerciseDefinition).describe('Only for "exercises" assignments'),
+    subtopicId: id.nullable(),
+    subtopicName: s.string().nullable(),
+    difficulty: difficulty.nullable(),
+  })
+  .named("Assignment") satisfies Schema<AssignmentView>;
+
+export const assignmentList = s.object({ assignments: s.array(assignmentView) });
+
+export const classResults = s
+  .object({
+    classId: id,
+    assignmentId: id.nullable(),
+    since: timestamp.nullable(),
+    attempts: s.integer({ min: 0 }),
+    averageScore: s.number().nullable(),
+    students: s.array(
+      s.object({
+        studentId: id,
+        attempts: s.integer({ min: 0 }),
+        averageScore: s.number().nullable(),
+        lastAttemptAt: timestamp.nullable(),
+        completed: s.boolean().nullable().describe("Only with assignmentId"),
+      }),
+    ),
+    subtopics: s.array(
+      s.object({
+        subtopicId: id.nullable(),
+        subtopicName: s.string(),
+        attempts: s.integer({ min: 0 }),
+        students: s.integer({ min: 0 }),
+        averageScore: s.number(),
+      }),
+    ),
+    errors: s.array(
+      s.object({
+        category: errorCategory,
+        occurrences: s.integer({ min: 0 }),
+        attemptsAffected: s.integer({ min: 0 }),
+        students: s.integer({ min: 0 }),
+      }),
+    ),
+  })
+  .named("ClassResults") satisfies Schema<ClassResults>;
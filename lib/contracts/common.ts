@@ -0,0 +1,67 @@
+import { DIFFICULTIES, EXERCISE_TYPES } from "@/lib/exercises/types";
+import { LOCALES } from "@/lib/locale/types";
+import type { MarkupSegment } from "@/lib/markup/types";
+import { s, type Schema } from "@/lib/schema";
+
+// ---------- Erros ----------
+
+export const errorResponse = s
+  .object({ error: s.string() })
+  .named("Error")
+  .describe("Error with a human-readable message");
+
+export const validationIssue = s
+  .object({
+    path: s.string().describe('Field path, e.g. "exerciseIndex" or "variants[1].weight"'),
+    message: s.string(),
+  })
+  .named("ValidationIssue");
+
+export const invalidRequestResponse = s
+  .object({
+    error: s.string().describe("The first issue, as a sentence"),
+    issues: s.array(validationIssue),
+  })
+  .named("InvalidRequest");
+
+// ---------- Campos comuns ----------
+
+// as chaves da BD são uuids: um id mal formado nem chega ao Postgres
+export const id = s.string({
+  pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  patternMessage: "must be a uuid",
+  format: "uuid",
+});
+
+export const timestamp = s.string({ format: "date-time" });
+
+export const isoDate = s.string({
+  pattern: /^\d{4}-\d{2}-\d{2}$/,
+  patternMessage: "must be a date (YYYY-MM-DD)",
+  format: "date",
+});
+
+export const difficulty = s.enum(DIFFICULTIES).named("Difficulty");
+
+export const exerciseType = s.enum(EXERCISE_TYPES).named("ExerciseType");
+
+export const locale = s
+  .enum(LOCALES)
+  .named("Locale")
+  .describe("Language and math notation of statements and feedback");
+
+export const exerciseIndex = s.integer({ min: 1, max: 3 }).describe("Position in the set (1–3)");
+
+export const schoolYear = s.integer({ min: 10, max: 12 });
+
+const markupSegment: Schema<MarkupSegment> = s
+  .union([
+    s.object({ type: s.literal("text"), text: s.string({ trim: false }) }),
+    s.object({ type: s.literal("math"), latex: s.string({ trim: false }) }),
+  ])
+  .named("MarkupSegment");
+
+export const structuredText = s
+  .array(markupSegment)
+  .named("StructuredText")
+  .describe("Text and LaTeX segments (render the math with KaTeX/MathJax)");
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { modelExamItemOutput } from "./exams";
+import { modelHintsOutput } from "./hints";
+import { buildOpenApiDocument } from "./openapi";
+import { sessionParams } from "./sessions";
+
+const SESSION_ID = "7d0c1f4e-2b8a-4c55-9e1d-3f6a8b2c9d10";
+
+describe("path params", () => {
+  it("accept a uuid and ignore the other query keys", () => {
+    const result = sessionParams.parse({ sessionId: SESSION_ID, limit: "3" });
+    assert.deepEqual(result, { ok: true, value: { sessionId: SESSION_ID } });
+  });
+
+  for (const sessionId of ["foo", "123", `${SESSION_ID}x`, "", undefined]) {
+    it(`reject ${JSON.stringify(sessionId)}`, () => {
+      const result = sessionParams.parse({ sessionId });
+      assert.equal(result.ok, false);
+      if (!result.ok) assert.equal(result.issues[0].path, "sessionId");
+    });
+  }
+
+  it("are documented as uuids", () => {
+    const paths = buildOpenApiDocument().paths as Record<
+      string,
+      Record<string, { parameters: { name: string; schema: { format?: string } }[] }>
+    >;
+    const [parameter] = paths["/api/v1/sessions/{sessionId}"].get.parameters;
+    assert.equal(parameter.name, "sessionId");
+    assert.equal(parameter.schema.format, "uuid");
+  });
+});
+
+describe("model output", () => {
+  const part = {
+    statement: "Calcula f'(2).",
+    referenceSolution: "f'(x) = 2x, logo f'(2) = 4.",
+    expectedAnswer: "4",
+    rubric: [{ description: "Deriva f", points: "5" }],
+  };
+
+  it("keeps at most three hints", () => {
+    const hints = Array.from({ length: 5 }, (_, i) => ({ text: `Pista ${i + 1}` }));
+    const result = modelHintsOutput.parse({ hints });
+    assert.equal(result.ok && result.value.hints.length, 3);
+  });
+
+  it("rejects hints without text", () => {
+    assert.equal(modelHintsOutput.parse({ hints: [{ text: " " }] }).ok, false);
+    assert.equal(modelHintsOutput.parse({ hints: "pista" }).ok, false);
+  });
+
+  it("reads an exam item with its answer keys", () => {
+    const result = modelExamItemOutput.parse({ intro: null, parts: [part] });
+    assert.ok(result.ok);
+    assert.equal(result.value.intro, "");
+    assert.equal(result.value.parts[0].rubric[0].points, 5);
+  });
+
+  it("rejects an exam item with a part that cannot be marked", () => {
+    const result = modelExamItemOutput.parse({ parts: [part, { ...part, rubric: [] }] });
+    assert.equal(result.ok, false);
+    if (!result.ok) assert.equal(result.issues[0].path, "parts[1].rubric");
+  });
+});
@@ -0,0 +1,140 @@
+import type { AiNotesSource } from "@/lib/db/curriculum";
+import type {
+  AiNotesVersion,
+  CurriculumImportResult,
+  Subtopic,
+  Topic,
+  TopicWithSubtopics,
+} from "@/lib/curriculum/types";
+import {
+  aiNotesField,
+  curriculumJsonImport,
+  nameField,
+  officialCodeField,
+  yearField,
+} from "@/lib/curriculum/validate";
+import { s, type Schema } from "@/lib/schema";
+import { id, timestamp } from "./common";
+
+const AI_NOTES_SOURCES: AiNotesSource[] = ["baseline", "admin", "import"];
+
+// ---------- Pedidos ----------
+
+// /api/v1/admin/curriculum/topics/:topicId
+export const topicParams = s.object({ topicId: id });
+
+// /api/v1/admin/curriculum/subtopics/:subtopicId/...
+export const subtopicParams = s.object({ subtopicId: id });
+
+// POST /api/v1/admin/curriculum/topics
+export const createTopicRequest = s.object({
+  officialCode: officialCodeField,
+  name: nameField,
+  year: yearField,
+});
+
+// PATCH /api/v1/admin/curriculum/topics/:topicId
+export const updateTopicRequest = s
+  .object({
+    officialCode: officialCodeField.optional(),
+    name: nameField.optional(),
+    year: yearField.optional(),
+  })
+  .refine(
+    (patch) => Object.keys(patch).length > 0,
+    "must set at least one of officialCode, name or year",
+  );
+
+// POST /api/v1/admin/curriculum/subtopics
+export const createSubtopicRequest = s.object({
+  topicId: id,
+  name: nameField,
+  aiNotes: aiNotesField.default(null),
+});
+
+// PATCH /api/v1/admin/curriculum/subtopics/:subtopicId
+export const updateSubtopicRequest = s
+  .object({
+    topicId: id.optional(),
+    name: nameField.optional(),
+    aiNotes: aiNotesField.optional().describe("null removes the notes; omitted keeps them"),
+  })
+  .refine(
+    (patch) => Object.keys(patch).length > 0,
+    "must set at least one of topicId, name or aiNotes",
+  );
+
+// POST /api/v1/admin/curriculum/import (a validação fina é a de parseCurriculumImport)
+export const curriculumImportRequest = s
+  .union([curriculumJsonImport, s.object({ csv: s.string({ trim: false }) })])
+  .describe(
+    "JSON topics, or CSV (year,topic_code,topic_name,subtopic_name,ai_notes) in csv " +
+      "or as an uploaded .csv/.json file",
+  );
+
+export const curriculumImportQuery = s.object({
+  dryRun: s.boolean({ coerce: true }).default(false).describe("Only report the changes"),
+});
+
+// ---------- Respostas ----------
+
+export const topic = s
+  .object({
+    id,
+    name: s.string(),
+    year: s.integer().nullable(),
+    officialCode: s.string().nullable(),
+  })
+  .named("Topic") satisfies Schema<Topic>;
+
+export const subtopic = s
+  .object({
+    id,
+    topicId: id,
+    name: s.string(),
+    aiNotes: s.string({ trim: false }).nullable(),
+    aiNotesVersion: s.integer({ min: 0 }).describe("0 = never had notes"),
+  })
+  .named("Subtopic") satisfies Schema<Subtopic>;
+
+export const curriculumResponse = s.object({
+  topics: s.array(topic.extend({ subtopics: s.array(subtopic) })),
+}) satisfies Schema<{ topics: TopicWithSubtopics[] }>;
+
+export const aiNotesHistory = s.object({
+  subtopic,
+  versions: s.array(
+    s.object({
+      subtopicId: id,
+      version: s.integer({ min: 1 }),
+      aiNotes: s.string({ trim: false }).nullable(),
+      changedBy: id.nullable(),
+      source: s.enum(AI_NOTES_SOURCES),
+      createdAt: timestamp,
+    }) satisfies Schema<AiNotesVersion>,
+  ),
+});
+
+const subtopicRef = { topicCode: s.string(), name: s.string() };
+
+export const curriculumImportResult = s
+  .object({
+    dryRun: s.boolean(),
+    topics: s.object({
+      created: s.array(s.string()).describe("Official codes"),
+      updated: s.array(
+        s.object({ officialCode: s.string(), fields: s.array(s.enum(["name", "year"])) }),
+      ),
+      unchanged: s.integer({ min: 0 }),
+      notInImport: s.array(s.string()).describe("In the database but not in the file (kept)"),
+    }),
+    subtopics: s.object({
+      created: s.array(s.object(subtopicRef)),
+      updated: s.array(
+        s.object({ ...subtopicRef, fields: s.array(s.enum(["name", "aiNotes"])) }),
+      ),
+      unchanged: s.integer({ min: 0 }),
+      notInImport: s.array(s.object(subtopicRef)),
+    }),
+  })
+  .named("CurriculumImportResult") satisfies Schema<CurriculumImportResult>;
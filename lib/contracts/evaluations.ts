@@ -0,0 +1,184 @@
+import type { EvaluationQueueReport } from "@/lib/evaluation/queue";
+import {
+  ERROR_CATEGORIES,
+  EVALUATION_FLAGS,
+  MAX_EVALUATION_BATCH_SIZE,
+  PRACTICE_RESULTS,
+  SUBMISSION_CONTENTS,
+  type DeferredEvaluation,
+  type EvaluationErrorCode,
+  type EvaluationJobStatus,
+  type EvaluationJobView,
+  type EvaluationResult,
+  type EvaluationStep,
+} from "@/lib/evaluation/types";
+import type { EquivalenceVerdict } from "@/lib/math/equivalence";
+import { s, type Schema } from "@/lib/schema";
+import { difficulty, id, locale, structuredText, timestamp } from "./common";
+
+const ERROR_CODES: EvaluationErrorCode[] = [
+  "provider_unavailable",
+  "invalid_model_output",
+  "no_pages",
+  "pages_unavailable",
+  "pages_not_stored",
+  "storage_unavailable",
+  "processing_failed",
+  "off_topic_content",
+  "abusive_content",
+];
+
+const JOB_STATUSES: EvaluationJobStatus[] = ["pending", "processing", "evaluated", "unavailable"];
+
+const VERDICTS: EquivalenceVerdict[] = ["equivalent", "not_equivalent", "unparseable"];
+
+export const practiceResult = s.enum(PRACTICE_RESULTS).named("PracticeResult");
+
+export const errorCategory = s.enum(ERROR_CATEGORIES).named("ErrorCategory");
+
+export const evaluationFlag = s
+  .enum(EVALUATION_FLAGS)
+  .named("EvaluationFlag")
+  .describe("Integrity signal: the grade stands, but a teacher should review it");
+
+export const finalAnswerCheck = s
+  .enum(VERDICTS)
+  .nullable()
+  .describe("Mechanical check of the final answer (null when it does not apply)");
+
+export const evaluationErrorCode = s
+  .enum(ERROR_CODES)
+  .named("EvaluationErrorCode")
+  .describe("Why the submission has no grade yet");
+
+// ---------- Pedidos ----------
+
+// Páginas da resolução (JSON ou campos de multipart; os ficheiros vêm à parte)
+export const submissionFields = {
+  imageUrl: s.string({ min: 1 }).optional().describe("Page on a trusted image host"),
+  imageUrls: s.array(s.string({ min: 1 }), { single: true }).optional(),
+  images: s
+    .array(
+      s.object({
+        mimeType: s.string().optional().describe("Ignored: the type is read from the content"),
+        data: s.string({ min: 1 }).describe("Base64, optionally as a data: URL"),
+      }),
+    )
+    .optional(),
+  userAnswer: s.string({ trim: false }).default("").describe("Final answer typed by the student"),
+};
+
+// POST /api/evaluateAnswer
+export const evaluateAnswerRequest = s
+  .object({
+    ...submissionFields,
+    sessionId: id.optional(),
+    exerciseId: id.optional().describe("Stored exercise (statement and marking criteria)"),
+    statement: s.string({ min: 1 }).optional(),
+    subtopicId: id.optional(),
+    subtopicName: s.string({ min: 1, max: 200 }).default("Derivadas"),
+    difficulty: difficulty.default("medium"),
+    // nos campos de multipart os números chegam como texto
+    exerciseIndex: s.integer({ min: 1, max: 3, coerce: true }).default(1),
+    locale: locale.optional().describe("Defaults to the stored exercise's locale, else pt-PT"),
+  })
+  .refine(
+    (body) => body.exerciseId !== undefined || body.statement !== undefined,
+    "is required when exerciseId is missing",
+    "statement",
+  );
+
+// GET /api/v1/evaluations/:evaluationId
+export const evaluationParams = s.object({ evaluationId: id });
+
+// POST /api/v1/evaluations/process?limit=
+export const processQueueQuery = s.object({
+  limit: s.integer({ min: 1, max: MAX_EVALUATION_BATCH_SIZE, coerce: true }).optional(),
+});
+
+// ---------- Respostas ----------
+
+export const evaluationStep = s.object({
+  description: s.string(),
+  correct: s.boolean(),
+  errorCategory: errorCategory.nullable(),
+  comment: s.string({ trim: false }),
+  structuredComment: structuredText,
+}) satisfies Schema<EvaluationStep>;
+
+export const evaluationResult = s
+  .object({
+    result: practiceResult,
+    score: s.integer({ min: 0, max: 100 }),
+    feedbackSummary: s.string({ trim: false }),
+    structuredFeedback: structuredText,
+    steps: s.array(evaluationStep),
+    finalAnswerCheck,
+    hintsUsed: s.integer({ min: 0 }),
+    hintPenalty: s.integer({ min: 0 }).describe("Points (out of 100) taken for the hints"),
+    flags: s.array(evaluationFlag),
+  })
+  .named("Evaluation") satisfies Schema<EvaluationResult>;
+
+export const evaluatedAnswer = evaluationResult
+  .extend({ status: s.literal("evaluated"), attemptId: id.nullable() })
+  .named("EvaluatedAnswer");
+
+export const deferredEvaluation = s
+  .union([
+    s.object({
+      status: s.literal("pending"),
+      evaluationId: id,
+      errorCode: evaluationErrorCode,
+      retryAfterSeconds: s.integer({ min: 1 }),
+    }),
+    s.object({
+      status: s.literal("unavailable"),
+      evaluationId: s.literal(null),
+      errorCode: evaluationErrorCode,
+      error: s.string(),
+    }),
+  ])
+  .describe("202: queued for re-evaluation; 503: could not even be queued")
+  .named("DeferredEvaluation") satisfies Schema<DeferredEvaluation>;
+
+export const evaluationUnavailable = s
+  .object({ status: s.literal("unavailable"), errorCode: evaluationErrorCode, error: s.string() })
+  .named("EvaluationUnavailable");
+
+export const evaluationJobView = s
+  .object({
+    evaluationId: id,
+    status: s.enum(JOB_STATUSES),
+    errorCode: evaluationErrorCode.nullable(),
+    retries: s.integer({ min: 0 }),
+    nextAttemptAt: timestamp.nullable(),
+    attemptId: id.nullable(),
+    evaluation: evaluationResult.nullable(),
+    createdAt: timestamp,
+  })
+  .named("EvaluationJob") satisfies Schema<EvaluationJobView>;
+
+export const evaluationQueueReport = s.object({
+  processed: s.integer({ min: 0 }),
+  evaluated: s.integer({ min: 0 }),
+  pending: s.integer({ min: 0 }),
+  unavailable: s.integer({ min: 0 }),
+}) satisfies Schema<EvaluationQueueReport>;
+
+// ---------- Saída do modelo ----------
+
+// O mínimo para haver nota; etapas, pontos por etapa e marcação são validados
+// à parte (e ignorados quando vêm mal).
+export const modelEvaluationOutput = s.object({
+  result: practiceResult,
+  score: s.number({ coerce: true }),
+  feedbackSummary: s.string({ min: 1 }),
+  feedbackMarkup: s.unknown().optional(),
+  stepScores: s.unknown().optional(),
+  steps: s.unknown().optional(),
+  // moderação e transcrição das páginas; prompts antigos não os pedem
+  content: s.enum(SUBMISSION_CONTENTS).default("resolution"),
+  injectionAttempt: s.boolean({ coerce: true }).default(false),
+  pageText: s.string({ trim: false }).default(""),
+});
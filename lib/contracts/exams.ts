@@ -0,0 +1,78 @@
+import {
+  MAX_EXAM_ITEMS,
+  MAX_PARTS_PER_ITEM,
+  type ExamDocument,
+  type ExamExportFormat,
+  type ExamPaperView,
+  type GenerateExamInput,
+} from "@/lib/exams/types";
+import { s, type Schema } from "@/lib/schema";
+import { exerciseType, id, schoolYear, timestamp } from "./common";
+import { answerKey } from "./exercises";
+
+const FORMATS: ExamExportFormat[] = ["pdf", "latex"];
+const DOCUMENTS: ExamDocument[] = ["exam", "criteria"];
+
+// /api/v1/exams/:examId/...
+export const examParams = s.object({ examId: id });
+
+// POST /api/v1/exams
+export const generateExamRequest = s.object({
+  year: schoolYear,
+  subtopicIds: s
+    .array(id, { min: 1, max: MAX_EXAM_ITEMS })
+    .optional()
+    .describe("Replaces the automatic choice of subtopics"),
+  itemCount: s.integer({ min: 2, max: MAX_EXAM_ITEMS }).optional(),
+  durationMinutes: s.integer({ min: 30, max: 240 }).optional(),
+}) satisfies Schema<Omit<GenerateExamInput, "studentId">>;
+
+// GET /api/v1/exams/:examId/export
+export const examExportQuery = s.object({
+  format: s.enum(FORMATS).default("pdf"),
+  document: s.enum(DOCUMENTS).default("exam").describe("criteria = marking criteria"),
+});
+
+export const examPaper = s
+  .object({
+    id,
+    studentId: id,
+    year: s.integer(),
+    title: s.string(),
+    durationMinutes: s.integer(),
+    toleranceMinutes: s.integer(),
+    totalPoints: s.integer(),
+    items: s.array(
+      s.object({
+        number: s.integer({ min: 1 }),
+        subtopicId: id.nullable(),
+        subtopicName: s.string(),
+        topicName: s.string().nullable(),
+        exerciseType,
+        intro: s.string({ trim: false }).describe("Statement shared by the parts (may be empty)"),
+        parts: s.array(
+          s.object({
+            label: s.string().describe('"3" or "3.1", "3.2", ...'),
+            statement: s.string({ trim: false }),
+            points: s.integer({ min: 0 }),
+          }),
+        ),
+        points: s.integer({ min: 0 }),
+      }),
+    ),
+    createdAt: timestamp,
+  })
+  .describe("The paper without the marking criteria")
+  .named("ExamPaper") satisfies Schema<ExamPaperView>;
+
+// ---------- Saída do modelo ----------
+
+// Um item da prova: cada alínea com enunciado e chave de correção (uma que não
+// dê para classificar invalida o item). O tipo pode vir mal: fica exam_multi_step.
+export const modelExamItemOutput = s.object({
+  intro: s.string().default(""),
+  exerciseType: s.unknown().optional(),
+  parts: s
+    .array(answerKey.extend({ statement: s.string({ min: 1 }) }), { min: 1 })
+    .transform((parts) => parts.slice(0, MAX_PARTS_PER_ITEM)),
+});
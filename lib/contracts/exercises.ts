@@ -0,0 +1,97 @@
+import type { LegacyGenerateExerciseBody } from "@/lib/exercises/compat";
+import type {
+  ExerciseAnswerKey,
+  ExerciseDefinition,
+  ExerciseGoal,
+  ExerciseSource,
+} from "@/lib/exercises/types";
+import { DEFAULT_LOCALE } from "@/lib/locale/types";
+import { s, type Schema } from "@/lib/schema";
+import {
+  difficulty,
+  exerciseIndex,
+  exerciseType,
+  id,
+  locale,
+  structuredText,
+} from "./common";
+
+const GOALS: ExerciseGoal[] = ["revision", "exam"];
+
+const SOURCES: ExerciseSource[] = ["model", "bank", "fallback_library", "generic_fallback"];
+
+// ---------- Pedidos ----------
+
+const subtopicName = s.string({ min: 1, max: 200 });
+
+// POST /api/v1/exercises
+export const exerciseRequest = s
+  .object({
+    subtopicId: id.optional(),
+    subtopicName: subtopicName.optional(),
+    difficulty: difficulty.default("medium"),
+    exerciseIndex,
+    goal: s.enum(GOALS).default("revision"),
+    locale: locale.default(DEFAULT_LOCALE),
+  })
+  .refine(
+    (body) => body.subtopicId !== undefined || body.subtopicName !== undefined,
+    "is required when subtopicName is missing",
+    "subtopicId",
+  );
+
+// POST /api/generateExercise e /api/generate-exercise (formato antigo, tudo opcional)
+export const legacyExerciseRequest = s.object({
+  subtopicId: id.optional(),
+  subtopicName: subtopicName.optional(),
+  difficulty: difficulty.default("medium"),
+  exerciseIndex: exerciseIndex.default(1),
+  goal: s.enum(GOALS).default("revision"),
+  locale: locale.default(DEFAULT_LOCALE),
+}) satisfies Schema<LegacyGenerateExerciseBody>;
+
+// POST /api/generate-exercise: igual, mas sempre exigiu o exerciseIndex
+export const legacyAppExerciseRequest = legacyExerciseRequest.extend({ exerciseIndex });
+
+// ---------- Respostas ----------
+
+export const exerciseDefinition = s
+  .object({
+    exerciseId: id.nullable().describe("null when the exercise could not be stored"),
+    statement: s.string({ trim: false }),
+    structuredStatement: structuredText,
+    exerciseType,
+    locale,
+    source: s.enum(SOURCES),
+    isFallback: s
+      .boolean()
+      .describe("true when it was neither generated for this request nor taken from the bank"),
+  })
+  .named("Exercise") satisfies Schema<ExerciseDefinition>;
+
+// ---------- Saída do modelo ----------
+
+export const MAX_RUBRIC_STEPS = 8;
+
+const rubricStep = s.object({
+  description: s.string({ min: 1 }),
+  points: s
+    .number({ coerce: true })
+    .transform(Math.round)
+    .refine((points) => points > 0, "must be a positive number"),
+});
+
+// chave de correção (do modelo ou da biblioteca de recurso); etapas a mais são ignoradas
+export const answerKey = s.object({
+  referenceSolution: s.string({ min: 1 }),
+  expectedAnswer: s.string({ min: 1 }),
+  rubric: s.array(rubricStep, { min: 1 }).transform((steps) => steps.slice(0, MAX_RUBRIC_STEPS)),
+}) satisfies Schema<ExerciseAnswerKey>;
+
+// O que o modelo tem de devolver para o exercício ser servido: enunciado e chave
+// juntos. A marcação e o tipo podem vir mal: fica a heurística e o tipo planeado.
+export const modelExerciseOutput = answerKey.extend({
+  statement: s.string({ min: 1 }),
+  statementMarkup: s.unknown().optional(),
+  exerciseType: s.unknown().optional(),
+});
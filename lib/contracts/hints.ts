@@ -0,0 +1,52 @@
+import { MAX_HINTS } from "@/lib/evaluation/hintPenalty";
+import type { Hint, HintLevel, HintsResponse } from "@/lib/hints/types";
+import { s, type Schema } from "@/lib/schema";
+import { id, locale, structuredText } from "./common";
+
+const HINT_LEVELS: HintLevel[] = [1, 2, 3];
+
+const hintLevel = s
+  .enum(HINT_LEVELS)
+  .describe("1 = nudge, 2 = strategy / first step, 3 = almost complete step");
+
+// POST /api/v1/hints
+export const hintsRequest = s
+  .object({
+    exerciseId: id.optional(),
+    statement: s.string({ min: 1 }).optional(),
+    subtopicId: id.optional(),
+    subtopicName: s.string({ min: 1, max: 200 }).optional(),
+    locale: locale.optional().describe("Defaults to the stored exercise's locale, else pt-PT"),
+    level: hintLevel.optional().describe("Reveal up to this level (default: the next hint)"),
+  })
+  .refine(
+    (body) => body.exerciseId !== undefined || body.statement !== undefined,
+    "is required when statement is missing",
+    "exerciseId",
+  );
+
+const hint = s.object({
+  level: hintLevel,
+  text: s.string(),
+  structuredText,
+}) satisfies Schema<Hint>;
+
+export const hintsResponse = s
+  .object({
+    exerciseId: id.nullable(),
+    hints: s.array(hint).describe("Only the hints revealed so far"),
+    hintsUsed: s.integer({ min: 0 }),
+    maxHints: s.integer({ min: 0, max: 3 }),
+    scorePenalty: s.integer({ min: 0 }).describe("Points (out of 100) the evaluation will take"),
+  })
+  .named("Hints") satisfies Schema<HintsResponse>;
+
+// ---------- Saída do modelo ----------
+
+// As pistas, da mais leve à mais completa; pistas a mais são ignoradas. Se
+// alguma revela a resposta final, isso já é com o parseHints.
+export const modelHintsOutput = s.object({
+  hints: s
+    .array(s.object({ text: s.string({ min: 1 }), markup: s.unknown().optional() }), { min: 1 })
+    .transform((hints) => hints.slice(0, MAX_HINTS)),
+});
@@ -0,0 +1,14 @@
+export * from "./classes";
+export * from "./common";
+export * from "./curriculum";
+export * from "./evaluations";
+export * from "./exams";
+export * from "./exercises";
+export * from "./hints";
+export * from "./llm";
+export * from "./prompts";
+export * from "./sessions";
+export * from "./students";
+export * from "./tutor";
+export { buildOpenApiDocument } from "./openapi";
+export { API_OPERATIONS, type ApiOperation, type ApiResponse } from "./operations";
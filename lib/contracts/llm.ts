@@ -0,0 +1,43 @@
+import { LLM_ROUTES, type LLMMetrics } from "@/lib/llm/types";
+import { s, type Schema } from "@/lib/schema";
+import { isoDate } from "./common";
+
+// GET /api/v1/admin/llm/metrics
+export const llmMetricsQuery = s.object({
+  from: isoDate.optional().describe("Default: 29 days before to"),
+  to: isoDate.optional().describe("Default: today (Europe/Lisbon)"),
+  route: s.enum(LLM_ROUTES).optional(),
+});
+
+const totals = {
+  route: s.string(),
+  calls: s.integer({ min: 0 }),
+  successes: s.integer({ min: 0 }),
+  providerErrors: s.integer({ min: 0 }),
+  parseFailures: s.integer({ min: 0 }),
+  invalidOutputs: s.integer({ min: 0 }),
+  unavailable: s.integer({ min: 0 }),
+  fallbacks: s.integer({ min: 0 }).describe("Responses served from the route's fallback"),
+  failoverSuccesses: s.integer({ min: 0 }),
+  inputTokens: s.integer({ min: 0 }),
+  outputTokens: s.integer({ min: 0 }),
+  averageLatencyMs: s.integer({ min: 0 }),
+  costUsd: s.number({ min: 0 }).describe("Estimate from the price table"),
+};
+
+export const llmMetrics = s
+  .object({
+    from: isoDate,
+    to: isoDate,
+    days: s.array(
+      s.object({
+        ...totals,
+        day: isoDate,
+        provider: s.string().nullable(),
+        model: s.string().nullable(),
+        p95LatencyMs: s.integer({ min: 0 }),
+      }),
+    ),
+    routes: s.array(s.object(totals)),
+  })
+  .named("LLMMetrics") satisfies Schema<LLMMetrics>;
@@ -0,0 +1,134 @@
+import type { JsonSchema, SchemaComponents } from "@/lib/schema";
+import { errorResponse, invalidRequestResponse } from "./common";
+import { API_OPERATIONS, type ApiOperation, type ApiResponse } from "./operations";
+
+const API_TITLE = "Wolfi API";
+const API_VERSION = "0.1.0";
+
+// respostas que dependem só da autenticação e do papel
+const AUTH_RESPONSES: Record<number, ApiResponse> = {
+  401: { description: "Authentication required", schema: errorResponse },
+  429: {
+    description: "Quota exceeded for the plan (see the X-RateLimit-* headers)",
+    schema: errorResponse,
+  },
+};
+
+function pathParameters(operation: ApiOperation, components: SchemaComponents): JsonSchema[] {
+  return [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: operation.params?.shape[name]?.jsonSchema(components) ?? { type: "string" },
+  }));
+}
+
+function queryParameters(operation: ApiOperation, components: SchemaComponents): JsonSchema[] {
+  if (!operation.query) return [];
+  return Object.entries(operation.query.shape).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: schema.required,
+    schema: schema.jsonSchema(components),
+  }));
+}
+
+function describeResponse(response: ApiResponse, components: SchemaComponents): JsonSchema {
+  if (!response.schema) return { description: response.description };
+  return {
+    description: response.description,
+    content: {
+      [response.contentType ?? "application/json"]: {
+        schema: response.schema.jsonSchema(components),
+      },
+    },
+  };
+}
+
+function describeOperation(operation: ApiOperation, components: SchemaComponents): JsonSchema {
+  const responses: Record<number, ApiResponse> = { ...operation.responses };
+  if (operation.params || operation.body || operation.query) {
+    responses[400] = { description: "Invalid request", schema: invalidRequestResponse };
+  }
+  if (operation.auth === "user") {
+    Object.assign(responses, AUTH_RESPONSES);
+  }
+  if (operation.roles) {
+    responses[403] = {
+      description: `Only for: ${operation.roles.join(", ")}`,
+      schema: errorResponse,
+    };
+  }
+  responses[500] = { description: "Unexpected error", schema: errorResponse };
+
+  const body = operation.body?.jsonSchema(components);
+  const requestBody = body && {
+    required: operation.body?.required ?? true,
+    content: {
+      "application/json": { schema: body },
+      ...(operation.multipart
+        ? {
+            "multipart/form-data": {
+              schema: {
+                description: "The same fields as form fields, plus the uploaded files",
+                type: "object",
+                additionalProperties: true,
+              },
+            },
+          }
+        : {}),
+    },
+  };
+
+  const parameters = [
+    ...pathParameters(operation, components),
+    ...queryParameters(operation, components),
+  ];
+  const description = operation.workerSecret
+    ? "Also accepts `Authorization: Bearer <EVALUATION_WORKER_SECRET>`."
+    : undefined;
+
+  return {
+    summary: operation.summary,
+    ...(description ? { description } : {}),
+    tags: [operation.tag],
+    ...(operation.deprecated ? { deprecated: true } : {}),
+    ...(operation.auth === "none" ? { security: [] } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: Object.fromEntries(
+      Object.entries(responses)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([status, response]) => [status, describeResponse(response, components)]),
+    ),
+  };
+}
+
+/**
+ * Documento OpenAPI 3.1 gerado a partir dos mesmos esquemas que validam os
+ * pedidos: o que está aqui é o que as rotas aceitam e devolvem.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const components: SchemaComponents = new Map();
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = describeOperation(operation, components);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: API_TITLE, version: API_VERSION },
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: Object.fromEntries(
+        [...components.entries()].sort(([a], [b]) => a.localeCompare(b)),
+      ),
+    },
+  };
+}
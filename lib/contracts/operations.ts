@@ -0,0 +1,722 @@
+import type { UserRole } from "@/lib/auth/types";
+import { s, type ObjectSchema, type Schema, type Shape } from "@/lib/schema";
+import {
+  assignmentList,
+  assignmentView,
+  classDetail,
+  classList,
+  classParams,
+  classResults,
+  classResultsQuery,
+  classStudentParams,
+  classView,
+  createAssignmentRequest,
+  createClassRequest,
+  joinClassRequest,
+} from "./classes";
+import { errorResponse } from "./common";
+import {
+  aiNotesHistory,
+  createSubtopicRequest,
+  createTopicRequest,
+  curriculumImportQuery,
+  curriculumImportRequest,
+  curriculumImportResult,
+  curriculumResponse,
+  subtopic,
+  subtopicParams,
+  topic,
+  topicParams,
+  updateSubtopicRequest,
+  updateTopicRequest,
+} from "./curriculum";
+import {
+  deferredEvaluation,
+  evaluateAnswerRequest,
+  evaluatedAnswer,
+  evaluationJobView,
+  evaluationParams,
+  evaluationQueueReport,
+  evaluationUnavailable,
+  processQueueQuery,
+} from "./evaluations";
+import { examExportQuery, examPaper, examParams, generateExamRequest } from "./exams";
+import {
+  exerciseDefinition,
+  exerciseRequest,
+  legacyAppExerciseRequest,
+  legacyExerciseRequest,
+} from "./exercises";
+import { hintsRequest, hintsResponse } from "./hints";
+import { llmMetrics, llmMetricsQuery } from "./llm";
+import {
+  activatePromptRequest,
+  activePromptResponse,
+  createPromptVersionRequest,
+  experimentList,
+  experimentParams,
+  promptExperiment,
+  promptList,
+  promptStats,
+  promptTemplate,
+  promptVersionList,
+  startExperimentRequest,
+  stopExperimentRequest,
+} from "./prompts";
+import {
+  sessionAnswerRequest,
+  sessionAnswerResponse,
+  sessionError,
+  sessionExercise,
+  sessionParams,
+  sessionSummary,
+  startSessionRequest,
+  startedSession,
+} from "./sessions";
+import {
+  errorsResponse,
+  historyResponse,
+  masteryResponse,
+  recommendationsQuery,
+  recommendationsResponse,
+  studentParams,
+  studentQuery,
+} from "./students";
+import { attemptParams, tutorConversation, tutorMessageRequest, tutorReply } from "./tutor";
+
+export type ApiResponse = {
+  description: string;
+  schema?: Schema<unknown>;
+  contentType?: string; // por omissão application/json
+};
+
+export type ApiOperation = {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  path: string; // parâmetros entre chavetas: /api/v1/exams/{examId}
+  summary: string;
+  tag: string;
+  auth: "user" | "none";
+  roles?: UserRole[]; // só estes papéis (403 para os outros)
+  params?: ObjectSchema<Shape>; // parâmetros do caminho (ids validados antes de ir à BD)
+  workerSecret?: boolean; // também aceita Bearer EVALUATION_WORKER_SECRET
+  query?: ObjectSchema<Shape>;
+  body?: Schema<unknown>;
+  multipart?: boolean; // o corpo também pode vir em multipart/form-data, com ficheiros
+  responses: Record<number, ApiResponse>;
+  deprecated?: boolean;
+};
+
+function json(description: string, schema?: Schema<unknown>): ApiResponse {
+  return { description, schema };
+}
+
+function error(description: string): ApiResponse {
+  return { description, schema: errorResponse };
+}
+
+const noContent: ApiResponse = { description: "Done" };
+
+const ADMIN: UserRole[] = ["admin"];
+
+// Uma entrada por operação. O 400 (InvalidRequest), 401, 403, 429 e 500 são
+// acrescentados pelo gerador do documento a partir de auth, roles, params, body e query.
+export const API_OPERATIONS: ApiOperation[] = [
+  // ---------- Exercícios e pistas ----------
+  {
+    method: "post",
+    path: "/api/v1/exercises",
+    summary: "Generate (or pick from the bank) one exercise for a subtopic",
+    tag: "Exercises",
+    auth: "user",
+    body: exerciseRequest,
+    responses: {
+      200: json("The exercise (never includes the answer key)", exerciseDefinition),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/generateExercise",
+    summary: "Legacy exercise generation; use POST /api/v1/exercises",
+    tag: "Exercises",
+    auth: "user",
+    body: legacyExerciseRequest,
+    responses: { 200: json("The exercise", exerciseDefinition) },
+    deprecated: true,
+  },
+  {
+    method: "post",
+    path: "/api/generate-exercise",
+    summary: "Legacy exercise generation; use POST /api/v1/exercises",
+    tag: "Exercises",
+    auth: "user",
+    body: legacyAppExerciseRequest,
+    responses: { 200: json("The exercise", exerciseDefinition) },
+    deprecated: true,
+  },
+  {
+    method: "post",
+    path: "/api/v1/hints",
+    summary: "Progressive hints for an exercise",
+    tag: "Exercises",
+    auth: "user",
+    body: hintsRequest,
+    responses: {
+      200: json("Hints up to the requested level", hintsResponse),
+      404: error("Exercise not found"),
+    },
+  },
+
+  // ---------- Sessões e avaliação ----------
+  {
+    method: "post",
+    path: "/api/v1/sessions",
+    summary: "Start a practice session (optionally for a class assignment)",
+    tag: "Sessions",
+    auth: "user",
+    body: startSessionRequest,
+    responses: {
+      201: json("The session and its first exercise", startedSession),
+      404: error("Subtopic or assignment not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/sessions/{sessionId}",
+    summary: "Session summary",
+    tag: "Sessions",
+    auth: "user",
+    params: sessionParams,
+    responses: {
+      200: json("The summary", sessionSummary),
+      404: error("Session not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/sessions/{sessionId}/next",
+    summary: "Next exercise of the session",
+    tag: "Sessions",
+    auth: "user",
+    params: sessionParams,
+    responses: {
+      200: json("The exercise", sessionExercise),
+      404: error("Session not found"),
+      409: error("Session is not active or has no more exercises"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/sessions/{sessionId}/answers",
+    summary: "Submit the resolution of a session exercise",
+    tag: "Sessions",
+    auth: "user",
+    params: sessionParams,
+    body: sessionAnswerRequest,
+    multipart: true,
+    responses: {
+      200: json("The evaluation", sessionAnswerResponse),
+      404: error("Session or exercise not found"),
+      409: error("Session is not active"),
+      422: json("Rejected by moderation: off-topic or abusive content", sessionError),
+      503: json("The evaluation failed; errorCode says why", sessionError),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/evaluateAnswer",
+    summary: "Evaluate a resolution outside a session",
+    tag: "Evaluations",
+    auth: "user",
+    body: evaluateAnswerRequest,
+    multipart: true,
+    responses: {
+      200: json("The evaluation", evaluatedAnswer),
+      202: json("Queued for re-evaluation", deferredEvaluation),
+      403: error("The session is not active"),
+      404: error("Exercise or session not found"),
+      422: json("Rejected by moderation: off-topic or abusive content", evaluationUnavailable),
+      503: json("Could not evaluate nor queue the submission", deferredEvaluation),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/evaluations/{evaluationId}",
+    summary: "State of a deferred evaluation",
+    tag: "Evaluations",
+    auth: "user",
+    params: evaluationParams,
+    responses: {
+      200: json("The job, with the evaluation once it is done", evaluationJobView),
+      404: error("Evaluation not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/evaluations/process",
+    summary: "Process the queue of deferred evaluations (worker or admin)",
+    tag: "Evaluations",
+    auth: "user",
+    roles: ADMIN,
+    workerSecret: true,
+    query: processQueueQuery,
+    responses: { 200: json("What was processed", evaluationQueueReport) },
+  },
+
+  // ---------- Tutor ----------
+  {
+    method: "get",
+    path: "/api/v1/attempts/{attemptId}/tutor",
+    summary: "Tutor conversation about an evaluated attempt",
+    tag: "Tutor",
+    auth: "user",
+    params: attemptParams,
+    responses: {
+      200: json("The conversation", tutorConversation),
+      404: error("Attempt not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/attempts/{attemptId}/tutor/messages",
+    summary: "Ask the tutor a question (streamed reply)",
+    tag: "Tutor",
+    auth: "user",
+    params: attemptParams,
+    body: tutorMessageRequest,
+    responses: {
+      200: {
+        description:
+          'Server-sent events: "delta" events with text, then one "done" event with this payload',
+        schema: tutorReply,
+        contentType: "text/event-stream",
+      },
+      404: error("Attempt not found"),
+      409: error("No questions left for this attempt"),
+      503: error("Tutor unavailable"),
+    },
+  },
+
+  // ---------- Alunos ----------
+  {
+    method: "get",
+    path: "/api/v1/students/{studentId}/history",
+    summary: "Attempts grouped by subtopic",
+    tag: "Students",
+    auth: "user",
+    params: studentParams,
+    query: studentQuery,
+    responses: { 200: json("The history", historyResponse) },
+  },
+  {
+    method: "get",
+    path: "/api/v1/students/{studentId}/mastery",
+    summary: "Mastery per subtopic",
+    tag: "Students",
+    auth: "user",
+    params: studentParams,
+    query: studentQuery,
+    responses: { 200: json("Mastery", masteryResponse) },
+  },
+  {
+    method: "get",
+    path: "/api/v1/students/{studentId}/errors",
+    summary: "Most frequent error categories",
+    tag: "Students",
+    auth: "user",
+    params: studentParams,
+    query: studentQuery,
+    responses: { 200: json("Error stats", errorsResponse) },
+  },
+  {
+    method: "get",
+    path: "/api/v1/students/{studentId}/recommendations",
+    summary: "What to practise next",
+    tag: "Students",
+    auth: "user",
+    params: studentParams,
+    query: recommendationsQuery,
+    responses: { 200: json("The queue of recommended subtopics", recommendationsResponse) },
+  },
+
+  // ---------- Exames ----------
+  {
+    method: "post",
+    path: "/api/v1/exams",
+    summary: "Generate a mock exam",
+    tag: "Exams",
+    auth: "user",
+    body: generateExamRequest,
+    responses: {
+      201: json("The exam (without criteria)", examPaper),
+      404: error("No subtopics for the request"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/exams/{examId}",
+    summary: "A generated exam",
+    tag: "Exams",
+    auth: "user",
+    params: examParams,
+    responses: {
+      200: json("The exam", examPaper),
+      404: error("Exam not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/exams/{examId}/export",
+    summary: "Export the exam or its criteria as PDF or LaTeX",
+    tag: "Exams",
+    auth: "user",
+    params: examParams,
+    query: examExportQuery,
+    responses: {
+      200: {
+        description: "The file (application/pdf or application/x-tex)",
+        schema: s.string({ format: "binary" }),
+        contentType: "application/pdf",
+      },
+      404: error("Exam not found"),
+    },
+  },
+
+  // ---------- Turmas ----------
+  {
+    method: "get",
+    path: "/api/v1/classes",
+    summary: "Classes the user teaches or belongs to",
+    tag: "Classes",
+    auth: "user",
+    responses: { 200: json("The classes", classList) },
+  },
+  {
+    method: "post",
+    path: "/api/v1/classes",
+    summary: "Create a class",
+    tag: "Classes",
+    auth: "user",
+    roles: ["teacher", "admin"],
+    body: createClassRequest,
+    responses: { 201: json("The class, with its join code", classView) },
+  },
+  {
+    method: "post",
+    path: "/api/v1/classes/join",
+    summary: "Join a class with its code",
+    tag: "Classes",
+    auth: "user",
+    body: joinClassRequest,
+    responses: {
+      200: json("The class", classView),
+      404: error("Unknown join code"),
+      409: error("Teachers cannot join their own class"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/classes/{classId}",
+    summary: "Class detail (students only for the teacher)",
+    tag: "Classes",
+    auth: "user",
+    params: classParams,
+    responses: {
+      200: json("The class", classDetail),
+      404: error("Class not found"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/classes/{classId}/students/{studentId}",
+    summary: "Remove a student from the class",
+    tag: "Classes",
+    auth: "user",
+    params: classStudentParams,
+    responses: {
+      204: noContent,
+      404: error("Class not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/classes/{classId}/assignments",
+    summary: "Assignments of the class",
+    tag: "Classes",
+    auth: "user",
+    params: classParams,
+    responses: {
+      200: json("The assignments", assignmentList),
+      404: error("Class not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/classes/{classId}/assignments",
+    summary: "Create an assignment (fixed exercises or a subtopic)",
+    tag: "Classes",
+    auth: "user",
+    params: classParams,
+    body: createAssignmentRequest,
+    responses: {
+      201: json("The assignment", assignmentView),
+      404: error("Class, subtopic or exercise not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/classes/{classId}/results",
+    summary: "Aggregated results of the class",
+    tag: "Classes",
+    auth: "user",
+    params: classParams,
+    roles: ["teacher", "admin"],
+    query: classResultsQuery,
+    responses: {
+      200: json("The results", classResults),
+      404: error("Class or assignment not found"),
+    },
+  },
+
+  // ---------- Administração: currículo ----------
+  {
+    method: "get",
+    path: "/api/v1/admin/curriculum/topics",
+    summary: "The whole curriculum",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    responses: { 200: json("Topics with their subtopics", curriculumResponse) },
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/curriculum/topics",
+    summary: "Create a topic",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    body: createTopicRequest,
+    responses: {
+      201: json("The topic", topic),
+      409: error("Official code already in use"),
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/v1/admin/curriculum/topics/{topicId}",
+    summary: "Update a topic",
+    tag: "Admin",
+    auth: "user",
+    params: topicParams,
+    roles: ADMIN,
+    body: updateTopicRequest,
+    responses: {
+      200: json("The topic", topic),
+      404: error("Topic not found"),
+      409: error("Official code already in use"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/admin/curriculum/topics/{topicId}",
+    summary: "Delete a topic without subtopics",
+    tag: "Admin",
+    auth: "user",
+    params: topicParams,
+    roles: ADMIN,
+    responses: {
+      204: noContent,
+      404: error("Topic not found"),
+      409: error("The topic still has subtopics"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/curriculum/subtopics",
+    summary: "Create a subtopic",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    body: createSubtopicRequest,
+    responses: {
+      201: json("The subtopic", subtopic),
+      404: error("Topic not found"),
+      409: error("Name already in use in the topic"),
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/v1/admin/curriculum/subtopics/{subtopicId}",
+    summary: "Update a subtopic (a new aiNotes keeps the previous version)",
+    tag: "Admin",
+    auth: "user",
+    params: subtopicParams,
+    roles: ADMIN,
+    body: updateSubtopicRequest,
+    responses: {
+      200: json("The subtopic", subtopic),
+      404: error("Subtopic or topic not found"),
+      409: error("Name already in use in the topic"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/admin/curriculum/subtopics/{subtopicId}",
+    summary: "Delete a subtopic without exercises",
+    tag: "Admin",
+    auth: "user",
+    params: subtopicParams,
+    roles: ADMIN,
+    responses: {
+      204: noContent,
+      404: error("Subtopic not found"),
+      409: error("The subtopic is in use"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/curriculum/subtopics/{subtopicId}/ai-notes",
+    summary: "Versions of the subtopic aiNotes",
+    tag: "Admin",
+    auth: "user",
+    params: subtopicParams,
+    roles: ADMIN,
+    responses: {
+      200: json("Current and previous versions", aiNotesHistory),
+      404: error("Subtopic not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/curriculum/import",
+    summary: "Idempotent curriculum import (JSON or CSV)",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    query: curriculumImportQuery,
+    body: curriculumImportRequest,
+    multipart: true,
+    responses: { 200: json("What was (or would be) changed", curriculumImportResult) },
+  },
+
+  // ---------- Administração: prompts e LLM ----------
+  {
+    method: "get",
+    path: "/api/v1/admin/prompts",
+    summary: "Prompts with their active version and experiment",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    responses: { 200: json("The prompts", promptList) },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/prompts/{name}/versions",
+    summary: "Versions of a prompt",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    responses: {
+      200: json("The versions", promptVersionList),
+      404: error("Unknown prompt"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/prompts/{name}/versions",
+    summary: "Create a prompt version",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    body: createPromptVersionRequest,
+    responses: {
+      201: json("The version", promptTemplate),
+      404: error("Unknown prompt"),
+      409: error("Version already exists"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/admin/prompts/{name}/active",
+    summary: "Activate a prompt version",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    body: activatePromptRequest,
+    responses: {
+      200: json("The active version", activePromptResponse),
+      404: error("Unknown prompt or version"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/prompts/{name}/experiments",
+    summary: "A/B experiments of a prompt",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    responses: {
+      200: json("The experiments", experimentList),
+      404: error("Unknown prompt"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/prompts/{name}/experiments",
+    summary: "Start an A/B experiment",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    body: startExperimentRequest,
+    responses: {
+      201: json("The experiment", promptExperiment),
+      404: error("Unknown prompt or version"),
+      409: error("An experiment is already running"),
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/v1/admin/prompts/{name}/experiments/{experimentId}",
+    summary: "Stop an experiment",
+    tag: "Admin",
+    auth: "user",
+    params: experimentParams,
+    roles: ADMIN,
+    body: stopExperimentRequest,
+    responses: {
+      200: json("The experiment", promptExperiment),
+      404: error("No active experiment with this id"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/prompts/{name}/stats",
+    summary: "Results per prompt version",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    responses: {
+      200: json("Stats per version", promptStats),
+      404: error("Unknown prompt"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/llm/metrics",
+    summary: "LLM calls, failures, latency and cost per day",
+    tag: "Admin",
+    auth: "user",
+    roles: ADMIN,
+    query: llmMetricsQuery,
+    responses: { 200: json("Daily metrics", llmMetrics) },
+  },
+
+  // ---------- Documento ----------
+  {
+    method: "get",
+    path: "/api/v1/openapi.json",
+    summary: "This OpenAPI document",
+    tag: "Meta",
+    auth: "none",
+    responses: { 200: { description: "OpenAPI 3.1 document" } },
+  },
+];
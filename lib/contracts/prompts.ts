@@ -0,0 +1,131 @@
+import {
+  BUILTIN_VERSION,
+  MAX_EXPERIMENT_VARIANTS,
+  MAX_PROMPT_TEMPLATE_LENGTH,
+  PROMPT_NAMES,
+  type PromptExperiment,
+  type PromptExperimentStatus,
+  type PromptSummary,
+  type PromptTemplate,
+  type PromptVersionStats,
+} from "@/lib/prompts/types";
+import { s, type Schema } from "@/lib/schema";
+import { id, timestamp } from "./common";
+
+const EXPERIMENT_STATUSES: PromptExperimentStatus[] = ["active", "stopped"];
+
+const promptName = s.enum(PROMPT_NAMES);
+
+const versionName = s.string({
+  pattern: /^[A-Za-z0-9._-]{1,40}$/,
+  patternMessage: "must be 1 to 40 letters, digits, '.', '_' or '-'",
+});
+
+// o texto fica como foi escrito (espaços incluídos)
+const template = s
+  .string({ max: MAX_PROMPT_TEMPLATE_LENGTH, trim: false })
+  .refine((text) => text.trim().length > 0, "must not be empty");
+
+// ---------- Pedidos ----------
+
+// POST /api/v1/admin/prompts/:name/versions
+export const createPromptVersionRequest = s.object({
+  version: versionName.refine(
+    (version) => version !== BUILTIN_VERSION,
+    `must not be ${BUILTIN_VERSION} (reserved)`,
+  ),
+  systemTemplate: template,
+  userTemplate: template,
+  notes: s
+    .string()
+    .transform((notes) => notes || null)
+    .nullable()
+    .default(null),
+  activate: s.boolean().default(false),
+});
+
+// PUT /api/v1/admin/prompts/:name/active
+export const activatePromptRequest = s.object({
+  version: s.string({ min: 1 }).describe(`"${BUILTIN_VERSION}" goes back to the built-in text`),
+});
+
+// POST /api/v1/admin/prompts/:name/experiments
+export const startExperimentRequest = s.object({
+  variants: s
+    .array(
+      s.object({
+        version: s.string({ min: 1 }),
+        weight: s.integer({ min: 1, max: 100 }).describe("Share of the traffic, by weight"),
+      }),
+      { min: 2, max: MAX_EXPERIMENT_VARIANTS },
+    )
+    .refine(
+      (variants) => new Set(variants.map((v) => v.version)).size === variants.length,
+      "must not repeat a version",
+    ),
+});
+
+// /api/v1/admin/prompts/:name/experiments/:experimentId (o nome valida-se à parte)
+export const experimentParams = s.object({ experimentId: id });
+
+// PATCH /api/v1/admin/prompts/:name/experiments/:experimentId
+export const stopExperimentRequest = s.object({ status: s.literal("stopped") });
+
+// ---------- Respostas ----------
+
+export const promptExperiment = s
+  .object({
+    id,
+    name: promptName,
+    variants: s.array(s.object({ version: s.string(), weight: s.integer({ min: 1 }) })),
+    status: s.enum(EXPERIMENT_STATUSES),
+    createdBy: id.nullable(),
+    startedAt: timestamp,
+    stoppedAt: timestamp.nullable(),
+  })
+  .named("PromptExperiment") satisfies Schema<PromptExperiment>;
+
+export const promptTemplate = s
+  .object({
+    name: promptName,
+    version: s.string(),
+    systemTemplate: s.string({ trim: false }),
+    userTemplate: s.string({ trim: false }),
+    notes: s.string().nullable(),
+    active: s.boolean(),
+    createdBy: id.nullable(),
+    createdAt: timestamp.nullable().describe(`null for ${BUILTIN_VERSION}`),
+  })
+  .named("PromptTemplate") satisfies Schema<PromptTemplate>;
+
+export const promptList = s.object({
+  prompts: s.array(
+    s.object({
+      name: promptName,
+      variables: s.record(s.string()).describe("Variable name -> description"),
+      activeVersion: s.string(),
+      experiment: promptExperiment.nullable(),
+      versions: s.array(s.string()),
+    }) satisfies Schema<PromptSummary>,
+  ),
+});
+
+export const promptVersionList = s.object({ versions: s.array(promptTemplate) });
+
+export const activePromptResponse = s.object({ name: promptName, activeVersion: s.string() });
+
+export const experimentList = s.object({ experiments: s.array(promptExperiment) });
+
+export const promptStats = s.object({
+  name: promptName,
+  versions: s.array(
+    s.object({
+      version: s.string(),
+      experimentId: id.nullable(),
+      items: s.integer({ min: 0 }).describe("Exercises generated / evaluations made"),
+      attempts: s.integer({ min: 0 }),
+      averageScore: s.number().nullable(),
+      lastUsedAt: timestamp,
+    }) satisfies Schema<PromptVersionStats>,
+  ),
+});
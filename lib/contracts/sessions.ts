@@ -0,0 +1,103 @@
+import type { PracticeSession, PracticeSessionStatus } from "@/lib/db/practiceSessions";
+import { DEFAULT_LOCALE } from "@/lib/locale/types";
+import { s, type Schema } from "@/lib/schema";
+import type {
+  SessionExercise,
+  SessionRecommendation,
+  SessionSummary,
+} from "@/lib/sessions/practiceSession";
+import { difficulty, errorResponse, exerciseType, id, locale, timestamp } from "./common";
+import {
+  evaluationErrorCode,
+  evaluationResult,
+  practiceResult,
+  submissionFields,
+} from "./evaluations";
+import { exerciseDefinition } from "./exercises";
+
+const SESSION_STATUSES: PracticeSessionStatus[] = ["active", "completed", "abandoned"];
+
+const RECOMMENDATIONS: SessionRecommendation[] = ["advance", "practice_more", "review_basics"];
+
+// ---------- Pedidos ----------
+
+// /api/v1/sessions/:sessionId/...
+export const sessionParams = s.object({ sessionId: id });
+
+// POST /api/v1/sessions
+export const startSessionRequest = s
+  .object({
+    subtopicId: id.optional(),
+    subtopicName: s.string({ min: 1, max: 200 }).optional(),
+    difficulty: difficulty.default("medium"),
+    assignmentId: id.optional().describe("Practice-session assignment of one of the classes"),
+    locale: locale.default(DEFAULT_LOCALE),
+  })
+  .refine(
+    (body) =>
+      body.subtopicId !== undefined ||
+      body.subtopicName !== undefined ||
+      body.assignmentId !== undefined,
+    "is required when subtopicName and assignmentId are missing",
+    "subtopicId",
+  );
+
+// POST /api/v1/sessions/:sessionId/answers
+export const sessionAnswerRequest = s.object({ ...submissionFields, exerciseId: id });
+
+// ---------- Respostas ----------
+
+export const practiceSession = s
+  .object({
+    id,
+    studentId: id,
+    subtopicId: id.nullable(),
+    subtopicName: s.string(),
+    difficulty,
+    status: s.enum(SESSION_STATUSES),
+    assignmentId: id.nullable(),
+    locale,
+    createdAt: timestamp,
+    completedAt: timestamp.nullable(),
+  })
+  .named("PracticeSession") satisfies Schema<PracticeSession>;
+
+export const sessionExercise = exerciseDefinition
+  .extend({ exerciseIndex: s.integer({ min: 1 }), difficulty })
+  .named("SessionExercise") satisfies Schema<SessionExercise>;
+
+export const sessionSummary = s
+  .object({
+    sessionId: id,
+    status: s.enum(SESSION_STATUSES),
+    subtopicId: id.nullable(),
+    subtopicName: s.string(),
+    startDifficulty: difficulty,
+    exercises: s.array(
+      s.object({
+        exerciseId: id,
+        exerciseIndex: s.integer({ min: 1 }),
+        exerciseType,
+        difficulty,
+        score: s.integer({ min: 0, max: 100 }).nullable().describe("null until answered"),
+        result: practiceResult.nullable(),
+      }),
+    ),
+    averageScore: s.number().nullable(),
+    recommendation: s.enum(RECOMMENDATIONS).nullable().describe("Only once the session ends"),
+    message: s.string().nullable(),
+  })
+  .named("SessionSummary") satisfies Schema<SessionSummary>;
+
+export const startedSession = s.object({ session: practiceSession, exercise: sessionExercise });
+
+export const sessionAnswerResponse = s.object({
+  evaluation: evaluationResult,
+  attemptId: id,
+  summary: sessionSummary.nullable().describe("Filled in when the session ends"),
+});
+
+// 503 quando a avaliação falha: o código diz porquê
+export const sessionError = errorResponse
+  .extend({ errorCode: evaluationErrorCode.optional() })
+  .named("SessionError");
@@ -0,0 +1,119 @@
+import type { Attempt, ErrorStats } from "@/lib/db/attempts";
+import type { StudyReason, StudyRecommendation, SubtopicMastery } from "@/lib/mastery/recommend";
+import { s, type Schema } from "@/lib/schema";
+import { difficulty, exerciseType, id, isoDate, timestamp } from "./common";
+import {
+  errorCategory,
+  evaluationFlag,
+  evaluationStep,
+  finalAnswerCheck,
+  practiceResult,
+} from "./evaluations";
+import { practiceSession } from "./sessions";
+
+const STUDY_REASONS: StudyReason[] = ["review_due", "weak", "new", "maintain"];
+
+// ---------- Pedidos ----------
+
+// /api/v1/students/:studentId/...
+export const studentParams = s.object({ studentId: id });
+
+// GET /api/v1/students/:studentId/{history,mastery,errors}
+export const studentQuery = s.object({ subtopicId: id.optional() });
+
+// GET /api/v1/students/:studentId/recommendations
+export const recommendationsQuery = s.object({
+  year: s.integer({ min: 1, max: 12, coerce: true }).optional(),
+  examDate: isoDate
+    .transform((date) => new Date(`${date}T09:00:00Z`))
+    .refine((date) => !Number.isNaN(date.getTime()), "must be a date (YYYY-MM-DD)")
+    .optional(),
+  limit: s.integer({ min: 1, max: 20, coerce: true }).default(5),
+});
+
+// ---------- Respostas ----------
+
+export const attempt = s
+  .object({
+    id,
+    studentId: id,
+    sessionId: id.nullable(),
+    exerciseId: id.nullable(),
+    subtopicId: id.nullable(),
+    subtopicName: s.string(),
+    exerciseIndex: s.integer().nullable(),
+    statement: s.string({ trim: false }).nullable(),
+    userAnswer: s.string({ trim: false }).nullable(),
+    imageRefs: s.array(s.string()),
+    result: practiceResult,
+    score: s.integer({ min: 0, max: 100 }),
+    feedbackSummary: s.string({ trim: false }),
+    steps: s.array(evaluationStep),
+    finalAnswerCheck,
+    hintsUsed: s.integer({ min: 0 }),
+    hintPenalty: s.integer({ min: 0 }),
+    flags: s.array(evaluationFlag),
+    provider: s.string().nullable(),
+    model: s.string().nullable(),
+    createdAt: timestamp,
+  })
+  .named("Attempt") satisfies Schema<Attempt>;
+
+export const historyResponse = s.object({
+  subtopics: s.array(
+    s.object({
+      subtopicId: id.nullable(),
+      subtopicName: s.string(),
+      averageScore: s.integer({ min: 0, max: 100 }),
+      attempts: s.array(attempt),
+      sessions: s.array(practiceSession),
+    }),
+  ),
+});
+
+const subtopicMastery = s.object({
+  subtopicId: id,
+  subtopicName: s.string(),
+  mastery: s.number({ min: 0, max: 1 }),
+  attempts: s.integer({ min: 0 }),
+  lastPracticedAt: timestamp.nullable(),
+  dueAt: timestamp.nullable(),
+  byExerciseType: s
+    .record(s.object({ mastery: s.number({ min: 0, max: 1 }), attempts: s.integer({ min: 0 }) }))
+    .describe("Keyed by exercise type"),
+}) satisfies Schema<SubtopicMastery>;
+
+export const masteryResponse = s.object({ subtopics: s.array(subtopicMastery) });
+
+const errorStats = s.object({
+  subtopicId: id.nullable(),
+  subtopicName: s.string(),
+  category: errorCategory,
+  occurrences: s.integer({ min: 0 }),
+  attemptsAffected: s.integer({ min: 0 }),
+  averageScore: s.number().describe("Average of the attempts where the error appeared"),
+  lastSeenAt: timestamp,
+}) satisfies Schema<ErrorStats>;
+
+export const errorsResponse = s.object({ errors: s.array(errorStats) });
+
+const studyRecommendation = s
+  .object({
+    subtopicId: id,
+    subtopicName: s.string(),
+    topicName: s.string().nullable(),
+    topicYear: s.integer().nullable(),
+    topicCode: s.string().nullable(),
+    reason: s.enum(STUDY_REASONS),
+    mastery: s.number({ min: 0, max: 1 }).nullable().describe("null if never practiced"),
+    difficulty,
+    exerciseType,
+    dueAt: timestamp.nullable(),
+    priority: s.number(),
+  })
+  .named("StudyRecommendation") satisfies Schema<StudyRecommendation>;
+
+export const recommendationsResponse = s.object({
+  next: studyRecommendation.nullable(),
+  queue: s.array(studyRecommendation),
+});
@@ -0,0 +1,40 @@
+import { s, type Schema } from "@/lib/schema";
+import {
+  MAX_TUTOR_MESSAGE_LENGTH,
+  type TutorChatMessage,
+  type TutorConversation,
+  type TutorReply,
+} from "@/lib/tutor/types";
+import { id, locale, structuredText, timestamp } from "./common";
+
+// /api/v1/attempts/:attemptId/tutor/...
+export const attemptParams = s.object({ attemptId: id });
+
+// POST /api/v1/attempts/:attemptId/tutor/messages
+export const tutorMessageRequest = s.object({
+  message: s.string({ min: 1, max: MAX_TUTOR_MESSAGE_LENGTH }),
+  locale: locale.optional().describe("Defaults to the exercise's locale, else pt-PT"),
+});
+
+const tutorMessage = s
+  .object({
+    id,
+    role: s.enum(["user", "assistant"]),
+    content: s.string({ trim: false }).describe("The tutor's math is written between $…$"),
+    structuredContent: structuredText,
+    createdAt: timestamp,
+  })
+  .named("TutorMessage") satisfies Schema<TutorChatMessage>;
+
+export const tutorConversation = s.object({
+  attemptId: id,
+  messages: s.array(tutorMessage),
+  remainingQuestions: s.integer({ min: 0 }),
+}) satisfies Schema<TutorConversation>;
+
+// evento "done" do stream
+export const tutorReply = s.object({
+  question: tutorMessage,
+  reply: tutorMessage,
+  remainingQuestions: s.integer({ min: 0 }),
+}) satisfies Schema<TutorReply>;
@@ -0,0 +1,81 @@
+// Parser CSV mínimo (RFC 4180): aspas, aspas escapadas ("") e campos com mudanças de linha.
+// Aceita "," ou ";" como separador (o Excel em pt usa ";"), detetado pela linha de cabeçalho.
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(message);
+    this.name = "CsvParseError";
+  }
+}
+
+function detectDelimiter(text: string): "," | ";" {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const commas = header.split(",").length;
+  const semicolons = header.split(";").length;
+  return semicolons > commas ? ";" : ",";
+}
+
+/** Devolve as linhas do CSV (incluindo o cabeçalho), ignorando linhas vazias. */
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^﻿/, ""); // BOM do Excel
+  const delimiter = detectDelimiter(text);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() !== "") {
+        throw new CsvParseError("unexpected quote inside an unquoted field", line);
+      }
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError("unterminated quoted field", line);
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
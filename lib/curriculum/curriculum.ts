@@ -0,0 +1,188 @@
+import type { AuthUser } from "@/lib/auth";
+import {
+  deleteSubtopic,
+  deleteTopic,
+  getSubtopic,
+  getTopic,
+  insertSubtopic,
+  insertTopic,
+  listAiNotesVersions,
+  listSubtopics,
+  listTopics,
+  setSubtopicAiNotes,
+  updateSubtopic,
+  updateTopic,
+  type AiNotesVersion,
+  type Subtopic,
+  type Topic,
+} from "@/lib/db/curriculum";
+import type { CurriculumIssue, TopicWithSubtopics } from "./types";
+
+export class CurriculumError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues: CurriculumIssue[] = [],
+  ) {
+    super(message);
+    this.name = "CurriculumError";
+  }
+}
+
+// violação dos índices únicos (código oficial / nome do subtema no tema)
+function isUniqueViolation(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === "23505";
+}
+
+async function loadTopic(topicId: string): Promise<Topic> {
+  const topic = await getTopic(topicId);
+  if (!topic) {
+    throw new CurriculumError("Topic not found", 404);
+  }
+  return topic;
+}
+
+async function loadSubtopic(subtopicId: string): Promise<Subtopic> {
+  const subtopic = await getSubtopic(subtopicId);
+  if (!subtopic) {
+    throw new CurriculumError("Subtopic not found", 404);
+  }
+  return subtopic;
+}
+
+// ---------- Tópicos ----------
+
+export async function listCurriculum(): Promise<TopicWithSubtopics[]> {
+  const [topics, subtopics] = await Promise.all([listTopics(), listSubtopics()]);
+  return topics.map((topic) => ({
+    ...topic,
+    subtopics: subtopics.filter((s) => s.topicId === topic.id),
+  }));
+}
+
+export async function createTopic(input: {
+  officialCode: string;
+  name: string;
+  year: number;
+}): Promise<Topic> {
+  try {
+    return await insertTopic(input);
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new CurriculumError("A topic with this officialCode already exists", 409);
+    }
+    throw err;
+  }
+}
+
+export async function editTopic(
+  topicId: string,
+  patch: { officialCode?: string; name?: string; year?: number },
+): Promise<Topic> {
+  await loadTopic(topicId);
+  try {
+    return (await updateTopic(topicId, patch)) ?? (await loadTopic(topicId));
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new CurriculumError("A topic with this officialCode already exists", 409);
+    }
+    throw err;
+  }
+}
+
+/** Só apaga tópicos vazios: os subtemas têm histórico (exercícios, tentativas, domínio). */
+export async function removeTopic(topicId: string): Promise<void> {
+  await loadTopic(topicId);
+  const subtopics = await listSubtopics(topicId);
+  if (subtopics.length > 0) {
+    throw new CurriculumError("Topic still has subtopics; delete or move them first", 409);
+  }
+  await deleteTopic(topicId);
+}
+
+// ---------- Subtemas ----------
+
+export async function createSubtopic(
+  input: { topicId: string; name: string; aiNotes: string | null },
+  user: AuthUser,
+): Promise<Subtopic> {
+  await loadTopic(input.topicId);
+
+  let subtopic: Subtopic;
+  try {
+    subtopic = await insertSubtopic({ topicId: input.topicId, name: input.name });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new CurriculumError("This topic already has a subtopic with that name", 409);
+    }
+    throw err;
+  }
+
+  if (input.aiNotes === null) return subtopic;
+  const version = await setSubtopicAiNotes({
+    subtopicId: subtopic.id,
+    aiNotes: input.aiNotes,
+    changedBy: user.id,
+    source: "admin",
+  });
+  return { ...subtopic, aiNotes: input.aiNotes, aiNotesVersion: version };
+}
+
+/** aiNotes só muda se vier no patch (null remove as notas); cada mudança cria uma versão. */
+export async function editSubtopic(
+  subtopicId: string,
+  patch: { topicId?: string; name?: string; aiNotes?: string | null },
+  user: AuthUser,
+): Promise<Subtopic> {
+  let subtopic = await loadSubtopic(subtopicId);
+  if (patch.topicId !== undefined && patch.topicId !== subtopic.topicId) {
+    await loadTopic(patch.topicId);
+  }
+
+  if (patch.topicId !== undefined || patch.name !== undefined) {
+    try {
+      subtopic =
+        (await updateSubtopic(subtopicId, { topicId: patch.topicId, name: patch.name })) ??
+        subtopic;
+    } catch (err) {
+      if (isUniqueViolation(err)) {
+        throw new CurriculumError("This topic already has a subtopic with that name", 409);
+      }
+      throw err;
+    }
+  }
+
+  if (patch.aiNotes !== undefined) {
+    const version = await setSubtopicAiNotes({
+      subtopicId,
+      aiNotes: patch.aiNotes,
+      changedBy: user.id,
+      source: "admin",
+    });
+    subtopic = { ...subtopic, aiNotes: patch.aiNotes, aiNotesVersion: version };
+  }
+
+  return subtopic;
+}
+
+export async function removeSubtopic(subtopicId: string): Promise<void> {
+  await loadSubtopic(subtopicId);
+  try {
+    await deleteSubtopic(subtopicId);
+  } catch (err) {
+    // 23503: ainda referenciado (ex.: domínio dos alunos sem cascade)
+    if ((err as { code?: string } | null)?.code === "23503") {
+      throw new CurriculumError("Subtopic is still referenced and cannot be deleted", 409);
+    }
+    throw err;
+  }
+}
+
+export async function getAiNotesHistory(subtopicId: string): Promise<{
+  subtopic: Subtopic;
+  versions: AiNotesVersion[];
+}> {
+  const subtopic = await loadSubtopic(subtopicId);
+  const versions = await listAiNotesVersions(subtopicId);
+  return { subtopic, versions };
+}
@@ -0,0 +1,15 @@
+import type { NextApiResponse } from "next";
+import { CurriculumError } from "./curriculum";
+
+// Converte erros da administração do programa em respostas HTTP
+export function sendCurriculumError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof CurriculumError) {
+    return res.status(err.status).json({
+      error: err.message,
+      ...(err.issues.length > 0 ? { issues: err.issues } : {}),
+    });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
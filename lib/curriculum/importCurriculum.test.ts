@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CsvParseError, parseCsv } from "./csv";
+import { CurriculumError } from "./curriculum";
+import { diffCurriculum, parseCurriculumImport } from "./importCurriculum";
+import type { ImportedTopic, Subtopic, Topic } from "./types";
+
+const HEADER = "year,topic_code,topic_name,subtopic_name,ai_notes";
+
+function importIssues(csv: string) {
+  try {
+    parseCurriculumImport("csv", csv);
+  } catch (err) {
+    if (err instanceof CurriculumError) return err.issues;
+    throw err;
+  }
+  assert.fail("the import should have been rejected");
+}
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, escaped quotes and line breaks", () => {
+    const rows = parseCsv('a,b\r\n"x, y","diz ""olá""\nsegunda linha"\n');
+    assert.deepEqual(rows, [
+      ["a", "b"],
+      ["x, y", 'diz "olá"\nsegunda linha'],
+    ]);
+  });
+
+  it("uses the semicolon when the header does and drops the BOM", () => {
+    assert.deepEqual(parseCsv("\uFEFFa;b\n1,5;2\n\n"), [
+      ["a", "b"],
+      ["1,5", "2"],
+    ]);
+  });
+
+  it("reports the line of an unterminated quote", () => {
+    assert.throws(
+      () => parseCsv('a,b\n1,2\n3,"aberto'),
+      (err) => err instanceof CsvParseError && err.line === 3,
+    );
+  });
+});
+
+describe("parseCurriculumImport (csv)", () => {
+  it("groups the rows of a topic and keeps empty notes as unchanged", () => {
+    const topics = parseCurriculumImport(
+      "csv",
+      [
+        HEADER,
+        '11,FRVR,Funções reais,Derivadas,"- regra da cadeia"',
+        "11,FRVR,Funções reais,Limites,",
+        "12,TRI,Trigonometria,,",
+      ].join("\n"),
+    );
+    assert.deepEqual(topics, [
+      {
+        officialCode: "FRVR",
+        name: "Funções reais",
+        year: 11,
+        subtopics: [
+          { name: "Derivadas", aiNotes: "- regra da cadeia" },
+          { name: "Limites", aiNotes: undefined },
+        ],
+      },
+      { officialCode: "TRI", name: "Trigonometria", year: 12, subtopics: [] },
+    ]);
+  });
+
+  it("rejects a file without the required columns", () => {
+    const issues = importIssues("year,topic_code\n11,FRVR");
+    assert.equal(issues[0].path, "header");
+  });
+
+  it("rejects a topic code with two different names", () => {
+    const issues = importIssues(
+      [HEADER, "11,FRVR,Funções reais,Derivadas,", "11,FRVR,Funções,Limites,"].join("\n"),
+    );
+    assert.equal(issues[0].path, "row 3");
+  });
+
+  it("rejects the same subtopic twice in a topic, ignoring case", () => {
+    const rows = ["11,FRVR,Funções reais,Derivadas,", "11,FRVR,Funções reais,derivadas,"];
+    const issues = importIssues([HEADER, ...rows].join("\n"));
+    assert.equal(issues[0].message, "duplicate subtopic name in topic");
+  });
+});
+
+describe("diffCurriculum", () => {
+  const existingTopics: Topic[] = [
+    { id: "t1", name: "Funções reais", year: 11, officialCode: "FRVR" },
+    { id: "t2", name: "Estatística", year: 10, officialCode: "EST" },
+  ];
+  const existingSubtopics: Subtopic[] = [
+    { id: "s1", topicId: "t1", name: "Derivadas", aiNotes: "- regra da cadeia", aiNotesVersion: 1 },
+    { id: "s2", topicId: "t1", name: "limites", aiNotes: null, aiNotesVersion: 0 },
+    { id: "s3", topicId: "t1", name: "Assíntotas", aiNotes: null, aiNotesVersion: 0 },
+  ];
+
+  it("finds what is new, what changed and what is missing from the file", () => {
+    const imported: ImportedTopic[] = [
+      {
+        officialCode: "FRVR",
+        name: "Funções reais de variável real",
+        year: 11,
+        subtopics: [
+          { name: "Derivadas" },
+          { name: "Limites", aiNotes: "- limites notáveis" },
+          { name: "Continuidade" },
+        ],
+      },
+      { officialCode: "TRI", name: "Trigonometria", year: 12, subtopics: [] },
+    ];
+
+    const { diff } = diffCurriculum(imported, existingTopics, existingSubtopics);
+
+    assert.deepEqual(diff.topics, {
+      created: ["TRI"],
+      updated: [{ officialCode: "FRVR", fields: ["name"] }],
+      unchanged: 0,
+      notInImport: ["EST"],
+    });
+    assert.deepEqual(diff.subtopics, {
+      created: [{ topicCode: "FRVR", name: "Continuidade" }],
+      updated: [{ topicCode: "FRVR", name: "Limites", fields: ["name", "aiNotes"] }],
+      unchanged: 1,
+      notInImport: [{ topicCode: "FRVR", name: "Assíntotas" }],
+    });
+  });
+
+  it("changes nothing when the same curriculum is imported again", () => {
+    const imported: ImportedTopic[] = [
+      { officialCode: "EST", name: "Estatística", year: 10, subtopics: [] },
+    ];
+    const { diff } = diffCurriculum(imported, existingTopics.slice(1), []);
+    assert.deepEqual(diff.topics, { created: [], updated: [], unchanged: 1, notInImport: [] });
+  });
+});
@@ -0,0 +1,362 @@
+import type { AuthUser } from "@/lib/auth";
+import {
+  insertSubtopic,
+  insertTopic,
+  listSubtopics,
+  listTopics,
+  setSubtopicAiNotes,
+  updateSubtopic,
+  updateTopic,
+  type Subtopic,
+  type Topic,
+} from "@/lib/db/curriculum";
+import { CsvParseError, parseCsv } from "./csv";
+import { CurriculumError } from "./curriculum";
+import type {
+  CurriculumDiff,
+  CurriculumImportFormat,
+  CurriculumImportResult,
+  CurriculumIssue,
+  ImportedSubtopic,
+  ImportedTopic,
+} from "./types";
+import {
+  MAX_IMPORT_SUBTOPICS,
+  MAX_IMPORT_TOPICS,
+  checkAiNotes,
+  checkName,
+  checkOfficialCode,
+  checkYear,
+  curriculumJsonImport,
+  subtopicKey,
+} from "./validate";
+
+const CSV_COLUMNS = ["year", "topic_code", "topic_name", "subtopic_name", "ai_notes"] as const;
+const MAX_REPORTED_ISSUES = 100;
+
+function invalidImport(issues: CurriculumIssue[]): CurriculumError {
+  return new CurriculumError(
+    `Invalid curriculum import (${issues.length} issue${issues.length === 1 ? "" : "s"})`,
+    400,
+    issues.slice(0, MAX_REPORTED_ISSUES),
+  );
+}
+
+// ---------- Leitura ----------
+
+function parseJsonTopics(payload: unknown, issues: CurriculumIssue[]): ImportedTopic[] {
+  const parsed = curriculumJsonImport.parse(payload);
+  if (!parsed.ok) {
+    issues.push(...parsed.issues);
+    return [];
+  }
+  return parsed.value.topics;
+}
+
+// uma linha por subtema; as linhas do mesmo topic_code juntam-se num tópico
+function parseCsvTopics(csv: string, issues: CurriculumIssue[]): ImportedTopic[] {
+  let rows: string[][];
+  try {
+    rows = parseCsv(csv);
+  } catch (err) {
+    if (err instanceof CsvParseError) {
+      issues.push({ path: `line ${err.line}`, message: err.message });
+      return [];
+    }
+    throw err;
+  }
+
+  const header = (rows.shift() || []).map((h) => h.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter((c) => c !== "ai_notes" && !header.includes(c));
+  if (missing.length > 0) {
+    issues.push({ path: "header", message: `missing columns: ${missing.join(", ")}` });
+    return [];
+  }
+  const column = (row: string[], name: (typeof CSV_COLUMNS)[number]) => {
+    const index = header.indexOf(name);
+    return index === -1 ? undefined : row[index];
+  };
+
+  const byCode = new Map<string, ImportedTopic>();
+  rows.forEach((row, i) => {
+    const path = `row ${i + 2}`; // o cabeçalho é a linha 1
+
+    const code = checkOfficialCode(column(row, "topic_code") ?? "");
+    const topicName = checkName(column(row, "topic_name") ?? "");
+    const topicYear = checkYear(column(row, "year") ?? "");
+    const rowIssues = [code, topicName, topicYear].filter((r) => "error" in r);
+    for (const result of rowIssues) {
+      issues.push({ path, message: (result as { error: string }).error });
+    }
+    if (!("value" in code && "value" in topicName && "value" in topicYear)) return;
+
+    let topic = byCode.get(code.value);
+    if (!topic) {
+      topic = {
+        officialCode: code.value,
+        name: topicName.value,
+        year: topicYear.value,
+        subtopics: [],
+      };
+      byCode.set(code.value, topic);
+    } else if (topic.name !== topicName.value || topic.year !== topicYear.value) {
+      issues.push({
+        path,
+        message: `topic ${code.value} has a different name or year than in a previous row`,
+      });
+      return;
+    }
+
+    // linha sem subtema: só o tópico
+    const rawSubName = column(row, "subtopic_name") ?? "";
+    if (!rawSubName.trim()) return;
+
+    const subName = checkName(rawSubName);
+    if ("error" in subName) {
+      issues.push({ path, message: `subtopic_name: ${subName.error}` });
+      return;
+    }
+    // no CSV não há null: célula vazia mantém as notas atuais
+    const rawNotes = column(row, "ai_notes");
+    let aiNotes: string | undefined;
+    if (rawNotes !== undefined && rawNotes.trim()) {
+      const notes = checkAiNotes(rawNotes);
+      if ("error" in notes) {
+        issues.push({ path, message: `ai_notes: ${notes.error}` });
+        return;
+      }
+      aiNotes = notes.value ?? undefined;
+    }
+    topic.subtopics.push({ name: subName.value, aiNotes });
+  });
+
+  return [...byCode.values()];
+}
+
+function checkDuplicates(topics: ImportedTopic[], issues: CurriculumIssue[]) {
+  const codes = new Set<string>();
+  for (const topic of topics) {
+    if (codes.has(topic.officialCode)) {
+      issues.push({ path: topic.officialCode, message: "duplicate topic officialCode" });
+    }
+    codes.add(topic.officialCode);
+
+    const names = new Set<string>();
+    for (const sub of topic.subtopics) {
+      const key = subtopicKey(sub.name);
+      if (names.has(key)) {
+        issues.push({
+          path: `${topic.officialCode} / ${sub.name}`,
+          message: "duplicate subtopic name in topic",
+        });
+      }
+      names.add(key);
+    }
+  }
+}
+
+/**
+ * Valida o ficheiro inteiro antes de tocar na BD; qualquer problema
+ * dá CurriculumError 400 com a lista de issues (nada é aplicado).
+ */
+export function parseCurriculumImport(
+  format: CurriculumImportFormat,
+  payload: unknown,
+): ImportedTopic[] {
+  const issues: CurriculumIssue[] = [];
+  const topics =
+    format === "csv"
+      ? parseCsvTopics(typeof payload === "string" ? payload : "", issues)
+      : parseJsonTopics(payload, issues);
+
+  if (issues.length === 0) {
+    checkDuplicates(topics, issues);
+  }
+  if (topics.length > MAX_IMPORT_TOPICS) {
+    issues.push({ path: "topics", message: `at most ${MAX_IMPORT_TOPICS} topics per import` });
+  }
+  const subtopicCount = topics.reduce((n, t) => n + t.subtopics.length, 0);
+  if (subtopicCount > MAX_IMPORT_SUBTOPICS) {
+    issues.push({
+      path: "subtopics",
+      message: `at most ${MAX_IMPORT_SUBTOPICS} subtopics per import`,
+    });
+  }
+  if (issues.length === 0 && topics.length === 0) {
+    issues.push({ path: "topics", message: "the import has no topics" });
+  }
+
+  if (issues.length > 0) throw invalidImport(issues);
+  return topics;
+}
+
+// ---------- Diferenças ----------
+
+type TopicChange = {
+  imported: ImportedTopic;
+  existing: Topic | null;
+  fields: ("name" | "year")[];
+};
+
+type SubtopicChange = {
+  topicCode: string;
+  imported: ImportedSubtopic;
+  existing: Subtopic | null;
+  fields: ("name" | "aiNotes")[];
+};
+
+type CurriculumPlan = {
+  diff: CurriculumDiff;
+  topics: TopicChange[];
+  subtopics: SubtopicChange[];
+};
+
+/**
+ * Compara a importação com o programa atual: tópicos pelo código oficial,
+ * subtemas pelo nome (sem maiúsculas) dentro do tópico. Nada é apagado:
+ * o que falta no ficheiro só aparece em notInImport.
+ */
+export function diffCurriculum(
+  imported: ImportedTopic[],
+  existingTopics: Topic[],
+  existingSubtopics: Subtopic[],
+): CurriculumPlan {
+  const diff: CurriculumDiff = {
+    topics: { created: [], updated: [], unchanged: 0, notInImport: [] },
+    subtopics: { created: [], updated: [], unchanged: 0, notInImport: [] },
+  };
+  const topicChanges: TopicChange[] = [];
+  const subtopicChanges: SubtopicChange[] = [];
+
+  const topicsByCode = new Map(
+    existingTopics.filter((t) => t.officialCode).map((t) => [t.officialCode!, t]),
+  );
+  const importedCodes = new Set(imported.map((t) => t.officialCode));
+
+  for (const topic of imported) {
+    const existing = topicsByCode.get(topic.officialCode) ?? null;
+    const fields: ("name" | "year")[] = [];
+    if (existing && existing.name !== topic.name) fields.push("name");
+    if (existing && existing.year !== topic.year) fields.push("year");
+
+    if (!existing) {
+      diff.topics.created.push(topic.officialCode);
+    } else if (fields.length > 0) {
+      diff.topics.updated.push({ officialCode: topic.officialCode, fields });
+    } else {
+      diff.topics.unchanged++;
+    }
+    topicChanges.push({ imported: topic, existing, fields });
+
+    const current = existing ? existingSubtopics.filter((s) => s.topicId === existing.id) : [];
+    const currentByKey = new Map(current.map((s) => [subtopicKey(s.name), s]));
+    const importedKeys = new Set(topic.subtopics.map((s) => subtopicKey(s.name)));
+
+    for (const sub of topic.subtopics) {
+      const ref = { topicCode: topic.officialCode, name: sub.name };
+      const found = currentByKey.get(subtopicKey(sub.name)) ?? null;
+      const subFields: ("name" | "aiNotes")[] = [];
+      if (found && found.name !== sub.name) subFields.push("name");
+      if (found && sub.aiNotes !== undefined && (found.aiNotes ?? null) !== sub.aiNotes) {
+        subFields.push("aiNotes");
+      }
+
+      if (!found) {
+        diff.subtopics.created.push(ref);
+      } else if (subFields.length > 0) {
+        diff.subtopics.updated.push({ ...ref, fields: subFields });
+      } else {
+        diff.subtopics.unchanged++;
+      }
+      subtopicChanges.push({
+        topicCode: topic.officialCode,
+        imported: sub,
+        existing: found,
+        fields: subFields,
+      });
+    }
+
+    for (const sub of current) {
+      if (!importedKeys.has(subtopicKey(sub.name))) {
+        diff.subtopics.notInImport.push({ topicCode: topic.officialCode, name: sub.name });
+      }
+    }
+  }
+
+  for (const topic of existingTopics) {
+    if (topic.officialCode && !importedCodes.has(topic.officialCode)) {
+      diff.topics.notInImport.push(topic.officialCode);
+    }
+  }
+
+  return { diff, topics: topicChanges, subtopics: subtopicChanges };
+}
+
+// ---------- Aplicação ----------
+
+async function applyPlan(plan: CurriculumPlan, user: AuthUser): Promise<void> {
+  const topicIds = new Map<string, string>();
+
+  for (const change of plan.topics) {
+    const { imported, existing } = change;
+    if (!existing) {
+      const created = await insertTopic({
+        officialCode: imported.officialCode,
+        name: imported.name,
+        year: imported.year,
+      });
+      topicIds.set(imported.officialCode, created.id);
+      continue;
+    }
+    if (change.fields.length > 0) {
+      await updateTopic(existing.id, { name: imported.name, year: imported.year });
+    }
+    topicIds.set(imported.officialCode, existing.id);
+  }
+
+  for (const change of plan.subtopics) {
+    const { imported } = change;
+    let subtopicId = change.existing?.id;
+
+    if (!subtopicId) {
+      const created = await insertSubtopic({
+        topicId: topicIds.get(change.topicCode)!,
+        name: imported.name,
+      });
+      subtopicId = created.id;
+    } else if (change.fields.includes("name")) {
+      await updateSubtopic(subtopicId, { name: imported.name });
+    }
+
+    const notesChanged = change.existing
+      ? change.fields.includes("aiNotes")
+      : imported.aiNotes !== undefined && imported.aiNotes !== null;
+    if (notesChanged) {
+      await setSubtopicAiNotes({
+        subtopicId,
+        aiNotes: imported.aiNotes ?? null,
+        changedBy: user.id,
+        source: "import",
+      });
+    }
+  }
+}
+
+/**
+ * Importação em massa do programa. Idempotente: voltar a importar o mesmo
+ * ficheiro não muda nada. Com dryRun devolve só as diferenças.
+ */
+export async function importCurriculum(
+  topics: ImportedTopic[],
+  options: { dryRun: boolean; user: AuthUser },
+): Promise<CurriculumImportResult> {
+  const [existingTopics, existingSubtopics] = await Promise.all([listTopics(), listSubtopics()]);
+  const plan = diffCurriculum(topics, existingTopics, existingSubtopics);
+
+  if (!options.dryRun) {
+    // sem transação: se falhar a meio, repetir a importação completa o resto
+    await applyPlan(plan, options.user);
+  }
+
+  return { dryRun: options.dryRun, ...plan.diff };
+}
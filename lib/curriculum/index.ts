@@ -0,0 +1,15 @@
+export * from "./types";
+export {
+  CurriculumError,
+  createSubtopic,
+  createTopic,
+  editSubtopic,
+  editTopic,
+  getAiNotesHistory,
+  listCurriculum,
+  removeSubtopic,
+  removeTopic,
+} from "./curriculum";
+export { diffCurriculum, importCurriculum, parseCurriculumImport } from "./importCurriculum";
+export { MAX_AI_NOTES_LENGTH } from "./validate";
+export { sendCurriculumError } from "./http";
@@ -0,0 +1,48 @@
+import type { AiNotesVersion, Subtopic, Topic } from "@/lib/db/curriculum";
+
+export type { AiNotesVersion, Subtopic, Topic };
+
+export type TopicWithSubtopics = Topic & { subtopics: Subtopic[] };
+
+// Problema de validação num campo (path ao estilo "topics[2].subtopics[0].name" ou "row 5")
+export type CurriculumIssue = {
+  path: string;
+  message: string;
+};
+
+// ---------- Importação ----------
+
+export type CurriculumImportFormat = "json" | "csv";
+
+export type ImportedSubtopic = {
+  name: string;
+  aiNotes?: string | null; // omitido = mantém as notas atuais
+};
+
+export type ImportedTopic = {
+  officialCode: string;
+  name: string;
+  year: number;
+  subtopics: ImportedSubtopic[];
+};
+
+export type SubtopicRef = { topicCode: string; name: string };
+
+export type CurriculumDiff = {
+  topics: {
+    created: string[]; // códigos oficiais
+    updated: { officialCode: string; fields: ("name" | "year")[] }[];
+    unchanged: number;
+    notInImport: string[]; // existem na BD mas não no ficheiro (não são apagados)
+  };
+  subtopics: {
+    created: SubtopicRef[];
+    updated: (SubtopicRef & { fields: ("name" | "aiNotes")[] })[];
+    unchanged: number;
+    notInImport: SubtopicRef[];
+  };
+};
+
+export type CurriculumImportResult = CurriculumDiff & {
+  dryRun: boolean;
+};
@@ -0,0 +1,83 @@
+import { s, type Schema } from "@/lib/schema";
+import type { ImportedTopic } from "./types";
+
+// Regras dos campos do programa, partilhadas pelo CRUD e pela importação em massa
+
+export const CURRICULUM_YEARS = [10, 11, 12] as const;
+export const MAX_OFFICIAL_CODE_LENGTH = 50;
+export const MAX_NAME_LENGTH = 200;
+export const MAX_AI_NOTES_LENGTH = 4000;
+
+export const MAX_IMPORT_TOPICS = 500;
+export const MAX_IMPORT_SUBTOPICS = 5000;
+
+// ---------- Campos ----------
+
+export const officialCodeField = s.string({ min: 1, max: MAX_OFFICIAL_CODE_LENGTH });
+
+export const nameField = s
+  .string({ min: 1, max: MAX_NAME_LENGTH })
+  .transform((name) => name.replace(/\s+/g, " "));
+
+// no CSV o ano chega como texto
+export const yearField = s
+  .integer({ coerce: true })
+  .refine(
+    (year) => CURRICULUM_YEARS.includes(year as (typeof CURRICULUM_YEARS)[number]),
+    `must be one of ${CURRICULUM_YEARS.join(", ")}`,
+  );
+
+// notas vazias passam a null (remove as notas)
+export const aiNotesField = s
+  .string({ max: MAX_AI_NOTES_LENGTH })
+  .transform((notes) => notes || null)
+  .nullable();
+
+// importação em JSON: { topics: [{ officialCode, name, year, subtopics: [{ name, aiNotes }] }] }
+export const curriculumJsonImport = s.object({
+  topics: s.array(
+    s.object({
+      officialCode: officialCodeField,
+      name: nameField,
+      year: yearField,
+      subtopics: s
+        .array(
+          s.object({
+            name: nameField,
+            // omitido = mantém as notas atuais
+            aiNotes: aiNotesField.optional(),
+          }),
+        )
+        .default([]),
+    }),
+  ),
+}) satisfies Schema<{ topics: ImportedTopic[] }>;
+
+type FieldResult<T> = { value: T } | { error: string };
+
+function checkField<T>(schema: Schema<T>, field: string, value: unknown): FieldResult<T> {
+  const parsed = schema.parse(value);
+  if (parsed.ok) return { value: parsed.value };
+  return { error: `${field} ${parsed.issues[0].message}` };
+}
+
+export function checkOfficialCode(value: unknown): FieldResult<string> {
+  return checkField(officialCodeField, "officialCode", value);
+}
+
+export function checkName(value: unknown): FieldResult<string> {
+  return checkField(nameField, "name", value);
+}
+
+export function checkYear(value: unknown): FieldResult<number> {
+  return checkField(yearField, "year", value);
+}
+
+export function checkAiNotes(value: unknown): FieldResult<string | null> {
+  return checkField(aiNotesField, "aiNotes", value);
+}
+
+/** Chave de comparação de subtemas: o nome é único por tema sem distinguir maiúsculas. */
+export function subtopicKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
@@ -0,0 +1,133 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Difficulty } from "@/lib/exercises/types";
+
+export type AssignmentKind = "exercises" | "practice_session";
+
+type AssignmentRow = {
+  id: string;
+  class_id: string;
+  title: string;
+  kind: AssignmentKind;
+  exercise_ids: string[];
+  subtopic_id: string | null;
+  subtopic_name: string | null;
+  difficulty: Difficulty | null;
+  due_at: string;
+  created_at: string;
+};
+
+export type Assignment = {
+  id: string;
+  classId: string;
+  title: string;
+  kind: AssignmentKind;
+  exerciseIds: string[]; // só em "exercises"
+  subtopicId: string | null;
+  subtopicName: string | null; // só em "practice_session"
+  difficulty: Difficulty | null;
+  dueAt: string;
+  createdAt: string;
+};
+
+function toAssignment(row: AssignmentRow): Assignment {
+  return {
+    id: row.id,
+    classId: row.class_id,
+    title: row.title,
+    kind: row.kind,
+    exerciseIds: row.exercise_ids || [],
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    difficulty: row.difficulty,
+    dueAt: row.due_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertAssignment(params: {
+  classId: string;
+  title: string;
+  kind: AssignmentKind;
+  exerciseIds: string[];
+  subtopicId: string | null;
+  subtopicName: string | null;
+  difficulty: Difficulty | null;
+  dueAt: string;
+}): Promise<Assignment> {
+  const { data, error } = await supabaseAdmin
+    .from("assignments")
+    .insert({
+      class_id: params.classId,
+      title: params.title,
+      kind: params.kind,
+      exercise_ids: params.exerciseIds,
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      difficulty: params.difficulty,
+      due_at: params.dueAt,
+    })
+    .select("*")
+    .single<AssignmentRow>();
+
+  if (error) throw error;
+  return toAssignment(data);
+}
+
+export async function getAssignment(id: string): Promise<Assignment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("assignments")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<AssignmentRow>();
+
+  if (error) throw error;
+  return data ? toAssignment(data) : null;
+}
+
+export async function listClassAssignments(classId: string): Promise<Assignment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("assignments")
+    .select("*")
+    .eq("class_id", classId)
+    .order("due_at", { ascending: true })
+    .returns<AssignmentRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toAssignment);
+}
+
+/** O exercício faz parte de um trabalho de uma turma onde o aluno está inscrito? */
+async function isExerciseAssignedTo(
+  exerciseId: string,
+  studentId: string,
+): Promise<boolean> {
+  const { data: enrolments, error } = await supabaseAdmin
+    .from("class_students")
+    .select("class_id")
+    .eq("student_id", studentId)
+    .returns<{ class_id: string }[]>();
+
+  if (error) throw error;
+  if (!enrolments?.length) return false;
+
+  const { count, error: countError } = await supabaseAdmin
+    .from("assignments")
+    .select("id", { count: "exact", head: true })
+    .in("class_id", enrolments.map((e) => e.class_id))
+    .contains("exercise_ids", [exerciseId]);
+
+  if (countError) throw countError;
+  return (count ?? 0) > 0;
+}
+
+/**
+ * O aluno pode usar o exercício? Os de outro aluno são tratados como inexistentes,
+ * exceto os que o professor atribuiu numa turma do aluno.
+ */
+export async function canAccessExercise(
+  exercise: { id: string; studentId: string | null },
+  studentId: string,
+): Promise<boolean> {
+  if (!exercise.studentId || exercise.studentId === studentId) return true;
+  return isExerciseAssignedTo(exercise.id, studentId);
+}
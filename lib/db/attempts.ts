@@ -0,0 +1,255 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { errorCategoriesOf } from "@/lib/evaluation/steps";
+import { buildStructuredText } from "@/lib/markup";
+import type { EquivalenceVerdict } from "@/lib/math";
+import type { PromptRef } from "@/lib/prompts/types";
+import type {
+  ErrorCategory,
+  EvaluationFlag,
+  EvaluationResult,
+  EvaluationStep,
+  PracticeResult,
+} from "@/lib/evaluation/types";
+
+// tentativas anteriores ao texto estruturado não guardavam structuredComment
+type StoredStep = Omit<EvaluationStep, "structuredComment"> &
+  Partial<Pick<EvaluationStep, "structuredComment">>;
+
+type AttemptRow = {
+  id: string;
+  student_id: string;
+  session_id: string | null;
+  exercise_id: string | null;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  exercise_index: number | null;
+  statement: string | null;
+  user_answer: string | null;
+  image_url: string | null;
+  image_refs: string[];
+  result: PracticeResult;
+  score: number;
+  feedback_summary: string;
+  steps: StoredStep[];
+  final_answer_check: EquivalenceVerdict | null;
+  hints_used: number;
+  hint_penalty: number;
+  evaluation_flags: EvaluationFlag[] | null;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+};
+
+export type Attempt = {
+  id: string;
+  studentId: string;
+  sessionId: string | null;
+  exerciseId: string | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  exerciseIndex: number | null;
+  statement: string | null; // enunciado avaliado (null em tentativas antigas)
+  userAnswer: string | null;
+  imageRefs: string[];
+  result: PracticeResult;
+  score: number;
+  feedbackSummary: string;
+  steps: EvaluationStep[];
+  finalAnswerCheck: EquivalenceVerdict | null;
+  hintsUsed: number;
+  hintPenalty: number;
+  flags: EvaluationFlag[]; // sinais de integridade, para revisão por um professor
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+};
+
+function toAttempt(row: AttemptRow): Attempt {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    sessionId: row.session_id,
+    exerciseId: row.exercise_id,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    exerciseIndex: row.exercise_index,
+    statement: row.statement,
+    userAnswer: row.user_answer,
+    // tentativas antigas só tinham image_url
+    imageRefs: row.image_refs?.length ? row.image_refs : row.image_url ? [row.image_url] : [],
+    result: row.result,
+    score: row.score,
+    feedbackSummary: row.feedback_summary,
+    steps: (row.steps || []).map((step) => ({
+      ...step,
+      structuredComment: step.structuredComment ?? buildStructuredText(step.comment),
+    })),
+    finalAnswerCheck: row.final_answer_check,
+    hintsUsed: row.hints_used ?? 0,
+    hintPenalty: row.hint_penalty ?? 0,
+    flags: row.evaluation_flags ?? [],
+    provider: row.provider,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertAttempt(params: {
+  studentId: string;
+  sessionId: string | null;
+  exerciseId: string | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  exerciseIndex: number | null;
+  statement: string;
+  userAnswer: string | null;
+  imageRefs: string[];
+  evaluation: EvaluationResult;
+  provider: string | null;
+  model: string | null;
+  prompt: PromptRef | null;
+}): Promise<Attempt> {
+  const { data, error } = await supabaseAdmin
+    .from("attempts")
+    .insert({
+      student_id: params.studentId,
+      session_id: params.sessionId,
+      exercise_id: params.exerciseId,
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      exercise_index: params.exerciseIndex,
+      statement: params.statement,
+      user_answer: params.userAnswer,
+      image_url: params.imageRefs[0] ?? null,
+      image_refs: params.imageRefs,
+      result: params.evaluation.result,
+      score: params.evaluation.score,
+      feedback_summary: params.evaluation.feedbackSummary,
+      steps: params.evaluation.steps,
+      final_answer_check: params.evaluation.finalAnswerCheck,
+      hints_used: params.evaluation.hintsUsed,
+      hint_penalty: params.evaluation.hintPenalty,
+      evaluation_flags: params.evaluation.flags,
+      provider: params.provider,
+      model: params.model,
+      prompt_version: params.prompt?.version ?? null,
+      prompt_experiment_id: params.prompt?.experimentId ?? null,
+    })
+    .select("*")
+    .single<AttemptRow>();
+
+  if (error) throw error;
+
+  const attempt = toAttempt(data);
+  await insertAttemptErrors(attempt);
+  return attempt;
+}
+
+async function insertAttemptErrors(attempt: Attempt): Promise<void> {
+  const counts = new Map<ErrorCategory, number>();
+  for (const category of errorCategoriesOf(attempt.steps)) {
+    counts.set(category, (counts.get(category) || 0) + 1);
+  }
+  if (counts.size === 0) return;
+
+  const { error } = await supabaseAdmin.from("attempt_errors").insert(
+    [...counts].map(([category, occurrences]) => ({
+      attempt_id: attempt.id,
+      category,
+      occurrences,
+      student_id: attempt.studentId,
+      subtopic_id: attempt.subtopicId,
+    })),
+  );
+
+  // a tentativa já ficou guardada; só perdemos a agregação deste erro
+  if (error) {
+    console.error("insertAttemptErrors: failed to store error categories", error);
+  }
+}
+
+export async function getAttemptById(id: string): Promise<Attempt | null> {
+  const { data, error } = await supabaseAdmin
+    .from("attempts")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<AttemptRow>();
+
+  if (error) throw error;
+  return data ? toAttempt(data) : null;
+}
+
+export async function listAttempts(params: {
+  studentId: string;
+  subtopicId?: string;
+  sessionId?: string;
+  limit?: number;
+}): Promise<Attempt[]> {
+  let query = supabaseAdmin
+    .from("attempts")
+    .select("*")
+    .eq("student_id", params.studentId)
+    .order("created_at", { ascending: false })
+    .limit(params.limit ?? 100);
+
+  if (params.subtopicId) {
+    query = query.eq("subtopic_id", params.subtopicId);
+  }
+  if (params.sessionId) {
+    query = query.eq("session_id", params.sessionId);
+  }
+
+  const { data, error } = await query.returns<AttemptRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toAttempt);
+}
+
+type ErrorStatsRow = {
+  student_id: string;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  category: ErrorCategory;
+  occurrences: number;
+  attempts_affected: number;
+  average_score: number;
+  last_seen_at: string;
+};
+
+export type ErrorStats = {
+  subtopicId: string | null;
+  subtopicName: string;
+  category: ErrorCategory;
+  occurrences: number;
+  attemptsAffected: number;
+  averageScore: number; // média das tentativas onde o erro apareceu
+  lastSeenAt: string;
+};
+
+export async function listStudentErrorStats(params: {
+  studentId: string;
+  subtopicId?: string;
+}): Promise<ErrorStats[]> {
+  let query = supabaseAdmin
+    .from("student_error_stats")
+    .select("*")
+    .eq("student_id", params.studentId)
+    .order("occurrences", { ascending: false });
+
+  if (params.subtopicId) {
+    query = query.eq("subtopic_id", params.subtopicId);
+  }
+
+  const { data, error } = await query.returns<ErrorStatsRow[]>();
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    category: row.category,
+    occurrences: row.occurrences,
+    attemptsAffected: row.attempts_affected,
+    averageScore: row.average_score,
+    lastSeenAt: row.last_seen_at,
+  }));
+}
@@ -0,0 +1,281 @@
+import type { ErrorCategory } from "@/lib/evaluation/types";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+type ClassRow = {
+  id: string;
+  teacher_id: string;
+  name: string;
+  year: number | null;
+  join_code: string;
+  created_at: string;
+};
+
+export type SchoolClass = {
+  id: string;
+  teacherId: string;
+  name: string;
+  year: number | null;
+  joinCode: string; // código que os alunos usam para entrar na turma
+  createdAt: string;
+};
+
+type ClassStudentRow = {
+  class_id: string;
+  student_id: string;
+  joined_at: string;
+};
+
+export type ClassStudent = {
+  classId: string;
+  studentId: string;
+  joinedAt: string;
+};
+
+function toSchoolClass(row: ClassRow): SchoolClass {
+  return {
+    id: row.id,
+    teacherId: row.teacher_id,
+    name: row.name,
+    year: row.year,
+    joinCode: row.join_code,
+    createdAt: row.created_at,
+  };
+}
+
+function toClassStudent(row: ClassStudentRow): ClassStudent {
+  return {
+    classId: row.class_id,
+    studentId: row.student_id,
+    joinedAt: row.joined_at,
+  };
+}
+
+// ---------- Turmas ----------
+
+/** Devolve null se o código já estiver em uso (quem chama gera outro). */
+export async function insertClass(params: {
+  teacherId: string;
+  name: string;
+  year: number | null;
+  joinCode: string;
+}): Promise<SchoolClass | null> {
+  const { data, error } = await supabaseAdmin
+    .from("classes")
+    .insert({
+      teacher_id: params.teacherId,
+      name: params.name,
+      year: params.year,
+      join_code: params.joinCode,
+    })
+    .select("*")
+    .single<ClassRow>();
+
+  // 23505 = unique_violation (join_code repetido)
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return toSchoolClass(data);
+}
+
+export async function getClass(id: string): Promise<SchoolClass | null> {
+  const { data, error } = await supabaseAdmin
+    .from("classes")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<ClassRow>();
+
+  if (error) throw error;
+  return data ? toSchoolClass(data) : null;
+}
+
+export async function getClassByJoinCode(joinCode: string): Promise<SchoolClass | null> {
+  const { data, error } = await supabaseAdmin
+    .from("classes")
+    .select("*")
+    .eq("join_code", joinCode)
+    .maybeSingle<ClassRow>();
+
+  if (error) throw error;
+  return data ? toSchoolClass(data) : null;
+}
+
+export async function listTeacherClasses(teacherId: string): Promise<SchoolClass[]> {
+  const { data, error } = await supabaseAdmin
+    .from("classes")
+    .select("*")
+    .eq("teacher_id", teacherId)
+    .order("created_at", { ascending: false })
+    .returns<ClassRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toSchoolClass);
+}
+
+export async function listStudentClasses(studentId: string): Promise<SchoolClass[]> {
+  const { data, error } = await supabaseAdmin
+    .from("class_students")
+    .select("classes (*)")
+    .eq("student_id", studentId)
+    .order("joined_at", { ascending: false })
+    .returns<{ classes: ClassRow | null }[]>();
+
+  if (error) throw error;
+  return (data || [])
+    .map((row) => row.classes)
+    .filter((row): row is ClassRow => row !== null)
+    .map(toSchoolClass);
+}
+
+// ---------- Alunos ----------
+
+export async function listClassStudents(classId: string): Promise<ClassStudent[]> {
+  const { data, error } = await supabaseAdmin
+    .from("class_students")
+    .select("*")
+    .eq("class_id", classId)
+    .order("joined_at", { ascending: true })
+    .returns<ClassStudentRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toClassStudent);
+}
+
+export async function isClassStudent(classId: string, studentId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("class_students")
+    .select("student_id")
+    .eq("class_id", classId)
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data !== null;
+}
+
+/** Inscreve o aluno; se já estava inscrito, não faz nada. */
+export async function insertClassStudent(classId: string, studentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("class_students")
+    .upsert(
+      { class_id: classId, student_id: studentId },
+      { onConflict: "class_id,student_id", ignoreDuplicates: true },
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteClassStudent(classId: string, studentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("class_students")
+    .delete()
+    .eq("class_id", classId)
+    .eq("student_id", studentId);
+
+  if (error) throw error;
+}
+
+// ---------- Resultados ----------
+
+// Agregados das funções class_*_results: só tentativas de alunos inscritos, depois
+// de entrarem, nos trabalhos da turma (ou só no trabalho pedido)
+export type ClassResultsScope = {
+  classId: string;
+  assignmentId: string | null;
+  since: string | null;
+};
+
+export type ClassStudentStats = {
+  studentId: string;
+  attempts: number;
+  scoreSum: number;
+  lastAttemptAt: string | null;
+  completed: boolean | null; // só com assignmentId
+};
+
+export type ClassSubtopicStats = {
+  subtopicId: string | null;
+  subtopicName: string;
+  attempts: number;
+  students: number;
+  scoreSum: number;
+};
+
+export type ClassErrorStats = {
+  category: ErrorCategory;
+  occurrences: number;
+  attemptsAffected: number;
+  students: number;
+};
+
+type ClassStudentStatsRow = {
+  student_id: string;
+  attempts: number;
+  score_sum: number;
+  last_attempt_at: string | null;
+  completed: boolean | null;
+};
+
+type ClassSubtopicStatsRow = {
+  subtopic_id: string | null;
+  subtopic_name: string;
+  attempts: number;
+  students: number;
+  score_sum: number;
+};
+
+type ClassErrorStatsRow = {
+  category: ErrorCategory;
+  occurrences: number;
+  attempts_affected: number;
+  students: number;
+};
+
+function scopeParams(scope: ClassResultsScope) {
+  return {
+    p_class_id: scope.classId,
+    p_assignment_id: scope.assignmentId,
+    p_since: scope.since,
+  };
+}
+
+/** Um registo por aluno inscrito, mesmo sem tentativas, por ordem de entrada. */
+export async function listClassStudentStats(
+  scope: ClassResultsScope,
+): Promise<ClassStudentStats[]> {
+  const { data, error } = await supabaseAdmin.rpc("class_student_results", scopeParams(scope));
+
+  if (error) throw error;
+  return ((data || []) as ClassStudentStatsRow[]).map((row) => ({
+    studentId: row.student_id,
+    attempts: row.attempts,
+    scoreSum: row.score_sum,
+    lastAttemptAt: row.last_attempt_at,
+    completed: row.completed,
+  }));
+}
+
+export async function listClassSubtopicStats(
+  scope: ClassResultsScope,
+): Promise<ClassSubtopicStats[]> {
+  const { data, error } = await supabaseAdmin.rpc("class_subtopic_results", scopeParams(scope));
+
+  if (error) throw error;
+  return ((data || []) as ClassSubtopicStatsRow[]).map((row) => ({
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    attempts: row.attempts,
+    students: row.students,
+    scoreSum: row.score_sum,
+  }));
+}
+
+export async function listClassErrorStats(scope: ClassResultsScope): Promise<ClassErrorStats[]> {
+  const { data, error } = await supabaseAdmin.rpc("class_error_results", scopeParams(scope));
+
+  if (error) throw error;
+  return ((data || []) as ClassErrorStatsRow[]).map((row) => ({
+    category: row.category,
+    occurrences: row.occurrences,
+    attemptsAffected: row.attempts_affected,
+    students: row.students,
+  }));
+}
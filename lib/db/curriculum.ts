@@ -0,0 +1,247 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Tabelas do programa: topics (tema, ano, código oficial) e subtopics (com as ai_notes)
+
+type TopicRow = {
+  id: string;
+  name: string;
+  year: number | null;
+  official_code: string | null;
+};
+
+export type Topic = {
+  id: string;
+  name: string;
+  year: number | null;
+  officialCode: string | null;
+};
+
+type SubtopicRow = {
+  id: string;
+  topic_id: string;
+  name: string;
+  ai_notes: string | null;
+  ai_notes_version: number;
+};
+
+export type Subtopic = {
+  id: string;
+  topicId: string;
+  name: string;
+  aiNotes: string | null;
+  aiNotesVersion: number; // 0 = nunca teve notas
+};
+
+export type AiNotesSource = "baseline" | "admin" | "import";
+
+type AiNotesVersionRow = {
+  subtopic_id: string;
+  version: number;
+  ai_notes: string | null;
+  changed_by: string | null;
+  source: AiNotesSource;
+  created_at: string;
+};
+
+export type AiNotesVersion = {
+  subtopicId: string;
+  version: number;
+  aiNotes: string | null;
+  changedBy: string | null;
+  source: AiNotesSource;
+  createdAt: string;
+};
+
+function toTopic(row: TopicRow): Topic {
+  return {
+    id: row.id,
+    name: row.name,
+    year: row.year,
+    officialCode: row.official_code,
+  };
+}
+
+function toSubtopic(row: SubtopicRow): Subtopic {
+  return {
+    id: row.id,
+    topicId: row.topic_id,
+    name: row.name,
+    aiNotes: row.ai_notes,
+    aiNotesVersion: row.ai_notes_version ?? 0,
+  };
+}
+
+// ---------- Tópicos ----------
+
+export async function listTopics(): Promise<Topic[]> {
+  const { data, error } = await supabaseAdmin
+    .from("topics")
+    .select("id, name, year, official_code")
+    .order("year", { ascending: true })
+    .order("official_code", { ascending: true })
+    .returns<TopicRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toTopic);
+}
+
+export async function getTopic(id: string): Promise<Topic | null> {
+  const { data, error } = await supabaseAdmin
+    .from("topics")
+    .select("id, name, year, official_code")
+    .eq("id", id)
+    .maybeSingle<TopicRow>();
+
+  if (error) throw error;
+  return data ? toTopic(data) : null;
+}
+
+export async function insertTopic(params: {
+  name: string;
+  year: number | null;
+  officialCode: string;
+}): Promise<Topic> {
+  const { data, error } = await supabaseAdmin
+    .from("topics")
+    .insert({ name: params.name, year: params.year, official_code: params.officialCode })
+    .select("id, name, year, official_code")
+    .single<TopicRow>();
+
+  if (error) throw error;
+  return toTopic(data);
+}
+
+export async function updateTopic(
+  id: string,
+  patch: { name?: string; year?: number | null; officialCode?: string },
+): Promise<Topic | null> {
+  const changes: Partial<Omit<TopicRow, "id">> = {};
+  if (patch.name !== undefined) changes.name = patch.name;
+  if (patch.year !== undefined) changes.year = patch.year;
+  if (patch.officialCode !== undefined) changes.official_code = patch.officialCode;
+
+  const { data, error } = await supabaseAdmin
+    .from("topics")
+    .update(changes)
+    .eq("id", id)
+    .select("id, name, year, official_code")
+    .maybeSingle<TopicRow>();
+
+  if (error) throw error;
+  return data ? toTopic(data) : null;
+}
+
+export async function deleteTopic(id: string): Promise<void> {
+  const { error } = await supabaseAdmin.from("topics").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ---------- Subtemas ----------
+
+export async function listSubtopics(topicId?: string): Promise<Subtopic[]> {
+  let query = supabaseAdmin
+    .from("subtopics")
+    .select("id, topic_id, name, ai_notes, ai_notes_version")
+    .order("name", { ascending: true });
+
+  if (topicId) {
+    query = query.eq("topic_id", topicId);
+  }
+
+  const { data, error } = await query.returns<SubtopicRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toSubtopic);
+}
+
+export async function getSubtopic(id: string): Promise<Subtopic | null> {
+  const { data, error } = await supabaseAdmin
+    .from("subtopics")
+    .select("id, topic_id, name, ai_notes, ai_notes_version")
+    .eq("id", id)
+    .maybeSingle<SubtopicRow>();
+
+  if (error) throw error;
+  return data ? toSubtopic(data) : null;
+}
+
+/** Cria o subtema sem notas; as notas entram por setSubtopicAiNotes (versionadas). */
+export async function insertSubtopic(params: {
+  topicId: string;
+  name: string;
+}): Promise<Subtopic> {
+  const { data, error } = await supabaseAdmin
+    .from("subtopics")
+    .insert({ topic_id: params.topicId, name: params.name })
+    .select("id, topic_id, name, ai_notes, ai_notes_version")
+    .single<SubtopicRow>();
+
+  if (error) throw error;
+  return toSubtopic(data);
+}
+
+export async function updateSubtopic(
+  id: string,
+  patch: { topicId?: string; name?: string },
+): Promise<Subtopic | null> {
+  const changes: Partial<Pick<SubtopicRow, "topic_id" | "name">> = {};
+  if (patch.topicId !== undefined) changes.topic_id = patch.topicId;
+  if (patch.name !== undefined) changes.name = patch.name;
+
+  const { data, error } = await supabaseAdmin
+    .from("subtopics")
+    .update(changes)
+    .eq("id", id)
+    .select("id, topic_id, name, ai_notes, ai_notes_version")
+    .maybeSingle<SubtopicRow>();
+
+  if (error) throw error;
+  return data ? toSubtopic(data) : null;
+}
+
+export async function deleteSubtopic(id: string): Promise<void> {
+  const { error } = await supabaseAdmin.from("subtopics").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ---------- ai_notes versionadas ----------
+
+/**
+ * Muda as ai_notes e regista a versão (função set_subtopic_ai_notes, atómica).
+ * Notas iguais às atuais não criam versão nova. Devolve a versão em vigor.
+ */
+export async function setSubtopicAiNotes(params: {
+  subtopicId: string;
+  aiNotes: string | null;
+  changedBy: string | null;
+  source: AiNotesSource;
+}): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("set_subtopic_ai_notes", {
+    p_subtopic_id: params.subtopicId,
+    p_ai_notes: params.aiNotes,
+    p_changed_by: params.changedBy,
+    p_source: params.source,
+  });
+
+  if (error) throw error;
+  return Number(data);
+}
+
+export async function listAiNotesVersions(subtopicId: string): Promise<AiNotesVersion[]> {
+  const { data, error } = await supabaseAdmin
+    .from("subtopic_ai_notes_versions")
+    .select("*")
+    .eq("subtopic_id", subtopicId)
+    .order("version", { ascending: false })
+    .returns<AiNotesVersionRow[]>();
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    subtopicId: row.subtopic_id,
+    version: row.version,
+    aiNotes: row.ai_notes,
+    changedBy: row.changed_by,
+    source: row.source,
+    createdAt: row.created_at,
+  }));
+}
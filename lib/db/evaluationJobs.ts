@@ -0,0 +1,218 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type {
+  EvaluationErrorCode,
+  EvaluationJobStatus,
+  EvaluationResult,
+} from "@/lib/evaluation/types";
+import type { Locale } from "@/lib/locale/types";
+
+// avaliações guardadas antes dos sinais de integridade não têm flags
+type StoredEvaluation = Omit<EvaluationResult, "flags"> & Partial<Pick<EvaluationResult, "flags">>;
+
+type EvaluationJobRow = {
+  id: string;
+  student_id: string;
+  session_id: string | null;
+  exercise_id: string | null;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  difficulty: string;
+  exercise_index: number;
+  statement: string;
+  user_answer: string | null;
+  image_refs: string[];
+  hints_used: number;
+  locale: Locale;
+  status: EvaluationJobStatus;
+  error_code: EvaluationErrorCode | null;
+  retries: number;
+  next_attempt_at: string;
+  attempt_id: string | null;
+  evaluation: StoredEvaluation | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type EvaluationJob = {
+  id: string;
+  studentId: string;
+  sessionId: string | null;
+  exerciseId: string | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  statement: string;
+  userAnswer: string | null;
+  imageRefs: string[]; // páginas guardadas, recarregadas a cada nova tentativa
+  hintsUsed: number;
+  locale: Locale; // língua do feedback
+  status: EvaluationJobStatus;
+  errorCode: EvaluationErrorCode | null; // motivo da última falha
+  retries: number;
+  nextAttemptAt: string;
+  attemptId: string | null; // preenchido quando um modelo avalia
+  evaluation: EvaluationResult | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+function toEvaluationJob(row: EvaluationJobRow): EvaluationJob {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    sessionId: row.session_id,
+    exerciseId: row.exercise_id,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    difficulty: row.difficulty,
+    exerciseIndex: row.exercise_index,
+    statement: row.statement,
+    userAnswer: row.user_answer,
+    imageRefs: row.image_refs || [],
+    hintsUsed: row.hints_used,
+    locale: row.locale,
+    status: row.status,
+    errorCode: row.error_code,
+    retries: row.retries,
+    nextAttemptAt: row.next_attempt_at,
+    attemptId: row.attempt_id,
+    evaluation: row.evaluation && { ...row.evaluation, flags: row.evaluation.flags ?? [] },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function insertEvaluationJob(params: {
+  studentId: string;
+  sessionId: string | null;
+  exerciseId: string | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  statement: string;
+  userAnswer: string | null;
+  imageRefs: string[];
+  hintsUsed: number;
+  locale: Locale;
+  errorCode: EvaluationErrorCode;
+  nextAttemptAt: Date;
+}): Promise<EvaluationJob> {
+  const { data, error } = await supabaseAdmin
+    .from("evaluation_jobs")
+    .insert({
+      student_id: params.studentId,
+      session_id: params.sessionId,
+      exercise_id: params.exerciseId,
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      difficulty: params.difficulty,
+      exercise_index: params.exerciseIndex,
+      statement: params.statement,
+      user_answer: params.userAnswer,
+      image_refs: params.imageRefs,
+      hints_used: params.hintsUsed,
+      locale: params.locale,
+      error_code: params.errorCode,
+      next_attempt_at: params.nextAttemptAt.toISOString(),
+    })
+    .select("*")
+    .single<EvaluationJobRow>();
+
+  if (error) throw error;
+  return toEvaluationJob(data);
+}
+
+export async function getEvaluationJob(id: string): Promise<EvaluationJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from("evaluation_jobs")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<EvaluationJobRow>();
+
+  if (error) throw error;
+  return data ? toEvaluationJob(data) : null;
+}
+
+/**
+ * Reserva até `limit` trabalhos vencidos: os pendentes e os que ficaram em
+ * "processing" desde antes de `staleBefore` (worker que morreu a meio).
+ * A reserva só vale se ninguém mexeu no trabalho entretanto.
+ */
+export async function claimDueEvaluationJobs(
+  limit: number,
+  staleBefore: Date,
+): Promise<EvaluationJob[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from("evaluation_jobs")
+    .select("*")
+    .or(
+      `and(status.eq.pending,next_attempt_at.lte.${now}),` +
+        `and(status.eq.processing,updated_at.lt.${staleBefore.toISOString()})`,
+    )
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit)
+    .returns<EvaluationJobRow[]>();
+
+  if (error) throw error;
+
+  const claimed: EvaluationJob[] = [];
+  for (const row of data || []) {
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("evaluation_jobs")
+      .update({ status: "processing", updated_at: new Date().toISOString() })
+      .eq("id", row.id)
+      .eq("status", row.status)
+      .eq("updated_at", row.updated_at)
+      .select("*")
+      .maybeSingle<EvaluationJobRow>();
+
+    if (updateError) throw updateError;
+    if (updated) claimed.push(toEvaluationJob(updated));
+  }
+  return claimed;
+}
+
+export async function completeEvaluationJob(
+  id: string,
+  params: { attemptId: string | null; evaluation: EvaluationResult },
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("evaluation_jobs")
+    .update({
+      status: "evaluated",
+      error_code: null,
+      attempt_id: params.attemptId,
+      evaluation: params.evaluation,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+/** Volta a pôr o trabalho na fila ou, sem mais tentativas, marca-o como "unavailable". */
+export async function failEvaluationJob(
+  id: string,
+  params: {
+    status: "pending" | "unavailable";
+    errorCode: EvaluationErrorCode;
+    retries: number;
+    nextAttemptAt: Date;
+  },
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("evaluation_jobs")
+    .update({
+      status: params.status,
+      error_code: params.errorCode,
+      retries: params.retries,
+      next_attempt_at: params.nextAttemptAt.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,60 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { ExamItem, ExamPaper } from "@/lib/exams/types";
+
+type ExamPaperRow = {
+  id: string;
+  student_id: string;
+  year: number;
+  title: string;
+  duration_minutes: number;
+  tolerance_minutes: number;
+  total_points: number;
+  items: ExamItem[];
+  created_at: string;
+};
+
+function toExamPaper(row: ExamPaperRow): ExamPaper {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    year: row.year,
+    title: row.title,
+    durationMinutes: row.duration_minutes,
+    toleranceMinutes: row.tolerance_minutes,
+    totalPoints: row.total_points,
+    items: row.items || [],
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertExamPaper(
+  paper: Omit<ExamPaper, "id" | "createdAt">,
+): Promise<ExamPaper> {
+  const { data, error } = await supabaseAdmin
+    .from("exam_papers")
+    .insert({
+      student_id: paper.studentId,
+      year: paper.year,
+      title: paper.title,
+      duration_minutes: paper.durationMinutes,
+      tolerance_minutes: paper.toleranceMinutes,
+      total_points: paper.totalPoints,
+      items: paper.items,
+    })
+    .select("*")
+    .single<ExamPaperRow>();
+
+  if (error) throw error;
+  return toExamPaper(data);
+}
+
+export async function getExamPaper(id: string): Promise<ExamPaper | null> {
+  const { data, error } = await supabaseAdmin
+    .from("exam_papers")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<ExamPaperRow>();
+
+  if (error) throw error;
+  return data ? toExamPaper(data) : null;
+}
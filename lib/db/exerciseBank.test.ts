@@ -0,0 +1,16 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { escapeLikePattern } from "./exerciseBank";
+
+describe("escapeLikePattern", () => {
+  it("keeps ordinary subtopic names", () => {
+    assert.equal(escapeLikePattern("Derivadas"), "Derivadas");
+    assert.equal(escapeLikePattern("Funções (10.º ano)"), "Funções (10.º ano)");
+  });
+
+  it("escapes the ilike wildcards and the escape character", () => {
+    assert.equal(escapeLikePattern("%"), "\\%");
+    assert.equal(escapeLikePattern("taxa_media*"), "taxa\\_media\\*");
+    assert.equal(escapeLikePattern("a\\b"), "a\\\\b");
+  });
+});
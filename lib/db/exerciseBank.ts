@@ -0,0 +1,188 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Locale } from "@/lib/locale/types";
+import type { StructuredText } from "@/lib/markup";
+import type { PromptRef } from "@/lib/prompts/types";
+import type {
+  Difficulty,
+  ExerciseAnswerKey,
+  ExerciseDraft,
+  ExerciseType,
+  RubricStep,
+} from "@/lib/exercises/types";
+
+type BankExerciseRow = {
+  id: string;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  difficulty: Difficulty;
+  exercise_type: ExerciseType;
+  statement: string;
+  statement_markup: StructuredText | null;
+  reference_solution: string;
+  expected_answer: string;
+  rubric: RubricStep[];
+  fingerprints: string[];
+  validated: boolean;
+  times_served: number;
+  provider: string | null;
+  model: string | null;
+  prompt_version: string | null;
+  prompt_experiment_id: string | null;
+  locale: Locale;
+  created_at: string;
+};
+
+export type BankExercise = ExerciseDraft & {
+  id: string;
+  answerKey: ExerciseAnswerKey;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  fingerprints: string[];
+  validated: boolean;
+  timesServed: number;
+  provider: string | null;
+  model: string | null;
+  prompt: PromptRef | null; // null em exercícios anteriores ao registo de prompts
+  locale: Locale;
+  createdAt: string;
+};
+
+function toBankExercise(row: BankExerciseRow): BankExercise {
+  return {
+    id: row.id,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    difficulty: row.difficulty,
+    exerciseType: row.exercise_type,
+    statement: row.statement,
+    statementMarkup: row.statement_markup,
+    answerKey: {
+      referenceSolution: row.reference_solution,
+      expectedAnswer: row.expected_answer,
+      rubric: row.rubric,
+    },
+    fingerprints: row.fingerprints || [],
+    validated: row.validated,
+    timesServed: row.times_served,
+    provider: row.provider,
+    model: row.model,
+    prompt: row.prompt_version
+      ? { version: row.prompt_version, experimentId: row.prompt_experiment_id }
+      : null,
+    locale: row.locale,
+    createdAt: row.created_at,
+  };
+}
+
+// subtemas sem id (enunciados livres) identificam-se pelo nome; cada língua tem o seu banco
+type SubtopicKey = { subtopicId: string | null; subtopicName: string; locale: Locale };
+
+/**
+ * O nome do subtema vem do cliente: "%", "_" e "*" (que o PostgREST troca por
+ * "%") seriam curingas do ilike, e "%" apanhava os exercícios de todos os
+ * subtemas. Fica só a comparação sem maiúsculas.
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_*]/g, (char) => `\\${char}`);
+}
+
+export async function insertBankExercise(params: SubtopicKey & {
+  draft: ExerciseDraft & { answerKey: ExerciseAnswerKey };
+  difficulty: Difficulty;
+  fingerprints: string[];
+  validated: boolean;
+  provider: string | null;
+  model: string | null;
+  prompt: PromptRef | null;
+}): Promise<BankExercise> {
+  const { draft } = params;
+
+  const { data, error } = await supabaseAdmin
+    .from("exercise_bank")
+    .insert({
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      difficulty: params.difficulty,
+      exercise_type: draft.exerciseType,
+      statement: draft.statement,
+      statement_markup: draft.statementMarkup ?? null,
+      reference_solution: draft.answerKey.referenceSolution,
+      expected_answer: draft.answerKey.expectedAnswer,
+      rubric: draft.answerKey.rubric,
+      fingerprints: params.fingerprints,
+      validated: params.validated,
+      provider: params.provider,
+      model: params.model,
+      prompt_version: params.prompt?.version ?? null,
+      prompt_experiment_id: params.prompt?.experimentId ?? null,
+      locale: params.locale,
+    })
+    .select("*")
+    .single<BankExerciseRow>();
+
+  if (error) throw error;
+  return toBankExercise(data);
+}
+
+/** Exercícios validados do banco, os menos servidos primeiro. */
+export async function listBankCandidates(params: SubtopicKey & {
+  difficulty: Difficulty;
+  exerciseType: ExerciseType;
+  excludeIds: string[];
+  limit?: number;
+}): Promise<BankExercise[]> {
+  let query = supabaseAdmin
+    .from("exercise_bank")
+    .select("*")
+    .eq("validated", true)
+    .eq("locale", params.locale)
+    .eq("difficulty", params.difficulty)
+    .eq("exercise_type", params.exerciseType)
+    .order("times_served", { ascending: true })
+    .limit(params.limit ?? 20);
+
+  query = params.subtopicId
+    ? query.eq("subtopic_id", params.subtopicId)
+    : query
+        .is("subtopic_id", null)
+        .ilike("subtopic_name", escapeLikePattern(params.subtopicName));
+
+  if (params.excludeIds.length) {
+    query = query.not("id", "in", `(${params.excludeIds.join(",")})`);
+  }
+
+  const { data, error } = await query.returns<BankExerciseRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toBankExercise);
+}
+
+/** Exercício do mesmo subtema com alguma impressão digital em comum. */
+export async function findBankDuplicate(params: SubtopicKey & {
+  fingerprints: string[];
+}): Promise<BankExercise | null> {
+  let query = supabaseAdmin
+    .from("exercise_bank")
+    .select("*")
+    .overlaps("fingerprints", params.fingerprints)
+    .eq("locale", params.locale)
+    .order("validated", { ascending: false })
+    .limit(1);
+
+  query = params.subtopicId
+    ? query.eq("subtopic_id", params.subtopicId)
+    : query
+        .is("subtopic_id", null)
+        .ilike("subtopic_name", escapeLikePattern(params.subtopicName));
+
+  const { data, error } = await query.maybeSingle<BankExerciseRow>();
+
+  if (error) throw error;
+  return data ? toBankExercise(data) : null;
+}
+
+export async function markBankExerciseServed(id: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("mark_bank_exercise_served", { p_id: id });
+  if (error) throw error;
+}
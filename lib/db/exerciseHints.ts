@@ -0,0 +1,97 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Hint } from "@/lib/hints/types";
+
+type ExerciseHintsRow = {
+  id: string;
+  student_id: string;
+  exercise_id: string | null;
+  statement_key: string;
+  hints: Hint[];
+  revealed: number;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ExerciseHints = {
+  id: string;
+  studentId: string;
+  exerciseId: string | null;
+  statementKey: string;
+  hints: Hint[]; // todas as pistas, incluindo as ainda por revelar
+  revealed: number;
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+function toExerciseHints(row: ExerciseHintsRow): ExerciseHints {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    exerciseId: row.exercise_id,
+    statementKey: row.statement_key,
+    hints: row.hints || [],
+    revealed: row.revealed,
+    provider: row.provider,
+    model: row.model,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function getExerciseHints(
+  studentId: string,
+  statementKey: string,
+): Promise<ExerciseHints | null> {
+  const { data, error } = await supabaseAdmin
+    .from("exercise_hints")
+    .select("*")
+    .eq("student_id", studentId)
+    .eq("statement_key", statementKey)
+    .maybeSingle<ExerciseHintsRow>();
+
+  if (error) throw error;
+  return data ? toExerciseHints(data) : null;
+}
+
+/**
+ * Guarda as pistas de um enunciado. Se outro pedido as guardou entretanto,
+ * ficam as que já lá estavam (e são essas que se devolvem).
+ */
+export async function insertExerciseHints(params: {
+  studentId: string;
+  exerciseId: string | null;
+  statementKey: string;
+  hints: Hint[];
+  provider: string | null;
+  model: string | null;
+}): Promise<ExerciseHints> {
+  const { error } = await supabaseAdmin.from("exercise_hints").upsert(
+    {
+      student_id: params.studentId,
+      exercise_id: params.exerciseId,
+      statement_key: params.statementKey,
+      hints: params.hints,
+      provider: params.provider,
+      model: params.model,
+    },
+    { onConflict: "student_id,statement_key", ignoreDuplicates: true },
+  );
+  if (error) throw error;
+
+  const stored = await getExerciseHints(params.studentId, params.statementKey);
+  if (!stored) throw new Error("exercise_hints row missing after insert");
+  return stored;
+}
+
+export async function updateRevealedHints(id: string, revealed: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("exercise_hints")
+    .update({ revealed, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,198 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Locale } from "@/lib/locale/types";
+import type { StructuredText } from "@/lib/markup";
+import type { PromptRef } from "@/lib/prompts/types";
+import type {
+  Difficulty,
+  ExerciseAnswerKey,
+  ExerciseDraft,
+  ExerciseSource,
+  ExerciseType,
+  RubricStep,
+} from "@/lib/exercises/types";
+
+type ExerciseRow = {
+  id: string;
+  student_id: string | null;
+  session_id: string | null;
+  exercise_index: number | null;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  difficulty: Difficulty;
+  exercise_type: ExerciseType;
+  statement: string;
+  statement_markup: StructuredText | null;
+  reference_solution: string | null;
+  expected_answer: string | null;
+  rubric: RubricStep[] | null;
+  provider: string | null;
+  model: string | null;
+  bank_item_id: string | null;
+  fingerprints: string[] | null;
+  source: ExerciseSource | null;
+  locale: Locale;
+  created_at: string;
+};
+
+export type StoredExercise = ExerciseDraft & {
+  id: string;
+  studentId: string | null;
+  sessionId: string | null;
+  exerciseIndex: number | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  provider: string | null;
+  model: string | null;
+  bankItemId: string | null; // exercício do banco de onde veio
+  fingerprints: string[];
+  source: ExerciseSource;
+  locale: Locale;
+  createdAt: string;
+};
+
+function toStoredExercise(row: ExerciseRow): StoredExercise {
+  const answerKey: ExerciseAnswerKey | null =
+    row.reference_solution && row.expected_answer && row.rubric
+      ? {
+          referenceSolution: row.reference_solution,
+          expectedAnswer: row.expected_answer,
+          rubric: row.rubric,
+        }
+      : null;
+
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    sessionId: row.session_id,
+    exerciseIndex: row.exercise_index,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    difficulty: row.difficulty,
+    exerciseType: row.exercise_type,
+    statement: row.statement,
+    statementMarkup: row.statement_markup,
+    answerKey,
+    provider: row.provider,
+    model: row.model,
+    bankItemId: row.bank_item_id,
+    fingerprints: row.fingerprints || [],
+    // exercícios antigos não guardavam a origem
+    source:
+      row.source ?? (row.bank_item_id ? "bank" : row.provider ? "model" : "generic_fallback"),
+    locale: row.locale,
+    createdAt: row.created_at,
+  };
+}
+
+export async function insertExercise(params: {
+  draft: ExerciseDraft;
+  studentId: string | null;
+  sessionId: string | null;
+  exerciseIndex: number | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  provider: string | null;
+  model: string | null;
+  prompt: PromptRef | null;
+  bankItemId: string | null;
+  fingerprints: string[];
+  source: ExerciseSource;
+  locale: Locale;
+}): Promise<StoredExercise> {
+  const { draft } = params;
+
+  const { data, error } = await supabaseAdmin
+    .from("exercises")
+    .insert({
+      student_id: params.studentId,
+      session_id: params.sessionId,
+      exercise_index: params.exerciseIndex,
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      difficulty: params.difficulty,
+      exercise_type: draft.exerciseType,
+      statement: draft.statement,
+      statement_markup: draft.statementMarkup ?? null,
+      reference_solution: draft.answerKey?.referenceSolution ?? null,
+      expected_answer: draft.answerKey?.expectedAnswer ?? null,
+      rubric: draft.answerKey?.rubric ?? null,
+      provider: params.provider,
+      model: params.model,
+      prompt_version: params.prompt?.version ?? null,
+      prompt_experiment_id: params.prompt?.experimentId ?? null,
+      bank_item_id: params.bankItemId,
+      fingerprints: params.fingerprints,
+      source: params.source,
+      locale: params.locale,
+    })
+    .select("*")
+    .single<ExerciseRow>();
+
+  if (error) throw error;
+  return toStoredExercise(data);
+}
+
+export async function getExerciseById(id: string): Promise<StoredExercise | null> {
+  const { data, error } = await supabaseAdmin
+    .from("exercises")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<ExerciseRow>();
+
+  if (error) throw error;
+  return data ? toStoredExercise(data) : null;
+}
+
+export async function listExercisesByIds(ids: string[]): Promise<StoredExercise[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("exercises")
+    .select("*")
+    .in("id", ids)
+    .returns<ExerciseRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toStoredExercise);
+}
+
+export async function listSessionExercises(sessionId: string): Promise<StoredExercise[]> {
+  const { data, error } = await supabaseAdmin
+    .from("exercises")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("exercise_index", { ascending: true })
+    .returns<ExerciseRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toStoredExercise);
+}
+
+export type SeenExercise = {
+  statement: string;
+  bankItemId: string | null;
+  fingerprints: string[]; // vazio nos exercícios anteriores ao banco
+};
+
+/** Exercícios já servidos ao aluno, os mais recentes primeiro. */
+export async function listSeenExercises(
+  studentId: string,
+  limit = 1000,
+): Promise<SeenExercise[]> {
+  const { data, error } = await supabaseAdmin
+    .from("exercises")
+    .select("statement, bank_item_id, fingerprints")
+    .eq("student_id", studentId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+    .returns<Pick<ExerciseRow, "statement" | "bank_item_id" | "fingerprints">[]>();
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    statement: row.statement,
+    bankItemId: row.bank_item_id,
+    fingerprints: row.fingerprints || [],
+  }));
+}
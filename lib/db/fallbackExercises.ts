@@ -0,0 +1,56 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Locale } from "@/lib/locale/types";
+import type { StructuredText } from "@/lib/markup";
+import type {
+  Difficulty,
+  ExerciseType,
+  FallbackExercise,
+  RubricStep,
+} from "@/lib/exercises/types";
+
+// a biblioteca curada é pequena: lê-se inteira e filtra-se no servidor
+const MAX_ROWS = 1000;
+
+type FallbackExerciseRow = {
+  id: string;
+  subtopic_id: string | null;
+  keywords: string[] | null;
+  difficulty: Difficulty;
+  exercise_type: ExerciseType;
+  statement: string;
+  statement_markup: StructuredText | null;
+  reference_solution: string;
+  expected_answer: string;
+  rubric: RubricStep[];
+  locale: Locale;
+};
+
+function toFallbackExercise(row: FallbackExerciseRow): FallbackExercise {
+  return {
+    subtopicId: row.subtopic_id,
+    keywords: row.keywords || [],
+    locale: row.locale,
+    difficulty: row.difficulty,
+    exerciseType: row.exercise_type,
+    statement: row.statement,
+    statementMarkup: row.statement_markup,
+    answerKey: {
+      referenceSolution: row.reference_solution,
+      expectedAnswer: row.expected_answer,
+      rubric: row.rubric,
+    },
+    origin: "supabase",
+  };
+}
+
+export async function listFallbackExercises(): Promise<FallbackExercise[]> {
+  const { data, error } = await supabaseAdmin
+    .from("fallback_exercises")
+    .select("*")
+    .eq("active", true)
+    .limit(MAX_ROWS)
+    .returns<FallbackExerciseRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toFallbackExercise);
+}
@@ -0,0 +1,88 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { LLMCallOutcome, LLMCallRecord, LLMDailyStats } from "@/lib/llm/types";
+
+type LLMDailyStatsRow = {
+  day: string;
+  route: string;
+  provider: string | null;
+  model: string | null;
+  calls: number;
+  successes: number;
+  provider_errors: number;
+  parse_failures: number;
+  invalid_outputs: number;
+  unavailable: number;
+  fallbacks: number;
+  failover_successes: number;
+  input_tokens: number;
+  output_tokens: number;
+  average_latency_ms: number;
+  p95_latency_ms: number;
+  cost_usd: number | string;
+};
+
+export async function insertLLMCall(call: LLMCallRecord): Promise<void> {
+  const { error } = await supabaseAdmin.from("llm_calls").insert({
+    id: call.id,
+    route: call.route,
+    provider: call.provider,
+    model: call.model,
+    outcome: call.outcome,
+    failover: call.failover,
+    streamed: call.streamed,
+    input_tokens: call.inputTokens,
+    output_tokens: call.outputTokens,
+    latency_ms: call.latencyMs,
+    cost_usd: call.costUsd,
+    error: call.error,
+  });
+
+  if (error) throw error;
+}
+
+export async function updateLLMCallOutcome(id: string, outcome: LLMCallOutcome): Promise<void> {
+  const { error } = await supabaseAdmin.from("llm_calls").update({ outcome }).eq("id", id);
+  if (error) throw error;
+}
+
+/** Agregados diários entre from e to (datas YYYY-MM-DD, inclusive). */
+export async function listLLMDailyStats(params: {
+  from: string;
+  to: string;
+  route?: string;
+}): Promise<LLMDailyStats[]> {
+  let query = supabaseAdmin
+    .from("llm_call_daily_stats")
+    .select("*")
+    .gte("day", params.from)
+    .lte("day", params.to)
+    .order("day", { ascending: false })
+    .order("route", { ascending: true });
+
+  if (params.route) {
+    query = query.eq("route", params.route);
+  }
+
+  const { data, error } = await query.returns<LLMDailyStatsRow[]>();
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    day: row.day,
+    route: row.route,
+    provider: row.provider,
+    model: row.model,
+    calls: row.calls,
+    successes: row.successes,
+    providerErrors: row.provider_errors,
+    parseFailures: row.parse_failures,
+    invalidOutputs: row.invalid_outputs,
+    unavailable: row.unavailable,
+    fallbacks: row.fallbacks,
+    failoverSuccesses: row.failover_successes,
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    averageLatencyMs: row.average_latency_ms,
+    p95LatencyMs: row.p95_latency_ms,
+    costUsd: Number(row.cost_usd),
+  }));
+}
@@ -0,0 +1,88 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { ExerciseType } from "@/lib/exercises/types";
+
+// "all" = domínio global do subtema; os restantes são por tipo de exercício
+export type MasteryScope = ExerciseType | "all";
+
+type MasteryRow = {
+  student_id: string;
+  subtopic_id: string;
+  subtopic_name: string;
+  exercise_type: MasteryScope;
+  rating: number;
+  attempts: number;
+  last_score: number | null;
+  last_practiced_at: string | null;
+  interval_days: number | null;
+  due_at: string | null;
+};
+
+export type MasteryRecord = {
+  studentId: string;
+  subtopicId: string;
+  subtopicName: string;
+  scope: MasteryScope;
+  rating: number;
+  attempts: number;
+  lastScore: number | null;
+  lastPracticedAt: string | null;
+  intervalDays: number | null;
+  dueAt: string | null; // próxima revisão
+};
+
+function toMasteryRecord(row: MasteryRow): MasteryRecord {
+  return {
+    studentId: row.student_id,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    scope: row.exercise_type,
+    rating: row.rating,
+    attempts: row.attempts,
+    lastScore: row.last_score,
+    lastPracticedAt: row.last_practiced_at,
+    intervalDays: row.interval_days,
+    dueAt: row.due_at,
+  };
+}
+
+export async function listStudentMastery(params: {
+  studentId: string;
+  subtopicId?: string;
+}): Promise<MasteryRecord[]> {
+  let query = supabaseAdmin
+    .from("student_mastery")
+    .select("*")
+    .eq("student_id", params.studentId);
+
+  if (params.subtopicId) {
+    query = query.eq("subtopic_id", params.subtopicId);
+  }
+
+  const { data, error } = await query.returns<MasteryRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toMasteryRecord);
+}
+
+export async function upsertMastery(records: MasteryRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const { error } = await supabaseAdmin.from("student_mastery").upsert(
+    records.map((r) => ({
+      student_id: r.studentId,
+      subtopic_id: r.subtopicId,
+      subtopic_name: r.subtopicName,
+      exercise_type: r.scope,
+      rating: r.rating,
+      attempts: r.attempts,
+      last_score: r.lastScore,
+      last_practiced_at: r.lastPracticedAt,
+      interval_days: r.intervalDays,
+      due_at: r.dueAt,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: "student_id,subtopic_id,exercise_type" },
+  );
+
+  if (error) throw error;
+}
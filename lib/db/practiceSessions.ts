@@ -0,0 +1,131 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Difficulty } from "@/lib/exercises/types";
+import type { Locale } from "@/lib/locale/types";
+
+export type PracticeSessionStatus = "active" | "completed" | "abandoned";
+
+type PracticeSessionRow = {
+  id: string;
+  student_id: string;
+  subtopic_id: string | null;
+  subtopic_name: string;
+  difficulty: Difficulty;
+  status: PracticeSessionStatus;
+  assignment_id: string | null;
+  locale: Locale;
+  created_at: string;
+  completed_at: string | null;
+};
+
+export type PracticeSession = {
+  id: string;
+  studentId: string;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  status: PracticeSessionStatus;
+  assignmentId: string | null; // trabalho da turma a que a sessão responde
+  locale: Locale; // língua dos exercícios e do feedback
+  createdAt: string;
+  completedAt: string | null;
+};
+
+function toPracticeSession(row: PracticeSessionRow): PracticeSession {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    subtopicId: row.subtopic_id,
+    subtopicName: row.subtopic_name,
+    difficulty: row.difficulty,
+    status: row.status,
+    assignmentId: row.assignment_id,
+    locale: row.locale,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export async function createPracticeSession(params: {
+  studentId: string;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  assignmentId: string | null;
+  locale: Locale;
+}): Promise<PracticeSession> {
+  const { data, error } = await supabaseAdmin
+    .from("practice_sessions")
+    .insert({
+      student_id: params.studentId,
+      subtopic_id: params.subtopicId,
+      subtopic_name: params.subtopicName,
+      difficulty: params.difficulty,
+      assignment_id: params.assignmentId,
+      locale: params.locale,
+    })
+    .select("*")
+    .single<PracticeSessionRow>();
+
+  if (error) throw error;
+  return toPracticeSession(data);
+}
+
+export async function getPracticeSession(id: string): Promise<PracticeSession | null> {
+  const { data, error } = await supabaseAdmin
+    .from("practice_sessions")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle<PracticeSessionRow>();
+
+  if (error) throw error;
+  return data ? toPracticeSession(data) : null;
+}
+
+export async function updatePracticeSessionStatus(
+  id: string,
+  status: PracticeSessionStatus,
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("practice_sessions")
+    .update({
+      status,
+      completed_at: status === "active" ? null : new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+export async function listPracticeSessions(params: {
+  studentId: string;
+  subtopicId?: string;
+  limit?: number;
+}): Promise<PracticeSession[]> {
+  let query = supabaseAdmin
+    .from("practice_sessions")
+    .select("*")
+    .eq("student_id", params.studentId)
+    .order("created_at", { ascending: false })
+    .limit(params.limit ?? 50);
+
+  if (params.subtopicId) {
+    query = query.eq("subtopic_id", params.subtopicId);
+  }
+
+  const { data, error } = await query.returns<PracticeSessionRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toPracticeSession);
+}
+
+export async function listAssignmentSessions(assignmentId: string): Promise<PracticeSession[]> {
+  const { data, error } = await supabaseAdmin
+    .from("practice_sessions")
+    .select("*")
+    .eq("assignment_id", assignmentId)
+    .order("created_at", { ascending: false })
+    .returns<PracticeSessionRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toPracticeSession);
+}
@@ -0,0 +1,239 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type {
+  PromptExperiment,
+  PromptExperimentStatus,
+  PromptName,
+  PromptTemplate,
+  PromptVariant,
+  PromptVersionStats,
+} from "@/lib/prompts/types";
+
+type PromptTemplateRow = {
+  name: PromptName;
+  version: string;
+  system_template: string;
+  user_template: string;
+  notes: string | null;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+};
+
+type PromptExperimentRow = {
+  id: string;
+  name: PromptName;
+  variants: PromptVariant[];
+  status: PromptExperimentStatus;
+  created_by: string | null;
+  started_at: string;
+  stopped_at: string | null;
+};
+
+type PromptVersionStatsRow = {
+  version: string;
+  experiment_id: string | null;
+  items: number;
+  attempts: number;
+  average_score: number | null;
+  last_used_at: string;
+};
+
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    name: row.name,
+    version: row.version,
+    systemTemplate: row.system_template,
+    userTemplate: row.user_template,
+    notes: row.notes,
+    active: row.active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function toPromptExperiment(row: PromptExperimentRow): PromptExperiment {
+  return {
+    id: row.id,
+    name: row.name,
+    variants: row.variants || [],
+    status: row.status,
+    createdBy: row.created_by,
+    startedAt: row.started_at,
+    stoppedAt: row.stopped_at,
+  };
+}
+
+// ---------- Versões ----------
+
+export async function listPromptTemplates(name: PromptName): Promise<PromptTemplate[]> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("*")
+    .eq("name", name)
+    .order("created_at", { ascending: false })
+    .returns<PromptTemplateRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toPromptTemplate);
+}
+
+export async function listPromptTemplatesByVersion(
+  name: PromptName,
+  versions: string[],
+): Promise<PromptTemplate[]> {
+  if (versions.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("*")
+    .eq("name", name)
+    .in("version", versions)
+    .returns<PromptTemplateRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toPromptTemplate);
+}
+
+export async function getActivePromptTemplate(name: PromptName): Promise<PromptTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .select("*")
+    .eq("name", name)
+    .eq("active", true)
+    .maybeSingle<PromptTemplateRow>();
+
+  if (error) throw error;
+  return data ? toPromptTemplate(data) : null;
+}
+
+/** Devolve null se a versão já existir. */
+export async function insertPromptTemplate(params: {
+  name: PromptName;
+  version: string;
+  systemTemplate: string;
+  userTemplate: string;
+  notes: string | null;
+  createdBy: string | null;
+}): Promise<PromptTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_templates")
+    .insert({
+      name: params.name,
+      version: params.version,
+      system_template: params.systemTemplate,
+      user_template: params.userTemplate,
+      notes: params.notes,
+      created_by: params.createdBy,
+    })
+    .select("*")
+    .single<PromptTemplateRow>();
+
+  // 23505 = unique_violation (versão repetida)
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return toPromptTemplate(data);
+}
+
+/** Passa a versão indicada a ativa; null volta à builtin. */
+export async function setActivePromptTemplate(
+  name: PromptName,
+  version: string | null,
+): Promise<void> {
+  // primeiro desativa (o índice único só admite uma ativa por prompt)
+  const { error } = await supabaseAdmin
+    .from("prompt_templates")
+    .update({ active: false })
+    .eq("name", name)
+    .eq("active", true);
+
+  if (error) throw error;
+  if (version === null) return;
+
+  const { error: activateError } = await supabaseAdmin
+    .from("prompt_templates")
+    .update({ active: true })
+    .eq("name", name)
+    .eq("version", version);
+
+  if (activateError) throw activateError;
+}
+
+// ---------- Experiências ----------
+
+export async function listPromptExperiments(name: PromptName): Promise<PromptExperiment[]> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_experiments")
+    .select("*")
+    .eq("name", name)
+    .order("started_at", { ascending: false })
+    .returns<PromptExperimentRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toPromptExperiment);
+}
+
+export async function getActivePromptExperiment(
+  name: PromptName,
+): Promise<PromptExperiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_experiments")
+    .select("*")
+    .eq("name", name)
+    .eq("status", "active")
+    .maybeSingle<PromptExperimentRow>();
+
+  if (error) throw error;
+  return data ? toPromptExperiment(data) : null;
+}
+
+/** Devolve null se já houver uma experiência ativa para o prompt. */
+export async function insertPromptExperiment(params: {
+  name: PromptName;
+  variants: PromptVariant[];
+  createdBy: string | null;
+}): Promise<PromptExperiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_experiments")
+    .insert({ name: params.name, variants: params.variants, created_by: params.createdBy })
+    .select("*")
+    .single<PromptExperimentRow>();
+
+  // 23505 = unique_violation (já há uma experiência ativa)
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return toPromptExperiment(data);
+}
+
+export async function stopPromptExperiment(id: string): Promise<PromptExperiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_experiments")
+    .update({ status: "stopped", stopped_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "active")
+    .select("*")
+    .maybeSingle<PromptExperimentRow>();
+
+  if (error) throw error;
+  return data ? toPromptExperiment(data) : null;
+}
+
+// ---------- Estatísticas ----------
+
+export async function listPromptVersionStats(name: PromptName): Promise<PromptVersionStats[]> {
+  const { data, error } = await supabaseAdmin
+    .from("prompt_version_stats")
+    .select("version, experiment_id, items, attempts, average_score, last_used_at")
+    .eq("name", name)
+    .order("last_used_at", { ascending: false })
+    .returns<PromptVersionStatsRow[]>();
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    version: row.version,
+    experimentId: row.experiment_id,
+    items: row.items,
+    attempts: row.attempts,
+    averageScore: row.average_score,
+    lastUsedAt: row.last_used_at,
+  }));
+}
@@ -0,0 +1,99 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type TutorRole = "user" | "assistant";
+
+type TutorMessageRow = {
+  id: string;
+  attempt_id: string;
+  student_id: string;
+  role: TutorRole;
+  content: string;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+};
+
+export type TutorMessage = {
+  id: string;
+  attemptId: string;
+  studentId: string;
+  role: TutorRole;
+  content: string;
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+};
+
+function toTutorMessage(row: TutorMessageRow): TutorMessage {
+  return {
+    id: row.id,
+    attemptId: row.attempt_id,
+    studentId: row.student_id,
+    role: row.role,
+    content: row.content,
+    provider: row.provider,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+/** Mensagens de uma conversa, da mais antiga para a mais recente. */
+export async function listTutorMessages(attemptId: string): Promise<TutorMessage[]> {
+  const { data, error } = await supabaseAdmin
+    .from("tutor_messages")
+    .select("*")
+    .eq("attempt_id", attemptId)
+    .order("created_at", { ascending: true })
+    .returns<TutorMessageRow[]>();
+
+  if (error) throw error;
+  return (data || []).map(toTutorMessage);
+}
+
+/**
+ * Guarda a pergunta do aluno se a conversa ainda não chegou a maxQuestions. A contagem e o
+ * insert são atómicos (insert_tutor_question); devolve null quando já não há perguntas.
+ */
+export async function insertTutorQuestion(params: {
+  attemptId: string;
+  studentId: string;
+  content: string;
+  maxQuestions: number;
+}): Promise<TutorMessage | null> {
+  const { data, error } = await supabaseAdmin.rpc("insert_tutor_question", {
+    p_attempt_id: params.attemptId,
+    p_student_id: params.studentId,
+    p_content: params.content,
+    p_max_questions: params.maxQuestions,
+  });
+
+  if (error) throw error;
+  const [row] = (data || []) as TutorMessageRow[];
+  return row ? toTutorMessage(row) : null;
+}
+
+export async function deleteTutorMessage(id: string): Promise<void> {
+  const { error } = await supabaseAdmin.from("tutor_messages").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Guarda uma mensagem; created_at vem da BD, como o da pergunta (insertTutorQuestion). */
+export async function insertTutorMessage(
+  message: Omit<TutorMessage, "id" | "createdAt">,
+): Promise<TutorMessage> {
+  const { data, error } = await supabaseAdmin
+    .from("tutor_messages")
+    .insert({
+      attempt_id: message.attemptId,
+      student_id: message.studentId,
+      role: message.role,
+      content: message.content,
+      provider: message.provider,
+      model: message.model,
+    })
+    .select("*")
+    .single<TutorMessageRow>();
+
+  if (error) throw error;
+  return toTutorMessage(data);
+}
@@ -0,0 +1,63 @@
+import type { ExerciseAnswerKey, ExerciseType } from "@/lib/exercises/types";
+import { checkEquivalence, type EquivalenceVerdict } from "@/lib/math";
+import type { EvaluationResult } from "./types";
+
+// só nestes tipos a resposta final é uma expressão que dá para verificar
+const CHECKABLE_TYPES: ExerciseType[] = ["basic_procedural", "mixed_rules"];
+
+/**
+ * Verifica mecanicamente a resposta final escrita pelo aluno contra a
+ * resposta esperada. Devolve null quando a verificação não se aplica.
+ */
+export function checkFinalAnswer(params: {
+  exerciseType: ExerciseType | null;
+  userAnswer: string;
+  answerKey: ExerciseAnswerKey | null;
+}): EquivalenceVerdict | null {
+  const { exerciseType, userAnswer, answerKey } = params;
+
+  if (!exerciseType || !CHECKABLE_TYPES.includes(exerciseType)) return null;
+  if (!answerKey || !userAnswer.trim()) return null;
+
+  return checkEquivalence(userAnswer, answerKey.expectedAnswer);
+}
+
+export function describeFinalAnswerCheck(verdict: EquivalenceVerdict): string {
+  if (verdict === "equivalent") {
+    return "A resposta final escrita pelo aluno foi verificada automaticamente e É equivalente à resposta esperada.";
+  }
+  if (verdict === "not_equivalent") {
+    return "A resposta final escrita pelo aluno foi verificada automaticamente e NÃO é equivalente à resposta esperada.";
+  }
+  return "Não foi possível verificar automaticamente a resposta final escrita pelo aluno.";
+}
+
+/**
+ * Junta o veredicto determinístico da resposta final com a avaliação do
+ * raciocínio feita pelo modelo: uma resposta final certa nunca fica
+ * "incorrect" e uma errada nunca fica "correct".
+ */
+export function reconcileWithFinalAnswer(
+  evaluation: EvaluationResult,
+  verdict: EquivalenceVerdict | null,
+): EvaluationResult {
+  if (verdict === "equivalent" && evaluation.result === "incorrect") {
+    return {
+      ...evaluation,
+      result: "partial",
+      score: Math.max(evaluation.score, 50),
+      finalAnswerCheck: verdict,
+    };
+  }
+
+  if (verdict === "not_equivalent" && evaluation.result === "correct") {
+    return {
+      ...evaluation,
+      result: "partial",
+      score: Math.min(evaluation.score, 80),
+      finalAnswerCheck: verdict,
+    };
+  }
+
+  return { ...evaluation, finalAnswerCheck: verdict };
+}
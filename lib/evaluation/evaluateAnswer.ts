@@ -0,0 +1,212 @@
+import { modelEvaluationOutput } from "@/lib/contracts/evaluations";
+import { formatAnswerKeyForPrompt, scoreFromRubric } from "@/lib/exercises/answerKey";
+import { getLLMClient, reportInvalidOutput } from "@/lib/llm";
+import { localeConventions } from "@/lib/locale";
+import { buildStructuredText } from "@/lib/markup";
+import type { EquivalenceVerdict } from "@/lib/math";
+import {
+  buildBuiltinPrompt,
+  buildPrompt,
+  type PromptVariables,
+  type RenderedPrompt,
+} from "@/lib/prompts";
+import type { SchemaIssue } from "@/lib/schema";
+import { checkFinalAnswer, describeFinalAnswerCheck, reconcileWithFinalAnswer } from "./answerCheck";
+import { applyHintPenalty } from "./hintPenalty";
+import {
+  MAX_PAGE_TEXT_LENGTH,
+  applyIntegrityChecks,
+  detectInjection,
+  fenceStudentContent,
+} from "./safety";
+import { parseEvaluationSteps } from "./steps";
+import type {
+  EvaluateAnswerInput,
+  EvaluationErrorCode,
+  EvaluationOutcome,
+  EvaluationResult,
+} from "./types";
+
+// o pedido ao modelo e o que já se sabe sem ele
+export type PreparedEvaluation = {
+  prompt: RenderedPrompt;
+  finalAnswerCheck: EquivalenceVerdict | null;
+  injection: string[]; // instruções ao avaliador encontradas no texto do aluno
+};
+
+// O que a resposta do modelo deu: nota, resposta inutilizável ou recusa da moderação
+export type EvaluationInterpretation =
+  | { status: "evaluated"; evaluation: EvaluationResult; injection: string[] }
+  | { status: "invalid"; issues: SchemaIssue[] }
+  | { status: "rejected"; errorCode: EvaluationErrorCode };
+
+// baixa: a mesma resolução deve ter sempre (quase) a mesma nota
+export const EVALUATION_TEMPERATURE = 0.2;
+
+function unavailable(errorCode: EvaluationErrorCode): EvaluationOutcome {
+  return { status: "unavailable", errorCode };
+}
+
+/**
+ * Verifica a resposta final, procura instruções ao avaliador no texto do aluno
+ * (e no enunciado, quando veio do cliente) e monta o prompt (versão ativa ou variante da experiência). Com
+ * builtinPrompt usa a versão builtin sem ler o registo (replay da calibração).
+ */
+export async function prepareEvaluation(
+  input: EvaluateAnswerInput,
+  options: { builtinPrompt?: boolean } = {},
+): Promise<PreparedEvaluation> {
+  const { statement, userAnswer, pages, subtopicName, difficulty, exerciseIndex } = input;
+  const { exerciseType, answerKey } = input;
+
+  const finalAnswerCheck = checkFinalAnswer({ exerciseType, userAnswer, answerKey });
+  // o que o aluno escreveu e, sem exerciseId, o enunciado que o cliente mandou;
+  // o de um exercício guardado vem da BD e não se analisa
+  const injection = [
+    ...(input.statementFromClient ? detectInjection(statement) : []),
+    ...detectInjection(userAnswer),
+  ];
+  const { languageLabel, notationBlock } = localeConventions(input.locale);
+  const variables: PromptVariables["evaluateAnswer"] = {
+    subtopicName,
+    difficulty,
+    exerciseIndex,
+    statement: fenceStudentContent(statement),
+    userAnswer: fenceStudentContent(userAnswer).trim() || "(sem resposta textual)",
+    finalAnswerCheckBlock: finalAnswerCheck
+      ? describeFinalAnswerCheck(finalAnswerCheck) + "\n"
+      : "",
+    answerKeyBlock: answerKey
+      ? "\nCritérios de classificação (uso interno, NÃO os reveles ao aluno):\n" +
+        formatAnswerKeyForPrompt(answerKey)
+      : "",
+    pageCount: pages.length,
+    languageLabel,
+    notationBlock,
+  };
+  const prompt = options.builtinPrompt
+    ? buildBuiltinPrompt("evaluateAnswer", variables)
+    : await buildPrompt("evaluateAnswer", variables, input.studentId ?? null);
+
+  return { prompt, finalAnswerCheck, injection };
+}
+
+/**
+ * Transforma a resposta do modelo na avaliação final: moderação, pontuação pela
+ * rubrica, verificação da resposta final, sinais de manipulação e desconto das
+ * pistas. Não chama o modelo.
+ */
+export function interpretEvaluation(
+  data: unknown,
+  input: Pick<EvaluateAnswerInput, "answerKey" | "hintsUsed">,
+  prepared: Pick<PreparedEvaluation, "finalAnswerCheck" | "injection">,
+): EvaluationInterpretation {
+  const checked = modelEvaluationOutput.parse(data);
+  if (!checked.ok) return { status: "invalid", issues: checked.issues };
+  const parsed = checked.value;
+
+  if (parsed.content !== "resolution") {
+    const errorCode = parsed.content === "abusive" ? "abusive_content" : "off_topic_content";
+    return { status: "rejected", errorCode };
+  }
+
+  // com critérios, a pontuação vem da soma das etapas
+  const rubricScore = input.answerKey
+    ? scoreFromRubric(input.answerKey.rubric, parsed.stepScores)
+    : null;
+
+  const modelScore = Math.max(0, Math.min(100, Math.round(parsed.score)));
+  const score = rubricScore ?? modelScore;
+
+  const output: EvaluationResult = {
+    result: parsed.result,
+    score,
+    feedbackSummary: parsed.feedbackSummary,
+    structuredFeedback: buildStructuredText(parsed.feedbackSummary, parsed.feedbackMarkup),
+    steps: parseEvaluationSteps(parsed.steps),
+    finalAnswerCheck: null,
+    hintsUsed: 0,
+    hintPenalty: 0,
+    flags: [],
+  };
+
+  // o que está escrito nas páginas chega pela transcrição do próprio modelo
+  const injection = [
+    ...prepared.injection,
+    ...detectInjection(parsed.pageText.slice(0, MAX_PAGE_TEXT_LENGTH)),
+  ];
+
+  const reconciled = reconcileWithFinalAnswer(output, prepared.finalAnswerCheck);
+  const screened = applyIntegrityChecks(reconciled, {
+    injection: injection.length > 0 || parsed.injectionAttempt,
+    modelResult: parsed.result,
+    modelScore,
+    rubricScore,
+  });
+
+  // as pistas descontam depois das verificações
+  return {
+    status: "evaluated",
+    evaluation: applyHintPenalty(screened, input.hintsUsed),
+    injection,
+  };
+}
+
+/**
+ * Avalia a resolução (uma ou mais páginas) de um aluno. Nunca lança nem inventa
+ * uma nota: qualquer falha devolve status "unavailable" com o código do erro.
+ */
+export async function evaluateAnswer(
+  input: EvaluateAnswerInput,
+): Promise<EvaluationOutcome> {
+  if (input.pages.length === 0) {
+    console.warn("evaluateAnswer: no pages to evaluate");
+    return unavailable("no_pages");
+  }
+
+  const prepared = await prepareEvaluation(input);
+
+  let data: unknown;
+  let provider: string;
+  let model: string;
+  let callId: string | undefined;
+  try {
+    const llm = getLLMClient("evaluateAnswer");
+    const completion = await llm.evaluateVision<unknown>({
+      temperature: EVALUATION_TEMPERATURE,
+      messages: prepared.prompt.messages,
+      images: input.pages,
+    });
+    data = completion.data;
+    provider = completion.provider;
+    model = completion.model;
+    callId = completion.callId;
+  } catch (err) {
+    console.error("evaluateAnswer: all LLM providers failed", err);
+    return unavailable("provider_unavailable");
+  }
+
+  const interpreted = interpretEvaluation(data, input, prepared);
+  if (interpreted.status === "invalid") {
+    console.warn("evaluateAnswer: invalid fields from model", interpreted.issues);
+    await reportInvalidOutput({ callId });
+    return unavailable("invalid_model_output");
+  }
+  if (interpreted.status === "rejected") {
+    console.warn(`evaluateAnswer: submission rejected by moderation (${interpreted.errorCode})`);
+    return unavailable(interpreted.errorCode);
+  }
+
+  const { evaluation, injection } = interpreted;
+  if (evaluation.flags.length > 0) {
+    console.warn("evaluateAnswer: flagged evaluation", { flags: evaluation.flags, injection });
+  }
+
+  return {
+    status: "evaluated",
+    evaluation,
+    provider,
+    model,
+    prompt: prepared.prompt.ref,
+  };
+}
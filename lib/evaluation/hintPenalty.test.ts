@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildStructuredText } from "@/lib/markup";
+import { MAX_HINTS, applyHintPenalty, hintPenalty } from "./hintPenalty";
+import type { EvaluationResult } from "./types";
+
+function evaluation(result: EvaluationResult["result"], score: number): EvaluationResult {
+  return {
+    result,
+    score,
+    feedbackSummary: "Bom trabalho.",
+    structuredFeedback: buildStructuredText("Bom trabalho."),
+    steps: [],
+    finalAnswerCheck: null,
+    hintsUsed: 0,
+    hintPenalty: 0,
+    flags: [],
+  };
+}
+
+describe("hintPenalty", () => {
+  it("grows with each hint", () => {
+    assert.deepEqual([0, 1, 2, 3].map(hintPenalty), [0, 5, 15, 30]);
+  });
+
+  it("stops at the last hint and ignores invalid counts", () => {
+    assert.equal(hintPenalty(MAX_HINTS + 4), hintPenalty(MAX_HINTS));
+    assert.equal(hintPenalty(-1), 0);
+    assert.equal(hintPenalty(1.9), 5);
+  });
+});
+
+describe("applyHintPenalty", () => {
+  it("keeps the evaluation without hints", () => {
+    const result = applyHintPenalty(evaluation("correct", 100), 0);
+    assert.equal(result.score, 100);
+    assert.equal(result.result, "correct");
+    assert.equal(result.hintPenalty, 0);
+  });
+
+  it("takes the penalty off the score and records it", () => {
+    const result = applyHintPenalty(evaluation("correct", 90), 2);
+    assert.equal(result.score, 75);
+    assert.equal(result.result, "correct");
+    assert.equal(result.hintsUsed, 2);
+    assert.equal(result.hintPenalty, 15);
+  });
+
+  it("never goes below zero and records only what was taken", () => {
+    const result = applyHintPenalty(evaluation("incorrect", 10), 3);
+    assert.equal(result.score, 0);
+    assert.equal(result.hintPenalty, 10);
+  });
+
+  it("turns a correct answer into partial after the last hint", () => {
+    assert.equal(applyHintPenalty(evaluation("correct", 100), MAX_HINTS).result, "partial");
+    assert.equal(applyHintPenalty(evaluation("incorrect", 20), MAX_HINTS).result, "incorrect");
+  });
+});
@@ -0,0 +1,36 @@
+import type { EvaluationResult } from "./types";
+
+// Desconto acumulado (pontos em 100) por número de pistas usadas:
+// a 1.ª é só um empurrão, a 3.ª já faz um passo quase completo.
+const HINT_PENALTIES = [0, 5, 15, 30];
+
+export const MAX_HINTS = HINT_PENALTIES.length - 1;
+
+export function hintPenalty(hintsUsed: number): number {
+  const used = Math.max(0, Math.min(MAX_HINTS, Math.floor(hintsUsed)));
+  return HINT_PENALTIES[used];
+}
+
+/**
+ * Desconta as pistas à pontuação. Uma resolução "correct" feita com
+ * a pista quase completa passa a "partial".
+ */
+export function applyHintPenalty(
+  evaluation: EvaluationResult,
+  hintsUsed: number,
+): EvaluationResult {
+  const penalty = hintPenalty(hintsUsed);
+  if (penalty === 0) return { ...evaluation, hintsUsed, hintPenalty: 0 };
+
+  const score = Math.max(0, evaluation.score - penalty);
+  const result =
+    evaluation.result === "correct" && hintsUsed >= MAX_HINTS ? "partial" : evaluation.result;
+
+  return {
+    ...evaluation,
+    result,
+    score,
+    hintsUsed,
+    hintPenalty: evaluation.score - score,
+  };
+}
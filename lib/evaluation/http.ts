@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { EvaluationJobError } from "./queue";
+
+// Converte erros da fila de avaliações em respostas HTTP
+export function sendEvaluationError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof EvaluationJobError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
@@ -0,0 +1,21 @@
+export * from "./types";
+export {
+  EVALUATION_TEMPERATURE,
+  evaluateAnswer,
+  interpretEvaluation,
+  prepareEvaluation,
+  type EvaluationInterpretation,
+  type PreparedEvaluation,
+} from "./evaluateAnswer";
+export { MAX_HINTS, hintPenalty } from "./hintPenalty";
+export { MANIPULATION_SCORE_CAP, detectInjection } from "./safety";
+export {
+  EvaluationJobError,
+  RETRY_DELAYS_SECONDS,
+  deferEvaluation,
+  getEvaluationJobView,
+  processEvaluationQueue,
+  recordEvaluatedAttempt,
+  type EvaluationQueueReport,
+} from "./queue";
+export { sendEvaluationError } from "./http";
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RETRY_DELAYS_SECONDS, nextRetry } from "./queue";
+
+const NOW = new Date("2026-10-19T10:00:00Z");
+const secondsFromNow = (date: Date) => (date.getTime() - NOW.getTime()) / 1000;
+
+describe("nextRetry", () => {
+  it("waits longer after each failure", () => {
+    const delays = [0, 1, 2, 3].map((retries) =>
+      secondsFromNow(nextRetry(retries, "provider_unavailable", NOW).nextAttemptAt),
+    );
+    assert.deepEqual(delays, RETRY_DELAYS_SECONDS.slice(1));
+  });
+
+  it("counts the failure", () => {
+    const retry = nextRetry(2, "invalid_model_output", NOW);
+    assert.equal(retry.status, "pending");
+    assert.equal(retry.retries, 3);
+  });
+
+  it("gives up once the delays run out", () => {
+    const retry = nextRetry(RETRY_DELAYS_SECONDS.length - 1, "processing_failed", NOW);
+    assert.equal(retry.status, "unavailable");
+    assert.equal(retry.retries, RETRY_DELAYS_SECONDS.length);
+    assert.equal(retry.nextAttemptAt.getTime(), NOW.getTime());
+  });
+
+  it("does not retry content rejected by moderation", () => {
+    for (const errorCode of ["off_topic_content", "abusive_content"] as const) {
+      assert.equal(nextRetry(0, errorCode, NOW).status, "unavailable");
+    }
+  });
+});
@@ -0,0 +1,331 @@
+import { canAccessStudent, type AuthUser } from "@/lib/auth";
+import { insertAttempt } from "@/lib/db/attempts";
+import {
+  claimDueEvaluationJobs,
+  completeEvaluationJob,
+  failEvaluationJob,
+  getEvaluationJob,
+  insertEvaluationJob,
+  type EvaluationJob,
+} from "@/lib/db/evaluationJobs";
+import { getExerciseById, type StoredExercise } from "@/lib/db/exercises";
+import { DIFFICULTIES, type Difficulty } from "@/lib/exercises/types";
+import type { Locale } from "@/lib/locale";
+import { recordMasteryFromAttempt } from "@/lib/mastery";
+import type { PromptRef } from "@/lib/prompts";
+import { loadSubmissionPages, type ResolvedSubmission } from "@/lib/submissions";
+import { evaluateAnswer } from "./evaluateAnswer";
+import {
+  REJECTED_CONTENT_CODES,
+  type DeferredEvaluation,
+  type EvaluationErrorCode,
+  type EvaluationJobView,
+  type EvaluationOutcome,
+  type EvaluationResult,
+} from "./types";
+
+// Espera antes de cada nova tentativa; esgotadas, a avaliação fica "unavailable"
+export const RETRY_DELAYS_SECONDS = [60, 300, 900, 3600, 6 * 3600];
+// um trabalho em "processing" há mais do que isto é de um worker que morreu
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 10;
+
+export class EvaluationJobError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "EvaluationJobError";
+  }
+}
+
+function retryAt(retries: number, now = new Date()): Date {
+  return new Date(now.getTime() + RETRY_DELAYS_SECONDS[retries] * 1000);
+}
+
+/**
+ * Guarda a tentativa avaliada e, se for de um exercício guardado, atualiza o
+ * domínio do aluno. Devolve o id da tentativa (null se não ficou guardada: a
+ * nota já existe, não se perde).
+ */
+export async function recordEvaluatedAttempt(params: {
+  studentId: string;
+  sessionId: string | null;
+  exercise: StoredExercise | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  statement: string;
+  userAnswer: string | null;
+  imageRefs: string[];
+  evaluation: EvaluationResult;
+  provider: string;
+  model: string;
+  prompt: PromptRef;
+}): Promise<string | null> {
+  let attemptId: string | null = null;
+  try {
+    const attempt = await insertAttempt({
+      studentId: params.studentId,
+      sessionId: params.sessionId,
+      exerciseId: params.exercise?.id || null,
+      subtopicId: params.subtopicId,
+      subtopicName: params.subtopicName,
+      exerciseIndex: params.exerciseIndex,
+      statement: params.statement,
+      userAnswer: params.userAnswer,
+      imageRefs: params.imageRefs,
+      evaluation: params.evaluation,
+      provider: params.provider,
+      model: params.model,
+      prompt: params.prompt,
+    });
+    attemptId = attempt.id;
+  } catch (err) {
+    console.error("evaluation: failed to store attempt", err);
+  }
+
+  // enunciados livres não contam: o subtema e a dificuldade foram escolhidos pelo cliente
+  if (!params.exercise) return attemptId;
+
+  try {
+    await recordMasteryFromAttempt({
+      studentId: params.studentId,
+      subtopicId: params.subtopicId,
+      subtopicName: params.subtopicName,
+      exerciseType: params.exercise?.exerciseType || null,
+      difficulty: DIFFICULTIES.includes(params.difficulty as Difficulty)
+        ? (params.difficulty as Difficulty)
+        : "medium",
+      score: params.evaluation.score,
+    });
+  } catch (err) {
+    console.error("evaluation: failed to update mastery", err);
+  }
+
+  return attemptId;
+}
+
+// ---------- Fila ----------
+
+/**
+ * Põe na fila uma resolução que nenhum modelo conseguiu avaliar. Só dá para
+ * reavaliar se todas as páginas ficaram guardadas; caso contrário (ou se a
+ * fila falhar) a avaliação fica "unavailable" e o aluno tem de voltar a submeter.
+ */
+export async function deferEvaluation(params: {
+  studentId: string;
+  sessionId: string | null;
+  exercise: StoredExercise | null;
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  statement: string;
+  userAnswer: string | null;
+  submission: ResolvedSubmission;
+  hintsUsed: number;
+  locale: Locale;
+  errorCode: EvaluationErrorCode;
+}): Promise<DeferredEvaluation> {
+  const unavailable = (errorCode: EvaluationErrorCode): DeferredEvaluation => ({
+    status: "unavailable",
+    evaluationId: null,
+    errorCode,
+    error: "Evaluation unavailable, please submit again later",
+  });
+
+  if (params.submission.refs.length < params.submission.pages.length) {
+    return unavailable("pages_not_stored");
+  }
+
+  try {
+    const job = await insertEvaluationJob({
+      studentId: params.studentId,
+      sessionId: params.sessionId,
+      exerciseId: params.exercise?.id || null,
+      subtopicId: params.subtopicId,
+      subtopicName: params.subtopicName,
+      difficulty: params.difficulty,
+      exerciseIndex: params.exerciseIndex,
+      statement: params.statement,
+      userAnswer: params.userAnswer,
+      imageRefs: params.submission.refs,
+      hintsUsed: params.hintsUsed,
+      locale: params.locale,
+      errorCode: params.errorCode,
+      nextAttemptAt: retryAt(0),
+    });
+    return {
+      status: "pending",
+      evaluationId: job.id,
+      errorCode: params.errorCode,
+      retryAfterSeconds: RETRY_DELAYS_SECONDS[0],
+    };
+  } catch (err) {
+    console.error("evaluation: failed to queue evaluation", err);
+    return unavailable(params.errorCode);
+  }
+}
+
+function toJobView(job: EvaluationJob): EvaluationJobView {
+  return {
+    evaluationId: job.id,
+    status: job.status,
+    errorCode: job.errorCode,
+    retries: job.retries,
+    nextAttemptAt: job.status === "pending" ? job.nextAttemptAt : null,
+    attemptId: job.attemptId,
+    evaluation: job.evaluation,
+    createdAt: job.createdAt,
+  };
+}
+
+/** Estado de uma avaliação em fila; só o aluno (ou um admin) a pode ver. */
+export async function getEvaluationJobView(
+  evaluationId: string,
+  user: AuthUser,
+): Promise<EvaluationJobView> {
+  const job = await getEvaluationJob(evaluationId);
+  // a de outro aluno responde como inexistente
+  if (!job || !canAccessStudent(user, job.studentId)) {
+    throw new EvaluationJobError("Evaluation not found", 404);
+  }
+  return toJobView(job);
+}
+
+// ---------- Worker ----------
+
+async function reevaluate(job: EvaluationJob): Promise<{
+  outcome: EvaluationOutcome;
+  exercise: StoredExercise | null;
+}> {
+  let exercise: StoredExercise | null = null;
+  if (job.exerciseId) {
+    try {
+      exercise = await getExerciseById(job.exerciseId);
+    } catch (err) {
+      console.error("evaluation: failed to load exercise", err);
+      return { outcome: { status: "unavailable", errorCode: "storage_unavailable" }, exercise };
+    }
+  }
+
+  const pages = await loadSubmissionPages(job.imageRefs);
+  if (pages.length < job.imageRefs.length) {
+    return { outcome: { status: "unavailable", errorCode: "pages_unavailable" }, exercise };
+  }
+
+  const outcome = await evaluateAnswer({
+    statement: job.statement,
+    statementFromClient: !job.exerciseId,
+    userAnswer: job.userAnswer || "",
+    pages,
+    subtopicName: job.subtopicName,
+    difficulty: job.difficulty,
+    exerciseIndex: job.exerciseIndex,
+    exerciseType: exercise?.exerciseType || null,
+    answerKey: exercise?.answerKey || null,
+    hintsUsed: job.hintsUsed,
+    studentId: job.studentId,
+    locale: job.locale,
+  });
+  return { outcome, exercise };
+}
+
+async function processJob(job: EvaluationJob): Promise<"evaluated" | "pending" | "unavailable"> {
+  const { outcome, exercise } = await reevaluate(job);
+
+  if (outcome.status === "evaluated") {
+    const attemptId = await recordEvaluatedAttempt({
+      studentId: job.studentId,
+      sessionId: job.sessionId,
+      exercise,
+      subtopicId: job.subtopicId,
+      subtopicName: job.subtopicName,
+      difficulty: job.difficulty,
+      exerciseIndex: job.exerciseIndex,
+      statement: job.statement,
+      userAnswer: job.userAnswer,
+      imageRefs: job.imageRefs,
+      evaluation: outcome.evaluation,
+      provider: outcome.provider,
+      model: outcome.model,
+      prompt: outcome.prompt,
+    });
+    await completeEvaluationJob(job.id, { attemptId, evaluation: outcome.evaluation });
+    return "evaluated";
+  }
+
+  return retryJob(job, outcome.errorCode);
+}
+
+/** Estado de um trabalho depois de mais uma tentativa falhada. */
+export function nextRetry(
+  previousRetries: number,
+  errorCode: EvaluationErrorCode,
+  now = new Date(),
+): { status: "pending" | "unavailable"; retries: number; nextAttemptAt: Date } {
+  // uma recusa da moderação não muda com outra tentativa
+  const retries = previousRetries + 1;
+  const status =
+    retries >= RETRY_DELAYS_SECONDS.length || REJECTED_CONTENT_CODES.includes(errorCode)
+      ? "unavailable"
+      : "pending";
+  return {
+    status,
+    retries,
+    nextAttemptAt: status === "pending" ? retryAt(retries, now) : now,
+  };
+}
+
+/** Devolve o trabalho à fila com o próximo atraso, ou fecha-o se já não há tentativas. */
+async function retryJob(
+  job: EvaluationJob,
+  errorCode: EvaluationErrorCode,
+): Promise<"pending" | "unavailable"> {
+  const retry = nextRetry(job.retries, errorCode);
+  await failEvaluationJob(job.id, { ...retry, errorCode });
+  return retry.status;
+}
+
+export type EvaluationQueueReport = {
+  processed: number;
+  evaluated: number;
+  pending: number; // voltaram à fila
+  unavailable: number; // esgotaram as tentativas
+};
+
+/**
+ * Reavalia os trabalhos vencidos, um de cada vez. Um trabalho que rebenta
+ * conta como uma tentativa falhada ("processing_failed"): volta à fila com o
+ * atraso seguinte e, esgotadas as tentativas, fica "unavailable". Só se o
+ * próprio registo da falha rebentar é que fica em "processing", e é retomado
+ * quando passar STALE_PROCESSING_MS.
+ */
+export async function processEvaluationQueue(
+  limit: number = DEFAULT_BATCH_SIZE,
+): Promise<EvaluationQueueReport> {
+  const jobs = await claimDueEvaluationJobs(
+    limit,
+    new Date(Date.now() - STALE_PROCESSING_MS),
+  );
+
+  const report: EvaluationQueueReport = { processed: 0, evaluated: 0, pending: 0, unavailable: 0 };
+  for (const job of jobs) {
+    try {
+      report[await processJob(job)]++;
+      report.processed++;
+    } catch (err) {
+      console.error(`evaluation: failed to process job ${job.id}`, err);
+      try {
+        report[await retryJob(job, "processing_failed")]++;
+        report.processed++;
+      } catch (retryErr) {
+        console.error(`evaluation: failed to requeue job ${job.id}`, retryErr);
+      }
+    }
+  }
+  return report;
+}
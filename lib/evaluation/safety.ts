@@ -0,0 +1,113 @@
+import type { EvaluationFlag, EvaluationResult, PracticeResult } from "./types";
+
+// Defesas contra um aluno que tenta "convencer" o avaliador em vez de resolver:
+// o conteúdo do aluno vai cercado no prompt, procuram-se instruções escondidas
+// no texto e na transcrição das páginas, e uma nota suspeita fica assinalada.
+
+// nota máxima de uma avaliação com tentativa de injeção e nota alta
+export const MANIPULATION_SCORE_CAP = 50;
+
+// diferença (em 100) entre a nota global e a soma das etapas que já não é ruído
+export const INCONSISTENT_SCORE_GAP = 40;
+
+// transcrição das páginas que se analisa (o resto é ignorado)
+export const MAX_PAGE_TEXT_LENGTH = 4000;
+
+// o que se manda ignorar e o nome da nota, nas três línguas. Só plurais e nomes
+// de avaliação: "ignora o termo anterior" ou "os pontos de máximo" são Matemática.
+const RULES = "instrucoes|criterios|regras|rubrica|instructions|criteria|rubric|rules";
+const GRADE = "nota|pontuacao|classificacao|cotacao|score|grade|marks?";
+// pedidos dirigidos ao avaliador ("da"/"de" sozinhos são preposições)
+const GIVE =
+  "da-?\\s?me|de-?\\s?me|dar-?me|atribui|atribua|coloca|coloque|poe|ponha|give|award|assign";
+const ASK = "quero|mereco|merece|deserve|i want";
+const TOP = "100|maxima|full|max";
+
+// Frases de quem fala com o avaliador, em PT-PT, PT-BR e EN. Aplicam-se ao
+// texto sem acentos e em minúsculas. Só se procuram no que o aluno escreveu
+// (resposta e páginas), que muitas vezes também copia o enunciado: por isso
+// nenhuma delas pode apanhar a linguagem normal de um exercício.
+const INJECTION_PATTERNS: RegExp[] = [
+  new RegExp(`\\bignor[a-z]*\\b\\s+(?:[a-z]+\\s+){0,3}(${RULES}|previous instructions)\\b`),
+  new RegExp(
+    `\\b(esquece|desconsidera|disregard|forget|override)\\b\\s+(?:[a-z]+\\s+){0,3}(${RULES})\\b`,
+  ),
+  // sem atravessar pontuação, para não juntar frases diferentes do enunciado
+  new RegExp(
+    `\\b(${GIVE}|${ASK})\\b[^.;:\\n]{0,25}\\b(${GRADE})\\b[^.;:\\n]{0,12}\\b(${TOP}|total)\\b`,
+  ),
+  new RegExp(`\\b(${GIVE}|${ASK})\\b[^.;:\\n]{0,25}\\b(${TOP})\\s+(${GRADE})\\b`),
+  /\b(score|nota|pontuacao|grade)\b\s*[:=]\s*100\b/,
+  /"(result|score|stepscores|feedbacksummary)"\s*:/,
+  /\b(a partir de agora (es|tu|deves|vais)|from now on,? you|you are now|agora es)\b/,
+  /\b(act as|age como|finge que es)\b/,
+  /\b(system prompt|prompt do sistema|instrucoes do sistema|developer message)\b/,
+  /<\|?\s*(im_start|im_end|system|assistant)\s*\|?>/,
+  /^\s*(system|assistant)\s*:/m,
+];
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Procura instruções dirigidas ao avaliador no que o aluno escreveu (resposta
+ * ou transcrição das páginas). Devolve os trechos encontrados; vazio quando não
+ * há nada. O enunciado não se analisa: vem da BD ou é o do exercício.
+ */
+export function detectInjection(text: string): string[] {
+  const normalized = normalize(text);
+  const found: string[] = [];
+  for (const pattern of INJECTION_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) found.push(match[0].trim().slice(0, 80));
+  }
+  return found;
+}
+
+/**
+ * Tira do conteúdo do aluno os delimitadores que o prompt usa para o cercar
+ * (<<< e >>>), para não dar para "fechar" a secção e escrever fora dela.
+ */
+export function fenceStudentContent(text: string): string {
+  return text.replace(/<{3,}|>{3,}/g, "").replace(/[\u200b-\u200f\u2060\ufeff]/g, "");
+}
+
+/**
+ * Assinala (e, se preciso, limita) uma avaliação suspeita. Recebe a avaliação
+ * já reconciliada com a resposta final, o que o modelo devolveu antes disso e
+ * a nota das etapas da rubrica (null sem critérios).
+ */
+export function applyIntegrityChecks(
+  evaluation: EvaluationResult,
+  signals: {
+    injection: boolean;
+    modelResult: PracticeResult;
+    modelScore: number;
+    rubricScore: number | null;
+  },
+): EvaluationResult {
+  const flags: EvaluationFlag[] = [];
+  let { result, score } = evaluation;
+
+  if (signals.injection) flags.push("prompt_injection");
+  if (evaluation.result !== signals.modelResult) flags.push("contradicts_final_answer");
+  if (
+    signals.rubricScore !== null &&
+    Math.abs(signals.modelScore - signals.rubricScore) >= INCONSISTENT_SCORE_GAP
+  ) {
+    flags.push("inconsistent_score");
+  }
+
+  // quem tenta instruir o avaliador e sai com nota alta não fica com ela
+  if (signals.injection && (signals.modelResult === "correct" || score > MANIPULATION_SCORE_CAP)) {
+    flags.push("suspected_manipulation");
+    score = Math.min(score, MANIPULATION_SCORE_CAP);
+    if (result === "correct") result = "partial";
+  }
+
+  return { ...evaluation, result, score, flags };
+}
@@ -0,0 +1,43 @@
+import { buildStructuredText } from "@/lib/markup";
+import { ERROR_CATEGORIES, type ErrorCategory, type EvaluationStep } from "./types";
+
+const MAX_STEPS = 12;
+
+/**
+ * Valida os passos detetados pelo modelo. Passos mal formados são
+ * descartados; um passo errado sem categoria conhecida fica como "other".
+ */
+export function parseEvaluationSteps(raw: unknown): EvaluationStep[] {
+  if (!Array.isArray(raw)) return [];
+
+  const steps: EvaluationStep[] = [];
+  for (const item of raw.slice(0, MAX_STEPS)) {
+    const description =
+      typeof item?.description === "string" ? item.description.trim() : "";
+    if (!description || typeof item?.correct !== "boolean") continue;
+
+    const correct: boolean = item.correct;
+    const errorCategory: ErrorCategory | null = correct
+      ? null
+      : ERROR_CATEGORIES.includes(item.errorCategory)
+        ? item.errorCategory
+        : "other";
+
+    const comment = typeof item.comment === "string" ? item.comment.trim() : "";
+    steps.push({
+      description,
+      correct,
+      errorCategory,
+      comment,
+      structuredComment: buildStructuredText(comment, item.commentMarkup),
+    });
+  }
+
+  return steps;
+}
+
+export function errorCategoriesOf(steps: EvaluationStep[]): ErrorCategory[] {
+  return steps
+    .map((step) => step.errorCategory)
+    .filter((category): category is ErrorCategory => category !== null);
+}
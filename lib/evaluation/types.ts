@@ -0,0 +1,148 @@
+import type { ExerciseAnswerKey, ExerciseType } from "@/lib/exercises/types";
+import type { LLMImage } from "@/lib/llm";
+import type { Locale } from "@/lib/locale";
+import type { StructuredText } from "@/lib/markup";
+import type { EquivalenceVerdict } from "@/lib/math";
+import type { PromptRef } from "@/lib/prompts";
+
+export type PracticeResult = "correct" | "partial" | "incorrect";
+
+export const PRACTICE_RESULTS: PracticeResult[] = ["correct", "partial", "incorrect"];
+
+// Taxonomia de erros usada na análise passo a passo
+export type ErrorCategory =
+  | "wrong_derivative_rule"
+  | "algebra_slip"
+  | "sign_error"
+  | "missing_justification"
+  | "wrong_interpretation"
+  | "incomplete_resolution"
+  | "other";
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  "wrong_derivative_rule",
+  "algebra_slip",
+  "sign_error",
+  "missing_justification",
+  "wrong_interpretation",
+  "incomplete_resolution",
+  "other",
+];
+
+// Sinais de integridade: a avaliação conta, mas um professor deve revê-la
+export type EvaluationFlag =
+  | "prompt_injection" // o aluno escreveu instruções para o avaliador
+  | "contradicts_final_answer" // o modelo contrariou a verificação da resposta final
+  | "inconsistent_score" // a nota global não bate com os pontos das etapas
+  | "suspected_manipulation"; // nota alta com tentativa de injeção: fica limitada
+
+export const EVALUATION_FLAGS: EvaluationFlag[] = [
+  "prompt_injection",
+  "contradicts_final_answer",
+  "inconsistent_score",
+  "suspected_manipulation",
+];
+
+export type EvaluationStep = {
+  description: string; // o que o aluno fez neste passo
+  correct: boolean;
+  errorCategory: ErrorCategory | null; // null quando o passo está correto
+  comment: string;
+  structuredComment: StructuredText;
+};
+
+export type EvaluationResult = {
+  result: PracticeResult;
+  score: number;
+  feedbackSummary: string;
+  structuredFeedback: StructuredText; // feedbackSummary com a matemática em LaTeX
+  steps: EvaluationStep[];
+  // verificação mecânica da resposta final (null quando não se aplica)
+  finalAnswerCheck: EquivalenceVerdict | null;
+  hintsUsed: number; // pistas que o aluno pediu antes de submeter
+  hintPenalty: number; // pontos descontados por essas pistas
+  flags: EvaluationFlag[]; // vazio quando nada parece suspeito
+};
+
+export type EvaluateAnswerInput = {
+  statement: string;
+  statementFromClient: boolean; // sem exerciseId: o enunciado é o que o cliente mandou
+  userAnswer: string;
+  pages: LLMImage[]; // páginas da resolução, já validadas
+  subtopicName: string;
+  difficulty: string;
+  exerciseIndex: number;
+  exerciseType: ExerciseType | null;
+  answerKey: ExerciseAnswerKey | null;
+  hintsUsed: number;
+  studentId?: string | null; // unidade das experiências de prompts
+  locale: Locale; // língua do feedback e convenções de notação
+};
+
+// Porque é que uma resolução ficou sem nota (códigos estáveis, lidos pelos clientes)
+export type EvaluationErrorCode =
+  | "provider_unavailable" // nenhum modelo respondeu
+  | "invalid_model_output" // o modelo respondeu, mas sem uma avaliação utilizável
+  | "no_pages" // não há páginas para avaliar
+  | "pages_unavailable" // as páginas guardadas não puderam ser lidas
+  | "pages_not_stored" // a resolução não ficou guardada, não dá para reavaliar
+  | "storage_unavailable" // falhou a BD antes da avaliação
+  | "processing_failed" // o worker rebentou a meio do trabalho
+  | "off_topic_content" // as páginas não são uma resolução do exercício
+  | "abusive_content"; // as páginas ou a resposta têm conteúdo ofensivo
+
+// O que o modelo viu nas páginas (moderação feita na mesma chamada da avaliação)
+export type SubmissionContent = "resolution" | "off_topic" | "abusive";
+
+export const SUBMISSION_CONTENTS: SubmissionContent[] = ["resolution", "off_topic", "abusive"];
+
+// Recusas da moderação: voltar a avaliar a mesma submissão não muda nada
+export const REJECTED_CONTENT_CODES: EvaluationErrorCode[] = [
+  "off_topic_content",
+  "abusive_content",
+];
+
+// Nunca há nota inventada: ou um modelo avaliou, ou a avaliação fica por fazer
+export type EvaluationOutcome =
+  | {
+      status: "evaluated";
+      evaluation: EvaluationResult;
+      provider: string;
+      model: string;
+      prompt: PromptRef;
+    }
+  | { status: "unavailable"; errorCode: EvaluationErrorCode };
+
+// ---------- Fila de reavaliação ----------
+
+export type EvaluationJobStatus = "pending" | "processing" | "evaluated" | "unavailable";
+
+// resoluções reavaliadas, no máximo, em cada chamada ao worker
+export const MAX_EVALUATION_BATCH_SIZE = 50;
+
+// Resposta quando a avaliação fica para depois (202) ou não pode ser feita (503)
+export type DeferredEvaluation =
+  | {
+      status: "pending";
+      evaluationId: string;
+      errorCode: EvaluationErrorCode;
+      retryAfterSeconds: number;
+    }
+  | {
+      status: "unavailable";
+      evaluationId: null;
+      errorCode: EvaluationErrorCode;
+      error: string;
+    };
+
+// Estado de uma avaliação em fila (GET /api/v1/evaluations/:evaluationId)
+export type EvaluationJobView = {
+  evaluationId: string;
+  status: EvaluationJobStatus;
+  errorCode: EvaluationErrorCode | null; // motivo da última falha
+  retries: number;
+  nextAttemptAt: string | null; // só enquanto está pendente
+  attemptId: string | null;
+  evaluation: EvaluationResult | null; // a nota, quando um modelo avaliou
+  createdAt: string;
+};
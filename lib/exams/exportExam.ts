@@ -0,0 +1,133 @@
+import { rubricTotal } from "@/lib/exercises/answerKey";
+import { examToLatex, markingCriteriaToLatex } from "./latex";
+import { renderPdf, type PdfBlock } from "./pdf";
+import type { ExamDocument, ExamExportFormat, ExamPaper, ExamPaperView } from "./types";
+
+const SUPERSCRIPTS: Record<string, string> = { "1": "¹", "2": "²", "3": "³" };
+
+/** Expoentes simples (x^2, x^{3}) em superescrito; os restantes ficam como ^(…). */
+function toPlainText(text: string): string {
+  return text.replace(/\^\{([^}]*)\}|\^(-?[\w.,]+)/g, (_match, braced, bare) => {
+    const exponent: string = braced ?? bare;
+    return SUPERSCRIPTS[exponent] ?? (exponent.length === 1 ? `^${exponent}` : `^(${exponent})`);
+  });
+}
+
+/** A prova sem critérios de classificação (o que o aluno pode ver). */
+export function toExamPaperView(paper: ExamPaper): ExamPaperView {
+  return {
+    ...paper,
+    items: paper.items.map((item) => ({
+      ...item,
+      parts: item.parts.map((part) => ({
+        label: part.label,
+        statement: part.statement,
+        points: part.points,
+      })),
+    })),
+  };
+}
+
+function headerBlocks(paper: ExamPaper, subtitle: string): PdfBlock[] {
+  return [
+    { text: paper.title, style: "title", align: "center" },
+    { text: subtitle, style: "subtitle", align: "center" },
+    {
+      text: `Duração da prova: ${paper.durationMinutes} minutos. Tolerância: ${paper.toleranceMinutes} minutos.`,
+      style: "subtitle",
+      align: "center",
+    },
+  ];
+}
+
+function pointsBlocks(paper: ExamPaper): PdfBlock[] {
+  const rows = paper.items.flatMap((item) =>
+    item.parts.map((part) => `${part.label}: ${part.points} pontos`),
+  );
+  return [
+    { text: "COTAÇÕES", style: "heading" },
+    { text: `${rows.join("  |  ")}\nTotal: ${paper.totalPoints} pontos`, style: "small" },
+  ];
+}
+
+function examBlocks(paper: ExamPaper): PdfBlock[] {
+  const blocks = headerBlocks(paper, `Prova com ${paper.totalPoints} pontos`);
+  blocks.push({
+    text: "Apresenta o teu raciocínio de forma clara, indicando todos os cálculos e justificações necessários.",
+    style: "body",
+  });
+
+  for (const item of paper.items) {
+    blocks.push({ text: `${item.number}.`, style: "heading" });
+    if (item.intro) blocks.push({ text: toPlainText(item.intro), style: "body" });
+    for (const part of item.parts) {
+      blocks.push({
+        text: `${item.parts.length > 1 ? `${part.label}. ` : ""}${toPlainText(part.statement)} (${part.points} pontos)`,
+        style: "body",
+        indent: item.parts.length > 1 ? 12 : 0,
+      });
+    }
+  }
+
+  return [...blocks, ...pointsBlocks(paper)];
+}
+
+function criteriaBlocks(paper: ExamPaper): PdfBlock[] {
+  const blocks = headerBlocks(paper, "Critérios de classificação");
+
+  for (const item of paper.items) {
+    blocks.push({ text: `${item.number}. ${item.subtopicName}`, style: "heading" });
+    for (const part of item.parts) {
+      const key = part.answerKey;
+      blocks.push(
+        { text: `${part.label}. (${part.points} pontos)`, style: "body" },
+        { text: `Resposta esperada: ${toPlainText(key.expectedAnswer)}`, style: "body", indent: 12 },
+        {
+          text: `Resolução de referência:\n${toPlainText(key.referenceSolution)}`,
+          style: "body",
+          indent: 12,
+        },
+        {
+          text: [
+            `Critérios (${rubricTotal(key.rubric)} pontos):`,
+            ...key.rubric.map((step) => `• ${toPlainText(step.description)} — ${step.points} pontos`),
+          ].join("\n"),
+          style: "body",
+          indent: 12,
+        },
+      );
+    }
+  }
+
+  return [...blocks, ...pointsBlocks(paper)];
+}
+
+export type ExportedFile = {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+};
+
+/** Prova ou critérios de classificação, em LaTeX ou PDF. */
+export function exportExamPaper(
+  paper: ExamPaper,
+  document: ExamDocument,
+  format: ExamExportFormat,
+): ExportedFile {
+  const basename = `prova-${paper.year}ano-${paper.id.slice(0, 8)}${document === "criteria" ? "-criterios" : ""}`;
+
+  if (format === "latex") {
+    return {
+      filename: `${basename}.tex`,
+      contentType: "application/x-tex; charset=utf-8",
+      body: document === "criteria" ? markingCriteriaToLatex(paper) : examToLatex(paper),
+    };
+  }
+
+  const title = document === "criteria" ? `${paper.title} — critérios` : paper.title;
+  return {
+    filename: `${basename}.pdf`,
+    contentType: "application/pdf",
+    body: renderPdf(document === "criteria" ? criteriaBlocks(paper) : examBlocks(paper), title),
+  };
+}
@@ -0,0 +1,288 @@
+import { modelExamItemOutput } from "@/lib/contracts/exams";
+import { getExamPaper, insertExamPaper } from "@/lib/db/examPapers";
+import { rubricTotal } from "@/lib/exercises/answerKey";
+import { pickFallbackExercise } from "@/lib/exercises/fallbackLibrary";
+import { localFallback } from "@/lib/exercises/generateExercise";
+import { listSubtopicContexts } from "@/lib/exercises/subtopicContext";
+import {
+  EXERCISE_TYPES,
+  type ExerciseAnswerKey,
+  type ExerciseType,
+  type SubtopicContext,
+} from "@/lib/exercises/types";
+import { getLLMClient, reportFallback, reportInvalidOutput } from "@/lib/llm";
+import { DEFAULT_LOCALE } from "@/lib/locale";
+import { allocatePoints, scaleRubric } from "./points";
+import {
+  DEFAULT_EXAM_DURATION_MINUTES,
+  DEFAULT_EXAM_ITEMS,
+  DEFAULT_EXAM_TOLERANCE_MINUTES,
+  EXAM_TOTAL_POINTS,
+  MAX_PARTS_PER_ITEM,
+  type ExamItem,
+  type ExamPaper,
+  type GenerateExamInput,
+} from "./types";
+
+// nenhuma alínea vale menos do que isto
+const MIN_PART_POINTS = 5;
+
+export class ExamError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "ExamError";
+  }
+}
+
+// item antes de receber as cotações finais
+type DraftItem = Omit<ExamItem, "number" | "points" | "parts"> & {
+  parts: { statement: string; answerKey: ExerciseAnswerKey }[];
+};
+
+// ---------- Escolha dos subtemas ----------
+
+/**
+ * Distribui os itens pelos tópicos do ano (um subtema de cada tópico
+ * à vez), mantendo a ordem do programa.
+ */
+export function pickExamSubtopics(
+  subtopics: SubtopicContext[],
+  itemCount: number,
+): SubtopicContext[] {
+  const byTopic = new Map<string, SubtopicContext[]>();
+  for (const subtopic of subtopics) {
+    const key = subtopic.topicCode || subtopic.topicName || "";
+    byTopic.set(key, [...(byTopic.get(key) || []), subtopic]);
+  }
+
+  // quantos itens cabem a cada tópico (à vez, até esgotar os subtemas)
+  const queues = [...byTopic.values()];
+  const quotas = queues.map(() => 0);
+  let remaining = Math.min(itemCount, subtopics.length);
+  while (remaining > 0) {
+    for (let i = 0; i < queues.length && remaining > 0; i++) {
+      if (quotas[i] < queues[i].length) {
+        quotas[i]++;
+        remaining--;
+      }
+    }
+  }
+
+  // dentro de cada tópico, subtemas espaçados (não só os primeiros)
+  const picked = queues.flatMap((queue, i) =>
+    Array.from(
+      { length: quotas[i] },
+      (_, j) => queue[Math.floor(((j + 0.5) * queue.length) / quotas[i])],
+    ),
+  );
+  return subtopics.filter((s) => picked.includes(s));
+}
+
+// ---------- Geração de cada item ----------
+
+// itens mais simples no início, mais longos no fim (como no exame)
+function suggestedParts(index: number, itemCount: number): number {
+  const position = itemCount > 1 ? index / (itemCount - 1) : 0;
+  if (position < 0.34) return 1;
+  if (position < 0.67) return 2;
+  return MAX_PARTS_PER_ITEM;
+}
+
+// primeiro a biblioteca curada do subtema; só depois o exercício genérico
+async function fallbackItem(subtopic: SubtopicContext, index: number): Promise<DraftItem> {
+  const curated = await pickFallbackExercise({
+    subtopicId: subtopic.subtopicId,
+    subtopicName: subtopic.subtopicName,
+    topicName: subtopic.topicName,
+    difficulty: "medium",
+    exerciseType: "exam_multi_step",
+    locale: DEFAULT_LOCALE, // as provas seguem o Exame Nacional, em português europeu
+  });
+  const draft = curated || localFallback((index % 3) + 1);
+  return {
+    subtopicId: subtopic.subtopicId,
+    subtopicName: subtopic.subtopicName,
+    topicName: subtopic.topicName,
+    exerciseType: draft.exerciseType,
+    intro: "",
+    parts: [{ statement: draft.statement, answerKey: draft.answerKey! }],
+  };
+}
+
+async function draftExamItem(
+  subtopic: SubtopicContext,
+  index: number,
+  itemCount: number,
+): Promise<DraftItem> {
+  const partsHint = suggestedParts(index, itemCount);
+
+  const systemPrompt = `
+Tu és o Wolfi, explicador de Matemática A (Portugal), a preparar UM item de uma prova modelo
+ao estilo do Exame Nacional do ${subtopic.topicYear ? `${subtopic.topicYear}.º ano` : "secundário"}.
+
+Contexto curricular:
+- Tópico: ${subtopic.topicName || "Matemática A"} (${subtopic.topicCode || "programa oficial"})
+- Subtema: ${subtopic.subtopicName}
+- Conteúdos trabalhados neste subtema (resumo):
+${subtopic.aiNotes || "- (sem notas adicionais)"}
+
+Regras:
+- O item pode ter entre 1 e ${MAX_PARTS_PER_ITEM} alíneas; para este item pretende-se ${partsHint}.
+- "intro" é o texto comum às alíneas (dados, função, contexto); pode ser "" se houver só uma alínea.
+- Cada alínea é uma tarefa clara, resolúvel com o que foi dado na "intro" e nas alíneas anteriores.
+- Não numeres as alíneas no texto (a numeração é feita depois).
+- Usa a linguagem e o rigor dos enunciados do Exame Nacional (Portugal).
+
+Chave de correção de cada alínea (NUNCA é mostrada ao aluno):
+- "referenceSolution": resolução completa, passo a passo.
+- "expectedAnswer": só a resposta final.
+- "rubric": critérios ao estilo dos Exames Nacionais, 2 a 5 etapas com "description" e "points" (inteiro positivo).
+  Os pontos indicam o peso relativo da alínea na prova (uma alínea mais longa vale mais).
+
+Saída em json:
+{
+  "intro": "texto comum, com \\n para quebras de linha",
+  "exerciseType": "basic_procedural" | "mixed_rules" | "applied_word_problem" | "exam_multi_step",
+  "parts": [
+    {
+      "statement": "enunciado da alínea",
+      "referenceSolution": "resolução passo a passo",
+      "expectedAnswer": "resposta final",
+      "rubric": [{ "description": "etapa", "points": 5 }]
+    }
+  ]
+}
+NÃO incluas qualquer texto fora deste json.
+`;
+
+  const userPrompt = `
+Item ${index + 1} de ${itemCount} da prova.
+${index + 1 === itemCount ? "É o último item: deve ser o mais exigente (várias etapas, justificações)." : ""}
+Cria o item seguindo as regras.
+`;
+
+  try {
+    const llm = getLLMClient("generateExamItem");
+    const completion = await llm.generateJson<unknown>({
+      temperature: 0.6,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    });
+    const output = modelExamItemOutput.parse(completion.data);
+    if (!output.ok) {
+      console.warn("exams: incomplete exam item from model", output.issues);
+      await reportInvalidOutput(completion);
+      await reportFallback("generateExamItem", "local exam item");
+      return fallbackItem(subtopic, index);
+    }
+    const parsed = output.value;
+    const parts: DraftItem["parts"] = parsed.parts.map(({ statement, ...answerKey }) => ({
+      statement,
+      answerKey,
+    }));
+
+    return {
+      subtopicId: subtopic.subtopicId,
+      subtopicName: subtopic.subtopicName,
+      topicName: subtopic.topicName,
+      exerciseType: EXERCISE_TYPES.includes(parsed.exerciseType as ExerciseType)
+        ? (parsed.exerciseType as ExerciseType)
+        : "exam_multi_step",
+      intro: parsed.intro,
+      parts,
+    };
+  } catch (err) {
+    console.error("exams: falling back to local exam item", err);
+    await reportFallback("generateExamItem", "local exam item");
+    return fallbackItem(subtopic, index);
+  }
+}
+
+// ---------- Cotações ----------
+
+/**
+ * Atribui as cotações (total 200) proporcionalmente ao peso de cada alínea
+ * nos critérios, e ajusta os critérios para somarem a cotação.
+ */
+export function assignExamPoints(drafts: DraftItem[]): ExamItem[] {
+  const weights = drafts.flatMap((item) => item.parts.map((p) => rubricTotal(p.answerKey.rubric)));
+  const points = allocatePoints(weights, EXAM_TOTAL_POINTS, MIN_PART_POINTS);
+
+  let k = 0;
+  return drafts.map((item, i) => {
+    const number = i + 1;
+    const parts = item.parts.map((part, j) => {
+      const partPoints = points[k++];
+      return {
+        label: item.parts.length > 1 ? `${number}.${j + 1}` : `${number}`,
+        statement: part.statement,
+        points: partPoints,
+        answerKey: { ...part.answerKey, rubric: scaleRubric(part.answerKey.rubric, partPoints) },
+      };
+    });
+
+    return {
+      ...item,
+      number,
+      parts,
+      points: parts.reduce((sum, p) => sum + p.points, 0),
+    };
+  });
+}
+
+// ---------- Serviço ----------
+
+/** Gera e guarda uma prova modelo com itens de vários subtemas do ano. */
+export async function generateExamPaper(input: GenerateExamInput): Promise<ExamPaper> {
+  const itemCount = input.itemCount ?? DEFAULT_EXAM_ITEMS;
+  const curriculum = await listSubtopicContexts({ year: input.year });
+  if (curriculum.length === 0) {
+    throw new ExamError(`No subtopics found for year ${input.year}`, 404);
+  }
+
+  let subtopics: SubtopicContext[];
+  if (input.subtopicIds?.length) {
+    subtopics = curriculum.filter((s) => input.subtopicIds!.includes(s.subtopicId));
+    if (subtopics.length !== new Set(input.subtopicIds).size) {
+      throw new ExamError(`subtopicIds must belong to year ${input.year}`, 400);
+    }
+  } else {
+    subtopics = pickExamSubtopics(curriculum, itemCount);
+  }
+
+  // um subtema por item; com poucos subtemas no ano, repetem-se por ordem
+  const count = input.subtopicIds?.length ? subtopics.length : itemCount;
+  const itemSubtopics = Array.from({ length: count }, (_, i) => subtopics[i % subtopics.length]);
+
+  const drafts = await Promise.all(
+    itemSubtopics.map((subtopic, i) => draftExamItem(subtopic, i, itemSubtopics.length)),
+  );
+
+  return insertExamPaper({
+    studentId: input.studentId,
+    year: input.year,
+    title: `Prova modelo de Matemática A — ${input.year}.º ano`,
+    durationMinutes: input.durationMinutes ?? DEFAULT_EXAM_DURATION_MINUTES,
+    toleranceMinutes: DEFAULT_EXAM_TOLERANCE_MINUTES,
+    totalPoints: EXAM_TOTAL_POINTS,
+    items: assignExamPoints(drafts),
+  });
+}
+
+/** Prova do aluno (ou qualquer prova, para um admin). */
+export async function getOwnedExamPaper(
+  examId: string,
+  user: { id: string; role: string },
+): Promise<ExamPaper> {
+  const paper = await getExamPaper(examId);
+  // não revelamos se a prova existe quando é de outro aluno
+  if (!paper || (paper.studentId !== user.id && user.role !== "admin")) {
+    throw new ExamError("Exam not found", 404);
+  }
+  return paper;
+}
@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { ExamError } from "./generateExam";
+
+// Converte erros do serviço de provas em respostas HTTP
+export function sendExamError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof ExamError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
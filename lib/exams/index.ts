@@ -0,0 +1,13 @@
+export * from "./types";
+export {
+  ExamError,
+  assignExamPoints,
+  generateExamPaper,
+  getOwnedExamPaper,
+  pickExamSubtopics,
+} from "./generateExam";
+export { allocatePoints, scaleRubric } from "./points";
+export { examToLatex, markingCriteriaToLatex, toLatexText } from "./latex";
+export { exportExamPaper, toExamPaperView, type ExportedFile } from "./exportExam";
+export { renderPdf, type PdfBlock, type PdfBlockStyle } from "./pdf";
+export { sendExamError } from "./http";
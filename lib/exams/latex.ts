@@ -0,0 +1,139 @@
+import { rubricTotal } from "@/lib/exercises/answerKey";
+import type { ExamPaper } from "./types";
+
+// Documentos LaTeX da prova e dos critérios de classificação.
+// Compilam com xelatex ou lualatex (fontspec: o texto tem acentos e símbolos Unicode).
+
+const SPECIAL_CHARS: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  _: "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^]/g, (c) => SPECIAL_CHARS[c]);
+}
+
+// e^{2x}, x^2, 2^(x+1) passam a expoentes
+const EXPONENT = /\^\{([^}]*)\}|\^\(([^)]*)\)|\^(-?[\w.,]+)/g;
+
+/** Texto do enunciado em LaTeX: escapa o texto e trata expoentes e quebras de linha. */
+export function toLatexText(text: string): string {
+  let out = "";
+  let last = 0;
+  for (const match of text.matchAll(EXPONENT)) {
+    out += escapeLatex(text.slice(last, match.index));
+    out += `\\textsuperscript{${escapeLatex(match[1] ?? match[2] ?? match[3])}}`;
+    last = match.index! + match[0].length;
+  }
+  out += escapeLatex(text.slice(last));
+
+  return out
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.split("\n").join("\\\\\n"))
+    .join("\n\n");
+}
+
+function preamble(title: string): string {
+  return `% ${title}
+% Compilar com xelatex ou lualatex.
+\\documentclass[11pt,a4paper]{article}
+\\usepackage{fontspec}
+\\usepackage[portuguese]{babel}
+\\usepackage[margin=2.5cm]{geometry}
+\\usepackage{array}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{6pt}
+\\begin{document}
+`;
+}
+
+function header(paper: ExamPaper, subtitle: string): string {
+  return `\\begin{center}
+{\\Large\\bfseries ${escapeLatex(paper.title)}}\\\\[4pt]
+${subtitle}\\\\
+Duração da prova: ${paper.durationMinutes} minutos. Tolerância: ${paper.toleranceMinutes} minutos.
+\\end{center}
+`;
+}
+
+function pointsTable(paper: ExamPaper): string {
+  const labels = paper.items.flatMap((item) => item.parts.map((p) => p.label));
+  const points = paper.items.flatMap((item) => item.parts.map((p) => String(p.points)));
+
+  return `\\begin{center}
+\\small
+\\textbf{COTAÇÕES}\\\\[4pt]
+\\begin{tabular}{|l|${"c|".repeat(labels.length)}c|}
+\\hline
+Item & ${labels.join(" & ")} & Total \\\\
+\\hline
+Pontos & ${points.join(" & ")} & ${paper.totalPoints} \\\\
+\\hline
+\\end{tabular}
+\\end{center}
+`;
+}
+
+export function examToLatex(paper: ExamPaper): string {
+  const items = paper.items
+    .map((item) => {
+      const intro = item.intro ? `${toLatexText(item.intro)}\n\n` : "";
+      const parts = item.parts
+        .map((part) => {
+          // item sem alíneas: o número já está no título
+          const label = item.parts.length > 1 ? `\\textbf{${part.label}.} ` : "";
+          return `${label}${toLatexText(part.statement)} \\hfill (${part.points} pontos)\n`;
+        })
+        .join("\n");
+      return `\\subsection*{${item.number}.}\n${intro}${parts}`;
+    })
+    .join("\n");
+
+  return `${preamble(paper.title)}${header(paper, `Prova com ${paper.totalPoints} pontos`)}
+Apresenta o teu raciocínio de forma clara, indicando todos os cálculos e justificações necessários.
+
+${items}
+\\vfill
+${pointsTable(paper)}\\end{document}
+`;
+}
+
+export function markingCriteriaToLatex(paper: ExamPaper): string {
+  const items = paper.items
+    .map((item) => {
+      const parts = item.parts
+        .map((part) => {
+          const steps = part.answerKey.rubric
+            .map((step) => `\\item ${toLatexText(step.description)} \\dotfill ${step.points} pontos`)
+            .join("\n");
+          return `\\textbf{${part.label}.} (${part.points} pontos)
+
+\\textit{Resposta esperada:} ${toLatexText(part.answerKey.expectedAnswer)}
+
+\\textit{Resolução de referência:}\\\\
+${toLatexText(part.answerKey.referenceSolution)}
+
+\\textit{Critérios (${rubricTotal(part.answerKey.rubric)} pontos):}
+\\begin{itemize}
+${steps}
+\\end{itemize}
+`;
+        })
+        .join("\n");
+      return `\\subsection*{${item.number}. ${escapeLatex(item.subtopicName)}}\n${parts}`;
+    })
+    .join("\n");
+
+  return `${preamble(`${paper.title} — critérios de classificação`)}${header(paper, "Critérios de classificação")}
+${items}
+${pointsTable(paper)}\\end{document}
+`;
+}
@@ -0,0 +1,202 @@
+// Gerador de PDF mínimo (só texto, Helvetica, A4), suficiente para as provas
+// e os critérios sem depender de LaTeX instalado no servidor.
+
+export type PdfBlockStyle = "title" | "subtitle" | "heading" | "body" | "small";
+
+export type PdfBlock = {
+  text: string;
+  style: PdfBlockStyle;
+  indent?: number; // em pontos
+  align?: "left" | "center";
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+
+const STYLES: Record<PdfBlockStyle, { size: number; bold: boolean; spaceBefore: number }> = {
+  title: { size: 16, bold: true, spaceBefore: 0 },
+  subtitle: { size: 10, bold: false, spaceBefore: 4 },
+  heading: { size: 12, bold: true, spaceBefore: 14 },
+  body: { size: 10.5, bold: false, spaceBefore: 6 },
+  small: { size: 9, bold: false, spaceBefore: 4 },
+};
+
+// Larguras da Helvetica (AFM, 1/1000 em) para os caracteres 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Caracteres fora do WinAnsiEncoding: substitutos legíveis, só com símbolos
+// (notação ASCII ou o comando LaTeX) para não dependerem da língua da prova
+const REPLACEMENTS: Record<string, string> = {
+  "ℝ": "IR",
+  "ℕ": "IN",
+  "ℤ": "Z",
+  "⇔": "<=>",
+  "⇒": "=>",
+  "→": "->",
+  "∨": " \\lor ",
+  "∧": " \\land ",
+  "∞": "inf",
+  "√": "sqrt",
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "≈": "~",
+  "π": "pi",
+  "∈": " \\in ",
+  "⁴": "^4",
+  "⁵": "^5",
+  "⁻": "^-",
+  "ⁿ": "^n",
+};
+
+// Caracteres do WinAnsi fora do Latin-1 (0x80–0x9f)
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+/** Converte para bytes WinAnsi (o que não existe vira um substituto ou "?"). */
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement) {
+      bytes.push(...toWinAnsi(replacement));
+      continue;
+    }
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) bytes.push(code);
+    else if (code >= 0xa0 && code <= 0xff) bytes.push(code);
+    else if (WIN_ANSI_EXTRA[char]) bytes.push(WIN_ANSI_EXTRA[char]);
+    else if (char === "\t") bytes.push(32);
+    else bytes.push(63); // "?"
+  }
+  return bytes;
+}
+
+function textWidth(bytes: number[], size: number, bold: boolean): number {
+  const units = bytes.reduce(
+    (sum, b) => sum + (b >= 32 && b <= 126 ? HELVETICA_WIDTHS[b - 32] : 556),
+    0,
+  );
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+function wrapLine(bytes: number[], maxWidth: number, size: number, bold: boolean): number[][] {
+  const words: number[][] = [];
+  let current: number[] = [];
+  for (const b of bytes) {
+    if (b === 32) {
+      words.push(current);
+      current = [];
+    } else {
+      current.push(b);
+    }
+  }
+  words.push(current);
+
+  const lines: number[][] = [];
+  let line: number[] = [];
+  for (const word of words) {
+    const candidate = line.length ? [...line, 32, ...word] : word;
+    if (line.length && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+function pdfString(bytes: number[]): string {
+  let out = "(";
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) out += `\\${String.fromCharCode(b)}`;
+    else if (b < 32 || b > 126) out += `\\${b.toString(8).padStart(3, "0")}`;
+    else out += String.fromCharCode(b);
+  }
+  return `${out})`;
+}
+
+/** Paginação e escrita do PDF. */
+export function renderPdf(blocks: PdfBlock[], title: string): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const style = STYLES[block.style];
+    const lineHeight = style.size * 1.35;
+    const indent = block.indent || 0;
+    const maxWidth = PAGE_WIDTH - 2 * MARGIN - indent;
+    y -= style.spaceBefore;
+
+    for (const paragraph of block.text.split("\n")) {
+      for (const line of wrapLine(toWinAnsi(paragraph), maxWidth, style.size, style.bold)) {
+        if (y - lineHeight < MARGIN) {
+          pages.push([]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= lineHeight;
+
+        const x =
+          block.align === "center"
+            ? (PAGE_WIDTH - textWidth(line, style.size, style.bold)) / 2
+            : MARGIN + indent;
+        pages[pages.length - 1].push(
+          `BT /${style.bold ? "F2" : "F1"} ${style.size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(line)} Tj ET`,
+        );
+      }
+    }
+  }
+
+  // objetos: 1 catálogo, 2 páginas, 3–4 fontes, 5 info, depois página + conteúdo
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title ${pdfString(toWinAnsi(title))} /Producer (Wolfi) >>`;
+
+  pages.forEach((commands, i) => {
+    const content = commands.join("\n");
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // só há ASCII (os bytes WinAnsi vão escapados em octal)
+  return Buffer.from(pdf, "latin1");
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { allocatePoints, scaleRubric } from "./points";
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe("allocatePoints", () => {
+  it("splits the total in proportion to the weights", () => {
+    assert.deepEqual(allocatePoints([1, 1], 10), [5, 5]);
+    assert.deepEqual(allocatePoints([6, 2, 2], 20), [12, 4, 4]);
+  });
+
+  it("gives the leftover points to the largest remainders", () => {
+    const points = allocatePoints([1, 1, 1], 10);
+    assert.equal(sum(points), 10);
+    assert.deepEqual([...points].sort(), [3, 3, 4]);
+  });
+
+  it("always adds up to the total", () => {
+    for (const [weights, total] of [
+      [[3, 7, 1, 1], 13],
+      [[0.2, 0.3, 0.5], 7],
+      [[5], 9],
+      [[1, 2, 3, 4, 5, 6], 200],
+    ] as [number[], number][]) {
+      assert.equal(sum(allocatePoints(weights, total)), total);
+    }
+  });
+
+  it("keeps the minimum for every part while the total allows it", () => {
+    const points = allocatePoints([100, 1, 1], 10, 1);
+    assert.equal(sum(points), 10);
+    assert.ok(points.every((p) => p >= 1));
+    // 4 partes com mínimo 2 não cabem em 6 pontos
+    assert.equal(sum(allocatePoints([1, 1, 1, 1], 6, 2)), 6);
+  });
+
+  it("treats invalid weights as 1", () => {
+    assert.deepEqual(allocatePoints([0, -2, Number.NaN, 1], 8), [2, 2, 2, 2]);
+  });
+
+  it("returns nothing without weights", () => {
+    assert.deepEqual(allocatePoints([], 10), []);
+  });
+});
+
+describe("scaleRubric", () => {
+  it("rescales the rubric steps to the item's points", () => {
+    const rubric = [
+      { description: "Regra do produto", points: 4 },
+      { description: "Regra da cadeia", points: 3 },
+      { description: "Simplificação", points: 3 },
+    ];
+    const scaled = scaleRubric(rubric, 20);
+    assert.deepEqual(
+      scaled.map((step) => step.points),
+      [8, 6, 6],
+    );
+    assert.equal(scaled[0].description, "Regra do produto");
+  });
+});
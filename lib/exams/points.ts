@@ -0,0 +1,37 @@
+import type { RubricStep } from "@/lib/exercises/types";
+
+/**
+ * Reparte `total` pontos inteiros proporcionalmente aos pesos
+ * (método dos maiores restos), com um mínimo por parcela.
+ */
+export function allocatePoints(weights: number[], total: number, minimum = 0): number[] {
+  if (weights.length === 0) return [];
+
+  const floor = Math.min(minimum, Math.floor(total / weights.length));
+  const remaining = total - floor * weights.length;
+  const safeWeights = weights.map((w) => (Number.isFinite(w) && w > 0 ? w : 1));
+  const weightSum = safeWeights.reduce((sum, w) => sum + w, 0);
+
+  const exact = safeWeights.map((w) => (w / weightSum) * remaining);
+  const points = exact.map((value) => floor + Math.floor(value));
+
+  let missing = total - points.reduce((sum, p) => sum + p, 0);
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let k = 0; missing > 0; k = (k + 1) % byRemainder.length, missing--) {
+    points[byRemainder[k].i] += 1;
+  }
+
+  return points;
+}
+
+/** Ajusta os pontos das etapas dos critérios para somarem a cotação da alínea. */
+export function scaleRubric(rubric: RubricStep[], points: number): RubricStep[] {
+  const scaled = allocatePoints(
+    rubric.map((step) => step.points),
+    points,
+    points >= rubric.length ? 1 : 0,
+  );
+  return rubric.map((step, i) => ({ ...step, points: scaled[i] }));
+}
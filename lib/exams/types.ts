@@ -0,0 +1,55 @@
+import type { ExerciseAnswerKey, ExerciseType } from "@/lib/exercises/types";
+
+// Prova modelo ao estilo do Exame Nacional de Matemática A
+export const EXAM_TOTAL_POINTS = 200;
+export const DEFAULT_EXAM_DURATION_MINUTES = 150;
+export const DEFAULT_EXAM_TOLERANCE_MINUTES = 30;
+export const DEFAULT_EXAM_ITEMS = 6;
+export const MAX_EXAM_ITEMS = 10;
+export const MAX_PARTS_PER_ITEM = 3;
+
+export type ExamItemPart = {
+  label: string; // "3" ou "3.1", "3.2", ...
+  statement: string;
+  points: number; // cotação
+  answerKey: ExerciseAnswerKey; // critérios com pontos que somam a cotação
+};
+
+export type ExamItem = {
+  number: number;
+  subtopicId: string | null;
+  subtopicName: string;
+  topicName: string | null;
+  exerciseType: ExerciseType;
+  intro: string; // enunciado comum às alíneas (pode ser vazio)
+  parts: ExamItemPart[];
+  points: number;
+};
+
+export type ExamPaper = {
+  id: string;
+  studentId: string;
+  year: number;
+  title: string;
+  durationMinutes: number;
+  toleranceMinutes: number;
+  totalPoints: number;
+  items: ExamItem[];
+  createdAt: string;
+};
+
+// O que o aluno recebe: a prova sem critérios de classificação
+export type ExamPaperView = Omit<ExamPaper, "items"> & {
+  items: (Omit<ExamItem, "parts"> & { parts: Omit<ExamItemPart, "answerKey">[] })[];
+};
+
+export type GenerateExamInput = {
+  studentId: string;
+  year: number;
+  subtopicIds?: string[]; // se vier, substitui a escolha automática
+  itemCount?: number;
+  durationMinutes?: number;
+};
+
+export type ExamDocument = "exam" | "criteria";
+export type ExamExportFormat = "latex" | "pdf";
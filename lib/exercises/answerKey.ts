@@ -0,0 +1,59 @@
+import { answerKey } from "@/lib/contracts/exercises";
+import type { ExerciseAnswerKey, RubricStep } from "./types";
+
+/**
+ * Valida a chave de correção devolvida pelo modelo (esquema answerKey).
+ * Devolve null se faltar alguma parte (o exercício continua utilizável,
+ * só não pode ser corrigido com critérios).
+ */
+export function parseAnswerKey(raw: unknown): ExerciseAnswerKey | null {
+  const parsed = answerKey.parse(raw);
+  return parsed.ok ? parsed.value : null;
+}
+
+export function rubricTotal(rubric: RubricStep[]): number {
+  return rubric.reduce((sum, step) => sum + step.points, 0);
+}
+
+/**
+ * Texto dos critérios para o prompt de avaliação (uso interno do avaliador).
+ */
+export function formatAnswerKeyForPrompt(answerKey: ExerciseAnswerKey): string {
+  const steps = answerKey.rubric
+    .map((step, i) => `${i + 1}. ${step.description} (${step.points} pontos)`)
+    .join("\n");
+
+  return `
+Resposta final esperada:
+${answerKey.expectedAnswer}
+
+Resolução de referência:
+${answerKey.referenceSolution}
+
+Critérios de classificação (total ${rubricTotal(answerKey.rubric)} pontos):
+${steps}
+`;
+}
+
+/**
+ * Converte os pontos atribuídos por etapa numa pontuação 0–100.
+ * Devolve null se o modelo não devolveu uma pontuação por cada etapa.
+ */
+export function scoreFromRubric(
+  rubric: RubricStep[],
+  stepScores: unknown,
+): number | null {
+  if (!Array.isArray(stepScores) || stepScores.length !== rubric.length) {
+    return null;
+  }
+
+  let awarded = 0;
+  for (let i = 0; i < rubric.length; i++) {
+    const value = Number(stepScores[i]);
+    if (!Number.isFinite(value)) return null;
+    awarded += Math.max(0, Math.min(rubric[i].points, value));
+  }
+
+  const total = rubricTotal(rubric);
+  return total > 0 ? Math.round((awarded / total) * 100) : null;
+}
@@ -0,0 +1,32 @@
+import { DEFAULT_LOCALE, type Locale } from "@/lib/locale/types";
+import type { Difficulty, ExerciseGoal, GenerateExerciseInput } from "./types";
+
+// Formato antigo usado por POST /api/generateExercise e POST /api/generate-exercise
+export type LegacyGenerateExerciseBody = {
+  subtopicId?: string;
+  subtopicName?: string;
+  difficulty?: Difficulty;
+  exerciseIndex?: number;
+  goal?: ExerciseGoal;
+  locale?: Locale;
+};
+
+/**
+ * Converte o pedido antigo (já validado pelo esquema legacyExerciseRequest) para
+ * o formato da API v1; os campos em falta ficam com os defaults de sempre.
+ * O aluno é sempre o utilizador autenticado, nunca um campo do corpo.
+ */
+export function fromLegacyRequest(
+  body: LegacyGenerateExerciseBody,
+  studentId: string,
+): GenerateExerciseInput {
+  return {
+    studentId,
+    subtopicId: body.subtopicId,
+    subtopicName: body.subtopicName,
+    difficulty: body.difficulty ?? "medium",
+    exerciseIndex: body.exerciseIndex ?? 1,
+    goal: body.goal ?? "revision",
+    locale: body.locale ?? DEFAULT_LOCALE,
+  };
+}
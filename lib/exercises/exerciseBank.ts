@@ -0,0 +1,106 @@
+import {
+  listBankCandidates,
+  type BankExercise,
+} from "@/lib/db/exerciseBank";
+import { listSeenExercises } from "@/lib/db/exercises";
+import type { Locale } from "@/lib/locale/types";
+import { extractFinalExpression, parseExpression } from "@/lib/math";
+import { fingerprintStatement, functionsInStatement } from "./fingerprint";
+import type { Difficulty, ExerciseDraft, ExerciseType } from "./types";
+
+// Parte dos pedidos gera sempre um exercício novo, para o banco continuar a crescer
+const DEFAULT_FRESH_RATE = 0.2;
+
+// entre os menos servidos, escolhe-se um ao acaso (para não servir sempre o mesmo)
+const CANDIDATE_POOL = 5;
+// ids excluídos já na query (os vistos mais recentemente); o resto filtra-se aqui
+const MAX_EXCLUDED_IDS = 200;
+
+export type SeenByStudent = {
+  bankItemIds: Set<string>;
+  fingerprints: Set<string>;
+  recentFunctions: string[]; // para pedir ao modelo que não as repita
+};
+
+export function bankFreshRate(): number {
+  const rate = Number(process.env.EXERCISE_BANK_FRESH_RATE);
+  return Number.isFinite(rate) && rate >= 0 && rate <= 1 ? rate : DEFAULT_FRESH_RATE;
+}
+
+/** O que o aluno já viu: ids do banco e impressões digitais dos enunciados. */
+export async function loadSeenByStudent(studentId: string | null): Promise<SeenByStudent> {
+  const seen: SeenByStudent = {
+    bankItemIds: new Set(),
+    fingerprints: new Set(),
+    recentFunctions: [],
+  };
+  if (!studentId) return seen;
+
+  for (const exercise of await listSeenExercises(studentId)) {
+    if (exercise.bankItemId) seen.bankItemIds.add(exercise.bankItemId);
+
+    // exercícios antigos não tinham impressões digitais guardadas
+    const fingerprints = exercise.fingerprints.length
+      ? exercise.fingerprints
+      : fingerprintStatement(exercise.statement);
+    for (const fingerprint of fingerprints) seen.fingerprints.add(fingerprint);
+
+    if (seen.recentFunctions.length < 10) {
+      seen.recentFunctions.push(...functionsInStatement(exercise.statement));
+    }
+  }
+  return seen;
+}
+
+export function wasSeen(
+  seen: SeenByStudent,
+  exercise: { id?: string; fingerprints: string[] },
+): boolean {
+  if (exercise.id && seen.bankItemIds.has(exercise.id)) return true;
+  return exercise.fingerprints.some((f) => seen.fingerprints.has(f));
+}
+
+/**
+ * Só entram no banco como validados exercícios com chave de correção e,
+ * nos procedimentais, uma resposta esperada que o parser consegue ler
+ * (é a que a verificação da resposta final vai usar).
+ */
+export function isBankable(draft: ExerciseDraft): boolean {
+  if (!draft.answerKey) return false;
+  if (draft.exerciseType !== "basic_procedural" && draft.exerciseType !== "mixed_rules") {
+    return true;
+  }
+  try {
+    parseExpression(extractFinalExpression(draft.answerKey.expectedAnswer));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Um exercício validado do banco que o aluno ainda não viu (ou null). */
+export async function pickFromBank(params: {
+  subtopicId: string | null;
+  subtopicName: string;
+  difficulty: Difficulty;
+  exerciseType: ExerciseType;
+  locale: Locale;
+  seen: SeenByStudent;
+}): Promise<BankExercise | null> {
+  const candidates = await listBankCandidates({
+    subtopicId: params.subtopicId,
+    subtopicName: params.subtopicName,
+    difficulty: params.difficulty,
+    exerciseType: params.exerciseType,
+    locale: params.locale,
+    excludeIds: [...params.seen.bankItemIds].slice(0, MAX_EXCLUDED_IDS),
+    limit: 50,
+  });
+
+  const unseen = candidates
+    .filter((c) => !wasSeen(params.seen, c))
+    .slice(0, CANDIDATE_POOL);
+  if (unseen.length === 0) return null;
+
+  return unseen[Math.floor(Math.random() * unseen.length)];
+}
@@ -0,0 +1,163 @@
+import { listFallbackExercises } from "@/lib/db/fallbackExercises";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "@/lib/locale/types";
+import { parseAnswerKey } from "./answerKey";
+import { wasSeen, type SeenByStudent } from "./exerciseBank";
+import bundledLibrary from "./fallbackLibrary.json";
+import { fingerprintStatement, normalizeStatement } from "./fingerprint";
+import {
+  DIFFICULTIES,
+  EXERCISE_TYPES,
+  type Difficulty,
+  type ExerciseAnswerKey,
+  type ExerciseType,
+  type FallbackExercise,
+} from "./types";
+
+// Biblioteca curada para quando os modelos falham e o banco não tem nada:
+// entradas do Supabase (fallback_exercises) e um JSON incluído no código.
+// No JSON cada entrada está em pt-PT e traz as outras línguas em "translations".
+
+type LibraryOrigin = FallbackExercise["origin"];
+
+const DEFAULT_SOURCES: LibraryOrigin[] = ["supabase", "bundled"];
+
+export type FallbackQuery = {
+  subtopicId: string | null;
+  subtopicName: string;
+  topicName: string | null;
+  difficulty: Difficulty;
+  exerciseType: ExerciseType;
+  locale: Locale;
+  seen?: SeenByStudent;
+};
+
+/** Origens da biblioteca, por ordem (EXERCISE_FALLBACK_SOURCES, ex.: "bundled"). */
+export function fallbackLibrarySources(): LibraryOrigin[] {
+  const sources = (process.env.EXERCISE_FALLBACK_SOURCES || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is LibraryOrigin => s === "supabase" || s === "bundled");
+  return sources.length ? sources : DEFAULT_SOURCES;
+}
+
+let bundledCache: FallbackExercise[] | null = null;
+
+// enunciado e chave de correção numa língua (a própria entrada ou uma tradução)
+function parseVersion(
+  raw: Record<string, unknown>,
+): { statement: string; answerKey: ExerciseAnswerKey } | null {
+  const answerKey = parseAnswerKey(raw);
+  const statement = typeof raw.statement === "string" ? raw.statement.trim() : "";
+  return answerKey && statement ? { statement, answerKey } : null;
+}
+
+// o JSON é validado uma vez; entradas e traduções mal formadas são ignoradas
+function loadBundledLibrary(): FallbackExercise[] {
+  if (bundledCache) return bundledCache;
+
+  const entries: FallbackExercise[] = [];
+  for (const raw of bundledLibrary as Record<string, unknown>[]) {
+    const base = parseVersion(raw);
+    const valid =
+      base &&
+      Array.isArray(raw.keywords) &&
+      DIFFICULTIES.includes(raw.difficulty as Difficulty) &&
+      EXERCISE_TYPES.includes(raw.exerciseType as ExerciseType);
+
+    if (!valid) {
+      console.warn("fallbackLibrary: skipping invalid bundled entry", raw.statement);
+      continue;
+    }
+    const shared = {
+      subtopicId: null,
+      keywords: (raw.keywords as unknown[]).map((k) => normalizeStatement(String(k))),
+      difficulty: raw.difficulty as Difficulty,
+      exerciseType: raw.exerciseType as ExerciseType,
+      origin: "bundled" as const,
+    };
+    entries.push({ ...shared, ...base, locale: DEFAULT_LOCALE });
+
+    const translations = (raw.translations ?? {}) as Record<string, Record<string, unknown>>;
+    for (const [locale, translation] of Object.entries(translations)) {
+      const version = LOCALES.includes(locale as Locale) ? parseVersion(translation) : null;
+      if (!version) {
+        console.warn("fallbackLibrary: skipping invalid translation", locale, raw.statement);
+        continue;
+      }
+      entries.push({ ...shared, ...version, locale: locale as Locale });
+    }
+  }
+
+  bundledCache = entries;
+  return entries;
+}
+
+async function loadLibrary(): Promise<FallbackExercise[]> {
+  const entries: FallbackExercise[] = [];
+  for (const source of fallbackLibrarySources()) {
+    if (source === "bundled") {
+      entries.push(...loadBundledLibrary());
+      continue;
+    }
+    try {
+      entries.push(...(await listFallbackExercises()));
+    } catch (err) {
+      console.error("fallbackLibrary: failed to load Supabase library", err);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Quão bem uma entrada serve o pedido (null = outro subtema ou outra língua). O
+ * subtema pesa mais do que a dificuldade, e a dificuldade mais do que o tipo.
+ */
+export function scoreFallbackExercise(
+  entry: FallbackExercise,
+  query: FallbackQuery,
+): number | null {
+  if (entry.locale !== query.locale) return null;
+
+  const subtopic = normalizeStatement(query.subtopicName);
+  const topic = normalizeStatement(query.topicName || "");
+  const hasKeyword = (text: string) =>
+    text !== "" && entry.keywords.some((keyword) => keyword && text.includes(keyword));
+
+  const subtopicMatch =
+    entry.subtopicId && entry.subtopicId === query.subtopicId
+      ? 3
+      : hasKeyword(subtopic)
+        ? 2
+        : hasKeyword(topic)
+          ? 1
+          : 0;
+  if (subtopicMatch === 0) return null;
+
+  return (
+    subtopicMatch * 4 +
+    (entry.difficulty === query.difficulty ? 2 : 0) +
+    (entry.exerciseType === query.exerciseType ? 1 : 0)
+  );
+}
+
+/**
+ * O exercício da biblioteca que melhor serve o subtema, dificuldade e tipo, na
+ * língua pedida, entre os que o aluno ainda não viu (ou null se não houver).
+ */
+export async function pickFallbackExercise(
+  query: FallbackQuery,
+): Promise<FallbackExercise | null> {
+  const scored = (await loadLibrary())
+    .map((entry) => ({ entry, score: scoreFallbackExercise(entry, query) }))
+    .filter(
+      (item): item is { entry: FallbackExercise; score: number } =>
+        item.score !== null &&
+        (!query.seen ||
+          !wasSeen(query.seen, { fingerprints: fingerprintStatement(item.entry.statement) })),
+    );
+  if (scored.length === 0) return null;
+
+  const best = Math.max(...scored.map((item) => item.score));
+  const candidates = scored.filter((item) => item.score === best);
+  return candidates[Math.floor(Math.random() * candidates.length)].entry;
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { wasSeen, type SeenByStudent } from "./exerciseBank";
+import { fingerprintStatement, functionsInStatement, normalizeStatement } from "./fingerprint";
+
+const shared = (a: string, b: string) => {
+  const fingerprints = new Set(fingerprintStatement(a));
+  return fingerprintStatement(b).some((f) => fingerprints.has(f));
+};
+
+function seenWith(statements: string[], bankItemIds: string[] = []): SeenByStudent {
+  return {
+    bankItemIds: new Set(bankItemIds),
+    fingerprints: new Set(statements.flatMap(fingerprintStatement)),
+    recentFunctions: [],
+  };
+}
+
+describe("normalizeStatement", () => {
+  it("ignores accents, case, punctuation and spaces", () => {
+    assert.equal(
+      normalizeStatement("Calcula  a Derivada de f."),
+      normalizeStatement("calcula a derivada de f"),
+    );
+    assert.equal(normalizeStatement("Função"), "funcao");
+  });
+});
+
+describe("fingerprintStatement", () => {
+  it("matches the same function written another way", () => {
+    assert.ok(
+      shared(
+        "Considera a função f(x) = (x + 1)². Calcula f'(x).",
+        "Seja g(t) = t^2 + 2t + 1. Estuda a monotonia de g.",
+      ),
+    );
+  });
+
+  it("matches the same text with different punctuation", () => {
+    assert.ok(
+      shared("Calcula o limite, quando x tende para 0.", "calcula o limite quando x tende para 0"),
+    );
+  });
+
+  it("does not match different functions", () => {
+    assert.ok(
+      !shared(
+        "Considera a função f(x) = 3x² - 2x. Calcula f'(x).",
+        "Considera a função f(x) = 3x² - 5x. Calcula f'(x).",
+      ),
+    );
+  });
+
+  it("reads the definition up to the end of the sentence", () => {
+    const [fn] = fingerprintStatement("Seja f(x) = 2x + 1 a função que modela o custo.");
+    assert.deepEqual(fn, fingerprintStatement("f(x) = 1 + 2x")[0]);
+  });
+
+  it("always has a text fingerprint", () => {
+    const fingerprints = fingerprintStatement("Resolve a equação.");
+    assert.equal(fingerprints.length, 1);
+    assert.match(fingerprints[0], /^txt:/);
+  });
+});
+
+describe("functionsInStatement", () => {
+  it("lists each definition without the sentence after it", () => {
+    assert.deepEqual(
+      functionsInStatement("Sejam f(x) = x³ - 1. Considera também\ng(t) = ln(t) + 2."),
+      ["f(x) = x³ - 1", "g(t) = ln(t) + 2"],
+    );
+  });
+});
+
+describe("wasSeen", () => {
+  it("flags a bank item the student already had", () => {
+    assert.ok(wasSeen(seenWith([], ["item-1"]), { id: "item-1", fingerprints: [] }));
+  });
+
+  it("flags a new exercise on a function the student has seen", () => {
+    const seen = seenWith(["Considera f(x) = x² - 4x. Calcula f'(3)."]);
+    const repeated = fingerprintStatement("Seja h(x) = x(x - 4). Determina os extremos de h.");
+    assert.ok(wasSeen(seen, { fingerprints: repeated }));
+  });
+
+  it("lets a different exercise through", () => {
+    const seen = seenWith(["Considera f(x) = x² - 4x. Calcula f'(3)."], ["item-1"]);
+    const fresh = fingerprintStatement("Considera f(x) = eˣ + x. Calcula f'(0).");
+    assert.equal(wasSeen(seen, { id: "item-2", fingerprints: fresh }), false);
+  });
+});
@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+import {
+  collectVariables,
+  evaluateExpression,
+  extractFinalExpression,
+  parseExpression,
+  type MathNode,
+} from "@/lib/math";
+
+// Pontos fixos onde cada função é avaliada (positivos, para ln e raízes)
+const SAMPLE_POINTS = [0.7, 1.3, 2.1, 2.9, 3.7];
+const MIN_FINITE_SAMPLES = 3;
+
+// "f(x) = ...", "g(t) = ...": tudo até ao fim da linha ou da frase
+const FUNCTION_DEFINITION = /\b[a-zA-Z]\s*\(\s*[a-z]\s*\)\s*=\s*([^\n]+)/g;
+
+function hash(text: string): string {
+  return createHash("sha1").update(text).digest("hex").slice(0, 16);
+}
+
+/** Texto normalizado: sem acentos, pontuação nem espaços. */
+export function normalizeStatement(statement: string): string {
+  return statement
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * A definição costuma vir seguida de texto ("... modela uma grandeza.").
+ * Fica-se com o maior prefixo que é uma expressão numa só variável.
+ */
+function parseDefinition(text: string): { node: MathNode; variable: string | null } | null {
+  // ". " fecha a frase (as casas decimais usam vírgula)
+  const sentence = extractFinalExpression(text.split(/\.\s/)[0]);
+  const words = sentence.split(/\s+/);
+
+  for (let n = words.length; n > 0; n--) {
+    const candidate = words.slice(0, n).join(" ").replace(/[.,;:]+$/, "");
+    try {
+      const node = parseExpression(candidate);
+      const variables = [...collectVariables(node)];
+      if (variables.length <= 1) return { node, variable: variables[0] ?? null };
+    } catch {
+      // tenta um prefixo mais curto
+    }
+  }
+  return null;
+}
+
+/**
+ * Impressão digital de uma função: os valores em pontos fixos.
+ * Duas escritas da mesma função ((x+1)² e x²+2x+1) dão o mesmo resultado.
+ */
+function functionFingerprint(definition: string): string | null {
+  const parsed = parseDefinition(definition);
+  if (!parsed) return null;
+
+  const values = SAMPLE_POINTS.map((point) =>
+    evaluateExpression(parsed.node, parsed.variable ? { [parsed.variable]: point } : {}),
+  );
+  if (values.filter(Number.isFinite).length < MIN_FINITE_SAMPLES) return null;
+
+  return `fn:${hash(values.map((v) => (Number.isFinite(v) ? v.toPrecision(8) : "nan")).join("|"))}`;
+}
+
+/**
+ * Impressões digitais de um enunciado: uma por função definida no texto
+ * e uma do texto normalizado. Dois enunciados com alguma em comum são
+ * considerados (quase) repetidos.
+ */
+export function fingerprintStatement(statement: string): string[] {
+  const fingerprints = new Set<string>();
+
+  for (const match of statement.matchAll(FUNCTION_DEFINITION)) {
+    const fingerprint = functionFingerprint(match[1]);
+    if (fingerprint) fingerprints.add(fingerprint);
+  }
+
+  fingerprints.add(`txt:${hash(normalizeStatement(statement))}`);
+  return [...fingerprints];
+}
+
+/** Funções definidas no enunciado, tal como aparecem (para o prompt). */
+export function functionsInStatement(statement: string): string[] {
+  return [...statement.matchAll(FUNCTION_DEFINITION)].map((m) =>
+    `${m[0].slice(0, m[0].indexOf("=")).trim()} = ${m[1].split(/\.\s/)[0].replace(/[.\s]+$/, "")}`,
+  );
+}
@@ -0,0 +1,436 @@
+import { modelExerciseOutput } from "@/lib/contracts/exercises";
+import {
+  findBankDuplicate,
+  insertBankExercise,
+  markBankExerciseServed,
+  type BankExercise,
+} from "@/lib/db/exerciseBank";
+import { insertExercise, type StoredExercise } from "@/lib/db/exercises";
+import { getLLMClient, reportFallback, reportInvalidOutput } from "@/lib/llm";
+import { DEFAULT_LOCALE, localeConventions, type Locale } from "@/lib/locale";
+import { buildStructuredText, parseMarkup } from "@/lib/markup";
+import { buildPrompt, type PromptRef } from "@/lib/prompts";
+import {
+  bankFreshRate,
+  isBankable,
+  loadSeenByStudent,
+  pickFromBank,
+  wasSeen,
+  type SeenByStudent,
+} from "./exerciseBank";
+import { pickFallbackExercise } from "./fallbackLibrary";
+import { fingerprintStatement, functionsInStatement } from "./fingerprint";
+import { GENERIC_FALLBACKS } from "./genericFallbacks";
+import { fetchSubtopicContext } from "./subtopicContext";
+import {
+  EXERCISE_TYPES,
+  FALLBACK_SOURCES,
+  type Difficulty,
+  type ExerciseDefinition,
+  type ExerciseDraft,
+  type ExerciseSource,
+  type ExerciseType,
+  type GenerateExerciseInput,
+  type SubtopicContext,
+} from "./types";
+
+// ---------- Helpers ----------
+
+/** O exercício genérico para a posição na sessão (1, 2 ou 3), na língua pedida. */
+export function localFallback(
+  exerciseIndex: number,
+  locale: Locale = DEFAULT_LOCALE,
+): ExerciseDraft {
+  const [first, second, third] = GENERIC_FALLBACKS[locale];
+  return exerciseIndex === 1 ? first : exerciseIndex === 2 ? second : third;
+}
+
+export function pickExerciseType(
+  subtopicName: string | undefined,
+  difficulty: Difficulty,
+  exerciseIndex: number,
+): ExerciseType {
+  const sub = (subtopicName || "").toLowerCase();
+
+  // Se o subtema for claramente de aplicação/modelação
+  if (sub.includes("resolução de problemas") || sub.includes("modelação")) {
+    return exerciseIndex === 3 ? "exam_multi_step" : "applied_word_problem";
+  }
+
+  if (difficulty === "easy") {
+    // primeiro exercício mais mecânico
+    return "basic_procedural";
+  }
+
+  if (difficulty === "hard") {
+    // no difícil, o 3º pode ser estilo exame
+    if (exerciseIndex === 3) return "exam_multi_step";
+    return "mixed_rules";
+  }
+
+  // dificuldade média
+  if (exerciseIndex === 1) return "basic_procedural";
+  if (exerciseIndex === 2) return "mixed_rules";
+  return "applied_word_problem";
+}
+
+// ---------- Serviço ----------
+
+type ResolvedSubtopic = {
+  context: SubtopicContext | null;
+  subtopicId: string | null;
+  subtopicName: string;
+};
+
+// Um exercício pronto a servir, venha do banco, do modelo ou do fallback local
+type ObtainedExercise = {
+  draft: ExerciseDraft;
+  subtopicId: string | null;
+  subtopicName: string;
+  provider: string | null;
+  model: string | null;
+  prompt: PromptRef | null; // versão do prompt que gerou o exercício
+  bankItemId: string | null;
+  fingerprints: string[];
+  source: ExerciseSource;
+};
+
+// tentativas de gerar um exercício que o aluno ainda não viu
+const MAX_MODEL_ATTEMPTS = 2;
+
+async function resolveSubtopic(input: GenerateExerciseInput): Promise<ResolvedSubtopic> {
+  const fallbackName = input.subtopicName || "Subtema de derivadas";
+  try {
+    const context = await fetchSubtopicContext(input);
+    return {
+      context,
+      subtopicId: context?.subtopicId || input.subtopicId || null,
+      subtopicName: context?.subtopicName || fallbackName,
+    };
+  } catch (err) {
+    console.error("generateExercise: failed to load subtopic context", err);
+    return { context: null, subtopicId: input.subtopicId || null, subtopicName: fallbackName };
+  }
+}
+
+/**
+ * Pede ao modelo um exercício (com chave de correção) para o subtema.
+ * Nunca lança: devolve null se os modelos falharem ou a resposta vier incompleta.
+ */
+async function draftExercise(
+  input: GenerateExerciseInput,
+  subtopic: ResolvedSubtopic,
+  exerciseType: ExerciseType,
+  avoidFunctions: string[],
+): Promise<{
+  draft: ExerciseDraft;
+  provider: string;
+  model: string;
+  prompt: PromptRef;
+} | null> {
+  const { difficulty, exerciseIndex } = input;
+  const ctx = subtopic.context;
+  const { languageLabel, notationBlock } = localeConventions(input.locale);
+
+  try {
+    const difficultyLabel =
+      difficulty === "easy"
+        ? "fácil (treino básico, cálculo mais direto)"
+        : difficulty === "hard"
+          ? "difícil (nível mais próximo de exame, mas ainda uma só pergunta)"
+          : "médio (nível intermédio)";
+
+    const goalLabel =
+      input.goal === "exam"
+        ? "preparação para o Exame Nacional (linguagem e rigor de exame, mas ainda uma só pergunta)"
+        : "revisão do subtema";
+
+    const avoidFunctionsBlock = avoidFunctions.length
+      ? "\nO aluno já trabalhou estas funções; NÃO as repitas (nem escritas de outra forma):\n" +
+        avoidFunctions.map((f) => `- ${f}\n`).join("")
+      : "";
+
+    // o texto vem do registo de prompts (versão ativa ou variante da experiência)
+    const prompt = await buildPrompt(
+      "generateExercise",
+      {
+        officialCode: ctx?.topicCode || "FRVR",
+        yearLabel: ctx?.topicYear ? `${ctx.topicYear}.º ano` : "10.º–12.º ano",
+        topicName: ctx?.topicName || "Matemática A",
+        subtopicName: subtopic.subtopicName,
+        aiNotes: ctx?.aiNotes || "- (sem notas adicionais)",
+        difficultyLabel,
+        exerciseIndex,
+        exerciseType,
+        goalLabel,
+        avoidFunctionsBlock,
+        languageLabel,
+        notationBlock,
+      },
+      input.studentId || null,
+    );
+
+    const llm = getLLMClient("generateExercise");
+    const completion = await llm.generateJson<unknown>({
+      temperature: 0.6,
+      messages: prompt.messages,
+    });
+
+    // enunciado e chave de correção têm de vir juntos
+    const output = modelExerciseOutput.parse(completion.data);
+    if (!output.ok) {
+      console.warn("generateExercise: incomplete exercise from model", output.issues);
+      await reportInvalidOutput(completion);
+      return null;
+    }
+    const { statement, statementMarkup: markup, exerciseType: modelType, ...answerKey } =
+      output.value;
+
+    // marcação com LaTeX inválido é ignorada (fica a heurística)
+    const statementMarkup = typeof markup === "string" ? parseMarkup(markup.trim()) : null;
+
+    // um tipo imposto (ex.: sessão adaptativa) prevalece sobre o do modelo
+    const finalExerciseType: ExerciseType =
+      !input.exerciseType &&
+      EXERCISE_TYPES.includes(modelType as ExerciseType)
+        ? (modelType as ExerciseType)
+        : exerciseType;
+
+    return {
+      draft: { statement, statementMarkup, exerciseType: finalExerciseType, answerKey },
+      provider: completion.provider,
+      model: completion.model,
+      prompt: prompt.ref,
+    };
+  } catch (err) {
+    console.error("generateExercise: model generation failed", err);
+    return null;
+  }
+}
+
+function fromBank(item: BankExercise): ObtainedExercise {
+  return {
+    draft: {
+      statement: item.statement,
+      statementMarkup: item.statementMarkup,
+      exerciseType: item.exerciseType,
+      answerKey: item.answerKey,
+    },
+    subtopicId: item.subtopicId,
+    subtopicName: item.subtopicName,
+    provider: item.provider,
+    model: item.model,
+    prompt: item.prompt,
+    bankItemId: item.id,
+    fingerprints: item.fingerprints,
+    source: "bank",
+  };
+}
+
+async function pickFromBankSafe(
+  params: Parameters<typeof pickFromBank>[0],
+): Promise<BankExercise | null> {
+  try {
+    return await pickFromBank(params);
+  } catch (err) {
+    console.error("generateExercise: failed to read exercise bank", err);
+    return null;
+  }
+}
+
+/**
+ * Arranja um exercício que o aluno ainda não viu: primeiro do banco,
+ * depois gerado pelo modelo (e guardado no banco), depois da biblioteca
+ * de recurso do subtema e, por fim, o fallback genérico.
+ */
+async function obtainExercise(input: GenerateExerciseInput): Promise<ObtainedExercise> {
+  const subtopic = await resolveSubtopic(input);
+  const { subtopicId, subtopicName } = subtopic;
+  const exerciseType =
+    input.exerciseType ||
+    pickExerciseType(subtopicName, input.difficulty, input.exerciseIndex);
+
+  let seen: SeenByStudent;
+  try {
+    seen = await loadSeenByStudent(input.studentId || null);
+  } catch (err) {
+    console.error("generateExercise: failed to load seen exercises", err);
+    seen = { bankItemIds: new Set(), fingerprints: new Set(), recentFunctions: [] };
+  }
+
+  const { locale } = input;
+  const bankQuery = {
+    subtopicId,
+    subtopicName,
+    difficulty: input.difficulty,
+    exerciseType,
+    locale,
+    seen,
+  };
+
+  // 1) banco (exceto numa fração dos pedidos, para continuar a gerar novos)
+  const triedBankFirst = Math.random() >= bankFreshRate();
+  if (triedBankFirst) {
+    const item = await pickFromBankSafe(bankQuery);
+    if (item) return fromBank(item);
+  }
+
+  // 2) modelo: rejeita o que o aluno já viu e reaproveita duplicados do banco
+  const avoidFunctions = [...seen.recentFunctions];
+  for (let attempt = 1; attempt <= MAX_MODEL_ATTEMPTS; attempt++) {
+    const generated = await draftExercise(input, subtopic, exerciseType, avoidFunctions);
+    if (!generated) break;
+
+    const { draft } = generated;
+    const fingerprints = fingerprintStatement(draft.statement);
+    if (wasSeen(seen, { fingerprints })) {
+      console.warn("generateExercise: model repeated an exercise the student has seen");
+      avoidFunctions.push(...functionsInStatement(draft.statement));
+      continue;
+    }
+
+    let duplicate: BankExercise | null = null;
+    try {
+      duplicate = await findBankDuplicate({ subtopicId, subtopicName, locale, fingerprints });
+    } catch (err) {
+      console.error("generateExercise: failed to check bank duplicates", err);
+    }
+    if (duplicate) {
+      if (!wasSeen(seen, duplicate)) return fromBank(duplicate);
+      avoidFunctions.push(...functionsInStatement(draft.statement));
+      continue;
+    }
+
+    let bankItemId: string | null = null;
+    if (draft.answerKey) {
+      try {
+        const item = await insertBankExercise({
+          draft: { ...draft, answerKey: draft.answerKey },
+          subtopicId,
+          subtopicName,
+          locale,
+          difficulty: input.difficulty,
+          fingerprints,
+          validated: isBankable(draft),
+          provider: generated.provider,
+          model: generated.model,
+          prompt: generated.prompt,
+        });
+        bankItemId = item.id;
+      } catch (err) {
+        console.error("generateExercise: failed to store exercise in bank", err);
+      }
+    }
+
+    return { ...generated, subtopicId, subtopicName, bankItemId, fingerprints, source: "model" };
+  }
+
+  // 3) o modelo falhou: ainda vale um exercício do banco
+  if (!triedBankFirst) {
+    const item = await pickFromBankSafe(bankQuery);
+    if (item) return fromBank(item);
+  }
+
+  // 4) biblioteca curada do subtema (nunca lança: o JSON incluído não depende da BD)
+  const curated = await pickFallbackExercise({
+    subtopicId,
+    subtopicName,
+    topicName: subtopic.context?.topicName || null,
+    difficulty: input.difficulty,
+    exerciseType,
+    locale,
+    seen,
+  });
+  if (curated) {
+    console.warn(`generateExercise: serving curated fallback (${curated.origin})`);
+    await reportFallback("generateExercise", `curated exercise (${curated.origin})`);
+    return {
+      draft: {
+        statement: curated.statement,
+        statementMarkup: curated.statementMarkup,
+        exerciseType: curated.exerciseType,
+        answerKey: curated.answerKey,
+      },
+      subtopicId,
+      subtopicName,
+      provider: null,
+      model: null,
+      prompt: null,
+      bankItemId: null,
+      fingerprints: fingerprintStatement(curated.statement),
+      source: "fallback_library",
+    };
+  }
+
+  console.warn("generateExercise: falling back to generic local exercise");
+  await reportFallback("generateExercise", "generic exercise");
+  const draft = localFallback(input.exerciseIndex, locale);
+  return {
+    draft,
+    subtopicId,
+    subtopicName,
+    provider: null,
+    model: null,
+    prompt: null,
+    bankItemId: null,
+    fingerprints: fingerprintStatement(draft.statement),
+    source: "generic_fallback",
+  };
+}
+
+/**
+ * Gera e guarda um exercício. Devolve só o que o aluno pode ver;
+ * a chave de correção fica na tabela exercises.
+ */
+export async function generateExercise(
+  input: GenerateExerciseInput,
+): Promise<ExerciseDefinition> {
+  const { draft, ...meta } = await obtainExercise(input);
+
+  let exerciseId: string | null = null;
+  try {
+    const stored = await insertExercise({
+      draft,
+      studentId: input.studentId || null,
+      sessionId: input.sessionId || null,
+      exerciseIndex: input.exerciseIndex,
+      difficulty: input.difficulty,
+      locale: input.locale,
+      ...meta,
+    });
+    exerciseId = stored.id;
+  } catch (err) {
+    console.error("generateExercise: failed to store exercise", err);
+  }
+
+  if (meta.bankItemId) {
+    try {
+      await markBankExerciseServed(meta.bankItemId);
+    } catch (err) {
+      console.error("generateExercise: failed to update bank usage", err);
+    }
+  }
+
+  return {
+    exerciseId,
+    statement: draft.statement,
+    structuredStatement: buildStructuredText(draft.statement, draft.statementMarkup),
+    exerciseType: draft.exerciseType,
+    locale: input.locale,
+    source: meta.source,
+    isFallback: FALLBACK_SOURCES.includes(meta.source),
+  };
+}
+
+/** O que o aluno vê de um exercício já guardado (nunca a chave de correção). */
+export function toExerciseDefinition(exercise: StoredExercise): ExerciseDefinition {
+  return {
+    exerciseId: exercise.id,
+    statement: exercise.statement,
+    structuredStatement: buildStructuredText(exercise.statement, exercise.statementMarkup),
+    exerciseType: exercise.exerciseType,
+    locale: exercise.locale,
+    source: exercise.source,
+    isFallback: FALLBACK_SOURCES.includes(exercise.source),
+  };
+}
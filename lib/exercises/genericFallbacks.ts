@@ -0,0 +1,147 @@
+import type { Locale } from "@/lib/locale/types";
+import type { ExerciseDraft } from "./types";
+
+// Exercícios genéricos de derivadas (1.º, 2.º e 3.º da sessão), em cada língua:
+// o último recurso quando não há modelo, banco nem biblioteca para o subtema.
+export const GENERIC_FALLBACKS: Record<Locale, [ExerciseDraft, ExerciseDraft, ExerciseDraft]> = {
+  "pt-PT": [
+    {
+      statement:
+        "Considera a função f(x) = 2x³ - 5x² + 3x - 1.\nCalcula f'(x).",
+      exerciseType: "basic_procedural",
+      answerKey: {
+        referenceSolution:
+          "Derivando termo a termo: (2x³)' = 6x², (-5x²)' = -10x, (3x)' = 3 e (-1)' = 0.\nLogo f'(x) = 6x² - 10x + 3.",
+        expectedAnswer: "f'(x) = 6x² - 10x + 3",
+        rubric: [
+          { description: "Aplica a regra da potência aos termos 2x³ e -5x²", points: 6 },
+          { description: "Deriva corretamente o termo linear e a constante", points: 2 },
+          { description: "Apresenta a expressão final de f'(x)", points: 2 },
+        ],
+      },
+    },
+    {
+      statement:
+        "Seja g(x) = (3x² + 1)·e^{2x}.\nCalcula g'(x) usando as regras do produto e, se necessário, da cadeia.",
+      exerciseType: "mixed_rules",
+      answerKey: {
+        referenceSolution:
+          "Regra do produto: g'(x) = (3x² + 1)'·e^{2x} + (3x² + 1)·(e^{2x})'.\n(3x² + 1)' = 6x e (e^{2x})' = 2e^{2x} (regra da cadeia).\ng'(x) = 6x·e^{2x} + 2(3x² + 1)·e^{2x} = (6x² + 6x + 2)·e^{2x}.",
+        expectedAnswer: "g'(x) = (6x² + 6x + 2)·e^{2x}",
+        rubric: [
+          { description: "Identifica e aplica a regra do produto", points: 4 },
+          { description: "Deriva e^{2x} com a regra da cadeia", points: 3 },
+          { description: "Simplifica a expressão final", points: 3 },
+        ],
+      },
+    },
+    {
+      statement:
+        "Numa prova de Matemática, a função h(x) = (4x - 3)·ln(x) modela uma certa grandeza.\nCalcula h'(x).",
+      exerciseType: "applied_word_problem",
+      answerKey: {
+        referenceSolution:
+          "Regra do produto: h'(x) = 4·ln(x) + (4x - 3)·(1/x).\nLogo h'(x) = 4ln(x) + 4 - 3/x, para x > 0.",
+        expectedAnswer: "h'(x) = 4ln(x) + 4 - 3/x",
+        rubric: [
+          { description: "Identifica e aplica a regra do produto", points: 4 },
+          { description: "Deriva corretamente ln(x)", points: 3 },
+          { description: "Simplifica e indica o domínio x > 0", points: 3 },
+        ],
+      },
+    },
+  ],
+  "pt-BR": [
+    {
+      statement:
+        "Considere a função f(x) = 2x³ - 5x² + 3x - 1.\nCalcule f'(x).",
+      exerciseType: "basic_procedural",
+      answerKey: {
+        referenceSolution:
+          "Derivando termo a termo: (2x³)' = 6x², (-5x²)' = -10x, (3x)' = 3 e (-1)' = 0.\nLogo, f'(x) = 6x² - 10x + 3.",
+        expectedAnswer: "f'(x) = 6x² - 10x + 3",
+        rubric: [
+          { description: "Aplica a regra da potência aos termos 2x³ e -5x²", points: 6 },
+          { description: "Deriva corretamente o termo linear e a constante", points: 2 },
+          { description: "Apresenta a expressão final de f'(x)", points: 2 },
+        ],
+      },
+    },
+    {
+      statement:
+        "Seja g(x) = (3x² + 1)·e^{2x}.\nCalcule g'(x) usando a regra do produto e, se necessário, a regra da cadeia.",
+      exerciseType: "mixed_rules",
+      answerKey: {
+        referenceSolution:
+          "Regra do produto: g'(x) = (3x² + 1)'·e^{2x} + (3x² + 1)·(e^{2x})'.\n(3x² + 1)' = 6x e (e^{2x})' = 2e^{2x} (regra da cadeia).\ng'(x) = 6x·e^{2x} + 2(3x² + 1)·e^{2x} = (6x² + 6x + 2)·e^{2x}.",
+        expectedAnswer: "g'(x) = (6x² + 6x + 2)·e^{2x}",
+        rubric: [
+          { description: "Identifica e aplica a regra do produto", points: 4 },
+          { description: "Deriva e^{2x} com a regra da cadeia", points: 3 },
+          { description: "Simplifica a expressão final", points: 3 },
+        ],
+      },
+    },
+    {
+      statement:
+        "Em uma prova de Matemática, a função h(x) = (4x - 3)·ln(x) modela uma certa grandeza.\nCalcule h'(x).",
+      exerciseType: "applied_word_problem",
+      answerKey: {
+        referenceSolution:
+          "Regra do produto: h'(x) = 4·ln(x) + (4x - 3)·(1/x).\nLogo, h'(x) = 4ln(x) + 4 - 3/x, para x > 0.",
+        expectedAnswer: "h'(x) = 4ln(x) + 4 - 3/x",
+        rubric: [
+          { description: "Identifica e aplica a regra do produto", points: 4 },
+          { description: "Deriva corretamente ln(x)", points: 3 },
+          { description: "Simplifica e indica o domínio x > 0", points: 3 },
+        ],
+      },
+    },
+  ],
+  en: [
+    {
+      statement: "Consider the function f(x) = 2x³ - 5x² + 3x - 1.\nFind f'(x).",
+      exerciseType: "basic_procedural",
+      answerKey: {
+        referenceSolution:
+          "Differentiating term by term: (2x³)' = 6x², (-5x²)' = -10x, (3x)' = 3 and (-1)' = 0.\nSo f'(x) = 6x² - 10x + 3.",
+        expectedAnswer: "f'(x) = 6x² - 10x + 3",
+        rubric: [
+          { description: "Applies the power rule to the terms 2x³ and -5x²", points: 6 },
+          { description: "Differentiates the linear term and the constant correctly", points: 2 },
+          { description: "States the final expression for f'(x)", points: 2 },
+        ],
+      },
+    },
+    {
+      statement:
+        "Let g(x) = (3x² + 1)·e^{2x}.\nFind g'(x) using the product rule and, where needed, the chain rule.",
+      exerciseType: "mixed_rules",
+      answerKey: {
+        referenceSolution:
+          "Product rule: g'(x) = (3x² + 1)'·e^{2x} + (3x² + 1)·(e^{2x})'.\n(3x² + 1)' = 6x and (e^{2x})' = 2e^{2x} (chain rule).\ng'(x) = 6x·e^{2x} + 2(3x² + 1)·e^{2x} = (6x² + 6x + 2)·e^{2x}.",
+        expectedAnswer: "g'(x) = (6x² + 6x + 2)·e^{2x}",
+        rubric: [
+          { description: "Identifies and applies the product rule", points: 4 },
+          { description: "Differentiates e^{2x} with the chain rule", points: 3 },
+          { description: "Simplifies the final expression", points: 3 },
+        ],
+      },
+    },
+    {
+      statement:
+        "In a Mathematics test, the function h(x) = (4x - 3)·ln(x) models a certain quantity.\nFind h'(x).",
+      exerciseType: "applied_word_problem",
+      answerKey: {
+        referenceSolution:
+          "Product rule: h'(x) = 4·ln(x) + (4x - 3)·(1/x).\nSo h'(x) = 4ln(x) + 4 - 3/x, for x > 0.",
+        expectedAnswer: "h'(x) = 4ln(x) + 4 - 3/x",
+        rubric: [
+          { description: "Identifies and applies the product rule", points: 4 },
+          { description: "Differentiates ln(x) correctly", points: 3 },
+          { description: "Simplifies and states the domain x > 0", points: 3 },
+        ],
+      },
+    },
+  ],
+};
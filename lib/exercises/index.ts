@@ -0,0 +1,11 @@
+export * from "./types";
+export {
+  generateExercise,
+  localFallback,
+  pickExerciseType,
+  toExerciseDefinition,
+} from "./generateExercise";
+export { pickFallbackExercise, type FallbackQuery } from "./fallbackLibrary";
+export { fetchSubtopicContext, listSubtopicContexts } from "./subtopicContext";
+export { fingerprintStatement, normalizeStatement } from "./fingerprint";
+export { fromLegacyRequest, type LegacyGenerateExerciseBody } from "./compat";
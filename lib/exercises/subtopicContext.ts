@@ -0,0 +1,109 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { SubtopicContext } from "./types";
+
+type TopicRow = {
+  name: string | null;
+  year: number | null;
+  official_code: string | null;
+};
+
+type SubtopicRow = {
+  id: string;
+  name: string;
+  ai_notes: string | null;
+  topic: TopicRow | TopicRow[] | null;
+};
+
+// ---------- carregar subtema + tópico do Supabase ----------
+
+export async function fetchSubtopicContext(params: {
+  subtopicId?: string;
+  subtopicName?: string;
+}): Promise<SubtopicContext | null> {
+  const { subtopicId, subtopicName } = params;
+
+  let query = supabaseAdmin
+    .from("subtopics")
+    .select(
+      `
+      id,
+      name,
+      ai_notes,
+      topic:topics (
+        name,
+        year,
+        official_code
+      )
+    `,
+    )
+    .limit(1);
+
+  if (subtopicId) {
+    query = query.eq("id", subtopicId);
+  } else if (subtopicName) {
+    // procura por nome aproximado se não tivermos id
+    query = query.ilike("name", subtopicName);
+  }
+
+  const { data, error } = await query.maybeSingle<SubtopicRow>();
+
+  if (error) {
+    console.error("fetchSubtopicContext: error fetching subtopic", error);
+    return null;
+  }
+  if (!data) return null;
+
+  return toSubtopicContext(data);
+}
+
+function toSubtopicContext(data: SubtopicRow): SubtopicContext {
+  // topic pode vir como array [{ name, year, official_code }] ou objeto único
+  const topicData = Array.isArray(data.topic) ? data.topic[0] : data.topic;
+
+  return {
+    subtopicId: data.id,
+    subtopicName: data.name,
+    aiNotes: data.ai_notes || "",
+    topicName: topicData?.name || null,
+    topicYear: topicData?.year || null,
+    topicCode: topicData?.official_code || null,
+  };
+}
+
+// ---------- listar o programa (subtemas por ano / código oficial) ----------
+
+/**
+ * Todos os subtemas com o respetivo tópico, pela ordem do programa
+ * (ano, código oficial do tópico, nome do subtema).
+ */
+export async function listSubtopicContexts(params: {
+  year?: number;
+} = {}): Promise<SubtopicContext[]> {
+  let query = supabaseAdmin.from("subtopics").select(
+    `
+      id,
+      name,
+      ai_notes,
+      topic:topics!inner (
+        name,
+        year,
+        official_code
+      )
+    `,
+  );
+
+  if (params.year) {
+    query = query.eq("topic.year", params.year);
+  }
+
+  const { data, error } = await query.returns<SubtopicRow[]>();
+
+  if (error) throw error;
+
+  return (data || []).map(toSubtopicContext).sort(
+    (a, b) =>
+      (a.topicYear ?? 99) - (b.topicYear ?? 99) ||
+      (a.topicCode || "").localeCompare(b.topicCode || "", "pt", { numeric: true }) ||
+      a.subtopicName.localeCompare(b.subtopicName, "pt"),
+  );
+}
@@ -0,0 +1,92 @@
+import type { Locale } from "@/lib/locale/types";
+import type { StructuredText } from "@/lib/markup";
+
+export type ExerciseType =
+  | "basic_procedural"
+  | "mixed_rules"
+  | "applied_word_problem"
+  | "exam_multi_step";
+
+export const EXERCISE_TYPES: ExerciseType[] = [
+  "basic_procedural",
+  "mixed_rules",
+  "applied_word_problem",
+  "exam_multi_step",
+];
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+export type ExerciseGoal = "revision" | "exam";
+
+// De onde veio o exercício servido:
+// model = gerado agora; bank = banco de exercícios; fallback_library = biblioteca
+// curada (modelos indisponíveis); generic_fallback = exercício genérico de derivadas
+export type ExerciseSource = "model" | "bank" | "fallback_library" | "generic_fallback";
+
+export const FALLBACK_SOURCES: ExerciseSource[] = ["fallback_library", "generic_fallback"];
+
+// O que o aluno recebe: nunca inclui a chave de correção
+export type ExerciseDefinition = {
+  exerciseId: string | null; // null se não foi possível guardar na BD
+  statement: string;
+  structuredStatement: StructuredText; // o mesmo enunciado, com a matemática em LaTeX
+  exerciseType: ExerciseType;
+  locale: Locale; // língua do enunciado
+  source: ExerciseSource;
+  isFallback: boolean; // true quando não é um exercício gerado para este pedido nem do banco
+};
+
+// Etapa dos critérios de classificação (estilo Exame Nacional)
+export type RubricStep = {
+  description: string;
+  points: number;
+};
+
+// Chave de correção: só existe no servidor
+export type ExerciseAnswerKey = {
+  referenceSolution: string;
+  expectedAnswer: string;
+  rubric: RubricStep[];
+};
+
+// Exercício completo antes de ser guardado
+export type ExerciseDraft = {
+  statement: string;
+  statementMarkup?: StructuredText | null; // marcação validada; sem ela usa-se a heurística
+  exerciseType: ExerciseType;
+  answerKey: ExerciseAnswerKey | null;
+};
+
+// Pedido normalizado que o serviço de geração recebe (API v1)
+export type GenerateExerciseInput = {
+  studentId?: string; // para ligar o exercício ao histórico do aluno
+  sessionId?: string;
+  subtopicId?: string;
+  subtopicName?: string;
+  difficulty: Difficulty;
+  exerciseIndex: number; // 1, 2, 3
+  goal: ExerciseGoal;
+  exerciseType?: ExerciseType; // se vier, substitui pickExerciseType
+  locale: Locale; // língua do enunciado e da chave de correção
+};
+
+export type SubtopicContext = {
+  subtopicId: string;
+  subtopicName: string;
+  aiNotes: string;
+  topicName: string | null;
+  topicYear: number | null;
+  topicCode: string | null;
+};
+
+// Exercício da biblioteca de recurso (Supabase ou JSON incluído no código)
+export type FallbackExercise = ExerciseDraft & {
+  answerKey: ExerciseAnswerKey;
+  difficulty: Difficulty;
+  subtopicId: string | null; // entradas do Supabase ligadas a um subtema
+  keywords: string[]; // partes do nome do subtema/tópico (normalizadas) a que se aplica
+  locale: Locale; // só se serve a quem pediu esta língua
+  origin: "supabase" | "bundled";
+};
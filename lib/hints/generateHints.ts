@@ -0,0 +1,317 @@
+import { createHash } from "node:crypto";
+import { modelHintsOutput } from "@/lib/contracts/hints";
+import { canAccessExercise } from "@/lib/db/assignments";
+import {
+  getExerciseHints,
+  insertExerciseHints,
+  updateRevealedHints,
+  type ExerciseHints,
+} from "@/lib/db/exerciseHints";
+import { getExerciseById } from "@/lib/db/exercises";
+import { hintPenalty } from "@/lib/evaluation";
+import { fetchSubtopicContext, normalizeStatement } from "@/lib/exercises";
+import type { ExerciseAnswerKey, ExerciseType } from "@/lib/exercises/types";
+import { getLLMClient, reportFallback, reportInvalidOutput } from "@/lib/llm";
+import { DEFAULT_LOCALE, localeConventions, type Locale } from "@/lib/locale";
+import { buildStructuredText } from "@/lib/markup";
+import { checkEquivalence, extractFinalExpression } from "@/lib/math";
+import type { Infer } from "@/lib/schema";
+import type { Hint, HintLevel, HintRequest, HintsResponse } from "./types";
+
+export class HintError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "HintError";
+  }
+}
+
+// O exercício para o qual se pedem pistas (guardado ou enunciado livre)
+type HintExercise = {
+  exerciseId: string | null;
+  statement: string;
+  subtopicName: string;
+  exerciseType: ExerciseType | null;
+  answerKey: ExerciseAnswerKey | null;
+  locale: Locale;
+};
+
+const HINT_LEVELS: HintLevel[] = [1, 2, 3];
+
+// ---------- Helpers ----------
+
+/** Chave do enunciado: o mesmo texto (a menos de espaços e acentos) dá a mesma chave. */
+export function hintStatementKey(statement: string): string {
+  return createHash("sha1").update(normalizeStatement(statement)).digest("hex").slice(0, 16);
+}
+
+function compact(text: string): string {
+  return text.replace(/\s+/g, "").toLowerCase();
+}
+
+/**
+ * A pista contém a resposta final? Procura a expressão esperada no texto e
+ * compara mecanicamente cada "= …" da pista com a resposta esperada.
+ */
+export function revealsSolution(text: string, answerKey: ExerciseAnswerKey | null): boolean {
+  if (!answerKey) return false;
+
+  const expected = compact(extractFinalExpression(answerKey.expectedAnswer));
+  // respostas muito curtas ("30") aparecem por acaso em qualquer texto
+  if (expected.length >= 4 && compact(text).includes(expected)) return true;
+
+  for (const match of text.matchAll(/=\s*([^\n=]+)/g)) {
+    const candidate = match[1].split(/\.\s|\.$/)[0];
+    if (checkEquivalence(candidate, answerKey.expectedAnswer) === "equivalent") return true;
+  }
+  return false;
+}
+
+/**
+ * Fica com as pistas do modelo (já validadas). Como cada pista revela mais do
+ * que a anterior, pára na primeira que revele a resposta final.
+ */
+function parseHints(
+  items: Infer<typeof modelHintsOutput>["hints"],
+  answerKey: ExerciseAnswerKey | null,
+): Hint[] {
+  const hints: Hint[] = [];
+  for (const { text, markup } of items) {
+    if (revealsSolution(text, answerKey)) {
+      console.warn("hints: dropped a hint that reveals the final answer");
+      break;
+    }
+    hints.push({
+      level: HINT_LEVELS[hints.length],
+      text,
+      structuredText: buildStructuredText(text, markup),
+    });
+  }
+  return hints;
+}
+
+// pistas genéricas, por língua: para problemas de contexto e para os de cálculo
+const FALLBACK_HINTS: Record<Locale, { applied: string[]; procedural: string[] }> = {
+  "pt-PT": {
+    applied: [
+      "Relê o enunciado e identifica o que é pedido: que grandeza ou que valor tens de calcular?",
+      "Escreve a função envolvida e decide que ferramenta precisas (derivada, zeros, sinal, ...).",
+      "Faz o cálculo principal com cuidado e, no fim, interpreta o resultado no contexto do problema.",
+    ],
+    procedural: [
+      "Identifica a estrutura da expressão: é uma soma, um produto, um quociente ou uma composição?",
+      "Escolhe a regra de derivação adequada a essa estrutura e escreve-a antes de a aplicar.",
+      "Aplica a regra a cada parte e só depois simplifica, com atenção aos sinais.",
+    ],
+  },
+  "pt-BR": {
+    applied: [
+      "Releia o enunciado e identifique o que é pedido: que grandeza ou que valor você precisa calcular?",
+      "Escreva a função envolvida e decida que ferramenta usar (derivada, zeros, sinal, ...).",
+      "Faça o cálculo principal com cuidado e, no final, interprete o resultado no contexto do problema.",
+    ],
+    procedural: [
+      "Identifique a estrutura da expressão: é uma soma, um produto, um quociente ou uma composição?",
+      "Escolha a regra de derivação adequada a essa estrutura e escreva-a antes de aplicá-la.",
+      "Aplique a regra a cada parte e só depois simplifique, com atenção aos sinais.",
+    ],
+  },
+  en: {
+    applied: [
+      "Reread the problem and identify what is being asked: which quantity or value do you need to find?",
+      "Write down the function involved and decide which tool you need (derivative, zeros, sign, ...).",
+      "Carry out the main calculation carefully and then interpret the result in the context of the problem.",
+    ],
+    procedural: [
+      "Identify the structure of the expression: is it a sum, a product, a quotient or a composition?",
+      "Choose the differentiation rule that fits that structure and write it down before applying it.",
+      "Apply the rule to each part and only then simplify, paying attention to the signs.",
+    ],
+  },
+};
+
+function fallbackHints(exerciseType: ExerciseType | null, locale: Locale): Hint[] {
+  const texts =
+    exerciseType === "applied_word_problem" || exerciseType === "exam_multi_step"
+      ? FALLBACK_HINTS[locale].applied
+      : FALLBACK_HINTS[locale].procedural;
+
+  return texts.map((text, i) => ({
+    level: HINT_LEVELS[i],
+    text,
+    structuredText: buildStructuredText(text),
+  }));
+}
+
+/**
+ * Pede ao modelo as 3 pistas de uma vez. Nunca lança: se os modelos falharem
+ * ou nenhuma pista for aproveitável, usa pistas genéricas.
+ */
+async function draftHints(
+  exercise: HintExercise,
+): Promise<{ hints: Hint[]; provider: string | null; model: string | null }> {
+  const { languageLabel, notationBlock } = localeConventions(exercise.locale);
+  const systemPrompt = `
+Tu és o Wolfi, explicador de Matemática A (Portugal). Um aluno está a meio de um exercício
+e pediu ajuda. Vais preparar 3 pistas progressivas, em ${languageLabel}, com estas convenções:
+${notationBlock}
+
+- Pista 1 (empurrão): lembra a ideia ou a regra a usar, sem fazer contas.
+- Pista 2 (estratégia): indica o primeiro passo ou o plano da resolução.
+- Pista 3 (passo quase completo): mostra o passo principal, mas deixa ao aluno o cálculo final.
+
+Regras MUITO importantes:
+- NUNCA reveles a solução completa nem a resposta final, em nenhuma pista.
+- Cada pista tem 1–2 frases e revela um pouco mais do que a anterior.
+- Escreve a matemática em texto simples em "text" (ex.: "(x²)' = 2x") e repete a pista em
+  "markup" com a matemática em LaTeX entre $...$.
+
+DEVOLVES APENAS UM OBJETO JSON, com esta estrutura EXATA:
+{
+  "hints": [
+    { "level": 1, "text": "pista", "markup": "pista com $LaTeX$" },
+    { "level": 2, "text": "pista", "markup": "pista com $LaTeX$" },
+    { "level": 3, "text": "pista", "markup": "pista com $LaTeX$" }
+  ]
+}
+Não escrevas qualquer texto fora deste JSON.
+`;
+
+  const userPrompt = `
+Subtema: ${exercise.subtopicName}
+
+Enunciado:
+${exercise.statement}
+${
+  exercise.answerKey
+    ? `
+Resolução de referência (uso interno, NÃO a reveles):
+${exercise.answerKey.referenceSolution}
+
+Resposta final (NÃO pode aparecer em nenhuma pista):
+${exercise.answerKey.expectedAnswer}
+`
+    : ""
+}`;
+
+  try {
+    const llm = getLLMClient("generateHints");
+    const completion = await llm.generateJson<unknown>({
+      temperature: 0.3,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    });
+
+    const output = modelHintsOutput.parse(completion.data);
+    if (!output.ok) {
+      console.warn("hints: invalid hints from model", output.issues);
+      await reportInvalidOutput(completion);
+    } else {
+      const hints = parseHints(output.value.hints, exercise.answerKey);
+      if (hints.length > 0) {
+        return { hints, provider: completion.provider, model: completion.model };
+      }
+      // até a 1.ª pista revela a resposta
+      console.warn("hints: no usable hints from model", completion.data);
+      await reportInvalidOutput(completion);
+    }
+  } catch (err) {
+    console.error("hints: model generation failed", err);
+  }
+
+  await reportFallback("generateHints", "generic hints");
+  const hints = fallbackHints(exercise.exerciseType, exercise.locale);
+  return { hints, provider: null, model: null };
+}
+
+async function resolveHintExercise(request: HintRequest): Promise<HintExercise> {
+  if (request.exerciseId) {
+    const exercise = await getExerciseById(request.exerciseId);
+    if (!exercise || !(await canAccessExercise(exercise, request.studentId))) {
+      throw new HintError("Exercise not found", 404);
+    }
+    return {
+      exerciseId: exercise.id,
+      statement: exercise.statement,
+      subtopicName: exercise.subtopicName,
+      exerciseType: exercise.exerciseType,
+      answerKey: exercise.answerKey,
+      locale: request.locale ?? exercise.locale,
+    };
+  }
+
+  const statement = request.statement?.trim();
+  if (!statement) {
+    throw new HintError("exerciseId or statement is required", 400);
+  }
+
+  let subtopicName = request.subtopicName || "Derivadas";
+  try {
+    const ctx = await fetchSubtopicContext(request);
+    if (ctx) subtopicName = ctx.subtopicName;
+  } catch (err) {
+    console.error("hints: failed to load subtopic context", err);
+  }
+
+  return {
+    exerciseId: null,
+    statement,
+    subtopicName,
+    exerciseType: null,
+    answerKey: null,
+    locale: request.locale ?? DEFAULT_LOCALE,
+  };
+}
+
+function toResponse(stored: ExerciseHints, revealed: number): HintsResponse {
+  return {
+    exerciseId: stored.exerciseId,
+    hints: stored.hints.slice(0, revealed),
+    hintsUsed: revealed,
+    maxHints: stored.hints.length,
+    scorePenalty: hintPenalty(revealed),
+  };
+}
+
+// ---------- Serviço ----------
+
+/**
+ * Revela pistas de um exercício: até ao nível pedido ou, sem nível, a seguinte.
+ * As pistas são geradas no primeiro pedido e ficam guardadas, para que
+ * pedidos repetidos devolvam sempre as mesmas.
+ */
+export async function requestHints(request: HintRequest): Promise<HintsResponse> {
+  const exercise = await resolveHintExercise(request);
+  const statementKey = hintStatementKey(exercise.statement);
+
+  let stored = await getExerciseHints(request.studentId, statementKey);
+  if (!stored) {
+    const drafted = await draftHints(exercise);
+    stored = await insertExerciseHints({
+      studentId: request.studentId,
+      exerciseId: exercise.exerciseId,
+      statementKey,
+      ...drafted,
+    });
+  }
+
+  // nunca se "esconde" uma pista já revelada
+  const wanted = request.level ?? stored.revealed + 1;
+  const revealed = Math.min(stored.hints.length, Math.max(stored.revealed, wanted));
+
+  if (revealed !== stored.revealed) {
+    await updateRevealedHints(stored.id, revealed);
+  }
+
+  return toResponse(stored, revealed);
+}
+
+/** Número de pistas que o aluno já viu para este enunciado (para a avaliação). */
+export async function countHintsUsed(studentId: string, statement: string): Promise<number> {
+  const stored = await getExerciseHints(studentId, hintStatementKey(statement));
+  return stored?.revealed ?? 0;
+}
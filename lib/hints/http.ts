@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { HintError } from "./generateHints";
+
+// Converte erros do serviço de pistas em respostas HTTP
+export function sendHintError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof HintError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
@@ -0,0 +1,9 @@
+export * from "./types";
+export {
+  HintError,
+  countHintsUsed,
+  hintStatementKey,
+  requestHints,
+  revealsSolution,
+} from "./generateHints";
+export { sendHintError } from "./http";
@@ -0,0 +1,31 @@
+import type { Locale } from "@/lib/locale";
+import type { StructuredText } from "@/lib/markup";
+
+// 1 = empurrão (que ideia usar), 2 = estratégia / primeiro passo,
+// 3 = passo quase completo (nunca a resposta final)
+export type HintLevel = 1 | 2 | 3;
+
+export type Hint = {
+  level: HintLevel;
+  text: string;
+  structuredText: StructuredText;
+};
+
+// Pedido normalizado: exercício guardado (exerciseId) ou enunciado livre
+export type HintRequest = {
+  studentId: string;
+  exerciseId?: string;
+  statement?: string;
+  subtopicId?: string;
+  subtopicName?: string;
+  locale?: Locale; // sem língua, a do exercício guardado ou PT-PT
+  level?: HintLevel; // sem nível, revela a pista seguinte
+};
+
+export type HintsResponse = {
+  exerciseId: string | null;
+  hints: Hint[]; // só as pistas já reveladas
+  hintsUsed: number;
+  maxHints: number; // pistas disponíveis para este exercício (até 3)
+  scorePenalty: number; // pontos (em 100) que a avaliação vai descontar
+};
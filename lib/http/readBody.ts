@@ -0,0 +1,97 @@
+import type { NextApiRequest } from "next";
+
+export class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "RequestBodyError";
+  }
+}
+
+export type UploadedFile = {
+  fieldName: string;
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+};
+
+export type ParsedBody = {
+  fields: Record<string, unknown>;
+  files: UploadedFile[];
+};
+
+/**
+ * Lê o corpo de um pedido com bodyParser desligado.
+ * Aceita JSON e multipart/form-data (campos repetidos viram arrays).
+ */
+export async function readRequestBody(
+  req: NextApiRequest,
+  maxBytes: number,
+): Promise<ParsedBody> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buf.length;
+    if (size > maxBytes) {
+      throw new RequestBodyError("Request body too large", 413);
+    }
+    chunks.push(buf);
+  }
+
+  const raw = Buffer.concat(chunks);
+  const contentType = req.headers["content-type"] || "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    let form: FormData;
+    try {
+      form = await new Response(raw, {
+        headers: { "content-type": contentType },
+      }).formData();
+    } catch {
+      throw new RequestBodyError("Invalid multipart body", 400);
+    }
+
+    const fields: Record<string, unknown> = {};
+    const files: UploadedFile[] = [];
+
+    for (const [key, value] of form.entries()) {
+      if (typeof value === "string") {
+        const current = fields[key];
+        fields[key] =
+          current === undefined
+            ? value
+            : Array.isArray(current)
+              ? [...current, value]
+              : [current, value];
+      } else {
+        files.push({
+          fieldName: key,
+          fileName: value.name,
+          mimeType: value.type,
+          data: Buffer.from(await value.arrayBuffer()),
+        });
+      }
+    }
+
+    return { fields, files };
+  }
+
+  if (raw.length === 0) return { fields: {}, files: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new RequestBodyError("Invalid JSON body", 400);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new RequestBodyError("JSON body must be an object", 400);
+  }
+
+  return { fields: parsed as Record<string, unknown>, files: [] };
+}
@@ -0,0 +1,27 @@
+import type { NextApiResponse } from "next";
+import type { SchemaIssue } from "@/lib/schema";
+
+export type RequestLocation = "body" | "query" | "path";
+
+// Resposta 400 comum a todas as rotas: a 1.ª mensagem em "error" e os problemas por campo
+export type InvalidRequestBody = {
+  error: string;
+  issues: SchemaIssue[];
+};
+
+export function invalidRequestBody(
+  issues: SchemaIssue[],
+  location: RequestLocation = "body",
+): InvalidRequestBody {
+  const [first] = issues;
+  const error = first ? `${first.path || location} ${first.message}` : `Invalid ${location}`;
+  return { error, issues };
+}
+
+export function sendInvalidRequest(
+  res: NextApiResponse,
+  issues: SchemaIssue[],
+  location: RequestLocation = "body",
+) {
+  return res.status(400).json(invalidRequestBody(issues, location));
+}
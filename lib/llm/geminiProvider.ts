@@ -0,0 +1,102 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type GenerateContentRequest,
+  type Part,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import type { LLMDeltaHandler, LLMProvider, LLMRequest, LLMResponse, LLMUsage } from "./types";
+
+const DEFAULT_MODEL = "gemini-2.0-flash";
+
+function getModel(modelName: string, request: LLMRequest) {
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+
+  const systemText = request.messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+
+  return genAI.getGenerativeModel({
+    model: modelName,
+    systemInstruction: systemText || undefined,
+  });
+}
+
+function toContentRequest(request: LLMRequest): GenerateContentRequest {
+  const turns = request.messages.filter((m) => m.role !== "system");
+  const lastUser = turns.map((m) => m.role).lastIndexOf("user");
+
+  const contents: Content[] = turns.map((m, i) => {
+    const parts: Part[] = [{ text: m.content }];
+
+    // as imagens vão anexadas à última mensagem do aluno
+    if (i === lastUser) {
+      for (const img of request.images || []) {
+        parts.push({ inlineData: { mimeType: img.mimeType, data: img.data } });
+      }
+    }
+
+    return { role: m.role === "assistant" ? "model" : "user", parts };
+  });
+
+  return {
+    contents,
+    generationConfig: {
+      temperature: request.temperature,
+      responseMimeType: request.json ? "application/json" : undefined,
+    },
+  };
+}
+
+function toUsage(usage: UsageMetadata | undefined): LLMUsage | null {
+  return usage
+    ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+    : null;
+}
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+  model: process.env.GEMINI_MODEL || DEFAULT_MODEL,
+  supportsVision: true,
+
+  isAvailable() {
+    return Boolean(process.env.GEMINI_API_KEY);
+  },
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const result = await getModel(this.model, request).generateContent(
+      toContentRequest(request),
+    );
+
+    return {
+      text: result.response.text(),
+      provider: "gemini",
+      model: this.model,
+      usage: toUsage(result.response.usageMetadata),
+    };
+  },
+
+  async stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    const result = await getModel(this.model, request).generateContentStream(
+      toContentRequest(request),
+    );
+
+    let text = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+
+    const response = await result.response;
+    return {
+      text,
+      provider: "gemini",
+      model: this.model,
+      usage: toUsage(response.usageMetadata),
+    };
+  },
+};
@@ -0,0 +1,219 @@
+import { geminiProvider } from "./geminiProvider";
+import { parseJsonResponse } from "./json";
+import { mockProvider } from "./mockProvider";
+import { openaiProvider } from "./openaiProvider";
+import { newCallId, recordLLMCall } from "./telemetry";
+import {
+  LLMProviderError,
+  type LLMJsonResponse,
+  type LLMDeltaHandler,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMRoute,
+} from "./types";
+
+export * from "./types";
+export { extractJsonText, parseJsonResponse } from "./json";
+export { getLLMMetrics } from "./metrics";
+export { estimateCostUsd, reportFallback, reportInvalidOutput } from "./telemetry";
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Cadeia por omissão de cada rota (o primeiro é o preferido)
+const DEFAULT_CHAINS: Record<LLMRoute, LLMProviderName[]> = {
+  generateExercise: ["openai", "gemini"],
+  evaluateAnswer: ["gemini", "openai"],
+  generateExamItem: ["openai", "gemini"],
+  generateHints: ["openai", "gemini"],
+  tutorChat: ["openai", "gemini"],
+};
+
+type RouteRequest = Omit<LLMRequest, "route">;
+
+export type LLMClient = {
+  route: LLMRoute;
+  providers: LLMProviderName[];
+  generateText(request: RouteRequest): Promise<LLMResponse>;
+  generateJson<T>(request: RouteRequest): Promise<LLMJsonResponse<T>>;
+  evaluateVision<T>(
+    request: RouteRequest & { images: NonNullable<LLMRequest["images"]> },
+  ): Promise<LLMJsonResponse<T>>;
+  streamText(request: RouteRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse>;
+};
+
+function routeEnvKey(route: LLMRoute): string {
+  // generateExercise -> LLM_PROVIDERS_GENERATE_EXERCISE
+  return `LLM_PROVIDERS_${route.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`;
+}
+
+function parseChain(value: string | undefined): LLMProviderName[] | null {
+  if (!value) return null;
+
+  const names = value
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is LLMProviderName => s in PROVIDERS);
+
+  return names.length > 0 ? names : null;
+}
+
+/**
+ * Resolve a cadeia de providers de uma rota:
+ * LLM_PROVIDERS_<ROTA> > LLM_PROVIDERS > cadeia por omissão.
+ * Ex.: LLM_PROVIDERS=mock para trabalhar offline.
+ */
+export function resolveProviderChain(route: LLMRoute): LLMProviderName[] {
+  return (
+    parseChain(process.env[routeEnvKey(route)]) ||
+    parseChain(process.env.LLM_PROVIDERS) ||
+    DEFAULT_CHAINS[route]
+  );
+}
+
+async function runWithFailover<T>(
+  route: LLMRoute,
+  chain: LLMProviderName[],
+  request: LLMRequest,
+  handle: (response: LLMResponse) => T,
+  call: (provider: LLMProvider) => Promise<LLMResponse> = (provider) =>
+    provider.generate(request),
+  streamed = false,
+): Promise<T> {
+  const attempts: { provider: LLMProviderName; error: string }[] = [];
+  const needsVision = (request.images?.length || 0) > 0;
+  const chainStartedAt = Date.now();
+
+  for (const name of chain) {
+    const provider = PROVIDERS[name];
+
+    if (!provider.isAvailable()) {
+      attempts.push({ provider: name, error: "not configured" });
+      continue;
+    }
+    if (needsVision && !provider.supportsVision) {
+      attempts.push({ provider: name, error: "no vision support" });
+      continue;
+    }
+
+    const callId = newCallId();
+    const startedAt = Date.now();
+    const failover = attempts.length > 0;
+    let response: LLMResponse | null = null;
+    try {
+      response = { ...(await call(provider)), callId };
+      if (!response.text.trim()) {
+        throw new Error("empty response");
+      }
+      const result = handle(response);
+      await recordLLMCall({
+        id: callId,
+        route,
+        provider: name,
+        model: response.model,
+        outcome: "success",
+        failover,
+        streamed,
+        latencyMs: Date.now() - startedAt,
+        usage: response.usage,
+      });
+      return result;
+    } catch (err) {
+      // com texto, o que falhou foi a leitura do JSON
+      await recordLLMCall({
+        id: callId,
+        route,
+        provider: name,
+        model: response?.model ?? provider.model,
+        outcome: response?.text.trim() ? "parse_failure" : "provider_error",
+        failover,
+        streamed,
+        latencyMs: Date.now() - startedAt,
+        usage: response?.usage ?? null,
+        error: err,
+      });
+      // stream interrompido a meio: não se tenta outro provider
+      if (err instanceof LLMProviderError) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`llm(${route}): provider ${name} failed`, message);
+      attempts.push({ provider: name, error: message });
+    }
+  }
+
+  // a rota vai cair no seu fallback (banco, biblioteca, avaliação adiada...)
+  await recordLLMCall({
+    id: newCallId(),
+    route,
+    provider: null,
+    model: null,
+    outcome: "unavailable",
+    failover: attempts.length > 1,
+    streamed,
+    latencyMs: Date.now() - chainStartedAt,
+    usage: null,
+    error: attempts.map((a) => `${a.provider}: ${a.error}`).join("; "),
+  });
+  throw new LLMProviderError(`All LLM providers failed for ${route}`, attempts);
+}
+
+/**
+ * Stream com failover: só se passa ao provider seguinte enquanto nada foi
+ * enviado ao cliente; depois do primeiro pedaço o texto ficaria misturado.
+ */
+function streamWithFailover(
+  route: LLMRoute,
+  chain: LLMProviderName[],
+  request: LLMRequest,
+  onDelta: LLMDeltaHandler,
+): Promise<LLMResponse> {
+  let started = false;
+
+  return runWithFailover(
+    route,
+    chain,
+    request,
+    (response) => response,
+    async (provider) => {
+      try {
+        return await provider.stream(request, (delta) => {
+          started = true;
+          onDelta(delta);
+        });
+      } catch (err) {
+        if (!started) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        throw new LLMProviderError(`LLM stream interrupted for ${route}`, [
+          { provider: provider.name, error: message },
+        ]);
+      }
+    },
+    true,
+  );
+}
+
+export function getLLMClient(route: LLMRoute): LLMClient {
+  const chain = resolveProviderChain(route);
+
+  const generateJson = <T>(request: RouteRequest) =>
+    runWithFailover(route, chain, { ...request, route, json: true }, (response) => ({
+      ...response,
+      // se o JSON vier estragado, passa ao provider seguinte
+      data: parseJsonResponse<T>(response.text),
+    }));
+
+  return {
+    route,
+    providers: chain,
+    generateText: (request) =>
+      runWithFailover(route, chain, { ...request, route }, (response) => response),
+    generateJson,
+    evaluateVision: generateJson,
+    streamText: (request, onDelta) =>
+      streamWithFailover(route, chain, { ...request, route }, onDelta),
+  };
+}
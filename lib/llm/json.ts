@@ -0,0 +1,28 @@
+/**
+ * Limpa a resposta de um modelo para ficar só com o objeto JSON
+ * (remove blocos ```json ... ``` e texto antes/depois das chavetas).
+ */
+export function extractJsonText(text: string): string {
+  let jsonText = text.trim();
+
+  // Caso venha em bloco de código ```json ... ```
+  if (jsonText.startsWith("```")) {
+    // remove ```json ou ``` na primeira linha
+    jsonText = jsonText.replace(/^```[a-zA-Z]*\s*/, "");
+    // remove ``` final
+    jsonText = jsonText.replace(/```$/, "").trim();
+  }
+
+  // Ficar só com o conteúdo entre a primeira { e a última }
+  const firstBrace = jsonText.indexOf("{");
+  const lastBrace = jsonText.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    jsonText = jsonText.slice(firstBrace, lastBrace + 1);
+  }
+
+  return jsonText;
+}
+
+export function parseJsonResponse<T>(text: string): T {
+  return JSON.parse(extractJsonText(text)) as T;
+}
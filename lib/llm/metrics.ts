@@ -0,0 +1,57 @@
+import { listLLMDailyStats } from "@/lib/db/llmCalls";
+import type { LLMDailyStats, LLMMetrics, LLMRoute, LLMRouteTotals } from "./types";
+
+function routeTotals(days: LLMDailyStats[]): LLMRouteTotals[] {
+  const totals = new Map<string, LLMRouteTotals & { latencySum: number }>();
+
+  for (const day of days) {
+    const entry = totals.get(day.route) || {
+      route: day.route,
+      calls: 0,
+      successes: 0,
+      providerErrors: 0,
+      parseFailures: 0,
+      invalidOutputs: 0,
+      unavailable: 0,
+      fallbacks: 0,
+      failoverSuccesses: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      averageLatencyMs: 0,
+      costUsd: 0,
+      latencySum: 0,
+    };
+    entry.calls += day.calls;
+    entry.successes += day.successes;
+    entry.providerErrors += day.providerErrors;
+    entry.parseFailures += day.parseFailures;
+    entry.invalidOutputs += day.invalidOutputs;
+    entry.unavailable += day.unavailable;
+    entry.fallbacks += day.fallbacks;
+    entry.failoverSuccesses += day.failoverSuccesses;
+    entry.inputTokens += day.inputTokens;
+    entry.outputTokens += day.outputTokens;
+    entry.costUsd += day.costUsd;
+    // média pesada pelo número de chamadas de cada linha
+    entry.latencySum += day.averageLatencyMs * day.calls;
+    totals.set(day.route, entry);
+  }
+
+  return [...totals.values()]
+    .map(({ latencySum, ...entry }) => ({
+      ...entry,
+      averageLatencyMs: entry.calls ? Math.round(latencySum / entry.calls) : 0,
+      costUsd: Math.round(entry.costUsd * 1_000_000) / 1_000_000,
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/** Métricas das chamadas aos modelos entre from e to (YYYY-MM-DD, hora de Lisboa). */
+export async function getLLMMetrics(params: {
+  from: string;
+  to: string;
+  route?: LLMRoute;
+}): Promise<LLMMetrics> {
+  const days = await listLLMDailyStats(params);
+  return { from: params.from, to: params.to, days, routes: routeTotals(days) };
+}
@@ -0,0 +1,169 @@
+import type { LLMDeltaHandler, LLMProvider, LLMRequest, LLMResponse, LLMRoute } from "./types";
+
+// Provider determinístico para desenvolvimento offline e testes manuais.
+// A mesma conversa devolve sempre a mesma resposta.
+
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+const MOCK_EXERCISES = [
+  {
+    statement: "Considera a função f(x) = 4x³ - 2x² + x - 7.\nCalcula f'(x).",
+    statementMarkup: "Considera a função $f(x) = 4x^{3} - 2x^{2} + x - 7$.\nCalcula $f'(x)$.",
+    exerciseType: "basic_procedural",
+    referenceSolution:
+      "Derivando termo a termo: f'(x) = 12x² - 4x + 1.",
+    expectedAnswer: "f'(x) = 12x² - 4x + 1",
+    rubric: [
+      { description: "Aplica a regra da potência a cada termo", points: 8 },
+      { description: "Apresenta a expressão final", points: 2 },
+    ],
+  },
+  {
+    statement:
+      "Seja g(x) = (x² - 3)·e^{2x}.\nCalcula g'(x) usando a regra do produto.",
+    statementMarkup:
+      "Seja $g(x) = (x^{2} - 3) \\cdot e^{2x}$.\nCalcula $g'(x)$ usando a regra do produto.",
+    exerciseType: "mixed_rules",
+    referenceSolution:
+      "g'(x) = 2x·e^{2x} + (x² - 3)·2e^{2x} = (2x² + 2x - 6)·e^{2x}.",
+    expectedAnswer: "g'(x) = (2x² + 2x - 6)·e^{2x}",
+    rubric: [
+      { description: "Aplica a regra do produto", points: 4 },
+      { description: "Deriva e^{2x} com a regra da cadeia", points: 3 },
+      { description: "Simplifica a expressão final", points: 3 },
+    ],
+  },
+  {
+    statement:
+      "O custo diário de produção de x peças é dado por C(x) = 0,5x² + 20x + 150.\nDetermina C'(10) e interpreta o resultado no contexto.",
+    exerciseType: "applied_word_problem",
+    referenceSolution:
+      "C'(x) = x + 20, logo C'(10) = 30.\nProduzir uma peça a mais quando já se produzem 10 custa aproximadamente 30 unidades monetárias.",
+    expectedAnswer: "C'(10) = 30",
+    rubric: [
+      { description: "Calcula C'(x)", points: 4 },
+      { description: "Calcula C'(10)", points: 3 },
+      { description: "Interpreta o resultado no contexto", points: 3 },
+    ],
+  },
+];
+
+const MOCK_EXAM_ITEM = {
+  intro:
+    "Considera a função f, de domínio ℝ, definida por f(x) = x³ - 3x² + 2.",
+  exerciseType: "exam_multi_step",
+  parts: [
+    {
+      statement: "Determina f'(x).",
+      referenceSolution: "f'(x) = 3x² - 6x.",
+      expectedAnswer: "f'(x) = 3x² - 6x",
+      rubric: [
+        { description: "Deriva corretamente cada termo", points: 8 },
+        { description: "Apresenta a expressão final", points: 2 },
+      ],
+    },
+    {
+      statement:
+        "Estuda a função f quanto à monotonia e à existência de extremos relativos.",
+      referenceSolution:
+        "f'(x) = 3x(x - 2) = 0 ⇔ x = 0 ∨ x = 2.\nf é crescente em ]-∞, 0] e em [2, +∞[ e decrescente em [0, 2].\nMáximo relativo f(0) = 2; mínimo relativo f(2) = -2.",
+      expectedAnswer: "máximo relativo 2 (x = 0); mínimo relativo -2 (x = 2)",
+      rubric: [
+        { description: "Determina os zeros de f'", points: 4 },
+        { description: "Apresenta o quadro de sinal de f'", points: 5 },
+        { description: "Indica os intervalos de monotonia", points: 3 },
+        { description: "Indica os extremos relativos", points: 3 },
+      ],
+    },
+  ],
+};
+
+const MOCK_HINTS = {
+  hints: [
+    {
+      level: 1,
+      text: "Que regra de derivação se aplica a cada parcela da expressão?",
+      markup: "Que regra de derivação se aplica a cada parcela da expressão?",
+    },
+    {
+      level: 2,
+      text: "Deriva termo a termo: a derivada de ax^n é n·a·x^(n-1).",
+      markup: "Deriva termo a termo: a derivada de $ax^{n}$ é $n \\cdot a \\cdot x^{n-1}$.",
+    },
+    {
+      level: 3,
+      text: "Começa pelo termo de maior grau e aplica a mesma regra aos restantes; a constante tem derivada 0.",
+      markup:
+        "Começa pelo termo de maior grau e aplica a mesma regra aos restantes; a constante tem derivada $0$.",
+    },
+  ],
+};
+
+const MOCK_TUTOR_REPLY =
+  "Boa pergunta! No passo 2 aplicaste a regra da potência ao termo $-5x^{2}$, mas esqueceste o sinal: " +
+  "a derivada de $-5x^{2}$ é $-10x$. Revê esse termo e tenta simplificar outra vez.";
+
+const MOCK_RESPONSES: Record<LLMRoute, (request: LLMRequest, seed: number) => unknown> = {
+  generateExercise: (_request, seed) => MOCK_EXERCISES[seed % MOCK_EXERCISES.length],
+  generateExamItem: () => MOCK_EXAM_ITEM,
+  generateHints: () => MOCK_HINTS,
+  tutorChat: () => MOCK_TUTOR_REPLY,
+  evaluateAnswer: () => ({
+    result: "partial",
+    score: 60,
+    feedbackSummary:
+      "Avaliação simulada: o raciocínio está no caminho certo, mas revê os últimos passos.",
+    steps: [
+      {
+        description: "Aplica a regra de derivação adequada",
+        correct: true,
+        errorCategory: null,
+        comment: "Boa escolha da regra.",
+      },
+      {
+        description: "Simplifica a expressão final",
+        correct: false,
+        errorCategory: "algebra_slip",
+        comment: "Há um erro de cálculo na simplificação de 2x·e^{2x}.",
+        commentMarkup: "Há um erro de cálculo na simplificação de $2x \\cdot e^{2x}$.",
+      },
+    ],
+  }),
+};
+
+export const mockProvider: LLMProvider = {
+  name: "mock",
+  model: "mock-v1",
+  supportsVision: true,
+
+  isAvailable() {
+    return true;
+  },
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const seed = hashText(request.messages.map((m) => m.content).join("\n"));
+    const payload = MOCK_RESPONSES[request.route](request, seed);
+
+    return {
+      text: typeof payload === "string" ? payload : JSON.stringify(payload),
+      provider: "mock",
+      model: this.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  },
+
+  async stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    const response = await this.generate(request);
+    // palavra a palavra, como um stream verdadeiro
+    for (const piece of response.text.match(/\S+\s*/g) || []) {
+      onDelta(piece);
+    }
+    return response;
+  },
+};
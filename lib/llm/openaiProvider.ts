@@ -0,0 +1,108 @@
+import OpenAI from "openai";
+import type { LLMDeltaHandler, LLMProvider, LLMRequest, LLMResponse, LLMUsage } from "./types";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+let client: OpenAI | null = null;
+
+// criado só quando é preciso, para não rebentar sem OPENAI_API_KEY (ex.: modo mock)
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+  }
+  return client;
+}
+
+function toMessages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const images = request.images || [];
+  const lastUser = request.messages.map((x) => x.role).lastIndexOf("user");
+
+  return request.messages.map((m, i) => {
+    const isLastUser = m.role === "user" && images.length > 0 && i === lastUser;
+
+    if (!isLastUser) {
+      return { role: m.role, content: m.content };
+    }
+
+    // as imagens vão anexadas à última mensagem do aluno
+    return {
+      role: "user",
+      content: [
+        { type: "text", text: m.content },
+        // os PDFs vão como "file": image_url só aceita imagens
+        ...images.map((img, n): OpenAI.Chat.ChatCompletionContentPart =>
+          img.mimeType === "application/pdf"
+            ? {
+                type: "file",
+                file: {
+                  filename: `page-${n + 1}.pdf`,
+                  file_data: `data:${img.mimeType};base64,${img.data}`,
+                },
+              }
+            : {
+                type: "image_url",
+                image_url: { url: `data:${img.mimeType};base64,${img.data}` },
+              },
+        ),
+      ],
+    };
+  });
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMUsage | null {
+  return usage
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens }
+    : null;
+}
+
+export const openaiProvider: LLMProvider = {
+  name: "openai",
+  model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+  supportsVision: true,
+
+  isAvailable() {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await getClient().chat.completions.create({
+      model: this.model,
+      temperature: request.temperature,
+      response_format: request.json ? { type: "json_object" } : undefined,
+      messages: toMessages(request),
+    });
+
+    return {
+      text: completion.choices[0]?.message?.content || "",
+      provider: "openai",
+      model: completion.model || this.model,
+      usage: toUsage(completion.usage),
+    };
+  },
+
+  async stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> {
+    const stream = await getClient().chat.completions.create({
+      model: this.model,
+      temperature: request.temperature,
+      messages: toMessages(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let text = "";
+    let model = this.model;
+    let usage: LLMUsage | null = null;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content || "";
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (chunk.model) model = chunk.model;
+      // o uso só vem no último pedaço
+      if (chunk.usage) usage = toUsage(chunk.usage);
+    }
+
+    return { text, provider: "openai", model, usage };
+  },
+};
@@ -0,0 +1,101 @@
+import { randomUUID } from "node:crypto";
+import { insertLLMCall, updateLLMCallOutcome } from "@/lib/db/llmCalls";
+import type { LLMCallRecord, LLMResponse, LLMRoute, LLMUsage } from "./types";
+
+// Preço por milhão de tokens (USD), por prefixo do modelo. Estimativa: confirmar
+// na tabela de preços de cada provider quando mudar de modelo.
+const MODEL_PRICES_USD_PER_MILLION: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  mock: { input: 0, output: 0 },
+};
+
+const MAX_ERROR_LENGTH = 500;
+
+export function newCallId(): string {
+  return randomUUID();
+}
+
+function telemetryEnabled(): boolean {
+  return process.env.LLM_TELEMETRY !== "off";
+}
+
+/** Custo estimado da chamada; null se o modelo não estiver na tabela ou não houver uso. */
+export function estimateCostUsd(model: string | null, usage: LLMUsage | null): number | null {
+  if (!model || !usage) return null;
+
+  // o prefixo mais longo ganha (ex.: "gpt-4o-mini-2024-07-18" -> gpt-4o-mini, não gpt-4o)
+  const prefix = Object.keys(MODEL_PRICES_USD_PER_MILLION)
+    .filter((p) => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return null;
+
+  const price = MODEL_PRICES_USD_PER_MILLION[prefix];
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/** Guarda a chamada em llm_calls. Nunca lança: a telemetria não pode partir a rota. */
+export async function recordLLMCall(
+  call: Omit<LLMCallRecord, "costUsd" | "inputTokens" | "outputTokens" | "error"> & {
+    usage: LLMUsage | null;
+    error?: unknown;
+  },
+): Promise<void> {
+  const { usage, error, ...rest } = call;
+  const message =
+    error === undefined ? null : error instanceof Error ? error.message : String(error);
+
+  const record: LLMCallRecord = {
+    ...rest,
+    inputTokens: usage?.inputTokens ?? null,
+    outputTokens: usage?.outputTokens ?? null,
+    costUsd: estimateCostUsd(call.model, usage),
+    error: message ? message.slice(0, MAX_ERROR_LENGTH) : null,
+  };
+
+  // log estruturado (uma linha por chamada), mesmo com a telemetria na BD desligada
+  console.info("llm: call", JSON.stringify(record));
+  if (!telemetryEnabled()) return;
+
+  try {
+    await insertLLMCall(record);
+  } catch (err) {
+    console.warn("llm: failed to record telemetry", err);
+  }
+}
+
+/**
+ * A rota recebeu JSON válido mas sem os campos de que precisa: corrige o
+ * resultado da chamada na telemetria. Nunca lança.
+ */
+export async function reportInvalidOutput(response: Pick<LLMResponse, "callId">): Promise<void> {
+  if (!response.callId || !telemetryEnabled()) return;
+
+  try {
+    await updateLLMCallOutcome(response.callId, "invalid_output");
+  } catch (err) {
+    console.warn("llm: failed to record telemetry", err);
+  }
+}
+
+/**
+ * A rota desistiu do modelo e serviu o seu conteúdo de recurso (pistas genéricas,
+ * item local...): fica uma linha sem provider, como a de "unavailable". Nunca lança.
+ */
+export async function reportFallback(route: LLMRoute, reason: string): Promise<void> {
+  await recordLLMCall({
+    id: newCallId(),
+    route,
+    provider: null,
+    model: null,
+    outcome: "fallback",
+    failover: false,
+    streamed: false,
+    latencyMs: 0,
+    usage: null,
+    error: reason,
+  });
+}
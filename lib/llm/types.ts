@@ -0,0 +1,129 @@
+export type LLMProviderName = "openai" | "gemini" | "mock";
+
+// Cada rota escolhe a sua cadeia de providers (ver getLLMClient)
+export type LLMRoute =
+  | "generateExercise"
+  | "evaluateAnswer"
+  | "generateExamItem"
+  | "generateHints"
+  | "tutorChat";
+
+export const LLM_ROUTES: LLMRoute[] = [
+  "generateExercise",
+  "evaluateAnswer",
+  "generateExamItem",
+  "generateHints",
+  "tutorChat",
+];
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// Página enviada ao modelo: imagem ou PDF
+export type LLMImage = {
+  mimeType: string;
+  data: string; // base64
+};
+
+export type LLMRequest = {
+  route: LLMRoute;
+  messages: LLMMessage[];
+  images?: LLMImage[];
+  json?: boolean;
+  temperature?: number;
+};
+
+export type LLMUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LLMResponse = {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage | null;
+  callId?: string; // linha da telemetria (llm_calls) desta chamada
+};
+
+export type LLMJsonResponse<T> = LLMResponse & {
+  data: T;
+};
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly supportsVision: boolean;
+  isAvailable(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // chama onDelta com cada pedaço de texto; devolve a resposta completa no fim
+  stream(request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse>;
+}
+
+export type LLMDeltaHandler = (text: string) => void;
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: { provider: LLMProviderName; error: string }[],
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+// ---------- Telemetria ----------
+
+export type LLMCallOutcome =
+  | "success"
+  | "provider_error" // o provider falhou ou devolveu texto vazio
+  | "parse_failure" // a resposta não era JSON válido
+  | "invalid_output" // JSON válido, mas sem os campos que a rota precisa
+  | "unavailable" // nenhum provider da cadeia respondeu
+  | "fallback"; // a rota serviu o seu conteúdo de recurso em vez do do modelo
+
+export type LLMCallRecord = {
+  id: string;
+  route: LLMRoute;
+  provider: LLMProviderName | null;
+  model: string | null;
+  outcome: LLMCallOutcome;
+  failover: boolean;
+  streamed: boolean;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  latencyMs: number;
+  costUsd: number | null;
+  error: string | null;
+};
+
+export type LLMDailyStats = {
+  day: string; // YYYY-MM-DD, hora de Lisboa
+  route: string;
+  provider: string | null;
+  model: string | null;
+  calls: number;
+  successes: number;
+  providerErrors: number;
+  parseFailures: number;
+  invalidOutputs: number;
+  unavailable: number;
+  fallbacks: number;
+  failoverSuccesses: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+  p95LatencyMs: number;
+  costUsd: number;
+};
+
+export type LLMRouteTotals = Omit<LLMDailyStats, "day" | "provider" | "model" | "p95LatencyMs">;
+
+export type LLMMetrics = {
+  from: string;
+  to: string;
+  days: LLMDailyStats[]; // por dia, rota, provider e modelo
+  routes: LLMRouteTotals[]; // totais do período por rota
+};
@@ -0,0 +1,35 @@
+import type { Locale, LocaleConventions } from "./types";
+
+// Os prompts estão escritos em português: daí os nomes e as regras em português,
+// mesmo quando o aluno recebe o texto em inglês.
+const CONVENTIONS: Record<Locale, LocaleConventions> = {
+  "pt-PT": {
+    languageLabel: "português europeu (PT-PT)",
+    notationBlock: [
+      "- Vírgula decimal (ex.: 0,5 e 2,75); em coordenadas e listas com decimais, separa com ponto e vírgula (ex.: A(0,5 ; 2)).",
+      "- sen(x), cos(x), tg(x) e ln(x); intervalos como ]0, +∞[ e [1, 3[.",
+      '- Trata o aluno por tu (ex.: "Calcula", "Considera", "Determina").',
+    ].join("\n"),
+  },
+  "pt-BR": {
+    languageLabel: "português do Brasil (PT-BR)",
+    notationBlock: [
+      "- Vírgula decimal (ex.: 0,5 e 2,75); em coordenadas e listas com decimais, separa com ponto e vírgula (ex.: A(0,5; 2)).",
+      "- sen(x), cos(x), tg(x) e ln(x); intervalos como ]0, +∞[ e [1, 3[.",
+      '- Trata o aluno por você, com o vocabulário e a ortografia do Brasil (ex.: "Calcule", "Considere", "fórmula de Bhaskara").',
+      "- Valores monetários em reais (R$).",
+    ].join("\n"),
+  },
+  en: {
+    languageLabel: "inglês (EN)",
+    notationBlock: [
+      "- Ponto decimal (ex.: 0.5 e 2.75); em coordenadas e listas, separa com vírgula (ex.: A(0.5, 2)).",
+      "- sin(x), cos(x), tan(x) e ln(x); intervalos como (0, +∞) e [1, 3).",
+      '- Terminologia matemática inglesa (ex.: "derivative", "tangent line", "relative maximum") e o imperativo (ex.: "Find f\'(x).").',
+    ].join("\n"),
+  },
+};
+
+export function localeConventions(locale: Locale): LocaleConventions {
+  return CONVENTIONS[locale];
+}
@@ -0,0 +1,12 @@
+// Língua dos enunciados e do feedback, com as convenções de notação de cada uma
+export type Locale = "pt-PT" | "pt-BR" | "en";
+
+export const LOCALES: Locale[] = ["pt-PT", "pt-BR", "en"];
+
+// o programa é o português: sem indicação, tudo sai em português europeu
+export const DEFAULT_LOCALE: Locale = "pt-PT";
+
+export type LocaleConventions = {
+  languageLabel: string; // nome da língua, tal como aparece nos prompts (em português)
+  notationBlock: string; // convenções de notação, uma por linha, para os prompts
+};
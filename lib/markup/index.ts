@@ -0,0 +1,4 @@
+export * from "./types";
+export { validateLatex } from "./validateLatex";
+export { plainToLatex } from "./plainToLatex";
+export { buildStructuredText, markupToString, parseMarkup, structureText } from "./structure";
@@ -0,0 +1,142 @@
+// Conversão da notação ad hoc dos enunciados ("3x²", "(x² - 3)·e^{2x}", "√(x+1)",
+// "0,5x", "x ≥ 0") para LaTeX. É uma transliteração símbolo a símbolo:
+// não reescreve a expressão, por isso "e" e "π" continuam a ser letras.
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4",
+  "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9", "⁻": "-",
+};
+
+const SYMBOLS: Record<string, string> = {
+  "·": "\\cdot ",
+  "⋅": "\\cdot ",
+  "×": "\\times ",
+  "÷": "\\div ",
+  "−": "-",
+  "–": "-",
+  "≤": "\\leq ",
+  "≥": "\\geq ",
+  "≠": "\\neq ",
+  "≈": "\\approx ",
+  "±": "\\pm ",
+  "∞": "\\infty ",
+  "π": "\\pi ",
+  "∈": "\\in ",
+  "∉": "\\notin ",
+  "∪": "\\cup ",
+  "∩": "\\cap ",
+  "∨": "\\vee ",
+  "∧": "\\wedge ",
+  "⇔": "\\Leftrightarrow ",
+  "⇒": "\\Rightarrow ",
+  "→": "\\to ",
+  "ℝ": "\\mathbb{R}",
+  "ℕ": "\\mathbb{N}",
+  "ℤ": "\\mathbb{Z}",
+  "ℚ": "\\mathbb{Q}",
+  "%": "\\%",
+  "°": "^{\\circ}",
+};
+
+// nomes de funções: os do LaTeX e os da notação portuguesa
+const FUNCTIONS: Record<string, string> = {
+  ln: "\\ln ",
+  log: "\\log ",
+  exp: "\\exp ",
+  sin: "\\sin ",
+  cos: "\\cos ",
+  tan: "\\tan ",
+  lim: "\\lim ",
+  sen: "\\operatorname{sen} ",
+  tg: "\\operatorname{tg} ",
+};
+
+/** Índice do parêntese que fecha o que abre em `at` (ou -1). */
+function matchingParen(text: string, at: number): number {
+  let depth = 0;
+  for (let i = at; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    if (text[i] === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Converte uma expressão em notação simples para LaTeX.
+ * O resultado deve ser confirmado com validateLatex.
+ */
+export function plainToLatex(expression: string): string {
+  let out = "";
+  let i = 0;
+  const text = expression.trim();
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch in SUPERSCRIPTS) {
+      let exponent = "";
+      while (i < text.length && text[i] in SUPERSCRIPTS) exponent += SUPERSCRIPTS[text[i++]];
+      out += `^{${exponent}}`;
+      continue;
+    }
+
+    if (ch === "√") {
+      if (text[i + 1] === "(") {
+        const close = matchingParen(text, i + 1);
+        if (close !== -1) {
+          out += `\\sqrt{${plainToLatex(text.slice(i + 2, close))}}`;
+          i = close + 1;
+          continue;
+        }
+      }
+      const operand = /^[0-9a-zA-Z,.]+/.exec(text.slice(i + 1))?.[0] || "";
+      out += `\\sqrt{${plainToLatex(operand)}}`;
+      i += 1 + operand.length;
+      continue;
+    }
+
+    // e^(2x) -> e^{2x}
+    if (ch === "^" && text[i + 1] === "(") {
+      const close = matchingParen(text, i + 1);
+      if (close !== -1) {
+        out += `^{${plainToLatex(text.slice(i + 2, close))}}`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    // vírgula decimal (0,5): o {,} evita o espaço de pontuação do LaTeX
+    if (ch === "," && /[0-9]/.test(text[i - 1] || "") && /[0-9]/.test(text[i + 1] || "")) {
+      out += "{,}";
+      i++;
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(ch)) {
+      let word = "";
+      while (i < text.length && /[a-zA-Z]/.test(text[i])) word += text[i++];
+      out += FUNCTIONS[word] ?? word;
+      continue;
+    }
+
+    if (ch in SYMBOLS) {
+      out += SYMBOLS[ch];
+      i++;
+      continue;
+    }
+
+    if (ch === "*") {
+      out += "\\cdot ";
+      i++;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out.replace(/ +/g, " ").replace(/ ([}^_),])/g, "$1").trim();
+}
@@ -0,0 +1,201 @@
+import { plainToLatex } from "./plainToLatex";
+import type { MarkupSegment, StructuredText } from "./types";
+import { validateLatex } from "./validateLatex";
+
+// ---------- Texto simples -> segmentos ----------
+
+// artigos e conjunções de uma letra nunca são variáveis
+const SINGLE_LETTER_WORDS = new Set(["a", "e", "o", "A", "E", "O"]);
+
+const FUNCTION_WORDS = /(sen|sin|cos|tan|tg|ln|log|exp|lim)/g;
+
+const MATH_CHARS = /[=+<>≤≥≠·⋅×÷^²³⁴⁵⁶⁷⁸⁹⁻√∞π∈∉∪∩ℝℕℤℚ⇔⇒∨∧|/*−\-\d]/;
+
+/** Uma "palavra" do enunciado parece matemática? */
+function isMathWord(word: string): boolean {
+  if (!word || /[ºªÀ-ÿ"«»“”]/.test(word)) return false;
+  if (/^[a-zA-Z]$/.test(word)) return !SINGLE_LETTER_WORDS.has(word);
+  // palavras comuns (3+ letras seguidas) ficam como texto, exceto nomes de funções
+  if (/[a-zA-Z]{3,}/.test(word.replace(FUNCTION_WORDS, " "))) return false;
+  return MATH_CHARS.test(word) || /^[a-zA-Z]'*\(/.test(word) || /^[a-zA-Z]'+$/.test(word);
+}
+
+function count(text: string, ch: string): number {
+  return text.split(ch).length - 1;
+}
+
+function pushText(segments: MarkupSegment[], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last?.type === "text") last.text += text;
+  else segments.push({ type: "text", text });
+}
+
+// converte um troço matemático; se o LaTeX não passar a validação, fica texto
+function pushMath(segments: MarkupSegment[], run: string) {
+  let lead = "";
+  let trail = "";
+  let body = run;
+  while (body.startsWith("(") && count(body, "(") > count(body, ")")) {
+    lead += "(";
+    body = body.slice(1);
+  }
+  while (body.endsWith(")") && count(body, ")") > count(body, "(")) {
+    trail = ")" + trail;
+    body = body.slice(0, -1);
+  }
+
+  pushText(segments, lead);
+  const latex = body ? plainToLatex(body) : "";
+  if (latex && validateLatex(latex) === null) {
+    segments.push({ type: "math", latex });
+  } else {
+    pushText(segments, body);
+  }
+  pushText(segments, trail);
+}
+
+/**
+ * Estrutura um texto em notação simples ("f(x) = 3x² - 1") em segmentos de
+ * texto e de matemática, por heurística. Serve de recurso quando não há
+ * marcação do modelo e para enunciados antigos.
+ */
+export function structureText(plain: string): StructuredText {
+  const segments: MarkupSegment[] = [];
+  // palavras e os espaços entre elas, por ordem
+  const parts = plain.split(/(\s+)/);
+
+  let run = ""; // troço matemático em construção
+  let pending = ""; // espaço depois do troço (só entra se o troço continuar)
+
+  const flush = () => {
+    if (run) pushMath(segments, run);
+    pushText(segments, pending);
+    run = "";
+    pending = "";
+  };
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (!part) continue;
+
+    if (/^\s+$/.test(part)) {
+      if (run && !part.includes("\n")) pending += part;
+      else {
+        flush();
+        pushText(segments, part);
+      }
+      continue;
+    }
+
+    const punctuation = /[.,;:!?]+$/.exec(part)?.[0] || "";
+    const core = part.slice(0, part.length - punctuation.length);
+
+    if (!isMathWord(core)) {
+      flush();
+      pushText(segments, part);
+      continue;
+    }
+
+    run += pending + core;
+    pending = "";
+
+    // "]-∞, 0]" ou "x = 0, x = 2": a vírgula fica dentro se a matemática continuar
+    const next = parts[i + 2];
+    const continues =
+      punctuation === "," && !parts[i + 1]?.includes("\n") && isMathWord(next || "");
+    if (continues) {
+      run += punctuation;
+    } else if (punctuation) {
+      flush();
+      pushText(segments, punctuation);
+    }
+  }
+
+  flush();
+  return segments;
+}
+
+// ---------- Marcação $…$ -> segmentos ----------
+
+/**
+ * Lê texto com matemática entre $…$ (como o pedimos aos modelos).
+ * Devolve null se um $ ficar por fechar ou algum troço de LaTeX for inválido.
+ */
+export function parseMarkup(markup: string): StructuredText | null {
+  const segments: MarkupSegment[] = [];
+  let text = "";
+  let i = 0;
+
+  while (i < markup.length) {
+    if (markup[i] === "\\" && markup[i + 1] === "$") {
+      text += "$";
+      i += 2;
+      continue;
+    }
+    if (markup[i] !== "$") {
+      text += markup[i++];
+      continue;
+    }
+
+    // $$…$$ é tratado como matemática em linha
+    const delimiter = markup[i + 1] === "$" ? "$$" : "$";
+    const start = i + delimiter.length;
+    let end = start;
+    while (end < markup.length) {
+      if (markup[end] === "\\") end += 2;
+      else if (markup.startsWith(delimiter, end)) break;
+      else end++;
+    }
+    if (end >= markup.length) return null;
+
+    const latex = markup.slice(start, end).trim();
+    if (validateLatex(latex) !== null) return null;
+
+    pushText(segments, text);
+    text = "";
+    segments.push({ type: "math", latex });
+    i = end + delimiter.length;
+  }
+
+  pushText(segments, text);
+  return segments.length ? segments : null;
+}
+
+// ---------- Conversões ----------
+
+function isStructuredText(value: unknown): value is StructuredText {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (segment) =>
+        (segment?.type === "text" && typeof segment.text === "string") ||
+        (segment?.type === "math" &&
+          typeof segment.latex === "string" &&
+          validateLatex(segment.latex) === null),
+    )
+  );
+}
+
+/**
+ * Texto estruturado para `plain`: usa a marcação dada (texto com $…$ vindo do
+ * modelo, ou segmentos já guardados) se for válida; senão, a heurística.
+ */
+export function buildStructuredText(plain: string, markup?: unknown): StructuredText {
+  if (typeof markup === "string" && markup.trim()) {
+    const parsed = parseMarkup(markup.trim());
+    if (parsed) return parsed;
+  }
+  if (isStructuredText(markup)) return markup;
+  return structureText(plain);
+}
+
+/** Texto estruturado com a matemática entre $…$ (o formato pedido aos modelos). */
+export function markupToString(structured: StructuredText): string {
+  return structured
+    .map((segment) =>
+      segment.type === "math" ? `$${segment.latex}$` : segment.text.replace(/\$/g, "\\$"),
+    )
+    .join("");
+}
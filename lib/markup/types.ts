@@ -0,0 +1,9 @@
+// Texto estruturado: segmentos de texto simples e de matemática em LaTeX.
+// Os clientes (ex.: app móvel) desenham o LaTeX com KaTeX/MathJax.
+
+export type TextSegment = { type: "text"; text: string };
+export type MathSegment = { type: "math"; latex: string };
+
+export type MarkupSegment = TextSegment | MathSegment;
+
+export type StructuredText = MarkupSegment[];
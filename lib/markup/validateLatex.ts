@@ -0,0 +1,144 @@
+// Validação do LaTeX dos segmentos de matemática: só aceitamos um subconjunto
+// de comandos que o KaTeX e o (xe)latex compilam, com chavetas equilibradas
+// e o número certo de argumentos.
+
+const MAX_LATEX_LENGTH = 500;
+
+// comando -> número de argumentos obrigatórios entre chavetas
+const COMMANDS: Record<string, number> = {
+  frac: 2,
+  dfrac: 2,
+  tfrac: 2,
+  binom: 2,
+  sqrt: 1,
+  mathbb: 1,
+  mathbf: 1,
+  mathrm: 1,
+  text: 1,
+  operatorname: 1,
+  overline: 1,
+  hat: 1,
+  widehat: 1,
+  vec: 1,
+  overrightarrow: 1,
+};
+
+const SYMBOLS = new Set([
+  "cdot", "times", "div", "pm", "mp", "leq", "geq", "le", "ge", "neq", "approx",
+  "equiv", "infty", "to", "rightarrow", "leftarrow", "Rightarrow", "Leftrightarrow",
+  "Leftarrow", "in", "notin", "subset", "subseteq", "cup", "cap", "setminus",
+  "emptyset", "forall", "exists", "vee", "wedge", "neg", "mid", "vert", "lvert",
+  "rvert", "ldots", "cdots", "dots", "prime", "circ", "degree", "angle", "perp",
+  "parallel", "sum", "prod", "int", "lim", "limits", "partial", "displaystyle",
+  "ln", "log", "exp", "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos",
+  "arctan", "max", "min", "quad", "qquad",
+  "alpha", "beta", "gamma", "delta", "epsilon", "varepsilon", "theta", "lambda",
+  "mu", "pi", "rho", "sigma", "tau", "phi", "varphi", "omega", "Delta", "Gamma",
+  "Omega", "Pi", "Sigma", "Phi", "Theta", "Lambda",
+]);
+
+// \, \; \! \{ \} \% \  (espaços e carateres escapados)
+const ESCAPES = new Set([",", ";", ":", "!", "{", "}", "%", " ", "|", "#", "&", "_", "$"]);
+
+const DELIMITERS = new Set(["(", ")", "[", "]", "|", ".", "\\{", "\\}", "\\lvert", "\\rvert", "\\vert"]);
+
+function readCommand(latex: string, at: number): { name: string; end: number } {
+  let end = at + 1;
+  if (/[a-zA-Z]/.test(latex[end] || "")) {
+    while (/[a-zA-Z]/.test(latex[end] || "")) end++;
+  } else {
+    end++;
+  }
+  return { name: latex.slice(at + 1, end), end };
+}
+
+function skipSpaces(latex: string, at: number): number {
+  while (latex[at] === " ") at++;
+  return at;
+}
+
+/** Índice logo a seguir ao grupo {…} que começa em `at` (ou -1). */
+function skipGroup(latex: string, at: number): number {
+  if (latex[at] !== "{") return -1;
+  let depth = 0;
+  for (let i = at; i < latex.length; i++) {
+    if (latex[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (latex[i] === "{") depth++;
+    if (latex[i] === "}") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Devolve null se o LaTeX for aceite, ou a razão da rejeição.
+ */
+export function validateLatex(latex: string): string | null {
+  if (!latex.trim()) return "empty math segment";
+  if (latex.length > MAX_LATEX_LENGTH) return "math segment too long";
+
+  let depth = 0;
+  let leftRight = 0;
+
+  for (let i = 0; i < latex.length; i++) {
+    const ch = latex[i];
+
+    if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth < 0) return "unbalanced braces";
+    } else if (ch === "$") return "nested math delimiter";
+    else if (ch === "%" || ch === "#" || ch === "&") return `unescaped "${ch}"`;
+    else if (ch === "^" || ch === "_") {
+      const next = latex[skipSpaces(latex, i + 1)];
+      if (next === undefined || next === "}" || next === "^" || next === "_") {
+        return `"${ch}" without argument`;
+      }
+    } else if (ch === "\\") {
+      const { name, end } = readCommand(latex, i);
+
+      if (ESCAPES.has(name)) {
+        i = end - 1;
+        continue;
+      }
+
+      if (name === "left" || name === "right") {
+        const start = skipSpaces(latex, end);
+        const delimiter = latex[start] === "\\" ? `\\${readCommand(latex, start).name}` : latex[start];
+        if (!DELIMITERS.has(delimiter)) return `invalid delimiter after \\${name}`;
+        leftRight += name === "left" ? 1 : -1;
+        if (leftRight < 0) return "\\right without \\left";
+        i = start + delimiter.length - 1;
+        continue;
+      }
+
+      if (name in COMMANDS) {
+        let cursor = end;
+        // \sqrt[n]{…}
+        if (name === "sqrt" && latex[skipSpaces(latex, cursor)] === "[") {
+          cursor = latex.indexOf("]", cursor);
+          if (cursor === -1) return "unclosed optional argument";
+          cursor++;
+        }
+        for (let arg = 0; arg < COMMANDS[name]; arg++) {
+          cursor = skipGroup(latex, skipSpaces(latex, cursor));
+          if (cursor === -1) return `\\${name} needs ${COMMANDS[name]} argument(s)`;
+        }
+        i = end - 1;
+        continue;
+      }
+
+      if (!SYMBOLS.has(name)) return `unsupported command \\${name}`;
+      i = end - 1;
+    }
+  }
+
+  if (depth !== 0) return "unbalanced braces";
+  if (leftRight !== 0) return "unbalanced \\left/\\right";
+  return null;
+}
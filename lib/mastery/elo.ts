@@ -0,0 +1,59 @@
+import type { Difficulty, ExerciseType } from "@/lib/exercises/types";
+
+// Rating inicial do aluno num subtema que nunca praticou
+export const INITIAL_RATING = 1200;
+
+// Rating de um exercício "médio" de referência: o domínio é a
+// probabilidade estimada de o aluno o resolver bem
+const MASTERY_REFERENCE_RATING = 1300;
+
+const DIFFICULTY_RATING: Record<Difficulty, number> = {
+  easy: 1000,
+  medium: 1200,
+  hard: 1400,
+};
+
+// os tipos mais exigentes valem mais do que a dificuldade sozinha
+const TYPE_OFFSET: Record<ExerciseType, number> = {
+  basic_procedural: 0,
+  mixed_rules: 50,
+  applied_word_problem: 100,
+  exam_multi_step: 150,
+};
+
+export function exerciseRating(
+  difficulty: Difficulty,
+  exerciseType: ExerciseType | null,
+): number {
+  return DIFFICULTY_RATING[difficulty] + (exerciseType ? TYPE_OFFSET[exerciseType] : 0);
+}
+
+/** Pontuação esperada (0–1) do aluno num exercício com este rating. */
+export function expectedScore(studentRating: number, itemRating: number): number {
+  return 1 / (1 + 10 ** ((itemRating - studentRating) / 400));
+}
+
+// K alto nas primeiras tentativas (estimativa ainda incerta), depois estabiliza
+function kFactor(attempts: number): number {
+  return Math.max(24, 96 / Math.sqrt(1 + attempts));
+}
+
+/**
+ * Atualiza o rating depois de uma tentativa. A pontuação (0–100) é
+ * usada como resultado contínuo, em vez de só certo/errado.
+ */
+export function updateRating(params: {
+  rating: number;
+  attempts: number;
+  itemRating: number;
+  score: number;
+}): number {
+  const outcome = Math.max(0, Math.min(100, params.score)) / 100;
+  const expected = expectedScore(params.rating, params.itemRating);
+  return params.rating + kFactor(params.attempts) * (outcome - expected);
+}
+
+/** Domínio (0–1) a partir do rating. */
+export function masteryFromRating(rating: number): number {
+  return Math.round(expectedScore(rating, MASTERY_REFERENCE_RATING) * 100) / 100;
+}
@@ -0,0 +1,16 @@
+export {
+  INITIAL_RATING,
+  expectedScore,
+  exerciseRating,
+  masteryFromRating,
+  updateRating,
+} from "./elo";
+export { WEAK_MASTERY, effectiveDueAt, scheduleReview, type ReviewSchedule } from "./scheduling";
+export { recordMasteryFromAttempt } from "./updateMastery";
+export {
+  recommendStudyPlan,
+  summarizeMastery,
+  type StudyReason,
+  type StudyRecommendation,
+  type SubtopicMastery,
+} from "./recommend";
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  INITIAL_RATING,
+  exerciseRating,
+  expectedScore,
+  masteryFromRating,
+  updateRating,
+} from "./elo";
+import { WEAK_MASTERY, effectiveDueAt, scheduleReview } from "./scheduling";
+
+const AT = new Date("2026-10-19T10:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Elo rating", () => {
+  it("rates harder difficulties and types higher", () => {
+    assert.equal(exerciseRating("easy", null), 1000);
+    assert.ok(exerciseRating("medium", "mixed_rules") > exerciseRating("medium", null));
+    assert.ok(exerciseRating("hard", "exam_multi_step") > exerciseRating("hard", "mixed_rules"));
+  });
+
+  it("expects half the score against an item of the same rating", () => {
+    assert.equal(expectedScore(1200, 1200), 0.5);
+    assert.ok(expectedScore(1400, 1200) > 0.5);
+  });
+
+  it("moves the rating towards the score", () => {
+    const base = { rating: INITIAL_RATING, attempts: 0, itemRating: INITIAL_RATING };
+    assert.ok(updateRating({ ...base, score: 100 }) > INITIAL_RATING);
+    assert.ok(updateRating({ ...base, score: 0 }) < INITIAL_RATING);
+    assert.equal(updateRating({ ...base, score: 50 }), INITIAL_RATING);
+  });
+
+  it("moves less once the student has many attempts", () => {
+    const base = { rating: INITIAL_RATING, itemRating: INITIAL_RATING, score: 100 };
+    const first = updateRating({ ...base, attempts: 0 }) - INITIAL_RATING;
+    const later = updateRating({ ...base, attempts: 50 }) - INITIAL_RATING;
+    assert.ok(later < first);
+    assert.ok(later > 0);
+  });
+
+  it("clamps scores outside 0–100", () => {
+    const base = { rating: INITIAL_RATING, attempts: 3, itemRating: 1300 };
+    assert.equal(updateRating({ ...base, score: 140 }), updateRating({ ...base, score: 100 }));
+    assert.equal(updateRating({ ...base, score: -20 }), updateRating({ ...base, score: 0 }));
+  });
+
+  it("turns the rating into a mastery between 0 and 1", () => {
+    assert.equal(masteryFromRating(1300), 0.5);
+    assert.ok(masteryFromRating(INITIAL_RATING) < 0.5);
+    assert.ok(masteryFromRating(2000) <= 1);
+  });
+});
+
+describe("scheduleReview", () => {
+  it("spaces out good answers", () => {
+    assert.equal(scheduleReview({ previousIntervalDays: null, score: 90, at: AT }).intervalDays, 2);
+    assert.equal(scheduleReview({ previousIntervalDays: 4, score: 90, at: AT }).intervalDays, 10);
+  });
+
+  it("grows slowly after a pass", () => {
+    assert.equal(scheduleReview({ previousIntervalDays: null, score: 65, at: AT }).intervalDays, 1);
+    assert.equal(scheduleReview({ previousIntervalDays: 10, score: 65, at: AT }).intervalDays, 13);
+  });
+
+  it("brings a failed subtopic back the next day", () => {
+    const schedule = scheduleReview({ previousIntervalDays: 30, score: 40, at: AT });
+    assert.deepEqual(schedule, {
+      intervalDays: 1,
+      dueAt: new Date(AT.getTime() + DAY_MS).toISOString(),
+    });
+  });
+
+  it("never waits more than 60 days", () => {
+    assert.equal(scheduleReview({ previousIntervalDays: 40, score: 100, at: AT }).intervalDays, 60);
+  });
+});
+
+describe("effectiveDueAt", () => {
+  const exam = new Date(AT.getTime() + 20 * DAY_MS);
+
+  it("keeps the due date without an exam", () => {
+    const dueAt = new Date(AT.getTime() + 30 * DAY_MS).toISOString();
+    const due = effectiveDueAt({ dueAt, lastPracticedAt: null, mastery: 0.9, examDate: null });
+    assert.equal(due?.toISOString(), dueAt);
+  });
+
+  it("never schedules a review after the day before the exam", () => {
+    const due = effectiveDueAt({
+      dueAt: new Date(AT.getTime() + 30 * DAY_MS).toISOString(),
+      lastPracticedAt: AT.toISOString(),
+      mastery: 0.9,
+      examDate: exam,
+    });
+    assert.equal(due?.getTime(), exam.getTime() - DAY_MS);
+  });
+
+  it("brings a weak subtopic back halfway to the exam", () => {
+    const due = effectiveDueAt({
+      dueAt: new Date(AT.getTime() + 15 * DAY_MS).toISOString(),
+      lastPracticedAt: AT.toISOString(),
+      mastery: WEAK_MASTERY - 0.1,
+      examDate: exam,
+    });
+    assert.equal(due?.getTime(), AT.getTime() + 10 * DAY_MS);
+  });
+
+  it("returns null for a subtopic that was never scheduled", () => {
+    const due = effectiveDueAt({ dueAt: null, lastPracticedAt: null, mastery: 0, examDate: exam });
+    assert.equal(due, null);
+  });
+});
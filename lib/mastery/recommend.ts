@@ -0,0 +1,206 @@
+import { listStudentMastery, type MasteryRecord } from "@/lib/db/mastery";
+import { listSubtopicContexts } from "@/lib/exercises/subtopicContext";
+import type { Difficulty, ExerciseType, SubtopicContext } from "@/lib/exercises/types";
+import { EXERCISE_LEVELS } from "@/lib/sessions/adaptive";
+import { expectedScore, exerciseRating, masteryFromRating } from "./elo";
+import { WEAK_MASTERY, daysBetween, effectiveDueAt } from "./scheduling";
+
+// ---------- Tipos ----------
+
+export type StudyReason =
+  | "review_due" // chegou a data da revisão
+  | "weak" // domínio baixo, ainda sem revisão marcada para hoje
+  | "new" // subtema ainda não praticado
+  | "maintain"; // já dominado, revisão ainda não vencida
+
+export type StudyRecommendation = {
+  subtopicId: string;
+  subtopicName: string;
+  topicName: string | null;
+  topicYear: number | null;
+  topicCode: string | null;
+  reason: StudyReason;
+  mastery: number | null; // 0–1; null se ainda não praticou
+  difficulty: Difficulty;
+  exerciseType: ExerciseType;
+  dueAt: string | null;
+  priority: number;
+};
+
+export type SubtopicMastery = {
+  subtopicId: string;
+  subtopicName: string;
+  mastery: number;
+  attempts: number;
+  lastPracticedAt: string | null;
+  dueAt: string | null;
+  byExerciseType: Partial<Record<ExerciseType, { mastery: number; attempts: number }>>;
+};
+
+// ---------- Parâmetros ----------
+
+// o exercício ideal é o que o aluno resolve bem ~70% das vezes
+const TARGET_SUCCESS = 0.7;
+const WEAK_THRESHOLD = 0.5;
+// a menos de 30 dias do exame, quem domina passa a treinar itens de exame
+const EXAM_MODE_DAYS = 30;
+
+// ---------- Domínio ----------
+
+function groupBySubtopic(records: MasteryRecord[]): Map<string, MasteryRecord[]> {
+  const groups = new Map<string, MasteryRecord[]>();
+  for (const record of records) {
+    const list = groups.get(record.subtopicId) || [];
+    list.push(record);
+    groups.set(record.subtopicId, list);
+  }
+  return groups;
+}
+
+export function summarizeMastery(records: MasteryRecord[]): SubtopicMastery[] {
+  const summaries: SubtopicMastery[] = [];
+
+  for (const group of groupBySubtopic(records).values()) {
+    const overall = group.find((r) => r.scope === "all");
+    if (!overall) continue;
+
+    const byExerciseType: SubtopicMastery["byExerciseType"] = {};
+    for (const record of group) {
+      if (record.scope === "all") continue;
+      byExerciseType[record.scope] = {
+        mastery: masteryFromRating(record.rating),
+        attempts: record.attempts,
+      };
+    }
+
+    summaries.push({
+      subtopicId: overall.subtopicId,
+      subtopicName: overall.subtopicName,
+      mastery: masteryFromRating(overall.rating),
+      attempts: overall.attempts,
+      lastPracticedAt: overall.lastPracticedAt,
+      dueAt: overall.dueAt,
+      byExerciseType,
+    });
+  }
+
+  return summaries.sort((a, b) => a.mastery - b.mastery);
+}
+
+// ---------- Plano do exercício ----------
+
+/**
+ * Escolhe o nível (dificuldade + tipo) em que a pontuação esperada fica
+ * mais perto de TARGET_SUCCESS, usando o rating do tipo quando existe.
+ */
+function planLevel(
+  group: MasteryRecord[],
+  examSoon: boolean,
+): { difficulty: Difficulty; exerciseType: ExerciseType } {
+  const overall = group.find((r) => r.scope === "all");
+  if (!overall) return EXERCISE_LEVELS[0];
+
+  const hardest = EXERCISE_LEVELS[EXERCISE_LEVELS.length - 1];
+  if (examSoon && masteryFromRating(overall.rating) >= WEAK_MASTERY) {
+    return hardest;
+  }
+
+  let best = EXERCISE_LEVELS[0];
+  let bestGap = Infinity;
+  for (const level of EXERCISE_LEVELS) {
+    const rating = group.find((r) => r.scope === level.exerciseType)?.rating ?? overall.rating;
+    const gap = Math.abs(
+      expectedScore(rating, exerciseRating(level.difficulty, level.exerciseType)) - TARGET_SUCCESS,
+    );
+    if (gap < bestGap) {
+      best = level;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
+
+// ---------- Recomendação ----------
+
+function recommendationFor(
+  subtopic: SubtopicContext,
+  group: MasteryRecord[] | undefined,
+  curriculumPosition: number,
+  now: Date,
+  examDate: Date | null,
+): StudyRecommendation {
+  const examSoon = examDate !== null && daysBetween(now, examDate) <= EXAM_MODE_DAYS;
+  const base = {
+    subtopicId: subtopic.subtopicId,
+    subtopicName: subtopic.subtopicName,
+    topicName: subtopic.topicName,
+    topicYear: subtopic.topicYear,
+    topicCode: subtopic.topicCode,
+  };
+
+  const overall = group?.find((r) => r.scope === "all");
+  if (!group || !overall) {
+    // subtemas novos pela ordem do programa, depois de tudo o que está em atraso
+    return {
+      ...base,
+      ...EXERCISE_LEVELS[0],
+      reason: "new",
+      mastery: null,
+      dueAt: null,
+      priority: Math.max(1, 40 - curriculumPosition),
+    };
+  }
+
+  const mastery = masteryFromRating(overall.rating);
+  const due = effectiveDueAt({
+    dueAt: overall.dueAt,
+    lastPracticedAt: overall.lastPracticedAt,
+    mastery,
+    examDate,
+  });
+  const level = planLevel(group, examSoon);
+  const common = { ...base, ...level, mastery, dueAt: due?.toISOString() ?? null };
+
+  if (due && due <= now) {
+    const overdueDays = Math.min(20, daysBetween(due, now));
+    return { ...common, reason: "review_due", priority: 100 - mastery * 50 + overdueDays };
+  }
+  if (mastery < WEAK_THRESHOLD) {
+    return { ...common, reason: "weak", priority: 60 - mastery * 40 };
+  }
+  return { ...common, reason: "maintain", priority: 10 * (1 - mastery) };
+}
+
+/**
+ * Ordena os subtemas do programa pelo que o aluno deve estudar a seguir:
+ * revisões vencidas (as mais fracas primeiro), subtemas fracos,
+ * subtemas novos pela ordem do programa e, por fim, manutenção.
+ */
+export async function recommendStudyPlan(params: {
+  studentId: string;
+  year?: number;
+  examDate?: Date | null;
+  limit?: number;
+  now?: Date;
+}): Promise<StudyRecommendation[]> {
+  const now = params.now || new Date();
+  const examDate = params.examDate && params.examDate > now ? params.examDate : null;
+
+  const [subtopics, records] = await Promise.all([
+    listSubtopicContexts({ year: params.year }),
+    listStudentMastery({ studentId: params.studentId }),
+  ]);
+  const groups = groupBySubtopic(records);
+
+  let newPosition = 0;
+  const recommendations = subtopics.map((subtopic) => {
+    const group = groups.get(subtopic.subtopicId);
+    const position = group ? 0 : newPosition++;
+    return recommendationFor(subtopic, group, position, now, examDate);
+  });
+
+  return recommendations
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, params.limit ?? 5)
+    .map((r) => ({ ...r, priority: Math.round(r.priority * 10) / 10 }));
+}
@@ -0,0 +1,74 @@
+// Repetição espaçada (simplificação do SM-2): boas respostas afastam a
+// próxima revisão, más respostas trazem o subtema de volta no dia seguinte.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_INTERVAL_DAYS = 60;
+const GOOD_SCORE = 80;
+const PASS_SCORE = 60;
+
+// abaixo disto o subtema conta como "fraco" para a preparação do exame
+export const WEAK_MASTERY = 0.75;
+
+export type ReviewSchedule = {
+  intervalDays: number;
+  dueAt: string;
+};
+
+export function scheduleReview(params: {
+  previousIntervalDays: number | null;
+  score: number;
+  at: Date;
+}): ReviewSchedule {
+  const previous = params.previousIntervalDays;
+  let intervalDays: number;
+
+  if (params.score >= GOOD_SCORE) {
+    intervalDays = previous ? previous * 2.5 : 2;
+  } else if (params.score >= PASS_SCORE) {
+    intervalDays = previous ? previous * 1.3 : 1;
+  } else {
+    intervalDays = 1;
+  }
+
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.round(intervalDays * 10) / 10);
+
+  return {
+    intervalDays,
+    dueAt: new Date(params.at.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Data efetiva da próxima revisão, tendo em conta o exame:
+ * nenhuma revisão fica para depois da véspera do exame, e os subtemas
+ * fracos voltam a meio do tempo que falta (revisões cada vez mais juntas).
+ */
+export function effectiveDueAt(params: {
+  dueAt: string | null;
+  lastPracticedAt: string | null;
+  mastery: number;
+  examDate: Date | null;
+}): Date | null {
+  if (!params.dueAt) return null;
+
+  let due = new Date(params.dueAt).getTime();
+  const exam = params.examDate?.getTime();
+
+  if (exam !== undefined) {
+    due = Math.min(due, exam - DAY_MS);
+
+    if (params.mastery < WEAK_MASTERY && params.lastPracticedAt) {
+      const last = new Date(params.lastPracticedAt).getTime();
+      if (last < exam) {
+        due = Math.min(due, last + (exam - last) / 2);
+      }
+    }
+  }
+
+  return new Date(due);
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / DAY_MS;
+}
@@ -0,0 +1,81 @@
+import { listStudentMastery, upsertMastery, type MasteryRecord, type MasteryScope } from "@/lib/db/mastery";
+import type { Difficulty, ExerciseType } from "@/lib/exercises/types";
+import { INITIAL_RATING, exerciseRating, updateRating } from "./elo";
+import { scheduleReview } from "./scheduling";
+
+function emptyRecord(params: {
+  studentId: string;
+  subtopicId: string;
+  subtopicName: string;
+  scope: MasteryScope;
+}): MasteryRecord {
+  return {
+    ...params,
+    rating: INITIAL_RATING,
+    attempts: 0,
+    lastScore: null,
+    lastPracticedAt: null,
+    intervalDays: null,
+    dueAt: null,
+  };
+}
+
+/**
+ * Atualiza o domínio do aluno depois de uma tentativa avaliada:
+ * o registo global do subtema e, se soubermos o tipo, o do tipo de exercício.
+ * Tentativas sem subtopicId (enunciados livres) não contam.
+ */
+export async function recordMasteryFromAttempt(params: {
+  studentId: string;
+  subtopicId: string | null;
+  subtopicName: string;
+  exerciseType: ExerciseType | null;
+  difficulty: Difficulty;
+  score: number;
+  at?: Date;
+}): Promise<MasteryRecord[]> {
+  if (!params.subtopicId) return [];
+
+  const subtopicId = params.subtopicId;
+  const at = params.at || new Date();
+  const scopes: MasteryScope[] = params.exerciseType ? ["all", params.exerciseType] : ["all"];
+
+  const existing = await listStudentMastery({ studentId: params.studentId, subtopicId });
+  const itemRating = exerciseRating(params.difficulty, params.exerciseType);
+
+  const updated = scopes.map((scope): MasteryRecord => {
+    const record =
+      existing.find((r) => r.scope === scope) ||
+      emptyRecord({
+        studentId: params.studentId,
+        subtopicId,
+        subtopicName: params.subtopicName,
+        scope,
+      });
+
+    const schedule = scheduleReview({
+      previousIntervalDays: record.intervalDays,
+      score: params.score,
+      at,
+    });
+
+    return {
+      ...record,
+      subtopicName: params.subtopicName,
+      rating: updateRating({
+        rating: record.rating,
+        attempts: record.attempts,
+        itemRating,
+        score: params.score,
+      }),
+      attempts: record.attempts + 1,
+      lastScore: params.score,
+      lastPracticedAt: at.toISOString(),
+      intervalDays: schedule.intervalDays,
+      dueAt: schedule.dueAt,
+    };
+  });
+
+  await upsertMastery(updated);
+  return updated;
+}
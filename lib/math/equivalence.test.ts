@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkEquivalence } from "./equivalence";
+import { MathParseError, evaluateExpression, parseExpression } from "./parser";
+
+describe("parseExpression", () => {
+  it("takes a whole product as the argument of a function without parentheses", () => {
+    const bare = evaluateExpression(parseExpression("cos2x"), { x: 0.7 });
+    assert.equal(bare, Math.cos(1.4));
+  });
+
+  it("reads superscript exponents, including negative ones", () => {
+    assert.equal(evaluateExpression(parseExpression("x²"), { x: 3 }), 9);
+    assert.equal(evaluateExpression(parseExpression("x⁻¹"), { x: 4 }), 0.25);
+  });
+
+  it("rejects a superscript minus without digits", () => {
+    assert.throws(() => parseExpression("x⁻"), MathParseError);
+  });
+});
+
+describe("checkEquivalence", () => {
+  it("accepts the same function written with and without parentheses", () => {
+    assert.equal(checkEquivalence("2cos2x", "2cos(2x)"), "equivalent");
+    assert.equal(checkEquivalence("f'(x) = -2sin2x", "-2sin(2x)"), "equivalent");
+  });
+
+  it("accepts superscripts against the caret notation", () => {
+    assert.equal(checkEquivalence("6x² - 10x + 3", "6x^2 - 10x + 3"), "equivalent");
+    assert.equal(checkEquivalence("x⁻¹", "1/x"), "equivalent");
+  });
+
+  it("samples negative values, so |x| and sqrt(x^2) are not x", () => {
+    assert.equal(checkEquivalence("x", "|x|"), "not_equivalent");
+    assert.equal(checkEquivalence("sqrt(x^2)", "x"), "not_equivalent");
+    assert.equal(checkEquivalence("sqrt(x^2)", "|x|"), "equivalent");
+  });
+
+  it("rejects different expressions", () => {
+    assert.equal(checkEquivalence("2cos(x)", "2cos(2x)"), "not_equivalent");
+    assert.equal(checkEquivalence("6x^2 - 10x", "6x^2 - 10x + 3"), "not_equivalent");
+  });
+
+  it("does not guess when an answer cannot be parsed", () => {
+    assert.equal(checkEquivalence("x⁻", "1/x"), "unparseable");
+    assert.equal(checkEquivalence("x + k", "x"), "unparseable");
+  });
+});
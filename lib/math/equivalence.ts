@@ -0,0 +1,100 @@
+import {
+  MathParseError,
+  collectVariables,
+  evaluateExpression,
+  parseExpression,
+  type MathNode,
+} from "./parser";
+
+export type EquivalenceVerdict = "equivalent" | "not_equivalent" | "unparseable";
+
+const SAMPLE_COUNT = 24;
+// pontos fora do domínio (ln, √, 1/x) saltam-se, mas um veredicto precisa de pelo menos estes
+const MIN_VALID_SAMPLES = 8;
+// positivos, negativos e perto de zero: só com positivos, x e |x| ou √(x²) seriam iguais
+const SAMPLE_RANGES: [number, number][] = [
+  [0.3, 3.3],
+  [-3.3, -0.3],
+  [-0.3, 0.3],
+];
+
+/**
+ * Fica só com o lado direito da resposta ("f'(x) = 6x - 5" -> "6x - 5")
+ * e corta comentários depois de vírgula ou ponto e vírgula
+ * ("4ln(x) + 4 - 3/x, para x > 0" -> "4ln(x) + 4 - 3/x").
+ */
+export function extractFinalExpression(answer: string): string {
+  let text = answer.trim();
+
+  const eq = text.lastIndexOf("=");
+  if (eq !== -1) text = text.slice(eq + 1);
+
+  // vírgula que não é decimal (0,5 mantém-se)
+  const cut = text.search(/;|,(?!\d)|(?<!\d),/);
+  if (cut !== -1) text = text.slice(0, cut);
+
+  return text.replace(/[.\s]+$/, "").trim();
+}
+
+// gerador determinístico: o mesmo par de respostas tem sempre o mesmo veredicto
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+function tryParse(text: string): MathNode | null {
+  try {
+    return parseExpression(text);
+  } catch (err) {
+    if (err instanceof MathParseError) return null;
+    throw err;
+  }
+}
+
+function close(a: number, b: number, relTol: number): boolean {
+  return Math.abs(a - b) <= relTol * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Compara duas expressões avaliando-as em pontos aleatórios.
+ * Respostas numéricas (sem variáveis) aceitam arredondamentos às milésimas.
+ */
+export function checkEquivalence(
+  studentAnswer: string,
+  expectedAnswer: string,
+): EquivalenceVerdict {
+  const student = tryParse(extractFinalExpression(studentAnswer));
+  const expected = tryParse(extractFinalExpression(expectedAnswer));
+  if (!student || !expected) return "unparseable";
+
+  const variables = [...collectVariables(expected)];
+
+  // letras que não existem na resposta esperada são quase sempre texto ("logo", "R:")
+  for (const name of collectVariables(student)) {
+    if (!variables.includes(name)) return "unparseable";
+  }
+  const relTol = variables.length === 0 ? 5e-3 : 1e-6;
+
+  const random = seededRandom(studentAnswer.length * 7919 + expectedAnswer.length);
+  let valid = 0;
+
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const scope: Record<string, number> = {};
+    variables.forEach((name, index) => {
+      const [min, max] = SAMPLE_RANGES[(i + index) % SAMPLE_RANGES.length];
+      scope[name] = min + random() * (max - min);
+    });
+
+    const a = evaluateExpression(student, scope);
+    const b = evaluateExpression(expected, scope);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+
+    if (!close(a, b, relTol)) return "not_equivalent";
+    valid++;
+  }
+
+  return valid >= MIN_VALID_SAMPLES ? "equivalent" : "unparseable";
+}
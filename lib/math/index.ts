@@ -0,0 +1,13 @@
+export {
+  MathParseError,
+  collectVariables,
+  evaluateExpression,
+  parseExpression,
+  type MathFunction,
+  type MathNode,
+} from "./parser";
+export {
+  checkEquivalence,
+  extractFinalExpression,
+  type EquivalenceVerdict,
+} from "./equivalence";
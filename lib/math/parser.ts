@@ -0,0 +1,366 @@
+// Parser de expressões como as escrevem os alunos:
+// "6x - 5", "(2x+1)·e^{x²}", "4ln(x) + 4 - 3/x", "0,5x²", "√(x+1)".
+
+export type MathNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "unary"; op: "-"; arg: MathNode }
+  | { kind: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  | { kind: "call"; fn: MathFunction; arg: MathNode };
+
+export type MathFunction =
+  | "sin"
+  | "cos"
+  | "tan"
+  | "ln"
+  | "log"
+  | "exp"
+  | "sqrt"
+  | "abs";
+
+export class MathParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MathParseError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "ident"; value: string }
+  | { type: "op"; value: "+" | "-" | "*" | "/" | "^" }
+  | { type: "open"; value: "(" | "{" | "[" }
+  | { type: "close"; value: ")" | "}" | "]" }
+  | { type: "sqrt" }
+  | { type: "pipe" };
+
+// nomes reconhecidos como funções (os mais compridos primeiro)
+const FUNCTION_NAMES: [string, MathFunction][] = [
+  ["sqrt", "sqrt"],
+  ["sen", "sin"],
+  ["sin", "sin"],
+  ["cos", "cos"],
+  ["tan", "tan"],
+  ["tg", "tan"],
+  ["exp", "exp"],
+  ["log", "log"],
+  ["abs", "abs"],
+  ["ln", "ln"],
+];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+  "⁻": "-",
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const text = input.replace(/\s+/g, "");
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/[0-9.]/.test(ch)) {
+      let j = i;
+      while (j < text.length && /[0-9.]/.test(text[j])) j++;
+      // vírgula decimal (0,5) quando está entre algarismos
+      if (text[j] === "," && /[0-9]/.test(text[j + 1] || "")) {
+        j++;
+        while (j < text.length && /[0-9]/.test(text[j])) j++;
+      }
+      const value = Number(text.slice(i, j).replace(",", "."));
+      if (Number.isNaN(value)) {
+        throw new MathParseError(`Invalid number "${text.slice(i, j)}"`);
+      }
+      tokens.push({ type: "number", value });
+      i = j;
+      continue;
+    }
+
+    if (ch in SUPERSCRIPTS) {
+      // x²  ->  x ^ 2  (também x⁻¹)
+      let j = i;
+      let digits = "";
+      while (j < text.length && text[j] in SUPERSCRIPTS) {
+        digits += SUPERSCRIPTS[text[j]];
+        j++;
+      }
+      // um "⁻" sozinho (x⁻) não é expoente nenhum
+      if (!/^-?[0-9]+$/.test(digits)) {
+        throw new MathParseError(`Invalid exponent "${text.slice(i, j)}"`);
+      }
+      tokens.push({ type: "op", value: "^" });
+      tokens.push({ type: "number", value: Number(digits) });
+      i = j;
+      continue;
+    }
+
+    if (/[a-zA-Zπ]/.test(ch)) {
+      const rest = text.slice(i).toLowerCase();
+      const fn = FUNCTION_NAMES.find(([name]) => rest.startsWith(name));
+      if (fn) {
+        tokens.push({ type: "ident", value: fn[1] });
+        i += fn[0].length;
+      } else if (rest.startsWith("pi")) {
+        tokens.push({ type: "ident", value: "π" });
+        i += 2;
+      } else {
+        // variáveis de uma só letra: "xe" é x·e
+        tokens.push({ type: "ident", value: ch });
+        i += 1;
+      }
+      continue;
+    }
+
+    if (ch === "+") tokens.push({ type: "op", value: "+" });
+    else if (ch === "-" || ch === "−" || ch === "–") tokens.push({ type: "op", value: "-" });
+    else if (ch === "*" || ch === "·" || ch === "×" || ch === "⋅") tokens.push({ type: "op", value: "*" });
+    else if (ch === "/" || ch === "÷") tokens.push({ type: "op", value: "/" });
+    else if (ch === "^") tokens.push({ type: "op", value: "^" });
+    else if (ch === "(" || ch === "{" || ch === "[") tokens.push({ type: "open", value: ch });
+    else if (ch === ")" || ch === "}" || ch === "]") tokens.push({ type: "close", value: ch });
+    else if (ch === "√") tokens.push({ type: "sqrt" });
+    else if (ch === "|") tokens.push({ type: "pipe" });
+    else throw new MathParseError(`Unexpected character "${ch}"`);
+
+    i += 1;
+  }
+
+  return tokens;
+}
+
+const CLOSING: Record<string, string> = { "(": ")", "{": "}", "[": "]" };
+
+class Parser {
+  private pos = 0;
+  private absDepth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): MathNode {
+    if (this.tokens.length === 0) throw new MathParseError("Empty expression");
+    const node = this.expression();
+    if (this.pos < this.tokens.length) {
+      throw new MathParseError("Unexpected trailing input");
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new MathParseError("Unexpected end of expression");
+    return token;
+  }
+
+  private isOp(token: Token | undefined, value: string): boolean {
+    return token?.type === "op" && token.value === value;
+  }
+
+  // expression := term (("+" | "-") term)*
+  private expression(): MathNode {
+    let node = this.term();
+    while (this.isOp(this.peek(), "+") || this.isOp(this.peek(), "-")) {
+      const op = (this.next() as { value: "+" | "-" }).value;
+      node = { kind: "binary", op, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  // term := unary (("*" | "/" | multiplicação implícita) unary)*
+  private term(): MathNode {
+    let node = this.unary();
+    for (;;) {
+      const token = this.peek();
+      if (this.isOp(token, "*") || this.isOp(token, "/")) {
+        const op = (this.next() as { value: "*" | "/" }).value;
+        node = { kind: "binary", op, left: node, right: this.unary() };
+      } else if (this.startsPrimary(token)) {
+        node = { kind: "binary", op: "*", left: node, right: this.power() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private startsPrimary(token: Token | undefined): boolean {
+    if (!token) return false;
+    // dentro de |...| um "|" fecha o valor absoluto
+    if (token.type === "pipe") return this.absDepth === 0;
+    return (
+      token.type === "number" ||
+      token.type === "ident" ||
+      token.type === "open" ||
+      token.type === "sqrt"
+    );
+  }
+
+  // unary := ("-" | "+") unary | power
+  private unary(): MathNode {
+    if (this.isOp(this.peek(), "-")) {
+      this.next();
+      return { kind: "unary", op: "-", arg: this.unary() };
+    }
+    if (this.isOp(this.peek(), "+")) {
+      this.next();
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  // power := primary ("^" unary)?   (associativo à direita)
+  private power(): MathNode {
+    const base = this.primary();
+    if (this.isOp(this.peek(), "^")) {
+      this.next();
+      return { kind: "binary", op: "^", left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  // argumento sem parênteses: "cos2x" é cos(2x) e "√3x²" é √(3x²). Leva os números e
+  // variáveis seguidos, mas pára noutra função: "sen x cos x" é (sen x)·(cos x).
+  private bareArgument(): MathNode {
+    let node = this.power();
+    for (;;) {
+      const token = this.peek();
+      const plain =
+        token?.type === "number" ||
+        (token?.type === "ident" && !FUNCTION_NAMES.some(([, name]) => name === token.value));
+      if (!plain) return node;
+      node = { kind: "binary", op: "*", left: node, right: this.power() };
+    }
+  }
+
+  private primary(): MathNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value };
+
+      case "ident": {
+        const fn = FUNCTION_NAMES.find(([, name]) => name === token.value);
+        if (fn) {
+          // sin x, sin(x), sin²(x) -> (sin x)^2
+          let exponent: MathNode | null = null;
+          if (this.isOp(this.peek(), "^")) {
+            this.next();
+            exponent = this.primary();
+          }
+          // com parênteses o argumento fecha ali: cos(x)^2 = (cos x)^2
+          const arg = this.peek()?.type === "open" ? this.primary() : this.bareArgument();
+          const call: MathNode = { kind: "call", fn: fn[1], arg };
+          return exponent
+            ? { kind: "binary", op: "^", left: call, right: exponent }
+            : call;
+        }
+        if (token.value === "π") return { kind: "number", value: Math.PI };
+        if (token.value === "e") return { kind: "number", value: Math.E };
+        return { kind: "variable", name: token.value };
+      }
+
+      case "open": {
+        const node = this.expression();
+        const close = this.next();
+        if (close.type !== "close" || close.value !== CLOSING[token.value]) {
+          throw new MathParseError("Unbalanced brackets");
+        }
+        return node;
+      }
+
+      case "sqrt": {
+        // √(x+1)^2 continua a ser √((x+1)^2)
+        const arg = this.peek()?.type === "open" ? this.power() : this.bareArgument();
+        return { kind: "call", fn: "sqrt", arg };
+      }
+
+      case "pipe": {
+        this.absDepth++;
+        const node = this.expression();
+        this.absDepth--;
+        if (this.next().type !== "pipe") {
+          throw new MathParseError("Unbalanced absolute value");
+        }
+        return { kind: "call", fn: "abs", arg: node };
+      }
+
+      default:
+        throw new MathParseError("Unexpected token");
+    }
+  }
+}
+
+export function parseExpression(input: string): MathNode {
+  return new Parser(tokenize(input)).parse();
+}
+
+export function collectVariables(node: MathNode, into = new Set<string>()): Set<string> {
+  switch (node.kind) {
+    case "variable":
+      into.add(node.name);
+      break;
+    case "unary":
+    case "call":
+      collectVariables(node.arg, into);
+      break;
+    case "binary":
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+  }
+  return into;
+}
+
+const FUNCTIONS: Record<MathFunction, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+};
+
+export function evaluateExpression(node: MathNode, scope: Record<string, number>): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      return scope[node.name] ?? NaN;
+    case "unary":
+      return -evaluateExpression(node.arg, scope);
+    case "call":
+      return FUNCTIONS[node.fn](evaluateExpression(node.arg, scope));
+    case "binary": {
+      const left = evaluateExpression(node.left, scope);
+      const right = evaluateExpression(node.right, scope);
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return left / right;
+        case "^":
+          return Math.pow(left, right);
+      }
+    }
+  }
+}
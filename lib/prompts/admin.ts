@@ -0,0 +1,171 @@
+import type { AuthUser } from "@/lib/auth";
+import {
+  getActivePromptExperiment,
+  getActivePromptTemplate,
+  insertPromptExperiment,
+  insertPromptTemplate,
+  listPromptExperiments,
+  listPromptTemplates,
+  listPromptVersionStats,
+  setActivePromptTemplate,
+  stopPromptExperiment,
+} from "@/lib/db/prompts";
+import { clearPromptCache } from "./registry";
+import { unknownPlaceholders } from "./render";
+import { BUILTIN_TEMPLATES, PROMPT_VARIABLES } from "./templates";
+import {
+  BUILTIN_VERSION,
+  PROMPT_NAMES,
+  type PromptExperiment,
+  type PromptName,
+  type PromptSummary,
+  type PromptTemplate,
+  type PromptVariant,
+  type PromptVersionStats,
+} from "./types";
+
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "PromptError";
+  }
+}
+
+export function assertPromptName(name: string): PromptName {
+  if (!PROMPT_NAMES.includes(name as PromptName)) {
+    throw new PromptError("Prompt not found", 404);
+  }
+  return name as PromptName;
+}
+
+async function versionExists(name: PromptName, version: string): Promise<boolean> {
+  if (version === BUILTIN_VERSION) return true;
+  const templates = await listPromptTemplates(name);
+  return templates.some((t) => t.version === version);
+}
+
+// ---------- Versões ----------
+
+export async function listPrompts(): Promise<PromptSummary[]> {
+  return Promise.all(
+    PROMPT_NAMES.map(async (name) => {
+      const [templates, active, experiment] = await Promise.all([
+        listPromptTemplates(name),
+        getActivePromptTemplate(name),
+        getActivePromptExperiment(name),
+      ]);
+      return {
+        name,
+        variables: PROMPT_VARIABLES[name],
+        activeVersion: active?.version ?? BUILTIN_VERSION,
+        experiment,
+        versions: [BUILTIN_VERSION, ...templates.map((t) => t.version)],
+      };
+    }),
+  );
+}
+
+/** Todas as versões (a builtin primeiro), com o texto completo. */
+export async function listPromptVersions(name: PromptName): Promise<PromptTemplate[]> {
+  const [templates, active] = await Promise.all([
+    listPromptTemplates(name),
+    getActivePromptTemplate(name),
+  ]);
+  return [{ ...BUILTIN_TEMPLATES[name], active: !active }, ...templates];
+}
+
+export async function createPromptVersion(
+  name: PromptName,
+  input: {
+    version: string;
+    systemTemplate: string;
+    userTemplate: string;
+    notes: string | null;
+    activate: boolean;
+  },
+  user: AuthUser,
+): Promise<PromptTemplate> {
+  const unknown = unknownPlaceholders(name, `${input.systemTemplate}\n${input.userTemplate}`);
+  if (unknown.length > 0) {
+    throw new PromptError(`Unknown template variables: ${unknown.join(", ")}`, 400);
+  }
+
+  const template = await insertPromptTemplate({
+    name,
+    version: input.version,
+    systemTemplate: input.systemTemplate,
+    userTemplate: input.userTemplate,
+    notes: input.notes,
+    createdBy: user.id,
+  });
+  if (!template) {
+    throw new PromptError(`Version ${input.version} already exists`, 409);
+  }
+
+  if (input.activate) {
+    await setActivePromptTemplate(name, template.version);
+    clearPromptCache(name);
+    return { ...template, active: true };
+  }
+  return template;
+}
+
+/** Passa a versão a ativa (fora de experiências); "builtin" volta ao texto do código. */
+export async function activatePromptVersion(name: PromptName, version: string): Promise<void> {
+  if (!(await versionExists(name, version))) {
+    throw new PromptError("Prompt version not found", 404);
+  }
+  await setActivePromptTemplate(name, version === BUILTIN_VERSION ? null : version);
+  clearPromptCache(name);
+}
+
+// ---------- Experiências ----------
+
+export async function listExperiments(name: PromptName): Promise<PromptExperiment[]> {
+  return listPromptExperiments(name);
+}
+
+export async function startExperiment(
+  name: PromptName,
+  variants: PromptVariant[],
+  user: AuthUser,
+): Promise<PromptExperiment> {
+  for (const variant of variants) {
+    if (!(await versionExists(name, variant.version))) {
+      throw new PromptError(`Prompt version ${variant.version} not found`, 404);
+    }
+  }
+
+  const experiment = await insertPromptExperiment({ name, variants, createdBy: user.id });
+  if (!experiment) {
+    throw new PromptError("This prompt already has an active experiment; stop it first", 409);
+  }
+  clearPromptCache(name);
+  return experiment;
+}
+
+export async function stopExperiment(
+  name: PromptName,
+  experimentId: string,
+): Promise<PromptExperiment> {
+  const active = await getActivePromptExperiment(name);
+  if (!active || active.id !== experimentId) {
+    throw new PromptError("Active experiment not found", 404);
+  }
+
+  const stopped = await stopPromptExperiment(experimentId);
+  if (!stopped) {
+    throw new PromptError("Active experiment not found", 404);
+  }
+  clearPromptCache(name);
+  return stopped;
+}
+
+// ---------- Comparação ----------
+
+export async function getPromptStats(name: PromptName): Promise<PromptVersionStats[]> {
+  return listPromptVersionStats(name);
+}
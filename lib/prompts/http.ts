@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { PromptError } from "./admin";
+
+// Converte erros da administração de prompts em respostas HTTP
+export function sendPromptError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof PromptError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
@@ -0,0 +1,17 @@
+export * from "./types";
+export { BUILTIN_TEMPLATES, PROMPT_VARIABLES } from "./templates";
+export { assignVariant, buildPrompt, clearPromptCache, resolvePrompt } from "./registry";
+export { buildBuiltinPrompt } from "./render";
+export {
+  PromptError,
+  activatePromptVersion,
+  assertPromptName,
+  createPromptVersion,
+  getPromptStats,
+  listExperiments,
+  listPromptVersions,
+  listPrompts,
+  startExperiment,
+  stopExperiment,
+} from "./admin";
+export { sendPromptError } from "./http";
@@ -0,0 +1,128 @@
+import { createHash } from "node:crypto";
+import {
+  getActivePromptExperiment,
+  getActivePromptTemplate,
+  listPromptTemplatesByVersion,
+} from "@/lib/db/prompts";
+import { renderTemplate } from "./render";
+import { BUILTIN_TEMPLATES } from "./templates";
+import {
+  BUILTIN_VERSION,
+  type PromptExperiment,
+  type PromptName,
+  type PromptRef,
+  type PromptTemplate,
+  type PromptVariables,
+  type PromptVariant,
+  type RenderedPrompt,
+} from "./types";
+
+// as versões mudam raramente: cache curta em memória (por instância)
+const REGISTRY_TTL_MS = 60_000;
+
+type RegistryState = {
+  active: PromptTemplate; // a versão em uso fora de experiências
+  experiment: PromptExperiment | null;
+  variants: Map<string, PromptTemplate>; // versões da experiência ativa
+};
+
+const registryCache = new Map<PromptName, { state: RegistryState; expiresAt: number }>();
+
+export function clearPromptCache(name?: PromptName) {
+  if (name) registryCache.delete(name);
+  else registryCache.clear();
+}
+
+// ---------- Experiências ----------
+
+/**
+ * Escolhe a variante da experiência. Com unitId (o aluno) a escolha é estável:
+ * o mesmo aluno fica sempre na mesma variante enquanto a experiência durar.
+ */
+export function assignVariant(
+  experiment: PromptExperiment,
+  unitId: string | null,
+): PromptVariant {
+  const total = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+  const fraction = unitId
+    ? parseInt(
+        createHash("sha1").update(`${experiment.id}:${unitId}`).digest("hex").slice(0, 8),
+        16,
+      ) / 0x100000000
+    : Math.random();
+
+  let point = fraction * total;
+  for (const variant of experiment.variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+async function loadRegistryState(name: PromptName): Promise<RegistryState> {
+  const cached = registryCache.get(name);
+  if (cached && cached.expiresAt > Date.now()) return cached.state;
+
+  const [active, experiment] = await Promise.all([
+    getActivePromptTemplate(name),
+    getActivePromptExperiment(name),
+  ]);
+
+  const variants = new Map<string, PromptTemplate>([[BUILTIN_VERSION, BUILTIN_TEMPLATES[name]]]);
+  if (experiment) {
+    const stored = await listPromptTemplatesByVersion(
+      name,
+      experiment.variants.map((v) => v.version).filter((v) => v !== BUILTIN_VERSION),
+    );
+    for (const template of stored) variants.set(template.version, template);
+  }
+
+  const state: RegistryState = {
+    active: active ?? BUILTIN_TEMPLATES[name],
+    experiment,
+    variants,
+  };
+  registryCache.set(name, { state, expiresAt: Date.now() + REGISTRY_TTL_MS });
+  return state;
+}
+
+/**
+ * Escolhe a versão do prompt: a variante da experiência ativa, senão a versão
+ * ativa, senão a builtin. Nunca lança: sem BD usa-se a builtin.
+ */
+export async function resolvePrompt(
+  name: PromptName,
+  unitId: string | null,
+): Promise<{ template: PromptTemplate; ref: PromptRef }> {
+  let state: RegistryState;
+  try {
+    state = await loadRegistryState(name);
+  } catch (err) {
+    console.error(`prompts: failed to load ${name} versions, using builtin`, err);
+    return {
+      template: BUILTIN_TEMPLATES[name],
+      ref: { version: BUILTIN_VERSION, experimentId: null },
+    };
+  }
+
+  if (state.experiment) {
+    const variant = assignVariant(state.experiment, unitId);
+    const template = state.variants.get(variant.version);
+    if (template) {
+      return { template, ref: { version: template.version, experimentId: state.experiment.id } };
+    }
+    console.warn(`prompts: ${name} experiment variant ${variant.version} not found`);
+  }
+
+  return { template: state.active, ref: { version: state.active.version, experimentId: null } };
+}
+
+/** Resolve a versão e preenche as variáveis: mensagens de sistema e de utilizador. */
+export async function buildPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  unitId: string | null,
+): Promise<RenderedPrompt> {
+  const { template, ref } = await resolvePrompt(name, unitId);
+  return renderTemplate(template, ref, variables);
+}
@@ -0,0 +1,53 @@
+import { BUILTIN_TEMPLATES, PROMPT_VARIABLES } from "./templates";
+import {
+  BUILTIN_VERSION,
+  type PromptName,
+  type PromptRef,
+  type PromptTemplate,
+  type PromptVariables,
+  type RenderedPrompt,
+} from "./types";
+
+// Preenchimento dos templates, sem acesso à BD (o registo de versões está em registry.ts)
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+/** Variáveis usadas no texto que o prompt não declara. */
+export function unknownPlaceholders(name: PromptName, text: string): string[] {
+  const declared = new Set(Object.keys(PROMPT_VARIABLES[name]));
+  const unknown = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    if (!declared.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+function fill(text: string, variables: Record<string, string | number>): string {
+  return text.replace(PLACEHOLDER, (placeholder, key: string) =>
+    key in variables ? String(variables[key]) : placeholder,
+  );
+}
+
+export function renderTemplate<N extends PromptName>(
+  template: PromptTemplate,
+  ref: PromptRef,
+  variables: PromptVariables[N],
+): RenderedPrompt {
+  const values = variables as Record<string, string | number>;
+  return {
+    ref,
+    messages: [
+      { role: "system", content: fill(template.systemTemplate, values) },
+      { role: "user", content: fill(template.userTemplate, values) },
+    ],
+  };
+}
+
+/** A versão builtin, sem passar pelo registo (ex.: replay da calibração, offline). */
+export function buildBuiltinPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+): RenderedPrompt {
+  const ref: PromptRef = { version: BUILTIN_VERSION, experimentId: null };
+  return renderTemplate(BUILTIN_TEMPLATES[name], ref, variables);
+}
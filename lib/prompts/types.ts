@@ -0,0 +1,100 @@
+import type { LLMMessage } from "@/lib/llm";
+
+export type PromptName = "generateExercise" | "evaluateAnswer";
+
+export const PROMPT_NAMES: PromptName[] = ["generateExercise", "evaluateAnswer"];
+
+// a versão que vive no código; as outras estão em prompt_templates
+export const BUILTIN_VERSION = "builtin";
+
+export const MAX_PROMPT_TEMPLATE_LENGTH = 20_000;
+export const MAX_EXPERIMENT_VARIANTS = 4;
+
+// Variáveis de cada prompt ({{nome}} no texto). Os blocos "...Block" já vêm
+// formatados e ficam vazios quando não se aplicam.
+export type PromptVariables = {
+  generateExercise: {
+    officialCode: string;
+    yearLabel: string;
+    topicName: string;
+    subtopicName: string;
+    aiNotes: string;
+    difficultyLabel: string;
+    exerciseIndex: number;
+    exerciseType: string;
+    goalLabel: string;
+    avoidFunctionsBlock: string;
+    languageLabel: string;
+    notationBlock: string;
+  };
+  evaluateAnswer: {
+    subtopicName: string;
+    difficulty: string;
+    exerciseIndex: number;
+    statement: string;
+    userAnswer: string;
+    finalAnswerCheckBlock: string;
+    answerKeyBlock: string;
+    pageCount: number;
+    languageLabel: string;
+    notationBlock: string;
+  };
+};
+
+// O que fica guardado com cada exercício / tentativa
+export type PromptRef = {
+  version: string;
+  experimentId: string | null;
+};
+
+export type PromptTemplate = {
+  name: PromptName;
+  version: string;
+  systemTemplate: string;
+  userTemplate: string;
+  notes: string | null;
+  active: boolean;
+  createdBy: string | null;
+  createdAt: string | null; // null na builtin
+};
+
+export type PromptVariant = {
+  version: string;
+  weight: number; // inteiro positivo; o tráfego divide-se na proporção dos pesos
+};
+
+export type PromptExperimentStatus = "active" | "stopped";
+
+export type PromptExperiment = {
+  id: string;
+  name: PromptName;
+  variants: PromptVariant[];
+  status: PromptExperimentStatus;
+  createdBy: string | null;
+  startedAt: string;
+  stoppedAt: string | null;
+};
+
+export type RenderedPrompt = {
+  ref: PromptRef;
+  messages: LLMMessage[];
+};
+
+// ---------- Administração ----------
+
+export type PromptSummary = {
+  name: PromptName;
+  variables: Record<string, string>; // nome -> descrição
+  activeVersion: string;
+  experiment: PromptExperiment | null;
+  versions: string[];
+};
+
+export type PromptVersionStats = {
+  version: string;
+  experimentId: string | null;
+  items: number; // exercícios gerados / avaliações feitas
+  attempts: number;
+  averageScore: number | null;
+  lastUsedAt: string;
+};
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { s } from "./schema";
+
+const shape = s.discriminated("kind", {
+  circle: s.object({ kind: s.enum(["circle"]), radius: s.number() }),
+  square: s.object({ kind: s.enum(["square"]), side: s.number() }),
+});
+
+describe("s.discriminated", () => {
+  it("picks the option named by the tag", () => {
+    const result = shape.parse({ kind: "circle", radius: 2 });
+    assert.deepEqual(result, { ok: true, value: { kind: "circle", radius: 2 } });
+  });
+
+  it("rejects an unknown tag", () => {
+    const result = shape.parse({ kind: "triangle" });
+    assert.equal(result.ok, false);
+  });
+
+  for (const tag of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    it(`rejects the prototype key "${tag}" instead of throwing`, () => {
+      const result = shape.parse({ kind: tag });
+      assert.equal(result.ok, false);
+      if (!result.ok) {
+        assert.equal(result.issues[0].path, "kind");
+      }
+    });
+  }
+
+  it("rejects a tag that is not a string", () => {
+    assert.equal(shape.parse({ kind: 1 }).ok, false);
+    assert.equal(shape.parse(null).ok, false);
+  });
+});
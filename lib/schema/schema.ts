@@ -0,0 +1,540 @@
+// Esquemas declarativos: validam o que entra (pedidos, respostas dos modelos) e
+// geram o JSON Schema do documento OpenAPI. Um esquema, as duas utilizações.
+
+export type SchemaIssue = {
+  path: string; // "exerciseIndex", "variants[1].weight"; "" = o próprio valor
+  message: string;
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+export type JsonSchema = { [key: string]: unknown };
+
+// esquemas com nome vão para components.schemas e são referidos com $ref
+export type SchemaComponents = Map<string, JsonSchema>;
+
+const INVALID = Symbol("invalid");
+
+type Checked<T> = T | typeof INVALID;
+
+type Check<T> = (value: unknown, path: string, issues: SchemaIssue[]) => Checked<T>;
+
+type Describe = (components: SchemaComponents | null) => JsonSchema;
+
+type Meta = {
+  name?: string;
+  description?: string;
+  example?: unknown;
+  required: boolean; // false: o campo pode faltar no objeto
+};
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function listValues(values: readonly unknown[]): string {
+  return values.map((v) => String(v)).join(", ");
+}
+
+export class Schema<T> {
+  constructor(
+    protected readonly check: Check<T>,
+    protected readonly describeJson: Describe,
+    protected readonly meta: Meta = { required: true },
+  ) {}
+
+  get required(): boolean {
+    return this.meta.required;
+  }
+
+  /** Valida (e normaliza) um valor; nunca lança. */
+  parse(value: unknown): ParseResult<T> {
+    const issues: SchemaIssue[] = [];
+    const result = this.run(value, "", issues);
+    if (result === INVALID || issues.length > 0) {
+      return { ok: false, issues };
+    }
+    return { ok: true, value: result };
+  }
+
+  /** Usado pelos esquemas compostos, com o caminho até ao valor. */
+  run(value: unknown, path: string, issues: SchemaIssue[]): Checked<T> {
+    return this.check(value, path, issues);
+  }
+
+  jsonSchema(components: SchemaComponents | null = null): JsonSchema {
+    const { name, description, example } = this.meta;
+    const describe = () => ({
+      ...this.describeJson(components),
+      ...(description ? { description } : {}),
+      ...(example !== undefined ? { example } : {}),
+    });
+
+    if (!name || !components) return describe();
+    if (!components.has(name)) {
+      // reserva o nome antes de descrever (esquemas recursivos)
+      components.set(name, {});
+      components.set(name, describe());
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  // cópia com outros metadados; as subclasses mantêm o seu tipo
+  protected with(meta: Partial<Meta>): this {
+    return new Schema(this.check, this.describeJson, { ...this.meta, ...meta }) as this;
+  }
+
+  describe(description: string): this {
+    return this.with({ description });
+  }
+
+  example(example: unknown): this {
+    return this.with({ example });
+  }
+
+  /** Dá nome ao esquema no documento OpenAPI (components.schemas). */
+  named(name: string): this {
+    return this.with({ name });
+  }
+
+  optional(): OptionalSchema<T> {
+    const check = this.check;
+    return new OptionalSchema<T>(
+      (value, path, issues) => (value === undefined ? undefined : check(value, path, issues)),
+      (components) => this.jsonSchema(components),
+      { required: false },
+    );
+  }
+
+  /** Campo opcional que, quando falta (ou vem null), fica com o valor por omissão. */
+  default(fallback: T): Schema<T> {
+    const check = this.check;
+    return new Schema<T>(
+      (value, path, issues) =>
+        value === undefined || value === null ? fallback : check(value, path, issues),
+      (components) => ({ ...this.jsonSchema(components), default: fallback }),
+      { required: false },
+    );
+  }
+
+  nullable(): Schema<T | null> {
+    const check = this.check;
+    return new Schema<T | null>(
+      (value, path, issues) => (value === null ? null : check(value, path, issues)),
+      (components) => ({ anyOf: [this.jsonSchema(components), { type: "null" }] }),
+      { required: this.meta.required },
+    );
+  }
+
+  /** Regra extra sobre o valor já validado (ex.: "subtopicId ou subtopicName"). */
+  refine(predicate: (value: T) => boolean, message: string, at = ""): Schema<T> {
+    const check = this.check;
+    return new Schema<T>(
+      (value, path, issues) => {
+        const result = check(value, path, issues);
+        if (result === INVALID) return INVALID;
+        if (!predicate(result)) {
+          issues.push({ path: at ? joinPath(path, at) : path, message });
+          return INVALID;
+        }
+        return result;
+      },
+      (components) => this.jsonSchema(components),
+      { required: this.meta.required },
+    );
+  }
+
+  /** Converte o valor validado (ex.: "2027-06-18" -> Date). */
+  transform<U>(map: (value: T) => U): Schema<U> {
+    const check = this.check;
+    return new Schema<U>(
+      (value, path, issues) => {
+        const result = check(value, path, issues);
+        return result === INVALID ? INVALID : map(result);
+      },
+      (components) => this.jsonSchema(components),
+      { required: this.meta.required },
+    );
+  }
+}
+
+// Campo que pode faltar: o tipo inferido do objeto fica com a chave opcional
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true as const;
+
+  protected with(meta: Partial<Meta>): this {
+    return new OptionalSchema(this.check, this.describeJson, { ...this.meta, ...meta }) as this;
+  }
+}
+
+// ---------- Tipos inferidos ----------
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+export class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  constructor(
+    readonly shape: S,
+    meta: Meta = { required: true },
+  ) {
+    super(
+      (value, path, issues) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+          issues.push({ path, message: "must be an object" });
+          return INVALID;
+        }
+
+        const source = value as Record<string, unknown>;
+        const out: Record<string, unknown> = {};
+        let valid = true;
+        for (const [key, schema] of Object.entries(shape)) {
+          const result = schema.run(source[key], joinPath(path, key), issues);
+          if (result === INVALID) valid = false;
+          else if (result !== undefined) out[key] = result;
+        }
+        // chaves desconhecidas ficam de fora
+        return valid ? (out as InferShape<S>) : INVALID;
+      },
+      (components) => {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        for (const [key, schema] of Object.entries(shape)) {
+          properties[key] = schema.jsonSchema(components);
+          if (schema.required) required.push(key);
+        }
+        return {
+          type: "object",
+          properties,
+          ...(required.length ? { required } : {}),
+        };
+      },
+      meta,
+    );
+  }
+
+  protected with(meta: Partial<Meta>): this {
+    return new ObjectSchema(this.shape, { ...this.meta, ...meta }) as this;
+  }
+
+  /** Novo objeto com os campos deste e mais os indicados (sem o nome). */
+  extend<E extends Shape>(extra: E): ObjectSchema<Omit<S, keyof E> & E> {
+    return new ObjectSchema({ ...this.shape, ...extra } as Omit<S, keyof E> & E);
+  }
+}
+
+// ---------- Construtores ----------
+
+type StringOptions = {
+  min?: number; // depois do trim
+  max?: number;
+  trim?: boolean; // por omissão: true
+  pattern?: RegExp;
+  patternMessage?: string; // ex.: "must be a date (YYYY-MM-DD)"
+  format?: "uuid" | "date" | "date-time" | "uri" | "binary";
+};
+
+function string(options: StringOptions = {}): Schema<string> {
+  const { min = 0, max, trim = true, pattern, patternMessage, format } = options;
+
+  return new Schema<string>(
+    (value, path, issues) => {
+      if (value === undefined) {
+        issues.push({ path, message: "is required" });
+        return INVALID;
+      }
+      if (typeof value !== "string") {
+        issues.push({ path, message: "must be a string" });
+        return INVALID;
+      }
+
+      const text = trim ? value.trim() : value;
+      if (text.length < min) {
+        const message =
+          min === 1 ? "must not be empty" : `must have at least ${min} characters`;
+        issues.push({ path, message });
+        return INVALID;
+      }
+      if (max !== undefined && text.length > max) {
+        issues.push({ path, message: `must have at most ${max} characters` });
+        return INVALID;
+      }
+      if (pattern && !pattern.test(text)) {
+        issues.push({ path, message: patternMessage || `must match ${pattern.source}` });
+        return INVALID;
+      }
+      return text;
+    },
+    () => ({
+      type: "string",
+      ...(min > 0 ? { minLength: min } : {}),
+      ...(max !== undefined ? { maxLength: max } : {}),
+      ...(pattern ? { pattern: pattern.source } : {}),
+      ...(format ? { format } : {}),
+    }),
+  );
+}
+
+type NumberOptions = {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  coerce?: boolean; // aceita texto ("3"): query strings e campos de multipart
+};
+
+function rangeMessage(kind: string, min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `must be ${kind} between ${min} and ${max}`;
+  if (min !== undefined) return `must be ${kind} of at least ${min}`;
+  return `must be ${kind} of at most ${max}`;
+}
+
+function number(options: NumberOptions = {}): Schema<number> {
+  const { min, max, integer = false, coerce = false } = options;
+  const kind = integer ? "an integer" : "a number";
+
+  return new Schema<number>(
+    (value, path, issues) => {
+      if (value === undefined) {
+        issues.push({ path, message: "is required" });
+        return INVALID;
+      }
+
+      let n = value;
+      if (coerce && typeof value === "string" && value.trim() !== "") {
+        n = Number(value);
+      }
+      if (typeof n !== "number" || !Number.isFinite(n)) {
+        issues.push({ path, message: `must be ${kind}` });
+        return INVALID;
+      }
+      if (
+        (integer && !Number.isInteger(n)) ||
+        (min !== undefined && n < min) ||
+        (max !== undefined && n > max)
+      ) {
+        const message =
+          min === undefined && max === undefined
+            ? `must be ${kind}`
+            : rangeMessage(kind, min, max);
+        issues.push({ path, message });
+        return INVALID;
+      }
+      return n;
+    },
+    () => ({
+      type: integer ? "integer" : "number",
+      ...(min !== undefined ? { minimum: min } : {}),
+      ...(max !== undefined ? { maximum: max } : {}),
+    }),
+  );
+}
+
+function integer(options: Omit<NumberOptions, "integer"> = {}): Schema<number> {
+  return number({ ...options, integer: true });
+}
+
+function boolean(options: { coerce?: boolean } = {}): Schema<boolean> {
+  return new Schema<boolean>(
+    (value, path, issues) => {
+      if (typeof value === "boolean") return value;
+      if (options.coerce && (value === "true" || value === "false")) return value === "true";
+      issues.push({
+        path,
+        message: value === undefined ? "is required" : "must be true or false",
+      });
+      return INVALID;
+    },
+    () => ({ type: "boolean" }),
+  );
+}
+
+function enumOf<const V extends string | number>(values: readonly V[]): Schema<V> {
+  return new Schema<V>(
+    (value, path, issues) => {
+      if (values.includes(value as V)) return value as V;
+      issues.push({
+        path,
+        message: value === undefined ? "is required" : `must be one of ${listValues(values)}`,
+      });
+      return INVALID;
+    },
+    () => ({
+      type: typeof values[0] === "number" ? "integer" : "string",
+      enum: [...values],
+    }),
+  );
+}
+
+function literal<const V extends string | number | boolean | null>(expected: V): Schema<V> {
+  return new Schema<V>(
+    (value, path, issues) => {
+      if (value === expected) return expected;
+      issues.push({ path, message: `must be ${JSON.stringify(expected)}` });
+      return INVALID;
+    },
+    () => ({ const: expected }),
+  );
+}
+
+type ArrayOptions = {
+  min?: number;
+  max?: number;
+  single?: boolean; // aceita um valor solto como lista de um (campos repetidos de multipart)
+};
+
+function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  const { min, max, single = false } = options;
+
+  return new Schema<T[]>(
+    (value, path, issues) => {
+      const list = single && value !== undefined && !Array.isArray(value) ? [value] : value;
+      if (!Array.isArray(list)) {
+        issues.push({ path, message: value === undefined ? "is required" : "must be an array" });
+        return INVALID;
+      }
+      if (min !== undefined && list.length < min) {
+        issues.push({
+          path,
+          message: min === 1 ? "must not be empty" : `must have at least ${min} items`,
+        });
+        return INVALID;
+      }
+      if (max !== undefined && list.length > max) {
+        issues.push({ path, message: `must have at most ${max} items` });
+        return INVALID;
+      }
+
+      const out: T[] = [];
+      let valid = true;
+      list.forEach((element, i) => {
+        const result = item.run(element, joinPath(path, i), issues);
+        if (result === INVALID) valid = false;
+        else out.push(result);
+      });
+      return valid ? out : INVALID;
+    },
+    (components) => ({
+      type: "array",
+      items: item.jsonSchema(components),
+      ...(min !== undefined ? { minItems: min } : {}),
+      ...(max !== undefined ? { maxItems: max } : {}),
+    }),
+  );
+}
+
+function object<S extends Shape>(shape: S): ObjectSchema<S> {
+  return new ObjectSchema(shape);
+}
+
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return new Schema<Record<string, T>>(
+    (input, path, issues) => {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        issues.push({ path, message: "must be an object" });
+        return INVALID;
+      }
+      const out: Record<string, T> = {};
+      let valid = true;
+      for (const [key, element] of Object.entries(input)) {
+        const result = value.run(element, joinPath(path, key), issues);
+        if (result === INVALID) valid = false;
+        else out[key] = result;
+      }
+      return valid ? out : INVALID;
+    },
+    (components) => ({ type: "object", additionalProperties: value.jsonSchema(components) }),
+  );
+}
+
+/**
+ * Um de vários esquemas (o primeiro que aceitar o valor). Se nenhum aceitar,
+ * ficam os erros do que chegou mais perto.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function union<const O extends readonly Schema<any>[]>(options: O): Schema<Infer<O[number]>> {
+  return new Schema<Infer<O[number]>>(
+    (value, path, issues) => {
+      let closest: SchemaIssue[] | null = null;
+      for (const option of options) {
+        const attempt: SchemaIssue[] = [];
+        const result = option.run(value, path, attempt);
+        if (result !== INVALID && attempt.length === 0) return result;
+        if (!closest || attempt.length < closest.length) closest = attempt;
+      }
+      issues.push(...(closest || [{ path, message: "is invalid" }]));
+      return INVALID;
+    },
+    (components) => ({ oneOf: options.map((option) => option.jsonSchema(components)) }),
+  );
+}
+
+/**
+ * Um de vários objetos, escolhido pelo valor de um campo (ex.: "kind"). Os
+ * erros são os do objeto escolhido, não os de todas as alternativas.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function discriminated<const M extends Record<string, Schema<any>>>(
+  key: string,
+  options: M,
+): Schema<Infer<M[keyof M]>> {
+  const values = Object.keys(options);
+
+  return new Schema<Infer<M[keyof M]>>(
+    (value, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, message: "must be an object" });
+        return INVALID;
+      }
+      const tag = (value as Record<string, unknown>)[key];
+      // só as chaves do próprio objeto: "constructor" ou "toString" não são opções
+      const option =
+        typeof tag === "string" && Object.hasOwn(options, tag) ? options[tag] : undefined;
+      if (!option) {
+        issues.push({ path: joinPath(path, key), message: `must be one of ${listValues(values)}` });
+        return INVALID;
+      }
+      return option.run(value, path, issues);
+    },
+    (components) => ({
+      oneOf: values.map((tag) => options[tag].jsonSchema(components)),
+      discriminator: { propertyName: key },
+    }),
+  );
+}
+
+/** Qualquer valor (validado noutro sítio). */
+function unknownValue(): Schema<unknown> {
+  return new Schema<unknown>(
+    (value) => value,
+    () => ({}),
+  );
+}
+
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  enum: enumOf,
+  literal,
+  array,
+  object,
+  record,
+  union,
+  discriminated,
+  unknown: unknownValue,
+};
@@ -0,0 +1,50 @@
+import type { Difficulty, ExerciseType } from "@/lib/exercises/types";
+
+// Escada de níveis: cada nível fixa dificuldade + tipo de exercício
+export const EXERCISE_LEVELS: { difficulty: Difficulty; exerciseType: ExerciseType }[] = [
+  { difficulty: "easy", exerciseType: "basic_procedural" },
+  { difficulty: "medium", exerciseType: "mixed_rules" },
+  { difficulty: "medium", exerciseType: "applied_word_problem" },
+  { difficulty: "hard", exerciseType: "exam_multi_step" },
+];
+
+const START_LEVEL: Record<Difficulty, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+};
+
+const LEVEL_UP_SCORE = 80;
+const LEVEL_DOWN_SCORE = 50;
+
+export type ExercisePlan = {
+  difficulty: Difficulty;
+  exerciseType: ExerciseType;
+};
+
+/**
+ * Decide a dificuldade e o tipo do próximo exercício a partir das
+ * pontuações anteriores da sessão (pela ordem em que foram feitos).
+ * O último exercício pesa mais do que a média dos anteriores.
+ */
+export function planNextExercise(
+  startDifficulty: Difficulty,
+  previousScores: number[],
+): ExercisePlan {
+  let level = START_LEVEL[startDifficulty];
+
+  for (let i = 0; i < previousScores.length; i++) {
+    const earlier = previousScores.slice(0, i);
+    const earlierAvg = earlier.length
+      ? earlier.reduce((sum, s) => sum + s, 0) / earlier.length
+      : previousScores[i];
+    const signal = 0.7 * previousScores[i] + 0.3 * earlierAvg;
+
+    if (signal >= LEVEL_UP_SCORE) level += 1;
+    else if (signal < LEVEL_DOWN_SCORE) level -= 1;
+
+    level = Math.max(0, Math.min(EXERCISE_LEVELS.length - 1, level));
+  }
+
+  return EXERCISE_LEVELS[level];
+}
@@ -0,0 +1,18 @@
+import type { NextApiResponse } from "next";
+import { PracticeSessionError } from "./practiceSession";
+
+// Converte erros do serviço de sessões em respostas HTTP
+export function sendSessionError(
+  res: NextApiResponse,
+  err: unknown,
+  route: string,
+) {
+  if (err instanceof PracticeSessionError) {
+    return res.status(err.status).json(
+      err.errorCode ? { error: err.message, errorCode: err.errorCode } : { error: err.message },
+    );
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
@@ -0,0 +1,14 @@
+export { EXERCISE_LEVELS, planNextExercise, type ExercisePlan } from "./adaptive";
+export {
+  SESSION_LENGTH,
+  PracticeSessionError,
+  getSessionSummary,
+  nextSessionExercise,
+  startPracticeSession,
+  submitSessionAnswer,
+  type SessionExercise,
+  type SessionExerciseSummary,
+  type SessionRecommendation,
+  type SessionSummary,
+} from "./practiceSession";
+export { sendSessionError } from "./http";
@@ -0,0 +1,408 @@
+import { canAccessExercise, getAssignment, type Assignment } from "@/lib/db/assignments";
+import { insertAttempt, listAttempts, type Attempt } from "@/lib/db/attempts";
+import { isClassStudent } from "@/lib/db/classes";
+import { getExerciseById, listSessionExercises, type StoredExercise } from "@/lib/db/exercises";
+import {
+  createPracticeSession,
+  getPracticeSession,
+  updatePracticeSessionStatus,
+  type PracticeSession,
+} from "@/lib/db/practiceSessions";
+import {
+  REJECTED_CONTENT_CODES,
+  evaluateAnswer,
+  type EvaluationErrorCode,
+  type EvaluationResult,
+  type PracticeResult,
+} from "@/lib/evaluation";
+import {
+  fetchSubtopicContext,
+  generateExercise,
+  toExerciseDefinition,
+  type Difficulty,
+  type ExerciseDefinition,
+  type ExerciseType,
+} from "@/lib/exercises";
+import { countHintsUsed } from "@/lib/hints";
+import type { Locale } from "@/lib/locale";
+import { recordMasteryFromAttempt } from "@/lib/mastery";
+import type { ResolvedSubmission } from "@/lib/submissions";
+import { planNextExercise } from "./adaptive";
+
+export const SESSION_LENGTH = 3;
+
+export class PracticeSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorCode: EvaluationErrorCode | null = null,
+  ) {
+    super(message);
+    this.name = "PracticeSessionError";
+  }
+}
+
+export type SessionExercise = ExerciseDefinition & {
+  exerciseIndex: number;
+  difficulty: Difficulty;
+};
+
+export type SessionExerciseSummary = {
+  exerciseId: string;
+  exerciseIndex: number;
+  exerciseType: ExerciseType;
+  difficulty: Difficulty;
+  score: number | null; // null se ainda não foi respondido
+  result: PracticeResult | null;
+};
+
+export type SessionRecommendation = "advance" | "practice_more" | "review_basics";
+
+export type SessionSummary = {
+  sessionId: string;
+  status: PracticeSession["status"];
+  subtopicId: string | null;
+  subtopicName: string;
+  startDifficulty: Difficulty;
+  exercises: SessionExerciseSummary[];
+  averageScore: number | null;
+  recommendation: SessionRecommendation | null; // só no fim da sessão
+  message: string | null;
+};
+
+// ---------- Helpers ----------
+
+async function loadOwnedSession(
+  sessionId: string,
+  studentId: string,
+): Promise<PracticeSession> {
+  const session = await getPracticeSession(sessionId);
+  // sessões de outro aluno são tratadas como inexistentes
+  if (!session || session.studentId !== studentId) {
+    throw new PracticeSessionError("Session not found", 404);
+  }
+  return session;
+}
+
+// última tentativa de cada exercício (listAttempts vem por ordem decrescente)
+function latestAttemptByExercise(attempts: Attempt[]): Map<string, Attempt> {
+  const latest = new Map<string, Attempt>();
+  for (const attempt of attempts) {
+    if (attempt.exerciseId && !latest.has(attempt.exerciseId)) {
+      latest.set(attempt.exerciseId, attempt);
+    }
+  }
+  return latest;
+}
+
+function toSessionExercise(exercise: StoredExercise): SessionExercise {
+  return {
+    ...toExerciseDefinition(exercise),
+    exerciseIndex: exercise.exerciseIndex ?? 1,
+    difficulty: exercise.difficulty,
+  };
+}
+
+// mensagem do fim da sessão, na língua da sessão
+const RECOMMENDATION_MESSAGES: Record<Locale, Record<SessionRecommendation, string>> = {
+  "pt-PT": {
+    advance: "Excelente sessão! Estás pronto para avançar para o próximo subtema.",
+    practice_more: "Bom progresso. Faz mais uma sessão para consolidar este subtema.",
+    review_basics:
+      "Vale a pena rever a teoria e os exemplos base deste subtema antes de continuar.",
+  },
+  "pt-BR": {
+    advance: "Excelente sessão! Você está pronto para avançar para o próximo subtema.",
+    practice_more: "Bom progresso. Faça mais uma sessão para consolidar este subtema.",
+    review_basics:
+      "Vale a pena revisar a teoria e os exemplos básicos deste subtema antes de continuar.",
+  },
+  en: {
+    advance: "Excellent session! You're ready to move on to the next subtopic.",
+    practice_more: "Good progress. Do one more session to consolidate this subtopic.",
+    review_basics:
+      "It's worth reviewing the theory and basic examples of this subtopic before moving on.",
+  },
+};
+
+function recommend(
+  averageScore: number,
+  locale: Locale,
+): {
+  recommendation: SessionRecommendation;
+  message: string;
+} {
+  const recommendation: SessionRecommendation =
+    averageScore >= 80 ? "advance" : averageScore >= 50 ? "practice_more" : "review_basics";
+  return { recommendation, message: RECOMMENDATION_MESSAGES[locale][recommendation] };
+}
+
+function buildSummary(
+  session: PracticeSession,
+  exercises: StoredExercise[],
+  attempts: Attempt[],
+): SessionSummary {
+  const latest = latestAttemptByExercise(attempts);
+
+  const items: SessionExerciseSummary[] = exercises.map((exercise) => {
+    const attempt = latest.get(exercise.id);
+    return {
+      exerciseId: exercise.id,
+      exerciseIndex: exercise.exerciseIndex ?? 1,
+      exerciseType: exercise.exerciseType,
+      difficulty: exercise.difficulty,
+      score: attempt?.score ?? null,
+      result: attempt?.result ?? null,
+    };
+  });
+
+  const scores = items
+    .map((item) => item.score)
+    .filter((score): score is number => score !== null);
+  const averageScore = scores.length
+    ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length)
+    : null;
+
+  const finished = session.status === "completed" && averageScore !== null;
+
+  return {
+    sessionId: session.id,
+    status: session.status,
+    subtopicId: session.subtopicId,
+    subtopicName: session.subtopicName,
+    startDifficulty: session.difficulty,
+    exercises: items,
+    averageScore,
+    ...(finished
+      ? recommend(averageScore, session.locale)
+      : { recommendation: null, message: null }),
+  };
+}
+
+// ---------- Serviço ----------
+
+/**
+ * Devolve o exercício por responder da sessão ou gera o seguinte,
+ * escolhendo dificuldade e tipo a partir das pontuações anteriores.
+ */
+export async function nextSessionExercise(
+  sessionId: string,
+  studentId: string,
+): Promise<SessionExercise> {
+  const session = await loadOwnedSession(sessionId, studentId);
+  if (session.status !== "active") {
+    throw new PracticeSessionError("Session is not active", 409);
+  }
+
+  const [exercises, attempts] = await Promise.all([
+    listSessionExercises(session.id),
+    listAttempts({ studentId, sessionId: session.id }),
+  ]);
+  const latest = latestAttemptByExercise(attempts);
+
+  const pending = exercises.find((exercise) => !latest.has(exercise.id));
+  if (pending) return toSessionExercise(pending);
+
+  if (exercises.length >= SESSION_LENGTH) {
+    throw new PracticeSessionError("Session has no more exercises", 409);
+  }
+
+  const previousScores = exercises.map((exercise) => latest.get(exercise.id)!.score);
+  const plan = planNextExercise(session.difficulty, previousScores);
+  const exerciseIndex = exercises.length + 1;
+
+  const exercise = await generateExercise({
+    studentId,
+    sessionId: session.id,
+    subtopicId: session.subtopicId || undefined,
+    subtopicName: session.subtopicName,
+    difficulty: plan.difficulty,
+    exerciseType: plan.exerciseType,
+    exerciseIndex,
+    goal: "revision",
+    locale: session.locale,
+  });
+
+  if (!exercise.exerciseId) {
+    throw new PracticeSessionError("Could not store the next exercise", 503);
+  }
+
+  return { ...exercise, exerciseIndex, difficulty: plan.difficulty };
+}
+
+// trabalho de sessão de uma turma onde o aluno está inscrito
+async function loadSessionAssignment(
+  assignmentId: string,
+  studentId: string,
+): Promise<Assignment> {
+  const assignment = await getAssignment(assignmentId);
+  if (
+    !assignment ||
+    assignment.kind !== "practice_session" ||
+    !(await isClassStudent(assignment.classId, studentId))
+  ) {
+    throw new PracticeSessionError("Assignment not found", 404);
+  }
+  return assignment;
+}
+
+export async function startPracticeSession(params: {
+  studentId: string;
+  subtopicId?: string;
+  subtopicName?: string;
+  difficulty: Difficulty;
+  assignmentId?: string; // o subtema e a dificuldade vêm do trabalho
+  locale: Locale;
+}): Promise<{ session: PracticeSession; exercise: SessionExercise }> {
+  if (params.assignmentId) {
+    const assignment = await loadSessionAssignment(params.assignmentId, params.studentId);
+    params = {
+      ...params,
+      subtopicId: assignment.subtopicId || undefined,
+      subtopicName: assignment.subtopicName || undefined,
+      difficulty: assignment.difficulty || params.difficulty,
+    };
+  }
+
+  const ctx = await fetchSubtopicContext(params);
+  const subtopicName = ctx?.subtopicName || params.subtopicName;
+
+  if (!subtopicName) {
+    throw new PracticeSessionError("Subtopic not found", 404);
+  }
+
+  const session = await createPracticeSession({
+    studentId: params.studentId,
+    subtopicId: ctx?.subtopicId || params.subtopicId || null,
+    subtopicName,
+    difficulty: params.difficulty,
+    assignmentId: params.assignmentId || null,
+    locale: params.locale,
+  });
+
+  const exercise = await nextSessionExercise(session.id, params.studentId);
+  return { session, exercise };
+}
+
+export async function submitSessionAnswer(
+  sessionId: string,
+  params: {
+    studentId: string;
+    exerciseId: string;
+    submission: ResolvedSubmission;
+    userAnswer: string;
+  },
+): Promise<{
+  evaluation: EvaluationResult;
+  attemptId: string;
+  summary: SessionSummary | null; // preenchido quando a sessão termina
+}> {
+  const session = await loadOwnedSession(sessionId, params.studentId);
+  if (session.status !== "active") {
+    throw new PracticeSessionError("Session is not active", 409);
+  }
+
+  const exercise = await getExerciseById(params.exerciseId);
+  if (
+    !exercise ||
+    exercise.sessionId !== session.id ||
+    !(await canAccessExercise(exercise, params.studentId))
+  ) {
+    throw new PracticeSessionError("Exercise not found in this session", 404);
+  }
+
+  // sem o registo das pistas avalia-se sem desconto
+  let hintsUsed = 0;
+  try {
+    hintsUsed = await countHintsUsed(params.studentId, exercise.statement);
+  } catch (err) {
+    console.error("sessions: failed to load hint usage", err);
+  }
+
+  const outcome = await evaluateAnswer({
+    statement: exercise.statement,
+    statementFromClient: false,
+    userAnswer: params.userAnswer,
+    pages: params.submission.pages,
+    subtopicName: exercise.subtopicName,
+    difficulty: exercise.difficulty,
+    exerciseIndex: exercise.exerciseIndex ?? 1,
+    exerciseType: exercise.exerciseType,
+    answerKey: exercise.answerKey,
+    hintsUsed,
+    studentId: params.studentId,
+    locale: exercise.locale,
+  });
+
+  // numa sessão o próximo exercício depende da nota: sem modelo, o aluno volta a submeter
+  if (outcome.status === "unavailable") {
+    if (REJECTED_CONTENT_CODES.includes(outcome.errorCode)) {
+      throw new PracticeSessionError("Submission rejected by moderation", 422, outcome.errorCode);
+    }
+    throw new PracticeSessionError(
+      "Evaluation unavailable, please try again",
+      503,
+      outcome.errorCode,
+    );
+  }
+
+  const attempt = await insertAttempt({
+    studentId: params.studentId,
+    sessionId: session.id,
+    exerciseId: exercise.id,
+    subtopicId: exercise.subtopicId,
+    subtopicName: exercise.subtopicName,
+    exerciseIndex: exercise.exerciseIndex,
+    statement: exercise.statement,
+    userAnswer: params.userAnswer.trim() || null,
+    imageRefs: params.submission.refs,
+    evaluation: outcome.evaluation,
+    provider: outcome.provider,
+    model: outcome.model,
+    prompt: outcome.prompt,
+  });
+
+  // o domínio é secundário: uma falha aqui não invalida a resposta
+  try {
+    await recordMasteryFromAttempt({
+      studentId: params.studentId,
+      subtopicId: exercise.subtopicId,
+      subtopicName: exercise.subtopicName,
+      exerciseType: exercise.exerciseType,
+      difficulty: exercise.difficulty,
+      score: outcome.evaluation.score,
+    });
+  } catch (err) {
+    console.error("sessions: failed to update mastery", err);
+  }
+
+  const [exercises, attempts] = await Promise.all([
+    listSessionExercises(session.id),
+    listAttempts({ studentId: params.studentId, sessionId: session.id }),
+  ]);
+  const latest = latestAttemptByExercise(attempts);
+
+  const finished =
+    exercises.length >= SESSION_LENGTH &&
+    exercises.every((e) => latest.has(e.id));
+
+  let summary: SessionSummary | null = null;
+  if (finished) {
+    await updatePracticeSessionStatus(session.id, "completed");
+    summary = buildSummary({ ...session, status: "completed" }, exercises, attempts);
+  }
+
+  return { evaluation: outcome.evaluation, attemptId: attempt.id, summary };
+}
+
+export async function getSessionSummary(
+  sessionId: string,
+  studentId: string,
+): Promise<SessionSummary> {
+  const session = await loadOwnedSession(sessionId, studentId);
+  const [exercises, attempts] = await Promise.all([
+    listSessionExercises(session.id),
+    listAttempts({ studentId, sessionId: session.id }),
+  ]);
+  return buildSummary(session, exercises, attempts);
+}
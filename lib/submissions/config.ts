@@ -0,0 +1,64 @@
+// Limites e tipos das páginas, sem acesso à BD: também servem à calibração offline
+
+export const SUBMISSIONS_BUCKET = process.env.SUBMISSIONS_BUCKET || "submissions";
+
+export const MAX_PAGES = 4;
+export const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+// margem para o base64 (~4/3) e para os restantes campos do pedido
+export const MAX_SUBMISSION_BODY_BYTES = Math.ceil(MAX_PAGES * MAX_PAGE_BYTES * 1.4) + 1024 * 1024;
+
+export const FETCH_TIMEOUT_MS = 10_000;
+
+export type SubmissionMimeType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/webp"
+  | "application/pdf";
+
+export const FILE_EXTENSIONS: Record<SubmissionMimeType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+/**
+ * Deteta o tipo real pelo conteúdo (assinatura do ficheiro),
+ * em vez de confiar no Content-Type enviado.
+ */
+export function sniffMimeType(data: Buffer): SubmissionMimeType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "application/pdf";
+  }
+  return null;
+}
+
+/**
+ * Hosts de onde aceitamos imageUrl: o projeto Supabase (Storage) e os
+ * indicados em TRUSTED_IMAGE_HOSTS (separados por vírgulas).
+ */
+export function trustedImageHosts(): string[] {
+  const hosts = (process.env.TRUSTED_IMAGE_HOSTS || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    hosts.push(new URL(process.env.NEXT_PUBLIC_SUPABASE_URL).hostname.toLowerCase());
+  }
+
+  return hosts;
+}
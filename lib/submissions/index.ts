@@ -0,0 +1,15 @@
+export {
+  MAX_PAGES,
+  MAX_PAGE_BYTES,
+  MAX_SUBMISSION_BODY_BYTES,
+  SUBMISSIONS_BUCKET,
+  sniffMimeType,
+  trustedImageHosts,
+} from "./config";
+export {
+  SubmissionError,
+  loadSubmissionPages,
+  resolveSubmission,
+  type ResolvedSubmission,
+  type SubmissionPayload,
+} from "./submission";
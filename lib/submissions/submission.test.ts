@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { sniffMimeType, trustedImageHosts } from "./config";
+import { SubmissionError, resolveSubmission } from "./submission";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const ENV_KEYS = ["TRUSTED_IMAGE_HOSTS", "NEXT_PUBLIC_SUPABASE_URL"] as const;
+
+describe("sniffMimeType", () => {
+  it("detects the type by the file signature", () => {
+    assert.equal(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), "image/jpeg");
+    assert.equal(sniffMimeType(PNG), "image/png");
+    assert.equal(sniffMimeType(Buffer.from("RIFF\0\0\0\0WEBPVP8 ", "latin1")), "image/webp");
+    assert.equal(sniffMimeType(Buffer.from("%PDF-1.7\n", "latin1")), "application/pdf");
+  });
+
+  it("rejects anything else, whatever it claims to be", () => {
+    assert.equal(sniffMimeType(Buffer.from("GIF89a", "latin1")), null);
+    assert.equal(sniffMimeType(Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'>")), null);
+    assert.equal(sniffMimeType(Buffer.from("RIFF\0\0\0\0WAVE", "latin1")), null);
+    assert.equal(sniffMimeType(Buffer.alloc(0)), null);
+  });
+});
+
+describe("image URLs", () => {
+  const saved: Partial<Record<(typeof ENV_KEYS)[number], string>> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) saved[key] = process.env[key];
+    process.env.TRUSTED_IMAGE_HOSTS = " Images.Example.com , ,cdn.example.org";
+    process.env.NEXT_PUBLIC_SUPABASE_URL = "https://abc.supabase.co";
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    mock.restoreAll();
+  });
+
+  it("may come from the configured hosts and the Supabase project", () => {
+    assert.deepEqual(trustedImageHosts(), [
+      "images.example.com",
+      "cdn.example.org",
+      "abc.supabase.co",
+    ]);
+  });
+
+  for (const url of [
+    "http://images.example.com/page.png",
+    "https://evil.example.com/page.png",
+    "https://images.example.com.evil.com/page.png",
+    "file:///etc/passwd",
+  ]) {
+    it(`are rejected before any request: ${url}`, async () => {
+      const fetchMock = mock.method(globalThis, "fetch", async () => new Response(PNG));
+      await assert.rejects(
+        resolveSubmission({ imageUrl: url }, null),
+        (err) => err instanceof SubmissionError && err.status === 400,
+      );
+      assert.equal(fetchMock.mock.callCount(), 0);
+    });
+  }
+
+  it("are fetched over HTTPS from a trusted host, without following redirects", async () => {
+    const fetchMock = mock.method(globalThis, "fetch", async () => new Response(PNG));
+    const url = "https://abc.supabase.co/storage/v1/object/public/pages/1.png";
+
+    const submission = await resolveSubmission({ imageUrl: url }, null);
+
+    assert.deepEqual(submission.refs, [url]);
+    assert.equal(submission.pages[0].mimeType, "image/png");
+    const init = fetchMock.mock.calls[0].arguments[1] as RequestInit;
+    assert.equal(init.redirect, "error");
+  });
+
+  it("reject a download that is not a supported file", async () => {
+    mock.method(globalThis, "fetch", async () => new Response("<html></html>"));
+    await assert.rejects(
+      resolveSubmission({ imageUrl: "https://cdn.example.org/page.png" }, null),
+      (err) => err instanceof SubmissionError && err.status === 415,
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+import type { UploadedFile } from "@/lib/http/readBody";
+import type { LLMImage } from "@/lib/llm";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  FETCH_TIMEOUT_MS,
+  FILE_EXTENSIONS,
+  MAX_PAGES,
+  MAX_PAGE_BYTES,
+  SUBMISSIONS_BUCKET,
+  sniffMimeType,
+  trustedImageHosts,
+  type SubmissionMimeType,
+} from "./config";
+
+export class SubmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "SubmissionError";
+  }
+}
+
+// Formas aceites de enviar a resolução (podem combinar-se, até MAX_PAGES)
+export type SubmissionPayload = {
+  imageUrl?: unknown;
+  imageUrls?: unknown;
+  images?: unknown; // [{ mimeType, data (base64) }]
+  files?: UploadedFile[]; // multipart
+};
+
+export type ResolvedSubmission = {
+  pages: LLMImage[];
+  // referência de cada página: "bucket/caminho" (upload) ou o URL confiável
+  refs: string[];
+};
+
+type RawPage = {
+  data: Buffer;
+  ref: string | null; // URL de origem, se já estiver guardada fora de nós
+};
+
+// ---------- Validação ----------
+
+function validatePage(page: RawPage): SubmissionMimeType {
+  if (page.data.length === 0) {
+    throw new SubmissionError("Empty image", 400);
+  }
+  if (page.data.length > MAX_PAGE_BYTES) {
+    throw new SubmissionError(
+      `Each page must be at most ${Math.round(MAX_PAGE_BYTES / 1024 / 1024)} MB`,
+      413,
+    );
+  }
+
+  const mimeType = sniffMimeType(page.data);
+  if (!mimeType) {
+    throw new SubmissionError("Only JPEG, PNG, WebP or PDF files are accepted", 415);
+  }
+  return mimeType;
+}
+
+// ---------- Origens ----------
+
+function asStringList(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((v) => typeof v === "string" && v.trim())) {
+    throw new SubmissionError("imageUrl(s) must be non-empty strings", 400);
+  }
+  return (list as string[]).map((v) => v.trim());
+}
+
+/**
+ * Só vai buscar imagens a hosts confiáveis, por HTTPS, sem seguir
+ * redirecionamentos e com limite de tamanho (proteção contra SSRF).
+ */
+async function fetchTrustedPage(rawUrl: string): Promise<RawPage> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new SubmissionError("imageUrl is not a valid URL", 400);
+  }
+
+  if (url.protocol !== "https:" || !trustedImageHosts().includes(url.hostname.toLowerCase())) {
+    throw new SubmissionError("imageUrl host is not allowed", 400);
+  }
+
+  let resp: Response;
+  try {
+    resp = await fetch(url, {
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (err) {
+    console.error("submission: failed to fetch image", err);
+    throw new SubmissionError("Could not download imageUrl", 422);
+  }
+
+  if (!resp.ok || !resp.body) {
+    throw new SubmissionError(`Could not download imageUrl (${resp.status})`, 422);
+  }
+
+  const declaredLength = Number(resp.headers.get("content-length"));
+  if (declaredLength > MAX_PAGE_BYTES) {
+    throw new SubmissionError("imageUrl is too large", 413);
+  }
+
+  // lê em streaming para não carregar ficheiros enormes sem content-length
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = resp.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_PAGE_BYTES) {
+      await reader.cancel();
+      throw new SubmissionError("imageUrl is too large", 413);
+    }
+    chunks.push(value);
+  }
+
+  return {
+    data: Buffer.concat(chunks),
+    ref: url.toString(),
+  };
+}
+
+function decodeInlineImages(value: unknown): RawPage[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new SubmissionError("images must be an array", 400);
+  }
+
+  return value.map((item) => {
+    const data = typeof item?.data === "string" ? item.data : "";
+    // aceita "data:image/png;base64,..." ou só o base64
+    const base64 = data.replace(/^data:[^;]+;base64,/, "");
+    if (!base64) {
+      throw new SubmissionError("images[].data must be a base64 string", 400);
+    }
+    // o tipo declarado (mimeType) é ignorado: validatePage deteta-o pelo conteúdo
+    return { data: Buffer.from(base64, "base64"), ref: null };
+  });
+}
+
+// ---------- Storage ----------
+
+async function storePage(
+  data: Buffer,
+  mimeType: SubmissionMimeType,
+  studentId: string | null,
+): Promise<string | null> {
+  const day = new Date().toISOString().slice(0, 10);
+  const path = `${studentId || "anonymous"}/${day}/${randomUUID()}.${FILE_EXTENSIONS[mimeType]}`;
+
+  const { error } = await supabaseAdmin.storage
+    .from(SUBMISSIONS_BUCKET)
+    .upload(path, data, { contentType: mimeType, upsert: false });
+
+  // sem Storage a avaliação continua; só perdemos a cópia da imagem
+  if (error) {
+    console.error("submission: failed to store page", error);
+    return null;
+  }
+  return `${SUBMISSIONS_BUCKET}/${path}`;
+}
+
+async function downloadStoredPage(ref: string): Promise<Buffer> {
+  const path = ref.slice(SUBMISSIONS_BUCKET.length + 1);
+  const { data, error } = await supabaseAdmin.storage.from(SUBMISSIONS_BUCKET).download(path);
+  if (error) throw error;
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// ---------- Serviço ----------
+
+/**
+ * Junta todas as páginas da resolução (URLs, base64 e ficheiros),
+ * valida-as e guarda no Storage as que foram enviadas diretamente.
+ */
+export async function resolveSubmission(
+  payload: SubmissionPayload,
+  studentId: string | null,
+): Promise<ResolvedSubmission> {
+  const urls = [...asStringList(payload.imageUrl), ...asStringList(payload.imageUrls)];
+  const inline = decodeInlineImages(payload.images);
+  const uploads: RawPage[] = (payload.files || []).map((file) => ({
+    data: file.data,
+    ref: null,
+  }));
+
+  const total = urls.length + inline.length + uploads.length;
+  if (total === 0) {
+    return { pages: [], refs: [] };
+  }
+  if (total > MAX_PAGES) {
+    throw new SubmissionError(`At most ${MAX_PAGES} pages per submission`, 400);
+  }
+
+  const fetched = await Promise.all(urls.map(fetchTrustedPage));
+  const rawPages = [...fetched, ...inline, ...uploads];
+
+  // valida tudo antes de guardar, para não deixar uploads órfãos
+  const mimeTypes = rawPages.map(validatePage);
+
+  const refs: string[] = [];
+  for (let i = 0; i < rawPages.length; i++) {
+    const page = rawPages[i];
+    const ref = page.ref ?? (await storePage(page.data, mimeTypes[i], studentId));
+    if (ref) refs.push(ref);
+  }
+
+  const pages: LLMImage[] = rawPages.map((page, i) => ({
+    mimeType: mimeTypes[i],
+    data: page.data.toString("base64"),
+  }));
+
+  return { pages, refs };
+}
+
+/**
+ * Volta a carregar as páginas de uma tentativa a partir das referências
+ * guardadas (Storage ou URL confiável). Páginas que já não existem são ignoradas.
+ */
+export async function loadSubmissionPages(refs: string[]): Promise<LLMImage[]> {
+  const pages: LLMImage[] = [];
+
+  for (const ref of refs.slice(0, MAX_PAGES)) {
+    try {
+      const data = ref.startsWith(`${SUBMISSIONS_BUCKET}/`)
+        ? await downloadStoredPage(ref)
+        : (await fetchTrustedPage(ref)).data;
+      const mimeType = sniffMimeType(data);
+      if (mimeType) pages.push({ mimeType, data: data.toString("base64") });
+    } catch (err) {
+      console.error("submission: failed to load stored page", err);
+    }
+  }
+
+  return pages;
+}
@@ -0,0 +1,12 @@
+import type { NextApiResponse } from "next";
+import { TutorError } from "./tutorChat";
+
+// Converte erros do explicador em respostas HTTP
+export function sendTutorError(res: NextApiResponse, err: unknown, route: string) {
+  if (err instanceof TutorError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+
+  console.error(`${route}: unexpected error`, err);
+  return res.status(500).json({ error: "Internal Server Error" });
+}
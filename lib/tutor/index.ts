@@ -0,0 +1,8 @@
+export * from "./types";
+export {
+  MAX_TUTOR_QUESTIONS,
+  TutorError,
+  getTutorConversation,
+  streamTutorReply,
+} from "./tutorChat";
+export { sendTutorError } from "./http";
@@ -0,0 +1,243 @@
+import { getAttemptById, type Attempt } from "@/lib/db/attempts";
+import { getExerciseById, type StoredExercise } from "@/lib/db/exercises";
+import {
+  deleteTutorMessage,
+  insertTutorMessage,
+  insertTutorQuestion,
+  listTutorMessages,
+  type TutorMessage,
+} from "@/lib/db/tutorMessages";
+import { fetchSubtopicContext } from "@/lib/exercises";
+import {
+  getLLMClient,
+  type LLMDeltaHandler,
+  type LLMMessage,
+  type LLMResponse,
+} from "@/lib/llm";
+import { DEFAULT_LOCALE, localeConventions, type Locale } from "@/lib/locale";
+import { buildStructuredText } from "@/lib/markup";
+import { loadSubmissionPages } from "@/lib/submissions";
+import {
+  MAX_TUTOR_MESSAGE_LENGTH,
+  type TutorChatMessage,
+  type TutorConversation,
+  type TutorReply,
+} from "./types";
+
+export class TutorError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "TutorError";
+  }
+}
+
+// perguntas por tentativa (cada uma reenvia as páginas da resolução ao modelo)
+export const MAX_TUTOR_QUESTIONS = 20;
+
+// mensagens anteriores enviadas ao modelo em cada pergunta
+const HISTORY_WINDOW = 12;
+
+type TutorUser = { id: string; role: string };
+
+// ---------- Helpers ----------
+
+function toChatMessage(message: TutorMessage): TutorChatMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    structuredContent:
+      message.role === "assistant"
+        ? buildStructuredText(message.content.replace(/\$/g, ""), message.content)
+        : buildStructuredText(message.content),
+    createdAt: message.createdAt,
+  };
+}
+
+function remainingQuestions(messages: TutorMessage[]): number {
+  const asked = messages.filter((m) => m.role === "user").length;
+  return Math.max(0, MAX_TUTOR_QUESTIONS - asked);
+}
+
+async function loadAttempt(attemptId: string, user: TutorUser, write: boolean): Promise<Attempt> {
+  const attempt = await getAttemptById(attemptId);
+  // tentativas de outro aluno são tratadas como inexistentes (um admin só pode ler)
+  const allowed =
+    attempt && (attempt.studentId === user.id || (!write && user.role === "admin"));
+  if (!attempt || !allowed) {
+    throw new TutorError("Attempt not found", 404);
+  }
+  return attempt;
+}
+
+function describeEvaluation(attempt: Attempt): string {
+  const steps = attempt.steps.length
+    ? attempt.steps
+        .map(
+          (step, i) =>
+            `${i + 1}. ${step.description} — ${step.correct ? "correto" : `errado (${step.errorCategory})`}` +
+            (step.comment ? `. Comentário: ${step.comment}` : ""),
+        )
+        .join("\n")
+    : "(sem análise passo a passo)";
+
+  return `
+Classificação: ${attempt.result} (${attempt.score}/100)${
+    attempt.hintsUsed ? `, depois de ${attempt.hintsUsed} pista(s)` : ""
+  }
+Feedback dado ao aluno: ${attempt.feedbackSummary}
+Passos da resolução, pela ordem das páginas:
+${steps}`;
+}
+
+async function buildSystemPrompt(
+  attempt: Attempt,
+  exercise: StoredExercise | null,
+  locale: Locale,
+): Promise<string> {
+  let aiNotes = "";
+  try {
+    const ctx = await fetchSubtopicContext({
+      subtopicId: attempt.subtopicId || undefined,
+      subtopicName: attempt.subtopicName,
+    });
+    aiNotes = ctx?.aiNotes || "";
+  } catch (err) {
+    console.error("tutor: failed to load subtopic context", err);
+  }
+
+  const statement = exercise?.statement || attempt.statement || "(enunciado indisponível)";
+  const answerKey = exercise?.answerKey;
+  const { languageLabel, notationBlock } = localeConventions(locale);
+
+  return `
+Tu és o Wolfi, explicador de Matemática A (Portugal). Um aluno acabou de receber a
+avaliação de uma resolução e quer perceber os erros. Conversa com ele em ${languageLabel},
+com simpatia e paciência, como um bom explicador, e com estas convenções:
+${notationBlock}
+
+Contexto curricular:
+- Subtema: ${attempt.subtopicName}
+- Conteúdos trabalhados neste subtema (resumo):
+${aiNotes || "- (sem notas adicionais)"}
+
+Enunciado:
+${statement}
+
+Resposta final escrita pelo aluno:
+${attempt.userAnswer || "<sem resposta textual>"}
+
+Avaliação da resolução (nas páginas em anexo):
+${describeEvaluation(attempt)}
+${
+  answerKey
+    ? `
+Resolução de referência (uso interno):
+${answerKey.referenceSolution}
+`
+    : ""
+}
+Regras MUITO importantes:
+- Responde só ao que o aluno pergunta, com base na resolução dele (páginas em anexo) e na avaliação.
+- Quando o aluno falar de um passo ("o passo 2"), usa a numeração dos passos acima.
+- Explica o PORQUÊ do erro e faz perguntas que levem o aluno a corrigi-lo.
+- Não reveles a solução completa nem a resposta final, mesmo que o aluno insista.
+- Não alteres a classificação; se o aluno discordar, explica os critérios.
+- Se a pergunta não for sobre este exercício ou sobre Matemática, volta gentilmente ao exercício.
+- Respostas curtas (até 6 frases), em texto simples, com a matemática em LaTeX entre $...$.
+`;
+}
+
+// ---------- Serviço ----------
+
+export async function getTutorConversation(
+  attemptId: string,
+  user: TutorUser,
+): Promise<TutorConversation> {
+  await loadAttempt(attemptId, user, false);
+  const messages = await listTutorMessages(attemptId);
+  return {
+    attemptId,
+    messages: messages.map(toChatMessage),
+    remainingQuestions: remainingQuestions(messages),
+  };
+}
+
+/**
+ * Responde a uma pergunta sobre uma tentativa avaliada, em streaming (onDelta).
+ * A pergunta é guardada antes de chamar o modelo (é aí que o limite é aplicado) e
+ * apagada se a resposta não chegar ao fim; a resposta só é guardada quando termina.
+ */
+export async function streamTutorReply(params: {
+  attemptId: string;
+  user: TutorUser;
+  message: string;
+  locale?: Locale; // sem língua, a do exercício ou PT-PT
+  onDelta: LLMDeltaHandler;
+}): Promise<TutorReply> {
+  const question = params.message.trim();
+  if (!question) {
+    throw new TutorError("message is required", 400);
+  }
+  if (question.length > MAX_TUTOR_MESSAGE_LENGTH) {
+    throw new TutorError(`message must be at most ${MAX_TUTOR_MESSAGE_LENGTH} characters`, 400);
+  }
+
+  const attempt = await loadAttempt(params.attemptId, params.user, true);
+  const [history, exercise, pages] = await Promise.all([
+    listTutorMessages(attempt.id),
+    attempt.exerciseId ? getExerciseById(attempt.exerciseId) : Promise.resolve(null),
+    loadSubmissionPages(attempt.imageRefs),
+  ]);
+
+  const locale = params.locale ?? exercise?.locale ?? DEFAULT_LOCALE;
+  const messages: LLMMessage[] = [
+    { role: "system", content: await buildSystemPrompt(attempt, exercise, locale) },
+    ...history.slice(-HISTORY_WINDOW).map((m) => ({ role: m.role, content: m.content })),
+    { role: "user", content: question },
+  ];
+
+  // contar e guardar a pergunta de uma vez: pedidos em paralelo não passam do limite
+  const storedQuestion = await insertTutorQuestion({
+    attemptId: attempt.id,
+    studentId: attempt.studentId,
+    content: question,
+    maxQuestions: MAX_TUTOR_QUESTIONS,
+  });
+  if (!storedQuestion) {
+    throw new TutorError("This conversation has reached its question limit", 409);
+  }
+
+  let completion: LLMResponse;
+  try {
+    const llm = getLLMClient("tutorChat");
+    completion = await llm.streamText(
+      { temperature: 0.4, messages, images: pages },
+      params.onDelta,
+    );
+  } catch (err) {
+    // sem resposta a pergunta não conta: o aluno pode voltar a perguntar
+    await deleteTutorMessage(storedQuestion.id).catch((deleteErr) =>
+      console.error("tutor: failed to remove unanswered question", deleteErr),
+    );
+    throw err;
+  }
+
+  const storedReply = await insertTutorMessage({
+    attemptId: attempt.id,
+    studentId: attempt.studentId,
+    role: "assistant",
+    content: completion.text.trim(),
+    provider: completion.provider,
+    model: completion.model,
+  });
+
+  return {
+    question: toChatMessage(storedQuestion),
+    reply: toChatMessage(storedReply),
+    remainingQuestions: Math.max(0, remainingQuestions(history) - 1),
+  };
+}
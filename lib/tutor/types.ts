@@ -0,0 +1,25 @@
+import type { TutorRole } from "@/lib/db/tutorMessages";
+import type { StructuredText } from "@/lib/markup";
+
+export const MAX_TUTOR_MESSAGE_LENGTH = 1000;
+
+export type TutorChatMessage = {
+  id: string;
+  role: TutorRole;
+  content: string; // texto como foi escrito (o do Wolfi traz a matemática entre $…$)
+  structuredContent: StructuredText;
+  createdAt: string;
+};
+
+export type TutorConversation = {
+  attemptId: string;
+  messages: TutorChatMessage[];
+  remainingQuestions: number;
+};
+
+// Evento final do stream: as duas mensagens já guardadas
+export type TutorReply = {
+  question: TutorChatMessage;
+  reply: TutorChatMessage;
+  remainingQuestions: number;
+};
@@ -1,256 +1,227 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-type PracticeResult = "correct" | "partial" | "incorrect";
-
-type EvaluationResult = {
-  result: PracticeResult;
-  score: number;
-  feedbackSummary: string;
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { evaluateAnswerRequest } from "@/lib/contracts";
+import { canAccessExercise } from "@/lib/db/assignments";
+import { getExerciseById, type StoredExercise } from "@/lib/db/exercises";
+import { getPracticeSession, type PracticeSession } from "@/lib/db/practiceSessions";
+import {
+  REJECTED_CONTENT_CODES,
+  deferEvaluation,
+  evaluateAnswer,
+  recordEvaluatedAttempt,
+  type DeferredEvaluation,
+  type EvaluationErrorCode,
+  type EvaluationResult,
+} from "@/lib/evaluation";
+import { fetchSubtopicContext } from "@/lib/exercises";
+import { countHintsUsed } from "@/lib/hints";
+import { RequestBodyError, readRequestBody } from "@/lib/http/readBody";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { DEFAULT_LOCALE } from "@/lib/locale";
+import type { Infer } from "@/lib/schema";
+import {
+  MAX_SUBMISSION_BODY_BYTES,
+  SubmissionError,
+  resolveSubmission,
+  type ResolvedSubmission,
+} from "@/lib/submissions";
+
+// o corpo é lido à mão: aceitamos JSON e multipart/form-data
+export const config = {
+  api: { bodyParser: false },
 };
 
-const ALLOWED_RESULTS: PracticeResult[] = ["correct", "partial", "incorrect"];
+// 200 com a nota; 202 quando fica na fila de reavaliação; 422 quando a moderação
+// recusa a submissão; 503 quando nem a fila deu
+type ResponseBody =
+  | (EvaluationResult & { status: "evaluated"; attemptId: string | null })
+  | DeferredEvaluation
+  | { status: "unavailable"; errorCode: EvaluationErrorCode; error: string }
+  | { error: string };
 
-function getFallbackEvaluation(exerciseIndex: number = 1): EvaluationResult {
-  if (exerciseIndex === 1) {
-    return {
-      result: "correct",
-      score: 100,
-      feedbackSummary: "Bom trabalho! Acertaste este exercício.",
-    };
-  }
-  if (exerciseIndex === 2) {
-    return {
-      result: "partial",
-      score: 60,
-      feedbackSummary:
-        "Quase lá. Vale a pena rever alguns passos deste tipo de exercício.",
-    };
-  }
-  return {
-    result: "incorrect",
-    score: 20,
-    feedbackSummary:
-      "A tua resolução ainda precisa de reforço neste tipo de exercício.",
-  };
-}
-
-function sanitizeExerciseIndex(index?: number): number {
-  if (!index || Number.isNaN(index)) return 1;
-  if (index < 1) return 1;
-  if (index > 3) return 3;
-  return Math.floor(index);
-}
-
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse,
+  res: NextApiResponse<ResponseBody>,
+  user: AuthUser,
 ) {
   if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
   }
 
-  let body: any;
+  // Campos em JSON ou em multipart/form-data. A resolução pode vir em imageUrl /
+  // imageUrls (hosts confiáveis), images (base64) ou ficheiros; no máximo MAX_PAGES.
+  let submission: ResolvedSubmission;
+  let fields: Infer<typeof evaluateAnswerRequest>;
   try {
-    body = req.body;
-  } catch (err) {
-    console.error("evaluateAnswer: invalid JSON", err);
-    return res.status(200).json(getFallbackEvaluation(1));
-  }
-
-  const {
-    statement,
-    userAnswer = "",
-    imageUrl,
-    subtopicName = "Derivadas",
-    difficulty = "medium",
-  } = body;
-
-  const exerciseIndex = sanitizeExerciseIndex(body.exerciseIndex);
-
-  if (!statement || typeof statement !== "string" || !statement.trim()) {
-    console.warn("evaluateAnswer: missing statement");
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
-  }
-
-  if (!imageUrl || typeof imageUrl !== "string" || !imageUrl.trim()) {
-    console.warn("evaluateAnswer: missing imageUrl");
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
-  }
-
-  if (!process.env.GEMINI_API_KEY) {
-    console.warn("evaluateAnswer: missing GEMINI_API_KEY");
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
-  }
-
-  const trimmedAnswer = userAnswer.toString().trim();
-
-  // 1) Buscar a imagem e converter para base64
-  let base64Image: string | null = null;
-  let mimeType: string = "image/jpeg";
-
-  try {
-    const imgResp = await fetch(imageUrl);
-    if (!imgResp.ok) {
-      throw new Error(`fetch image failed: ${imgResp.status}`);
+    const body = await readRequestBody(req, MAX_SUBMISSION_BODY_BYTES);
+    const parsed = evaluateAnswerRequest.parse(body.fields);
+    if (!parsed.ok) {
+      return sendInvalidRequest(res, parsed.issues);
     }
-
-    const contentTypeHeader =
-      imgResp.headers.get("content-type") || "image/jpeg";
-    if (contentTypeHeader.startsWith("image/")) {
-      mimeType = contentTypeHeader.split(";")[0];
+    fields = parsed.value;
+    submission = await resolveSubmission({ ...fields, files: body.files }, user.id);
+  } catch (err) {
+    if (err instanceof RequestBodyError || err instanceof SubmissionError) {
+      return res.status(err.status).json({ error: err.message });
     }
-
-    const arrBuf = await imgResp.arrayBuffer();
-    base64Image = Buffer.from(arrBuf).toString("base64");
-  } catch (e) {
-    console.error("evaluateAnswer: failed to fetch/convert image", e);
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
+    throw err;
   }
 
-  if (!base64Image) {
-    console.error("evaluateAnswer: base64Image is null");
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
-  }
-
-  const systemPrompt = `
-És um avaliador de Matemática A do ensino secundário português (10.º–12.º ano),
-especialista em Exames Nacionais.
-
-Tens:
-- o enunciado de um exercício;
-- a resposta final em texto (opcional);
-- UMA IMAGEM com a resolução completa feita pelo aluno (passo a passo).
-
-O teu trabalho é avaliar a RESOLUÇÃO do aluno, não só o resultado final.
-
-CRITÉRIOS DE AVALIAÇÃO (0–100):
-- 0–20: resposta essencialmente incorreta, raciocínio errado ou incompleto.
-- 21–50: há algumas ideias corretas, mas com erros graves ou passos em falta.
-- 51–80: maior parte do raciocínio está correta, com alguns erros ou omissões.
-- 81–100: resolução correta, bem justificada e coerente com o enunciado.
-
-Regras importantes:
-- Lê toda a resolução na imagem, mesmo que a resposta final pareça correta ou errada.
-- Dá mais peso ao raciocínio e justificação do que apenas ao resultado.
-- Usa sempre valores inteiros para o score (sem casas decimais).
-- A classificação "correct" deve ser rara: exige solução totalmente sólida.
-- "partial" é para resoluções com parte considerável correta mas com falhas.
-- "incorrect" é para resoluções sem entendimento adequado do problema.
-
-DEVOLVES APENAS UM OBJETO JSON, com esta estrutura EXATA:
-{
-  "result": "correct" | "partial" | "incorrect",
-  "score": 0-100,
-  "feedbackSummary": "frase curta em PT-PT"
-}
-
-- "feedbackSummary" deve ter 1–2 frases em PT-PT.
-- Não reveles a solução completa, apenas feedback geral.
-- Não escrevas qualquer texto fora deste JSON.
-`;
+  const { userAnswer, exerciseIndex } = fields;
+  let statement = fields.statement;
+  let subtopicName = fields.subtopicName;
+  let difficulty = fields.difficulty;
+  let subtopicId = fields.subtopicId ?? null;
 
-  const userPrompt = `
-Contexto do exercício para avaliação de Matemática A:
-
-Subtema: ${subtopicName}
-Dificuldade: ${difficulty}
-Número do exercício (na ficha/exame): ${exerciseIndex}
-
-Enunciado:
-${statement}
-
-Resposta final escrita pelo aluno:
-${trimmedAnswer || "<sem resposta textual>"} 
-
-Avalia com base principalmente na resolução que vês na IMAGEM.
-`;
-
-  try {
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-    const result = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { text: systemPrompt + "\n\n" + userPrompt },
-            {
-              inlineData: {
-                mimeType,
-                data: base64Image,
-              },
-            },
-          ],
-        },
-      ],
-      generationConfig: {
-        temperature: 0.2,
-      },
-    });
-
-    const text = result.response.text();
-    if (!text) {
-      console.warn("evaluateAnswer: empty content from Gemini");
-      return res.status(200).json(getFallbackEvaluation(exerciseIndex));
+  // Se vier exerciseId, o enunciado e os critérios vêm da BD
+  let exercise: StoredExercise | null = null;
+  if (fields.exerciseId) {
+    let foreign = false;
+    try {
+      exercise = await getExerciseById(fields.exerciseId);
+      foreign = Boolean(exercise && !(await canAccessExercise(exercise, user.id)));
+    } catch (err) {
+      console.error("evaluateAnswer: failed to load exercise", err);
+      return res.status(503).json({
+        status: "unavailable",
+        errorCode: "storage_unavailable",
+        error: "Evaluation unavailable, please submit again later",
+      });
     }
 
-    // --- limpar resposta para garantir JSON puro ---
-    let jsonText = text.trim();
-
-    // Caso venha em bloco de código ```json ... ```
-    if (jsonText.startsWith("```")) {
-      // remove ```json ou ``` na primeira linha
-      jsonText = jsonText.replace(/^```[a-zA-Z]*\s*/, "");
-      // remove ``` final
-      jsonText = jsonText.replace(/```$/, "").trim();
+    if (!exercise || foreign) {
+      return res.status(404).json({ error: "Exercise not found" });
     }
 
-    // Ficar só com o conteúdo entre a primeira { e a última }
-    const firstBrace = jsonText.indexOf("{");
-    const lastBrace = jsonText.lastIndexOf("}");
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      jsonText = jsonText.slice(firstBrace, lastBrace + 1);
+    statement = exercise.statement;
+    subtopicId = exercise.subtopicId;
+    subtopicName = exercise.subtopicName;
+    difficulty = exercise.difficulty;
+  } else {
+    // enunciado livre: um subtopicId tem de existir; um nome desconhecido fica como veio
+    const subtopic = await fetchSubtopicContext({
+      subtopicId: fields.subtopicId,
+      subtopicName,
+    });
+    if (subtopic) {
+      subtopicId = subtopic.subtopicId;
+      subtopicName = subtopic.subtopicName;
+    } else if (fields.subtopicId) {
+      return sendInvalidRequest(res, [{ path: "subtopicId", message: "is not a known subtopic" }]);
     }
+  }
 
-    let parsed: any;
+  // a tentativa só entra numa sessão ativa do próprio aluno
+  const sessionId = fields.sessionId ?? null;
+  if (sessionId) {
+    let session: PracticeSession | null;
     try {
-      parsed = JSON.parse(jsonText);
+      session = await getPracticeSession(sessionId);
     } catch (err) {
-      console.error("evaluateAnswer: failed to parse JSON from Gemini", {
-        err,
-        raw: text,
-        cleaned: jsonText,
+      console.error("evaluateAnswer: failed to load session", err);
+      return res.status(503).json({
+        status: "unavailable",
+        errorCode: "storage_unavailable",
+        error: "Evaluation unavailable, please submit again later",
       });
-      return res.status(200).json(getFallbackEvaluation(exerciseIndex));
     }
 
-    const resultLabel: PracticeResult = parsed.result;
-    const scoreRaw = Number(parsed.score);
-
-    const isValid =
-      ALLOWED_RESULTS.includes(resultLabel) &&
-      Number.isFinite(scoreRaw) &&
-      typeof parsed.feedbackSummary === "string" &&
-      parsed.feedbackSummary.trim().length > 0;
-
-    if (!isValid) {
-      console.warn("evaluateAnswer: invalid fields from Gemini", parsed);
-      return res.status(200).json(getFallbackEvaluation(exerciseIndex));
+    // sessões de outro aluno são tratadas como inexistentes
+    if (!session || session.studentId !== user.id) {
+      return res.status(404).json({ error: "Session not found" });
     }
+    if (session.status !== "active") {
+      return res.status(403).json({ error: "Session is not active" });
+    }
+  }
 
-    const score = Math.max(0, Math.min(100, Math.round(scoreRaw)));
+  // sem locale no pedido, o feedback sai na língua do exercício
+  const locale = fields.locale ?? exercise?.locale ?? DEFAULT_LOCALE;
 
-    const output: EvaluationResult = {
-      result: resultLabel,
-      score,
-      feedbackSummary: parsed.feedbackSummary.trim(),
-    };
+  // o esquema garante statement ou exerciseId; com exerciseId veio da BD
+  if (!statement) {
+    return res.status(400).json({ error: "statement or exerciseId is required" });
+  }
+
+  if (submission.pages.length === 0) {
+    return res.status(400).json({ error: "At least one resolution page is required" });
+  }
 
-    return res.status(200).json(output);
+  // sem o registo das pistas avalia-se sem desconto
+  let hintsUsed = 0;
+  try {
+    hintsUsed = await countHintsUsed(user.id, statement);
   } catch (err) {
-    console.error("Gemini error in evaluateAnswer", err);
-    return res.status(200).json(getFallbackEvaluation(exerciseIndex));
+    console.error("evaluateAnswer: failed to load hint usage", err);
   }
+
+  const outcome = await evaluateAnswer({
+    statement,
+    statementFromClient: !exercise,
+    userAnswer,
+    pages: submission.pages,
+    subtopicName,
+    difficulty,
+    exerciseIndex,
+    exerciseType: exercise?.exerciseType || null,
+    answerKey: exercise?.answerKey || null,
+    hintsUsed,
+    studentId: user.id,
+    locale,
+  });
+
+  // recusada pela moderação: reavaliar a mesma submissão não muda nada
+  if (outcome.status === "unavailable" && REJECTED_CONTENT_CODES.includes(outcome.errorCode)) {
+    return res.status(422).json({
+      status: "unavailable",
+      errorCode: outcome.errorCode,
+      error: "Submission rejected by moderation",
+    });
+  }
+
+  // sem modelo não há nota: a resolução fica na fila e é reavaliada mais tarde
+  if (outcome.status === "unavailable") {
+    const deferred = await deferEvaluation({
+      studentId: user.id,
+      sessionId,
+      exercise,
+      subtopicId,
+      subtopicName,
+      difficulty,
+      exerciseIndex,
+      statement,
+      userAnswer: userAnswer.trim() || null,
+      submission,
+      hintsUsed,
+      locale,
+      errorCode: outcome.errorCode,
+    });
+    if (deferred.status === "pending") {
+      res.setHeader("Retry-After", String(deferred.retryAfterSeconds));
+      return res.status(202).json(deferred);
+    }
+    return res.status(503).json(deferred);
+  }
+
+  const attemptId = await recordEvaluatedAttempt({
+    studentId: user.id,
+    sessionId,
+    exercise,
+    subtopicId,
+    subtopicName,
+    difficulty,
+    exerciseIndex,
+    statement,
+    userAnswer: userAnswer.trim() || null,
+    imageRefs: submission.refs,
+    evaluation: outcome.evaluation,
+    provider: outcome.provider,
+    model: outcome.model,
+    prompt: outcome.prompt,
+  });
+
+  return res.status(200).json({ status: "evaluated", ...outcome.evaluation, attemptId });
 }
+
+export default withAuth(handler, { quota: "evaluate" });
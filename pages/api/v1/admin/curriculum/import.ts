@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { curriculumImportQuery } from "@/lib/contracts";
+import {
+  importCurriculum,
+  parseCurriculumImport,
+  sendCurriculumError,
+  type CurriculumImportFormat,
+} from "@/lib/curriculum";
+import { RequestBodyError, readRequestBody } from "@/lib/http/readBody";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// o corpo é lido à mão: aceitamos JSON ({ topics } ou { csv }) e multipart com um ficheiro
+export const config = {
+  api: { bodyParser: false },
+};
+
+const MAX_IMPORT_BODY_BYTES = 5 * 1024 * 1024;
+
+type ImportPayload = { format: CurriculumImportFormat; payload: unknown };
+
+function readPayload(body: Awaited<ReturnType<typeof readRequestBody>>): ImportPayload | null {
+  const file = body.files[0];
+  if (file) {
+    const text = file.data.toString("utf8");
+    const isCsv = file.mimeType.includes("csv") || file.fileName.toLowerCase().endsWith(".csv");
+    if (isCsv) return { format: "csv", payload: text };
+    try {
+      return { format: "json", payload: JSON.parse(text) };
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof body.fields.csv === "string") {
+    return { format: "csv", payload: body.fields.csv };
+  }
+  if (body.fields.topics !== undefined) {
+    return { format: "json", payload: body.fields };
+  }
+  return null;
+}
+
+// POST /api/v1/admin/curriculum/import[?dryRun=true] – importa tópicos/subtemas/ai_notes
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const query = curriculumImportQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+
+  try {
+    const body = await readRequestBody(req, MAX_IMPORT_BODY_BYTES);
+    const input = readPayload(body);
+    if (!input) {
+      return res
+        .status(400)
+        .json({ error: "Send a JSON body with topics or csv, or a .json/.csv file" });
+    }
+
+    const topics = parseCurriculumImport(input.format, input.payload);
+    const result = await importCurriculum(topics, { dryRun: query.value.dryRun, user });
+    return res.status(200).json(result);
+  } catch (err) {
+    if (err instanceof RequestBodyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    return sendCurriculumError(res, err, "admin/curriculum/import");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { subtopicParams } from "@/lib/contracts";
+import { getAiNotesHistory, sendCurriculumError } from "@/lib/curriculum";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/admin/curriculum/subtopics/:subtopicId/ai-notes – histórico de versões das ai_notes
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = subtopicParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const history = await getAiNotesHistory(params.value.subtopicId);
+    return res.status(200).json(history);
+  } catch (err) {
+    return sendCurriculumError(res, err, "admin/curriculum/ai-notes");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { subtopicParams, updateSubtopicRequest } from "@/lib/contracts";
+import { editSubtopic, removeSubtopic, sendCurriculumError } from "@/lib/curriculum";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// PATCH /api/v1/admin/curriculum/subtopics/:subtopicId – altera tema, nome ou ai_notes
+// DELETE /api/v1/admin/curriculum/subtopics/:subtopicId – apaga o subtema
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  const params = subtopicParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { subtopicId } = params.value;
+
+  try {
+    if (req.method === "PATCH") {
+      const patch = updateSubtopicRequest.parse(req.body || {});
+      if (!patch.ok) {
+        return sendInvalidRequest(res, patch.issues);
+      }
+      const subtopic = await editSubtopic(subtopicId, patch.value, user);
+      return res.status(200).json(subtopic);
+    }
+
+    if (req.method === "DELETE") {
+      await removeSubtopic(subtopicId);
+      return res.status(204).end();
+    }
+
+    res.setHeader("Allow", "PATCH, DELETE");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendCurriculumError(res, err, "admin/curriculum/subtopic");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { createSubtopicRequest } from "@/lib/contracts";
+import { createSubtopic, sendCurriculumError } from "@/lib/curriculum";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// POST /api/v1/admin/curriculum/subtopics – cria um subtema (as ai_notes ficam versionadas)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = createSubtopicRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    const subtopic = await createSubtopic(input.value, user);
+    return res.status(201).json(subtopic);
+  } catch (err) {
+    return sendCurriculumError(res, err, "admin/curriculum/subtopics");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
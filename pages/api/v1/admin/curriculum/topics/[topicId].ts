@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { topicParams, updateTopicRequest } from "@/lib/contracts";
+import { editTopic, removeTopic, sendCurriculumError } from "@/lib/curriculum";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// PATCH /api/v1/admin/curriculum/topics/:topicId – altera código, nome ou ano
+// DELETE /api/v1/admin/curriculum/topics/:topicId – apaga um tópico sem subtemas
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const params = topicParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { topicId } = params.value;
+
+  try {
+    if (req.method === "PATCH") {
+      const patch = updateTopicRequest.parse(req.body || {});
+      if (!patch.ok) {
+        return sendInvalidRequest(res, patch.issues);
+      }
+      const topic = await editTopic(topicId, patch.value);
+      return res.status(200).json(topic);
+    }
+
+    if (req.method === "DELETE") {
+      await removeTopic(topicId);
+      return res.status(204).end();
+    }
+
+    res.setHeader("Allow", "PATCH, DELETE");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendCurriculumError(res, err, "admin/curriculum/topic");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
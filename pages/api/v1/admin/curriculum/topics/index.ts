@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { createTopicRequest } from "@/lib/contracts";
+import { createTopic, listCurriculum, sendCurriculumError } from "@/lib/curriculum";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/admin/curriculum/topics – programa completo (tópicos com subtemas e ai_notes)
+// POST /api/v1/admin/curriculum/topics – cria um tópico
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === "GET") {
+      const topics = await listCurriculum();
+      return res.status(200).json({ topics });
+    }
+
+    if (req.method === "POST") {
+      const input = createTopicRequest.parse(req.body || {});
+      if (!input.ok) {
+        return sendInvalidRequest(res, input.issues);
+      }
+      const topic = await createTopic(input.value);
+      return res.status(201).json(topic);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendCurriculumError(res, err, "admin/curriculum/topics");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { llmMetricsQuery } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { getLLMMetrics, type LLMRoute } from "@/lib/llm";
+import type { SchemaIssue } from "@/lib/schema";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Input = { from: string; to: string; route?: LLMRoute };
+
+// YYYY-MM-DD na hora de Lisboa (como os dias da vista llm_call_daily_stats)
+function lisbonDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "Europe/Lisbon" }).format(date);
+}
+
+// o esquema valida os campos; aqui fecha-se o período (por omissão, os últimos 30 dias)
+function resolvePeriod(query: { from?: string; to?: string; route?: LLMRoute }):
+  | Input
+  | SchemaIssue {
+  const end = query.to ?? lisbonDate(new Date());
+  const start =
+    query.from ?? lisbonDate(new Date(Date.parse(end) - (DEFAULT_DAYS - 1) * DAY_MS));
+
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS + 1;
+  if (Number.isNaN(days) || days < 1) {
+    return { path: "from", message: "must not be after to" };
+  }
+  if (days > MAX_DAYS) {
+    return { path: "from", message: `must be at most ${MAX_DAYS} days before to` };
+  }
+
+  return { from: start, to: end, route: query.route };
+}
+
+// GET /api/v1/admin/llm/metrics – chamadas, tokens, latência, falhas e custo por dia e por rota
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const query = llmMetricsQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+  const input = resolvePeriod(query.value);
+  if ("message" in input) {
+    return sendInvalidRequest(res, [input], "query");
+  }
+
+  try {
+    const metrics = await getLLMMetrics(input);
+    return res.status(200).json(metrics);
+  } catch (err) {
+    console.error("admin/llm/metrics: unexpected error", err);
+    return res.status(500).json({ error: "Internal Server Error" });
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { activatePromptRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { activatePromptVersion, assertPromptName, sendPromptError } from "@/lib/prompts";
+
+// PUT /api/v1/admin/prompts/:name/active – muda a versão em uso ("builtin" volta ao código)
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "PUT") {
+    res.setHeader("Allow", "PUT");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = activatePromptRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+  const { version } = input.value;
+
+  try {
+    const name = assertPromptName(String(req.query.name));
+    await activatePromptVersion(name, version);
+    return res.status(200).json({ name, activeVersion: version });
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts/active");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
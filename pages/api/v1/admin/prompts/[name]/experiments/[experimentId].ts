@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { experimentParams, stopExperimentRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { assertPromptName, sendPromptError, stopExperiment } from "@/lib/prompts";
+
+// PATCH /api/v1/admin/prompts/:name/experiments/:experimentId – termina a experiência
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "PATCH") {
+    res.setHeader("Allow", "PATCH");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = experimentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  const input = stopExperimentRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    const name = assertPromptName(String(req.query.name));
+    const experiment = await stopExperiment(name, params.value.experimentId);
+    return res.status(200).json(experiment);
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts/experiment");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { startExperimentRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { assertPromptName, listExperiments, sendPromptError, startExperiment } from "@/lib/prompts";
+
+// GET /api/v1/admin/prompts/:name/experiments – experiências (ativa e terminadas)
+// POST /api/v1/admin/prompts/:name/experiments – divide o tráfego entre versões
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  try {
+    const name = assertPromptName(String(req.query.name));
+
+    if (req.method === "GET") {
+      const experiments = await listExperiments(name);
+      return res.status(200).json({ experiments });
+    }
+
+    if (req.method === "POST") {
+      const input = startExperimentRequest.parse(req.body || {});
+      if (!input.ok) {
+        return sendInvalidRequest(res, input.issues);
+      }
+      const experiment = await startExperiment(name, input.value.variants, user);
+      return res.status(201).json(experiment);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts/experiments");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
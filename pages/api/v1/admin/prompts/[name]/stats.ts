@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { assertPromptName, getPromptStats, sendPromptError } from "@/lib/prompts";
+
+// GET /api/v1/admin/prompts/:name/stats – utilizações e nota média por versão (e experiência)
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const name = assertPromptName(String(req.query.name));
+    const versions = await getPromptStats(name);
+    return res.status(200).json({ name, versions });
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts/stats");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
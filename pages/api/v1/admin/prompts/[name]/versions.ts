@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { createPromptVersionRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { assertPromptName, createPromptVersion, listPromptVersions, sendPromptError } from "@/lib/prompts";
+
+// GET /api/v1/admin/prompts/:name/versions – versões do prompt (a builtin primeiro)
+// POST /api/v1/admin/prompts/:name/versions – guarda uma versão nova (opcionalmente ativa)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  try {
+    const name = assertPromptName(String(req.query.name));
+
+    if (req.method === "GET") {
+      const versions = await listPromptVersions(name);
+      return res.status(200).json({ versions });
+    }
+
+    if (req.method === "POST") {
+      const input = createPromptVersionRequest.parse(req.body || {});
+      if (!input.ok) {
+        return sendInvalidRequest(res, input.issues);
+      }
+      const template = await createPromptVersion(name, input.value, user);
+      return res.status(201).json(template);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts/versions");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { listPrompts, sendPromptError } from "@/lib/prompts";
+
+// GET /api/v1/admin/prompts – prompts registados: variáveis, versão ativa e experiência
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  try {
+    const prompts = await listPrompts();
+    return res.status(200).json({ prompts });
+  } catch (err) {
+    return sendPromptError(res, err, "admin/prompts");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["admin"] });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { attemptParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { getTutorConversation, sendTutorError } from "@/lib/tutor";
+
+// GET /api/v1/attempts/:attemptId/tutor – conversa com o Wolfi sobre a tentativa
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = attemptParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const conversation = await getTutorConversation(params.value.attemptId, user);
+    return res.status(200).json(conversation);
+  } catch (err) {
+    return sendTutorError(res, err, "tutor/get");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
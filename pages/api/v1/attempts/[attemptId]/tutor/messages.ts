@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { attemptParams, tutorMessageRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { LLMProviderError } from "@/lib/llm";
+import { sendTutorError, streamTutorReply } from "@/lib/tutor";
+
+function writeEvent(res: NextApiResponse, event: string, data: unknown) {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// POST /api/v1/attempts/:attemptId/tutor/messages – pergunta ao Wolfi, resposta em SSE
+// (eventos "delta" com pedaços de texto, "done" com as mensagens guardadas, ou "error")
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = attemptParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  const input = tutorMessageRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  // os cabeçalhos SSE só seguem com o primeiro pedaço: até lá os erros são JSON normais
+  let streaming = false;
+  const startStream = () => {
+    if (streaming) return;
+    streaming = true;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+  };
+
+  try {
+    const reply = await streamTutorReply({
+      attemptId: params.value.attemptId,
+      user,
+      message: input.value.message,
+      locale: input.value.locale,
+      onDelta: (text) => {
+        startStream();
+        writeEvent(res, "delta", { text });
+      },
+    });
+
+    startStream();
+    writeEvent(res, "done", reply);
+    return res.end();
+  } catch (err) {
+    if (streaming) {
+      console.error("tutor/messages: stream failed", err);
+      writeEvent(res, "error", { error: "The tutor stopped unexpectedly, please ask again" });
+      return res.end();
+    }
+    if (err instanceof LLMProviderError) {
+      console.error("tutor/messages: all LLM providers failed", err);
+      return res.status(503).json({ error: "Tutor unavailable, please try again" });
+    }
+    return sendTutorError(res, err, "tutor/messages");
+  }
+}
+
+export default withAuth(handler, { quota: "evaluate" });
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { createAssignment, listAssignments, sendClassError } from "@/lib/classes";
+import { classParams, createAssignmentRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/classes/:classId/assignments – trabalhos da turma
+// POST /api/v1/classes/:classId/assignments – atribui um trabalho (professor da turma)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  const params = classParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { classId } = params.value;
+
+  try {
+    if (req.method === "GET") {
+      const assignments = await listAssignments(classId, user);
+      return res.status(200).json({ assignments });
+    }
+
+    if (req.method === "POST") {
+      const input = createAssignmentRequest.parse(req.body || {});
+      if (!input.ok) {
+        return sendInvalidRequest(res, input.issues);
+      }
+      const assignment = await createAssignment(classId, input.value, user);
+      return res.status(201).json(assignment);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendClassError(res, err, "classes/assignments");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { getClassDetail, sendClassError } from "@/lib/classes";
+import { classParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/classes/:classId – a turma (com os alunos, para o professor)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = classParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const detail = await getClassDetail(params.value.classId, user);
+    return res.status(200).json(detail);
+  } catch (err) {
+    return sendClassError(res, err, "classes/get");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
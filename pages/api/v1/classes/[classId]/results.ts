@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { getClassResults, sendClassError } from "@/lib/classes";
+import { classParams, classResultsQuery } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/classes/:classId/results?assignmentId=...&since=... – resultados agregados
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = classParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  const query = classResultsQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+
+  try {
+    const results = await getClassResults(params.value.classId, user, query.value);
+    return res.status(200).json(results);
+  } catch (err) {
+    return sendClassError(res, err, "classes/results");
+  }
+}
+
+export default withAuth(handler, { quota: "read", roles: ["teacher", "admin"] });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { removeClassStudent, sendClassError } from "@/lib/classes";
+import { classStudentParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// DELETE /api/v1/classes/:classId/students/:studentId – tira o aluno da turma (ou o aluno sai)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", "DELETE");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = classStudentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    await removeClassStudent(params.value.classId, params.value.studentId, user);
+    return res.status(204).end();
+  } catch (err) {
+    return sendClassError(res, err, "classes/students");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { createClass, listClassesFor, sendClassError } from "@/lib/classes";
+import { createClassRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/classes – turmas do professor e turmas onde o aluno está inscrito
+// POST /api/v1/classes – cria uma turma (professores e admins)
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  try {
+    if (req.method === "GET") {
+      const classes = await listClassesFor(user);
+      return res.status(200).json({ classes });
+    }
+
+    if (req.method === "POST") {
+      if (user.role === "student") {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const input = createClassRequest.parse(req.body || {});
+      if (!input.ok) {
+        return sendInvalidRequest(res, input.issues);
+      }
+      const created = await createClass(input.value, user);
+      return res.status(201).json(created);
+    }
+
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  } catch (err) {
+    return sendClassError(res, err, "classes");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
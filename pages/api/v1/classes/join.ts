@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { joinClass, sendClassError } from "@/lib/classes";
+import { joinClassRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// POST /api/v1/classes/join – o aluno entra numa turma com o código do professor
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = joinClassRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    const joined = await joinClass(input.value.joinCode, user);
+    return res.status(200).json(joined);
+  } catch (err) {
+    return sendClassError(res, err, "classes/join");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
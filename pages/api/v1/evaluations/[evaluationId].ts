@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { evaluationParams } from "@/lib/contracts";
+import { getEvaluationJobView, sendEvaluationError } from "@/lib/evaluation";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/evaluations/:evaluationId – estado de uma avaliação que ficou na fila
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = evaluationParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const view = await getEvaluationJobView(params.value.evaluationId, user);
+    if (view.status === "pending" && view.nextAttemptAt) {
+      const seconds = Math.ceil((Date.parse(view.nextAttemptAt) - Date.now()) / 1000);
+      res.setHeader("Retry-After", String(Math.max(1, seconds)));
+    }
+    return res.status(200).json(view);
+  } catch (err) {
+    return sendEvaluationError(res, err, "evaluations/get");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
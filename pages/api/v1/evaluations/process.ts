@@ -0,0 +1,50 @@
+import { timingSafeEqual } from "node:crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth } from "@/lib/auth";
+import { processQueueQuery } from "@/lib/contracts";
+import { processEvaluationQueue, sendEvaluationError } from "@/lib/evaluation";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// O cron chama com "Authorization: Bearer <EVALUATION_WORKER_SECRET>"
+function isWorkerRequest(req: NextApiRequest): boolean {
+  const secret = process.env.EVALUATION_WORKER_SECRET;
+  const header = req.headers.authorization;
+  if (!secret || !header?.startsWith("Bearer ")) return false;
+
+  const given = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function processQueue(req: NextApiRequest, res: NextApiResponse) {
+  // GET para os crons que só fazem GET (ex.: Vercel Cron)
+  if (req.method !== "POST" && req.method !== "GET") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const query = processQueueQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+
+  try {
+    const report = await processEvaluationQueue(query.value.limit);
+    return res.status(200).json(report);
+  } catch (err) {
+    return sendEvaluationError(res, err, "evaluations/process");
+  }
+}
+
+const adminHandler = withAuth((req, res) => processQueue(req, res), {
+  quota: "read",
+  roles: ["admin"],
+});
+
+// POST /api/v1/evaluations/process – reavalia as resoluções em fila (worker)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (isWorkerRequest(req)) {
+    return processQueue(req, res);
+  }
+  return adminHandler(req, res);
+}
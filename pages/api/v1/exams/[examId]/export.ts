@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { examExportQuery, examParams } from "@/lib/contracts";
+import { exportExamPaper, getOwnedExamPaper, sendExamError } from "@/lib/exams";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/exams/:examId/export?format=pdf|latex&document=exam|criteria
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = examParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  const query = examExportQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+  const { format, document } = query.value;
+
+  try {
+    const paper = await getOwnedExamPaper(params.value.examId, user);
+    const file = exportExamPaper(paper, document, format);
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    return res.status(200).send(file.body);
+  } catch (err) {
+    return sendExamError(res, err, "exams/export");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
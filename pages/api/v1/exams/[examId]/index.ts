@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { examParams } from "@/lib/contracts";
+import { getOwnedExamPaper, sendExamError, toExamPaperView } from "@/lib/exams";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// GET /api/v1/exams/:examId – a prova, sem critérios de classificação
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = examParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const paper = await getOwnedExamPaper(params.value.examId, user);
+    return res.status(200).json(toExamPaperView(paper));
+  } catch (err) {
+    return sendExamError(res, err, "exams/get");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
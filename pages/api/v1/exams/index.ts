@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { generateExamRequest } from "@/lib/contracts";
+import { generateExamPaper, sendExamError, toExamPaperView } from "@/lib/exams";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// POST /api/v1/exams – gera uma prova modelo (Exame Nacional) para um ano
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = generateExamRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    const paper = await generateExamPaper({ ...input.value, studentId: user.id });
+    return res.status(201).json(toExamPaperView(paper));
+  } catch (err) {
+    return sendExamError(res, err, "exams");
+  }
+}
+
+export default withAuth(handler, { quota: "generate" });
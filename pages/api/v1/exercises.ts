@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { exerciseRequest } from "@/lib/contracts";
+import { generateExercise, type ExerciseDefinition } from "@/lib/exercises";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// POST /api/v1/exercises
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExerciseDefinition | { error: string }>,
+  user: AuthUser,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = exerciseRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  const exercise = await generateExercise({ ...input.value, studentId: user.id });
+  return res.status(200).json(exercise);
+}
+
+export default withAuth(handler, { quota: "generate" });
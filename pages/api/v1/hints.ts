@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { hintsRequest } from "@/lib/contracts";
+import { requestHints, sendHintError, type HintsResponse } from "@/lib/hints";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+// POST /api/v1/hints – revela a pista seguinte (ou até `level`) de um exercício
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HintsResponse | { error: string }>,
+  user: AuthUser,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = hintsRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    return res.status(200).json(await requestHints({ ...input.value, studentId: user.id }));
+  } catch (err) {
+    return sendHintError(res, err, "hints");
+  }
+}
+
+export default withAuth(handler, { quota: "generate" });
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { buildOpenApiDocument } from "@/lib/contracts";
+
+// o documento só muda com um deploy: gera-se uma vez por processo
+let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+// GET /api/v1/openapi.json – documento OpenAPI 3.1 (público, para gerar clientes)
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  document ??= buildOpenApiDocument();
+  res.setHeader("Cache-Control", "public, max-age=300");
+  return res.status(200).json(document);
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { sessionAnswerRequest, sessionParams } from "@/lib/contracts";
+import { RequestBodyError, readRequestBody } from "@/lib/http/readBody";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { sendSessionError, submitSessionAnswer } from "@/lib/sessions";
+import {
+  MAX_SUBMISSION_BODY_BYTES,
+  SubmissionError,
+  resolveSubmission,
+} from "@/lib/submissions";
+
+// o corpo é lido à mão: aceitamos JSON e multipart/form-data
+export const config = {
+  api: { bodyParser: false },
+};
+
+// POST /api/v1/sessions/:sessionId/answers – avalia a resposta a um exercício da sessão
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = sessionParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const body = await readRequestBody(req, MAX_SUBMISSION_BODY_BYTES);
+    const input = sessionAnswerRequest.parse(body.fields);
+    if (!input.ok) {
+      return sendInvalidRequest(res, input.issues);
+    }
+
+    const { exerciseId, userAnswer } = input.value;
+    const submission = await resolveSubmission({ ...input.value, files: body.files }, user.id);
+    if (submission.pages.length === 0) {
+      return res.status(400).json({ error: "At least one resolution page is required" });
+    }
+
+    const result = await submitSessionAnswer(params.value.sessionId, {
+      studentId: user.id,
+      exerciseId,
+      submission,
+      userAnswer,
+    });
+    return res.status(200).json(result);
+  } catch (err) {
+    if (err instanceof RequestBodyError || err instanceof SubmissionError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    return sendSessionError(res, err, "sessions/answers");
+  }
+}
+
+export default withAuth(handler, { quota: "evaluate" });
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { sessionParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { getSessionSummary, sendSessionError } from "@/lib/sessions";
+
+// GET /api/v1/sessions/:sessionId – resumo da sessão
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = sessionParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { sessionId } = params.value;
+
+  try {
+    const summary = await getSessionSummary(sessionId, user.id);
+    return res.status(200).json(summary);
+  } catch (err) {
+    return sendSessionError(res, err, "sessions/summary");
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { sessionParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { nextSessionExercise, sendSessionError } from "@/lib/sessions";
+
+// POST /api/v1/sessions/:sessionId/next – exercício por responder ou o seguinte
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = sessionParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+
+  try {
+    const exercise = await nextSessionExercise(params.value.sessionId, user.id);
+    return res.status(200).json(exercise);
+  } catch (err) {
+    return sendSessionError(res, err, "sessions/next");
+  }
+}
+
+export default withAuth(handler, { quota: "generate" });
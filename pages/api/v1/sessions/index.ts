@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withAuth, type AuthUser } from "@/lib/auth";
+import { startSessionRequest } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { sendSessionError, startPracticeSession } from "@/lib/sessions";
+
+// POST /api/v1/sessions – começa uma sessão e devolve o 1.º exercício
+async function handler(req: NextApiRequest, res: NextApiResponse, user: AuthUser) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const input = startSessionRequest.parse(req.body || {});
+  if (!input.ok) {
+    return sendInvalidRequest(res, input.issues);
+  }
+
+  try {
+    const { session, exercise } = await startPracticeSession({
+      ...input.value,
+      studentId: user.id,
+    });
+    return res.status(201).json({ session, exercise });
+  } catch (err) {
+    return sendSessionError(res, err, "sessions");
+  }
+}
+
+export default withAuth(handler, { quota: "generate" });
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { canAccessStudent, withAuth, type AuthUser } from "@/lib/auth";
+import { studentParams, studentQuery } from "@/lib/contracts";
+import { listStudentErrorStats, type ErrorStats } from "@/lib/db/attempts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+type ResponseBody = { errors: ErrorStats[] } | { error: string };
+
+// GET /api/v1/students/:studentId/errors?subtopicId=... – erros agregados por categoria
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseBody>,
+  user: AuthUser,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = studentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { studentId } = params.value;
+  if (!canAccessStudent(user, studentId)) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const query = studentQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+  const { subtopicId } = query.value;
+
+  try {
+    const errors = await listStudentErrorStats({ studentId, subtopicId });
+    return res.status(200).json({ errors });
+  } catch (err) {
+    console.error("errors: failed to load error stats", err);
+    return res.status(500).json({ error: "Failed to load error stats" });
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
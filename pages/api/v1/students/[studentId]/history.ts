@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { canAccessStudent, withAuth, type AuthUser } from "@/lib/auth";
+import { studentParams, studentQuery } from "@/lib/contracts";
+import { listAttempts, type Attempt } from "@/lib/db/attempts";
+import { listPracticeSessions, type PracticeSession } from "@/lib/db/practiceSessions";
+import { sendInvalidRequest } from "@/lib/http/validation";
+
+type SubtopicHistory = {
+  subtopicId: string | null;
+  subtopicName: string;
+  averageScore: number;
+  attempts: Attempt[];
+  sessions: PracticeSession[];
+};
+
+type ResponseBody = { subtopics: SubtopicHistory[] } | { error: string };
+
+function groupBySubtopic(
+  attempts: Attempt[],
+  sessions: PracticeSession[],
+): SubtopicHistory[] {
+  const groups = new Map<string, SubtopicHistory>();
+
+  const groupFor = (subtopicId: string | null, subtopicName: string) => {
+    // sem id, agrupamos pelo nome
+    const key = subtopicId || `name:${subtopicName}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { subtopicId, subtopicName, averageScore: 0, attempts: [], sessions: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  for (const attempt of attempts) {
+    groupFor(attempt.subtopicId, attempt.subtopicName).attempts.push(attempt);
+  }
+  for (const session of sessions) {
+    groupFor(session.subtopicId, session.subtopicName).sessions.push(session);
+  }
+
+  for (const group of groups.values()) {
+    const total = group.attempts.reduce((sum, a) => sum + a.score, 0);
+    group.averageScore = group.attempts.length
+      ? Math.round(total / group.attempts.length)
+      : 0;
+  }
+
+  return [...groups.values()];
+}
+
+// GET /api/v1/students/:studentId/history?subtopicId=...
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseBody>,
+  user: AuthUser,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = studentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { studentId } = params.value;
+  if (!canAccessStudent(user, studentId)) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const query = studentQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+  const { subtopicId } = query.value;
+
+  try {
+    const [attempts, sessions] = await Promise.all([
+      listAttempts({ studentId, subtopicId }),
+      listPracticeSessions({ studentId, subtopicId }),
+    ]);
+
+    return res.status(200).json({ subtopics: groupBySubtopic(attempts, sessions) });
+  } catch (err) {
+    console.error("history: failed to load student history", err);
+    return res.status(500).json({ error: "Failed to load history" });
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
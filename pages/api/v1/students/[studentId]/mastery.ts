@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { canAccessStudent, withAuth, type AuthUser } from "@/lib/auth";
+import { studentParams, studentQuery } from "@/lib/contracts";
+import { listStudentMastery } from "@/lib/db/mastery";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { summarizeMastery, type SubtopicMastery } from "@/lib/mastery";
+
+type ResponseBody = { subtopics: SubtopicMastery[] } | { error: string };
+
+// GET /api/v1/students/:studentId/mastery?subtopicId=... – domínio estimado por subtema
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseBody>,
+  user: AuthUser,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = studentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { studentId } = params.value;
+  if (!canAccessStudent(user, studentId)) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const query = studentQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+  const { subtopicId } = query.value;
+
+  try {
+    const records = await listStudentMastery({ studentId, subtopicId });
+    return res.status(200).json({ subtopics: summarizeMastery(records) });
+  } catch (err) {
+    console.error("mastery: failed to load mastery", err);
+    return res.status(500).json({ error: "Failed to load mastery" });
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { canAccessStudent, withAuth, type AuthUser } from "@/lib/auth";
+import { recommendationsQuery, studentParams } from "@/lib/contracts";
+import { sendInvalidRequest } from "@/lib/http/validation";
+import { recommendStudyPlan, type StudyRecommendation } from "@/lib/mastery";
+
+type ResponseBody =
+  | { next: StudyRecommendation | null; queue: StudyRecommendation[] }
+  | { error: string };
+
+// GET /api/v1/students/:studentId/recommendations?year=12&examDate=2027-06-18&limit=5
+// O que estudar a seguir: subtema, dificuldade e tipo de exercício
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseBody>,
+  user: AuthUser,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method Not Allowed" });
+  }
+
+  const params = studentParams.parse(req.query);
+  if (!params.ok) {
+    return sendInvalidRequest(res, params.issues, "path");
+  }
+  const { studentId } = params.value;
+  if (!canAccessStudent(user, studentId)) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+
+  const query = recommendationsQuery.parse(req.query);
+  if (!query.ok) {
+    return sendInvalidRequest(res, query.issues, "query");
+  }
+
+  try {
+    const queue = await recommendStudyPlan({ studentId, ...query.value });
+    return res.status(200).json({ next: queue[0] ?? null, queue });
+  } catch (err) {
+    console.error("recommendations: failed to build study plan", err);
+    return res.status(500).json({ error: "Failed to build recommendations" });
+  }
+}
+
+export default withAuth(handler, { quota: "read" });
@@ -0,0 +1,115 @@
+// Regressão da correção: passa o conjunto de referência (calibration/golden)
+// pelo avaliador e compara com as notas dos professores.
+//
+//   npm run calibrate                          replay das respostas gravadas (offline)
+//   npm run calibrate -- --live                chama os modelos configurados
+//   npm run calibrate -- --live --record       ... e grava as respostas para o replay
+//   npm run calibrate -- --update-baseline     aceita as métricas atuais como baseline
+//   npm run calibrate -- --json                relatório completo em JSON
+//
+// Sai com código 1 quando a calibração regride (ou há gravações desatualizadas).
+
+import path from "node:path";
+import {
+  CalibrationError,
+  OUTCOME_LABELS,
+  loadBaseline,
+  loadGoldenSet,
+  runCalibration,
+  saveBaseline,
+  saveRecording,
+  type CalibrationReport,
+} from "@/lib/calibration";
+import { PRACTICE_RESULTS } from "@/lib/evaluation/types";
+
+const ROOT = path.resolve(__dirname, "..");
+const GOLDEN_DIR = path.join(ROOT, "calibration", "golden");
+const BASELINE_FILE = path.join(ROOT, "calibration", "baseline.json");
+
+const FLAGS = ["--live", "--record", "--update-baseline", "--json"];
+
+function pad(value: string | number, width: number): string {
+  return String(value).padEnd(width);
+}
+
+function printReport(report: CalibrationReport) {
+  console.log(`Calibration (${report.mode}) – ${report.metrics.cases} cases\n`);
+
+  for (const r of report.results) {
+    const expected = `${r.expected.result} ${r.expected.minScore}–${r.expected.maxScore}`;
+    const obtained = r.score === null ? r.errorCode : `${r.result} ${r.score}`;
+    const mark = r.agrees ? "ok " : "off";
+    const flags = r.flags.length ? ` [${r.flags.join(", ")}]` : "";
+    console.log(
+      `  ${mark} ${pad(r.caseId, 32)} expected ${pad(expected, 18)} got ${obtained}${flags}`,
+    );
+  }
+
+  const { metrics } = report;
+  console.log(
+    `\n  agreement ${metrics.agreement}  mean absolute error ${metrics.meanAbsoluteError}` +
+      `  label accuracy ${metrics.labelAccuracy}  unavailable ${metrics.unavailable}\n`,
+  );
+
+  // linhas: professor; colunas: avaliador
+  const header = OUTCOME_LABELS.map((label) => pad(label, 12));
+  console.log(`  ${pad("teacher \\ evaluator", 20)}${header.join("")}`);
+  for (const expected of PRACTICE_RESULTS) {
+    const row = OUTCOME_LABELS.map((label) => pad(report.confusion[expected][label], 12));
+    console.log(`  ${pad(expected, 20)}${row.join("")}`);
+  }
+  console.log();
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const unknown = args.filter((arg) => !FLAGS.includes(arg));
+  if (unknown.length > 0) {
+    console.error(`Unknown option(s): ${unknown.join(", ")}. Options: ${FLAGS.join(" ")}`);
+    return 2;
+  }
+  const live = args.includes("--live");
+  if (args.includes("--record") && !live) {
+    console.error("--record only works with --live");
+    return 2;
+  }
+
+  const updateBaseline = args.includes("--update-baseline");
+  const set = await loadGoldenSet(GOLDEN_DIR);
+  // ao atualizar, só os limites absolutos contam: a baseline antiga vai ser substituída
+  const baseline = updateBaseline ? null : await loadBaseline(BASELINE_FILE);
+  const report = await runCalibration(set, { mode: live ? "live" : "replay", baseline });
+
+  if (args.includes("--record")) {
+    const recordings = report.results.flatMap((r) => (r.recording ? [r.recording] : []));
+    for (const recording of recordings) await saveRecording(set, recording);
+    console.log(`Recorded ${recordings.length} of ${report.results.length} responses`);
+  }
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (report.failures.length > 0) {
+    console.error("Calibration regressed:");
+    for (const failure of report.failures) console.error(`  - ${failure}`);
+    return 1;
+  }
+
+  if (updateBaseline) {
+    await saveBaseline(BASELINE_FILE, { ...report.metrics, updatedAt: new Date().toISOString() });
+    console.log(`Baseline updated: ${path.relative(ROOT, BASELINE_FILE)}`);
+  }
+  console.log("Calibration OK");
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof CalibrationError ? err.message : err);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,26 @@
+-- Exercícios gerados (enunciado + chave de correção).
+-- A chave de correção (reference_solution, expected_answer, rubric) nunca é
+-- devolvida aos alunos: a tabela só é acessível com a service role.
+
+create table if not exists public.exercises (
+  id uuid primary key default gen_random_uuid(),
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  subtopic_name text not null,
+  difficulty text not null check (difficulty in ('easy', 'medium', 'hard')),
+  exercise_type text not null check (
+    exercise_type in ('basic_procedural', 'mixed_rules', 'applied_word_problem', 'exam_multi_step')
+  ),
+  statement text not null,
+  reference_solution text,
+  expected_answer text,
+  -- [{ "description": "...", "points": 5 }, ...]
+  rubric jsonb,
+  provider text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercises_subtopic_id_idx on public.exercises (subtopic_id);
+
+alter table public.exercises enable row level security;
+-- sem policies: anon/authenticated não têm acesso
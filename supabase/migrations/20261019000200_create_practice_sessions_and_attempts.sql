@@ -0,0 +1,51 @@
+-- Histórico do aluno: sessões de prática e tentativas (respostas avaliadas).
+
+alter table public.exercises
+  add column if not exists student_id uuid references auth.users (id) on delete set null;
+
+create index if not exists exercises_student_id_idx on public.exercises (student_id);
+
+create table if not exists public.practice_sessions (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  subtopic_name text not null,
+  difficulty text not null check (difficulty in ('easy', 'medium', 'hard')),
+  status text not null default 'active' check (status in ('active', 'completed', 'abandoned')),
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists practice_sessions_student_idx
+  on public.practice_sessions (student_id, subtopic_id, created_at desc);
+
+create table if not exists public.attempts (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  session_id uuid references public.practice_sessions (id) on delete set null,
+  exercise_id uuid references public.exercises (id) on delete set null,
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  subtopic_name text not null,
+  exercise_index smallint,
+  user_answer text,
+  image_url text,
+  result text not null check (result in ('correct', 'partial', 'incorrect')),
+  score smallint not null check (score between 0 and 100),
+  feedback_summary text not null,
+  provider text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attempts_student_idx
+  on public.attempts (student_id, subtopic_id, created_at desc);
+create index if not exists attempts_session_idx on public.attempts (session_id);
+
+alter table public.practice_sessions enable row level security;
+alter table public.attempts enable row level security;
+
+-- o aluno pode ler o próprio histórico; escritas só pelo backend (service role)
+create policy "students read own sessions" on public.practice_sessions
+  for select using (auth.uid() = student_id);
+create policy "students read own attempts" on public.attempts
+  for select using (auth.uid() = student_id);
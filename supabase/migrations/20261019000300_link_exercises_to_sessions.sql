@@ -0,0 +1,9 @@
+-- Exercícios servidos numa sessão de prática (posição 1–3 na sessão).
+
+alter table public.exercises
+  add column if not exists session_id uuid references public.practice_sessions (id) on delete set null,
+  add column if not exists exercise_index smallint check (exercise_index between 1 and 3);
+
+create unique index if not exists exercises_session_index_idx
+  on public.exercises (session_id, exercise_index)
+  where session_id is not null;
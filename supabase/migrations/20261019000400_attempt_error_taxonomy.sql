@@ -0,0 +1,49 @@
+-- Análise passo a passo das resoluções e agregação dos erros por aluno.
+
+alter table public.attempts
+  add column if not exists steps jsonb not null default '[]'::jsonb;
+
+-- Uma linha por (tentativa, categoria de erro)
+create table if not exists public.attempt_errors (
+  attempt_id uuid not null references public.attempts (id) on delete cascade,
+  category text not null check (
+    category in (
+      'wrong_derivative_rule',
+      'algebra_slip',
+      'sign_error',
+      'missing_justification',
+      'wrong_interpretation',
+      'incomplete_resolution',
+      'other'
+    )
+  ),
+  occurrences smallint not null default 1 check (occurrences > 0),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (attempt_id, category)
+);
+
+create index if not exists attempt_errors_student_idx
+  on public.attempt_errors (student_id, subtopic_id, category);
+
+alter table public.attempt_errors enable row level security;
+
+create policy "students read own attempt errors" on public.attempt_errors
+  for select using (auth.uid() = student_id);
+
+-- Agregado por aluno, subtema e categoria
+create or replace view public.student_error_stats
+with (security_invoker = true) as
+select
+  e.student_id,
+  e.subtopic_id,
+  max(a.subtopic_name) as subtopic_name,
+  e.category,
+  sum(e.occurrences)::int as occurrences,
+  count(*)::int as attempts_affected,
+  round(avg(a.score))::int as average_score,
+  max(e.created_at) as last_seen_at
+from public.attempt_errors e
+join public.attempts a on a.id = e.attempt_id
+group by e.student_id, e.subtopic_id, e.category;
@@ -0,0 +1,6 @@
+-- Veredicto da verificação mecânica da resposta final (null quando não se aplica).
+
+alter table public.attempts
+  add column if not exists final_answer_check text check (
+    final_answer_check in ('equivalent', 'not_equivalent', 'unparseable')
+  );
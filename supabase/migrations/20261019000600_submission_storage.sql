@@ -0,0 +1,19 @@
+-- Páginas das resoluções enviadas diretamente (imagens ou PDF).
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'submissions',
+  'submissions',
+  false,
+  5242880,
+  array['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+-- Uma tentativa pode ter várias páginas: "bucket/caminho" ou URL confiável
+alter table public.attempts
+  add column if not exists image_refs text[] not null default '{}';
+
+update public.attempts
+set image_refs = array[image_url]
+where image_url is not null and image_refs = '{}';
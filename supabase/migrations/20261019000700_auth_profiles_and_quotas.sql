@@ -0,0 +1,103 @@
+-- Perfis (papel + plano), limites por plano/utilizador e contadores de uso da API.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  role text not null default 'student' check (role in ('student', 'teacher', 'admin')),
+  plan text not null default 'free',
+  created_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "users read own profile" on public.profiles
+  for select using (auth.uid() = id);
+
+-- Limites por plano e grupo de rotas (null = sem limite)
+create table if not exists public.plan_limits (
+  plan text not null,
+  quota_group text not null check (quota_group in ('generate', 'evaluate', 'read')),
+  requests_per_minute int check (requests_per_minute > 0),
+  requests_per_day int check (requests_per_day > 0),
+  primary key (plan, quota_group)
+);
+
+insert into public.plan_limits (plan, quota_group, requests_per_minute, requests_per_day) values
+  ('free', 'generate', 10, 60),
+  ('free', 'evaluate', 5, 30),
+  ('free', 'read', 60, null),
+  ('premium', 'generate', 30, 500),
+  ('premium', 'evaluate', 20, 300),
+  ('premium', 'read', 120, null)
+on conflict (plan, quota_group) do nothing;
+
+-- Exceções por utilizador (sobrepõem-se ao plano)
+create table if not exists public.user_quota_overrides (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  quota_group text not null check (quota_group in ('generate', 'evaluate', 'read')),
+  requests_per_minute int check (requests_per_minute > 0),
+  requests_per_day int check (requests_per_day > 0),
+  primary key (user_id, quota_group)
+);
+
+create table if not exists public.api_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  quota_group text not null,
+  window_kind text not null check (window_kind in ('minute', 'day')),
+  window_start timestamptz not null,
+  count int not null default 0,
+  primary key (user_id, quota_group, window_kind, window_start)
+);
+
+alter table public.plan_limits enable row level security;
+alter table public.user_quota_overrides enable row level security;
+alter table public.api_usage enable row level security;
+
+-- Conta um pedido de forma atómica. Se passar um dos limites, o pedido
+-- não é contado e devolve allowed = false.
+create or replace function public.consume_quota(
+  p_user_id uuid,
+  p_group text,
+  p_per_minute int,
+  p_per_day int
+)
+returns table (allowed boolean, minute_count int, day_count int)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minute timestamptz := date_trunc('minute', now());
+  -- o dia conta na hora de Lisboa
+  v_day timestamptz := date_trunc('day', now() at time zone 'Europe/Lisbon') at time zone 'Europe/Lisbon';
+  v_minute_count int;
+  v_day_count int;
+begin
+  insert into api_usage as u (user_id, quota_group, window_kind, window_start, count)
+  values (p_user_id, p_group, 'minute', v_minute, 1)
+  on conflict (user_id, quota_group, window_kind, window_start)
+  do update set count = u.count + 1
+  returning u.count into v_minute_count;
+
+  insert into api_usage as u (user_id, quota_group, window_kind, window_start, count)
+  values (p_user_id, p_group, 'day', v_day, 1)
+  on conflict (user_id, quota_group, window_kind, window_start)
+  do update set count = u.count + 1
+  returning u.count into v_day_count;
+
+  if (p_per_minute is not null and v_minute_count > p_per_minute)
+     or (p_per_day is not null and v_day_count > p_per_day) then
+    update api_usage
+    set count = count - 1
+    where user_id = p_user_id
+      and quota_group = p_group
+      and ((window_kind = 'minute' and window_start = v_minute)
+        or (window_kind = 'day' and window_start = v_day));
+
+    return query select false, v_minute_count - 1, v_day_count - 1;
+  else
+    return query select true, v_minute_count, v_day_count;
+  end if;
+end;
+$$;
+
+revoke execute on function public.consume_quota(uuid, text, int, int) from public, anon, authenticated;
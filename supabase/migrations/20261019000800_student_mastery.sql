@@ -0,0 +1,28 @@
+-- Domínio estimado (rating tipo Elo) por aluno, subtema e tipo de exercício,
+-- com o agendamento da próxima revisão (repetição espaçada).
+-- exercise_type = 'all' guarda o domínio global do subtema.
+
+create table if not exists public.student_mastery (
+  student_id uuid not null references auth.users (id) on delete cascade,
+  subtopic_id uuid not null references public.subtopics (id) on delete cascade,
+  subtopic_name text not null,
+  exercise_type text not null check (
+    exercise_type in ('all', 'basic_procedural', 'mixed_rules', 'applied_word_problem', 'exam_multi_step')
+  ),
+  rating double precision not null default 1200,
+  attempts int not null default 0,
+  last_score int,
+  last_practiced_at timestamptz,
+  interval_days double precision,
+  due_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (student_id, subtopic_id, exercise_type)
+);
+
+create index if not exists student_mastery_due_idx
+  on public.student_mastery (student_id, due_at);
+
+alter table public.student_mastery enable row level security;
+
+create policy "students read own mastery" on public.student_mastery
+  for select using (auth.uid() = student_id);
@@ -0,0 +1,54 @@
+-- Banco de exercícios: exercícios gerados e validados, reaproveitados entre alunos.
+-- Cada exercício servido continua a ter a sua linha em exercises (com bank_item_id).
+-- fingerprints: uma por função do enunciado + uma do texto normalizado
+-- (ver lib/exercises/fingerprint.ts); servem para detetar quase-repetições.
+
+create table if not exists public.exercise_bank (
+  id uuid primary key default gen_random_uuid(),
+  subtopic_id uuid references public.subtopics (id) on delete cascade,
+  subtopic_name text not null,
+  difficulty text not null check (difficulty in ('easy', 'medium', 'hard')),
+  exercise_type text not null check (
+    exercise_type in ('basic_procedural', 'mixed_rules', 'applied_word_problem', 'exam_multi_step')
+  ),
+  statement text not null,
+  reference_solution text not null,
+  expected_answer text not null,
+  rubric jsonb not null,
+  fingerprints text[] not null default '{}',
+  validated boolean not null default false,
+  times_served int not null default 0,
+  provider text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercise_bank_lookup_idx
+  on public.exercise_bank (subtopic_id, difficulty, exercise_type, times_served)
+  where validated;
+
+create index if not exists exercise_bank_fingerprints_idx
+  on public.exercise_bank using gin (fingerprints);
+
+alter table public.exercise_bank enable row level security;
+-- sem policies: tem chaves de correção, só a service role lê
+
+alter table public.exercises
+  add column if not exists bank_item_id uuid references public.exercise_bank (id) on delete set null,
+  add column if not exists fingerprints text[] not null default '{}';
+
+-- "o que este aluno já viu"
+create index if not exists exercises_student_seen_idx
+  on public.exercises (student_id, created_at desc)
+  where student_id is not null;
+
+create or replace function public.mark_bank_exercise_served(p_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update exercise_bank set times_served = times_served + 1 where id = p_id;
+$$;
+
+revoke execute on function public.mark_bank_exercise_served(uuid) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Provas modelo (Exame Nacional). items guarda os itens, as alíneas, as cotações
+-- e os critérios de classificação; só a service role lê a tabela.
+
+create table if not exists public.exam_papers (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  year smallint not null check (year between 1 and 12),
+  title text not null,
+  duration_minutes int not null check (duration_minutes > 0),
+  tolerance_minutes int not null default 0 check (tolerance_minutes >= 0),
+  total_points int not null default 200,
+  items jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exam_papers_student_idx
+  on public.exam_papers (student_id, created_at desc);
+
+alter table public.exam_papers enable row level security;
@@ -0,0 +1,9 @@
+-- Enunciados estruturados: segmentos de texto e de matemática em LaTeX
+-- ([{"type":"text","text":"…"},{"type":"math","latex":"…"}]), já validados.
+-- null = exercício antigo ou sem marcação do modelo (a API usa a heurística).
+
+alter table public.exercises
+  add column if not exists statement_markup jsonb;
+
+alter table public.exercise_bank
+  add column if not exists statement_markup jsonb;
@@ -0,0 +1,24 @@
+-- Pistas progressivas: as 3 pistas de um exercício são geradas uma vez por aluno
+-- e reveladas aos poucos. statement_key identifica o enunciado (hash do texto
+-- normalizado), para valer também para exercícios sem exercise_id.
+
+create table if not exists public.exercise_hints (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  exercise_id uuid references public.exercises (id) on delete set null,
+  statement_key text not null,
+  hints jsonb not null,
+  revealed smallint not null default 0 check (revealed between 0 and 3),
+  provider text,
+  model text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (student_id, statement_key)
+);
+
+alter table public.exercise_hints enable row level security;
+
+-- a avaliação desconta as pistas usadas
+alter table public.attempts
+  add column if not exists hints_used smallint not null default 0,
+  add column if not exists hint_penalty smallint not null default 0;
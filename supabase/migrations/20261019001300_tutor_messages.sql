@@ -0,0 +1,22 @@
+-- Conversa com o Wolfi (explicador) sobre uma tentativa já avaliada.
+-- Uma conversa por tentativa; as mensagens ficam pela ordem de created_at.
+
+create table if not exists public.tutor_messages (
+  id uuid primary key default gen_random_uuid(),
+  attempt_id uuid not null references public.attempts (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  provider text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tutor_messages_attempt_idx
+  on public.tutor_messages (attempt_id, created_at);
+
+alter table public.tutor_messages enable row level security;
+
+-- o explicador precisa do enunciado mesmo quando a tentativa não tem exercise_id
+alter table public.attempts
+  add column if not exists statement text;
@@ -0,0 +1,28 @@
+-- Biblioteca curada de exercícios de recurso, usada quando os modelos falham e o
+-- banco não tem exercícios novos para o aluno. Cada entrada liga-se a um subtema
+-- (subtopic_id) ou, sem ele, a palavras-chave procuradas no nome do subtema/tópico.
+
+create table if not exists public.fallback_exercises (
+  id uuid primary key default gen_random_uuid(),
+  subtopic_id uuid references public.subtopics (id) on delete cascade,
+  keywords text[] not null default '{}',
+  difficulty text not null check (difficulty in ('easy', 'medium', 'hard')),
+  exercise_type text not null,
+  statement text not null,
+  statement_markup jsonb,
+  reference_solution text not null,
+  expected_answer text not null,
+  rubric jsonb not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fallback_exercises_subtopic_idx
+  on public.fallback_exercises (subtopic_id)
+  where active;
+
+alter table public.fallback_exercises enable row level security;
+
+-- de onde veio cada exercício servido (model, bank, fallback_library, generic_fallback)
+alter table public.exercises
+  add column if not exists source text;
@@ -0,0 +1,40 @@
+-- Fila de reavaliação: resoluções que nenhum modelo conseguiu avaliar ficam aqui
+-- (com as páginas já guardadas no Storage) até um worker as avaliar de novo.
+-- Nunca se atribui uma nota de recurso.
+
+create table if not exists public.evaluation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  session_id uuid references public.practice_sessions (id) on delete set null,
+  exercise_id uuid references public.exercises (id) on delete set null,
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  subtopic_name text not null,
+  difficulty text not null,
+  exercise_index smallint not null,
+  statement text not null,
+  user_answer text,
+  image_refs text[] not null,
+  hints_used smallint not null default 0,
+  status text not null default 'pending'
+    check (status in ('pending', 'processing', 'evaluated', 'unavailable')),
+  error_code text,
+  retries smallint not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  attempt_id uuid references public.attempts (id) on delete set null,
+  evaluation jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists evaluation_jobs_due_idx
+  on public.evaluation_jobs (status, next_attempt_at);
+create index if not exists evaluation_jobs_student_idx
+  on public.evaluation_jobs (student_id, created_at desc);
+
+alter table public.evaluation_jobs enable row level security;
+
+-- o aluno lê os seus trabalhos (também por Realtime, para saber quando chega a nota)
+create policy "students read own evaluation jobs" on public.evaluation_jobs
+  for select using (auth.uid() = student_id);
+
+alter publication supabase_realtime add table public.evaluation_jobs;
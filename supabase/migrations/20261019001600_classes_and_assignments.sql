@@ -0,0 +1,61 @@
+-- Turmas de professores/explicadores, alunos inscritos e trabalhos atribuídos.
+-- Os alunos entram com o código da turma; os resultados vêm de attempts.
+
+create table if not exists public.classes (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  year smallint check (year between 10 and 12),
+  join_code text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists classes_teacher_idx
+  on public.classes (teacher_id, created_at desc);
+
+create table if not exists public.class_students (
+  class_id uuid not null references public.classes (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (class_id, student_id)
+);
+
+create index if not exists class_students_student_idx
+  on public.class_students (student_id);
+
+-- Um trabalho é um conjunto fixo de exercícios ou uma sessão de prática num subtema
+create table if not exists public.assignments (
+  id uuid primary key default gen_random_uuid(),
+  class_id uuid not null references public.classes (id) on delete cascade,
+  title text not null,
+  kind text not null check (kind in ('exercises', 'practice_session')),
+  exercise_ids uuid[] not null default '{}',
+  subtopic_id uuid references public.subtopics (id) on delete set null,
+  subtopic_name text,
+  difficulty text check (difficulty in ('easy', 'medium', 'hard')),
+  due_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  check (
+    (kind = 'exercises' and cardinality(exercise_ids) > 0)
+    or (kind = 'practice_session' and subtopic_name is not null and difficulty is not null)
+  )
+);
+
+create index if not exists assignments_class_idx
+  on public.assignments (class_id, due_at);
+
+-- sessões feitas no âmbito de um trabalho
+alter table public.practice_sessions
+  add column if not exists assignment_id uuid references public.assignments (id) on delete set null;
+
+create index if not exists practice_sessions_assignment_idx
+  on public.practice_sessions (assignment_id);
+
+alter table public.classes enable row level security;
+alter table public.class_students enable row level security;
+alter table public.assignments enable row level security;
+
+create policy "teachers read own classes" on public.classes
+  for select using (auth.uid() = teacher_id);
+create policy "students read own enrolments" on public.class_students
+  for select using (auth.uid() = student_id);
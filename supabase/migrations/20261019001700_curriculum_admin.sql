@@ -0,0 +1,72 @@
+-- Administração do programa (topics / subtopics): chaves naturais para a importação
+-- idempotente e histórico versionado das ai_notes (o contexto dado aos modelos).
+
+-- a importação identifica tópicos pelo código oficial e subtemas pelo nome dentro do tópico
+create unique index if not exists topics_official_code_key
+  on public.topics (official_code);
+create unique index if not exists subtopics_topic_name_key
+  on public.subtopics (topic_id, lower(name));
+
+alter table public.subtopics
+  add column if not exists ai_notes_version int not null default 0;
+
+create table if not exists public.subtopic_ai_notes_versions (
+  id uuid primary key default gen_random_uuid(),
+  subtopic_id uuid not null references public.subtopics (id) on delete cascade,
+  version int not null check (version > 0),
+  ai_notes text,
+  changed_by uuid references auth.users (id) on delete set null,
+  source text not null check (source in ('baseline', 'admin', 'import')),
+  created_at timestamptz not null default now(),
+  unique (subtopic_id, version)
+);
+
+alter table public.subtopic_ai_notes_versions enable row level security;
+
+-- as notas que já existiam ficam como versão 1
+insert into public.subtopic_ai_notes_versions (subtopic_id, version, ai_notes, source)
+select id, 1, ai_notes, 'baseline'
+from public.subtopics
+where ai_notes is not null and ai_notes_version = 0
+on conflict (subtopic_id, version) do nothing;
+
+update public.subtopics set ai_notes_version = 1
+where ai_notes is not null and ai_notes_version = 0;
+
+-- Muda as ai_notes e guarda a nova versão na mesma transação.
+-- Se as notas forem iguais às atuais não faz nada (devolve a versão atual).
+create or replace function public.set_subtopic_ai_notes(
+  p_subtopic_id uuid,
+  p_ai_notes text,
+  p_changed_by uuid,
+  p_source text
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version int;
+begin
+  update subtopics
+  set ai_notes = p_ai_notes,
+      ai_notes_version = ai_notes_version + 1
+  where id = p_subtopic_id
+    and ai_notes is distinct from p_ai_notes
+  returning ai_notes_version into v_version;
+
+  if v_version is null then
+    select ai_notes_version into v_version from subtopics where id = p_subtopic_id;
+    return v_version;
+  end if;
+
+  insert into subtopic_ai_notes_versions (subtopic_id, version, ai_notes, changed_by, source)
+  values (p_subtopic_id, v_version, p_ai_notes, p_changed_by, p_source);
+
+  return v_version;
+end;
+$$;
+
+revoke execute on function public.set_subtopic_ai_notes(uuid, text, uuid, text)
+  from public, anon, authenticated;
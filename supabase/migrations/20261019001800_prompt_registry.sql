@@ -0,0 +1,84 @@
+-- Registo de prompts: versões guardadas na BD (mudam sem redeploy), experiências A/B
+-- entre versões e a versão usada em cada exercício gerado e em cada avaliação.
+
+-- a versão "builtin" de cada prompt vive no código (lib/prompts/templates.ts)
+create table if not exists public.prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (name in ('generateExercise', 'evaluateAnswer')),
+  version text not null check (version ~ '^[A-Za-z0-9._-]{1,40}$' and version <> 'builtin'),
+  system_template text not null,
+  user_template text not null,
+  notes text,
+  active boolean not null default false,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (name, version)
+);
+
+-- no máximo uma versão ativa por prompt (sem nenhuma, vale a builtin)
+create unique index if not exists prompt_templates_active_key
+  on public.prompt_templates (name)
+  where active;
+
+create table if not exists public.prompt_experiments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (name in ('generateExercise', 'evaluateAnswer')),
+  -- [{ "version": "builtin", "weight": 50 }, { "version": "v2", "weight": 50 }]
+  variants jsonb not null check (jsonb_typeof(variants) = 'array'),
+  status text not null default 'active' check (status in ('active', 'stopped')),
+  created_by uuid references auth.users (id) on delete set null,
+  started_at timestamptz not null default now(),
+  stopped_at timestamptz
+);
+
+create unique index if not exists prompt_experiments_active_key
+  on public.prompt_experiments (name)
+  where status = 'active';
+
+-- só o service role (API de administração) lê e escreve
+alter table public.prompt_templates enable row level security;
+alter table public.prompt_experiments enable row level security;
+
+alter table public.exercises
+  add column if not exists prompt_version text,
+  add column if not exists prompt_experiment_id uuid
+    references public.prompt_experiments (id) on delete set null;
+
+alter table public.exercise_bank
+  add column if not exists prompt_version text,
+  add column if not exists prompt_experiment_id uuid
+    references public.prompt_experiments (id) on delete set null;
+
+alter table public.attempts
+  add column if not exists prompt_version text,
+  add column if not exists prompt_experiment_id uuid
+    references public.prompt_experiments (id) on delete set null;
+
+-- comparação entre versões: nota média das tentativas sobre os exercícios gerados
+-- com cada versão (generateExercise) e das notas dadas por cada versão (evaluateAnswer)
+create or replace view public.prompt_version_stats
+with (security_invoker = true) as
+select
+  'generateExercise'::text as name,
+  e.prompt_version as version,
+  e.prompt_experiment_id as experiment_id,
+  count(distinct e.id)::int as items,
+  count(a.id)::int as attempts,
+  round(avg(a.score))::int as average_score,
+  max(e.created_at) as last_used_at
+from public.exercises e
+left join public.attempts a on a.exercise_id = e.id
+where e.prompt_version is not null
+group by e.prompt_version, e.prompt_experiment_id
+union all
+select
+  'evaluateAnswer'::text as name,
+  a.prompt_version as version,
+  a.prompt_experiment_id as experiment_id,
+  count(*)::int as items,
+  count(*)::int as attempts,
+  round(avg(a.score))::int as average_score,
+  max(a.created_at) as last_used_at
+from public.attempts a
+where a.prompt_version is not null
+group by a.prompt_version, a.prompt_experiment_id;
@@ -0,0 +1,52 @@
+-- Telemetria das chamadas aos modelos: uma linha por tentativa a um provider
+-- (e uma linha sem provider quando todos falharam), com tokens, latência e custo estimado.
+
+create table if not exists public.llm_calls (
+  id uuid primary key,
+  route text not null,
+  provider text, -- null: nenhum provider respondeu
+  model text,
+  outcome text not null check (
+    outcome in ('success', 'provider_error', 'parse_failure', 'invalid_output', 'unavailable')
+  ),
+  failover boolean not null default false, -- um provider anterior da cadeia falhou
+  streamed boolean not null default false,
+  input_tokens int,
+  output_tokens int,
+  latency_ms int not null,
+  cost_usd numeric(12, 6),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists llm_calls_created_at_idx
+  on public.llm_calls (created_at desc);
+
+create index if not exists llm_calls_route_created_at_idx
+  on public.llm_calls (route, created_at desc);
+
+-- só o service role escreve e lê (API de administração)
+alter table public.llm_calls enable row level security;
+
+-- Agregado por dia (hora de Lisboa), rota, provider e modelo
+create or replace view public.llm_call_daily_stats
+with (security_invoker = true) as
+select
+  (c.created_at at time zone 'Europe/Lisbon')::date as day,
+  c.route,
+  c.provider,
+  c.model,
+  count(*)::int as calls,
+  count(*) filter (where c.outcome = 'success')::int as successes,
+  count(*) filter (where c.outcome = 'provider_error')::int as provider_errors,
+  count(*) filter (where c.outcome = 'parse_failure')::int as parse_failures,
+  count(*) filter (where c.outcome = 'invalid_output')::int as invalid_outputs,
+  count(*) filter (where c.outcome = 'unavailable')::int as unavailable,
+  count(*) filter (where c.failover and c.outcome = 'success')::int as failover_successes,
+  coalesce(sum(c.input_tokens), 0)::bigint as input_tokens,
+  coalesce(sum(c.output_tokens), 0)::bigint as output_tokens,
+  round(avg(c.latency_ms))::int as average_latency_ms,
+  (percentile_cont(0.95) within group (order by c.latency_ms))::int as p95_latency_ms,
+  coalesce(sum(c.cost_usd), 0)::numeric(14, 6) as cost_usd
+from public.llm_calls c
+group by 1, c.route, c.provider, c.model;
@@ -0,0 +1,18 @@
+-- Sinais de integridade da avaliação (tentativa de injeção no prompt, nota que
+-- contraria a verificação da resposta final, ...): a nota conta, mas um
+-- professor deve revê-la.
+
+alter table public.attempts
+  add column if not exists evaluation_flags text[] not null default '{}' check (
+    evaluation_flags <@ array[
+      'prompt_injection',
+      'contradicts_final_answer',
+      'inconsistent_score',
+      'suspected_manipulation'
+    ]::text[]
+  );
+
+-- tentativas assinaladas, para a revisão
+create index if not exists attempts_flagged_idx
+  on public.attempts (created_at desc)
+  where evaluation_flags <> '{}';
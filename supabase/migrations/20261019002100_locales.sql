@@ -0,0 +1,30 @@
+-- Língua e convenções de notação (pt-PT, pt-BR, en) dos exercícios e do feedback.
+-- Tudo o que já existe foi escrito em português europeu.
+
+alter table public.exercises
+  add column if not exists locale text not null default 'pt-PT'
+    check (locale in ('pt-PT', 'pt-BR', 'en'));
+
+alter table public.exercise_bank
+  add column if not exists locale text not null default 'pt-PT'
+    check (locale in ('pt-PT', 'pt-BR', 'en'));
+
+alter table public.fallback_exercises
+  add column if not exists locale text not null default 'pt-PT'
+    check (locale in ('pt-PT', 'pt-BR', 'en'));
+
+-- os exercícios seguintes da sessão saem na mesma língua
+alter table public.practice_sessions
+  add column if not exists locale text not null default 'pt-PT'
+    check (locale in ('pt-PT', 'pt-BR', 'en'));
+
+-- a reavaliação dá o feedback na língua do pedido original
+alter table public.evaluation_jobs
+  add column if not exists locale text not null default 'pt-PT'
+    check (locale in ('pt-PT', 'pt-BR', 'en'));
+
+-- o banco serve cada aluno na sua língua
+drop index if exists public.exercise_bank_lookup_idx;
+create index if not exists exercise_bank_lookup_idx
+  on public.exercise_bank (subtopic_id, locale, difficulty, exercise_type, times_served)
+  where validated;
@@ -0,0 +1,139 @@
+-- Resultados da turma agregados na BD (antes vinham no máximo 2000 tentativas
+-- e eram somadas na aplicação, o que cortava as turmas grandes sem aviso).
+--
+-- Só contam tentativas de alunos inscritos, feitas depois de entrarem na turma,
+-- e nos trabalhos da turma: exercícios atribuídos ou sessões de um trabalho.
+-- O que o aluno faz noutras turmas ou sozinho não é da conta deste professor.
+
+create or replace function public.class_scoped_attempts(
+  p_class_id uuid,
+  p_assignment_id uuid,
+  p_since timestamptz
+)
+returns setof public.attempts
+language sql
+stable
+as $$
+  select a.*
+  from public.attempts a
+  join public.class_students cs
+    on cs.class_id = p_class_id
+   and cs.student_id = a.student_id
+   and a.created_at >= cs.joined_at
+  where (p_since is null or a.created_at >= p_since)
+    and exists (
+      select 1
+      from public.assignments asg
+      where asg.class_id = p_class_id
+        and (p_assignment_id is null or asg.id = p_assignment_id)
+        and (
+          (asg.kind = 'exercises' and a.exercise_id = any (asg.exercise_ids))
+          or (
+            asg.kind = 'practice_session'
+            and exists (
+              select 1
+              from public.practice_sessions ps
+              where ps.id = a.session_id
+                and ps.assignment_id = asg.id
+            )
+          )
+        )
+    );
+$$;
+
+-- Uma linha por aluno inscrito, mesmo sem tentativas. completed só com trabalho:
+-- respondeu a todos os exercícios ou terminou a sessão.
+create or replace function public.class_student_results(
+  p_class_id uuid,
+  p_assignment_id uuid,
+  p_since timestamptz
+)
+returns table (
+  student_id uuid,
+  attempts int,
+  score_sum int,
+  last_attempt_at timestamptz,
+  completed boolean
+)
+language sql
+stable
+as $$
+  with scoped as (
+    select * from public.class_scoped_attempts(p_class_id, p_assignment_id, p_since)
+  ),
+  assignment as (
+    select * from public.assignments where id = p_assignment_id and class_id = p_class_id
+  )
+  select
+    cs.student_id,
+    count(s.id)::int as attempts,
+    coalesce(sum(s.score), 0)::int as score_sum,
+    max(s.created_at) as last_attempt_at,
+    case
+      when not exists (select 1 from assignment) then null
+      when (select kind from assignment) = 'exercises' then
+        count(distinct s.exercise_id) = (select cardinality(exercise_ids) from assignment)
+      else exists (
+        select 1
+        from public.practice_sessions ps
+        where ps.assignment_id = p_assignment_id
+          and ps.student_id = cs.student_id
+          and ps.status = 'completed'
+      )
+    end as completed
+  from public.class_students cs
+  left join scoped s on s.student_id = cs.student_id
+  where cs.class_id = p_class_id
+  group by cs.student_id, cs.joined_at
+  order by cs.joined_at;
+$$;
+
+create or replace function public.class_subtopic_results(
+  p_class_id uuid,
+  p_assignment_id uuid,
+  p_since timestamptz
+)
+returns table (
+  subtopic_id uuid,
+  subtopic_name text,
+  attempts int,
+  students int,
+  score_sum int
+)
+language sql
+stable
+as $$
+  select
+    s.subtopic_id,
+    max(s.subtopic_name) as subtopic_name,
+    count(*)::int as attempts,
+    count(distinct s.student_id)::int as students,
+    sum(s.score)::int as score_sum
+  from public.class_scoped_attempts(p_class_id, p_assignment_id, p_since) s
+  group by s.subtopic_id, case when s.subtopic_id is null then s.subtopic_name end;
+$$;
+
+create or replace function public.class_error_results(
+  p_class_id uuid,
+  p_assignment_id uuid,
+  p_since timestamptz
+)
+returns table (
+  category text,
+  occurrences int,
+  attempts_affected int,
+  students int
+)
+language sql
+stable
+as $$
+  select
+    e.category,
+    sum(e.occurrences)::int as occurrences,
+    count(*)::int as attempts_affected,
+    count(distinct e.student_id)::int as students
+  from public.class_scoped_attempts(p_class_id, p_assignment_id, p_since) s
+  join public.attempt_errors e on e.attempt_id = s.id
+  group by e.category
+  order by occurrences desc;
+$$;
@@ -0,0 +1,33 @@
+-- Telemetria: a rota que serve o seu conteúdo de recurso (pistas genéricas, item de prova
+-- local, exercício da biblioteca) regista uma linha "fallback", sem provider.
+
+alter table public.llm_calls drop constraint if exists llm_calls_outcome_check;
+alter table public.llm_calls add constraint llm_calls_outcome_check check (
+  outcome in (
+    'success', 'provider_error', 'parse_failure', 'invalid_output', 'unavailable', 'fallback'
+  )
+);
+
+-- as colunas novas de uma view só podem ir no fim
+create or replace view public.llm_call_daily_stats
+with (security_invoker = true) as
+select
+  (c.created_at at time zone 'Europe/Lisbon')::date as day,
+  c.route,
+  c.provider,
+  c.model,
+  count(*)::int as calls,
+  count(*) filter (where c.outcome = 'success')::int as successes,
+  count(*) filter (where c.outcome = 'provider_error')::int as provider_errors,
+  count(*) filter (where c.outcome = 'parse_failure')::int as parse_failures,
+  count(*) filter (where c.outcome = 'invalid_output')::int as invalid_outputs,
+  count(*) filter (where c.outcome = 'unavailable')::int as unavailable,
+  count(*) filter (where c.failover and c.outcome = 'success')::int as failover_successes,
+  coalesce(sum(c.input_tokens), 0)::bigint as input_tokens,
+  coalesce(sum(c.output_tokens), 0)::bigint as output_tokens,
+  round(avg(c.latency_ms))::int as average_latency_ms,
+  (percentile_cont(0.95) within group (order by c.latency_ms))::int as p95_latency_ms,
+  coalesce(sum(c.cost_usd), 0)::numeric(14, 6) as cost_usd,
+  count(*) filter (where c.outcome = 'fallback')::int as fallbacks
+from public.llm_calls c
+group by 1, c.route, c.provider, c.model;
@@ -0,0 +1,39 @@
+-- Limite de perguntas por conversa com o Wolfi, aplicado na BD: contar e inserir a
+-- pergunta numa só transação, para pedidos em paralelo não passarem do limite.
+
+-- Guarda a pergunta se a conversa ainda tiver perguntas disponíveis.
+-- Sem linhas devolvidas: a conversa chegou ao limite.
+create or replace function public.insert_tutor_question(
+  p_attempt_id uuid,
+  p_student_id uuid,
+  p_content text,
+  p_max_questions int
+)
+returns setof public.tutor_messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_asked int;
+begin
+  -- pedidos da mesma tentativa esperam uns pelos outros
+  perform 1 from attempts where id = p_attempt_id for update;
+
+  select count(*) into v_asked
+  from tutor_messages
+  where attempt_id = p_attempt_id and role = 'user';
+
+  if v_asked >= p_max_questions then
+    return;
+  end if;
+
+  return query
+  insert into tutor_messages (attempt_id, student_id, role, content)
+  values (p_attempt_id, p_student_id, 'user', p_content)
+  returning *;
+end;
+$$;
+
+revoke execute on function public.insert_tutor_question(uuid, uuid, text, int)
+  from public, anon, authenticated;